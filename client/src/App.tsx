@@ -36,7 +36,10 @@ function Router() {
       <ProtectedRoute path="/old-lessons" component={HomePage} />
       <ProtectedRoute path="/lessons" component={LessonsPage} />
       <ProtectedRoute path="/lesson/:lessonId" component={LessonPage} />
+      <ProtectedRoute path="/review" component={QuizPage} />
       <ProtectedRoute path="/quiz/:lessonId" component={QuizPage} />
+      <ProtectedRoute path="/worksheet/:documentId" component={QuizPage} />
+      <ProtectedRoute path="/document-quiz/:quizId" component={QuizPage} />
       <ProtectedRoute path="/settings" component={SettingsPage} />
       <ProtectedRoute path="/admin" component={AdminOverview} />
       <ProtectedRoute path="/admin/users" component={AdminUsers} />
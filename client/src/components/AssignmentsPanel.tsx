@@ -1,5 +1,6 @@
 import { useState, useRef, ChangeEvent } from 'react';
-import { Upload, FileText, Trash2, Edit2, Check, X, Clock, CheckCircle, AlertCircle, Loader } from 'lucide-react';
+import { Upload, FileText, Trash2, Edit2, Check, X, Clock, CheckCircle, AlertCircle, Loader, ListChecks, ShieldAlert, GraduationCap } from 'lucide-react';
+import { useLocation } from 'wouter';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
@@ -14,7 +15,7 @@ interface Document {
   grade?: string;
   description?: string;
   keepForFutureSessions: boolean;
-  processingStatus: 'queued' | 'processing' | 'ready' | 'failed';
+  processingStatus: 'queued' | 'processing' | 'ready' | 'failed' | 'quarantined';
   processingError?: string;
   retryCount?: number;
   nextRetryAt?: string | null;
@@ -23,6 +24,7 @@ interface Document {
 
 interface AssignmentsPanelProps {
   userId: string;
+  studentId?: string; // generated quizzes are saved for this student
   onSelectionChange: (selectedIds: string[]) => void;
 }
 
@@ -32,6 +34,7 @@ function StatusPill({ status, error, retryCount }: { status: Document['processin
     processing: { label: 'Processing', icon: Loader, className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200 border border-yellow-300 dark:border-yellow-700 animate-pulse' },
     queued: { label: retryCount ? `Queued (retry ${retryCount})` : 'Queued', icon: Clock, className: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 border border-blue-300 dark:border-blue-700' },
     failed: { label: 'Failed', icon: AlertCircle, className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 border border-red-300 dark:border-red-700' },
+    quarantined: { label: 'Under review', icon: ShieldAlert, className: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200 border border-amber-300 dark:border-amber-700' },
   };
 
   const config = statusConfig[status];
@@ -49,7 +52,7 @@ function StatusPill({ status, error, retryCount }: { status: Document['processin
   );
 }
 
-export function AssignmentsPanel({ userId, onSelectionChange }: AssignmentsPanelProps) {
+export function AssignmentsPanel({ userId, studentId, onSelectionChange }: AssignmentsPanelProps) {
   const [selectedDocuments, setSelectedDocuments] = useState<string[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadMetadata, setUploadMetadata] = useState({
@@ -62,6 +65,7 @@ export function AssignmentsPanel({ userId, onSelectionChange }: AssignmentsPanel
   const fileInputRef = useRef<HTMLInputElement>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
 
   // Fetch user documents - refetch periodically if there are processing/queued documents
   const { data: documents = [], isLoading } = useQuery({
@@ -86,8 +90,13 @@ export function AssignmentsPanel({ userId, onSelectionChange }: AssignmentsPanel
         body: formData,
       });
       
+      if (response.status === 413) {
+        throw new Error('You have used all of your document storage. Delete some documents and try again.');
+      }
       if (!response.ok) {
-        throw new Error('Upload failed');
+        // Screening rejections (wrong file type, too large, virus scan) explain themselves
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Upload failed');
       }
       
       return response.json();
@@ -100,10 +109,10 @@ export function AssignmentsPanel({ userId, onSelectionChange }: AssignmentsPanel
         description: 'Your document is being processed...',
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: 'Upload failed',
-        description: 'Please try again with a smaller file or different format.',
+        description: error.message !== 'Upload failed' ? error.message : 'Please try again with a smaller file or different format.',
         variant: 'destructive',
       });
     },
@@ -123,6 +132,24 @@ export function AssignmentsPanel({ userId, onSelectionChange }: AssignmentsPanel
     },
   });
 
+  // Quiz generation: questions are written from the document, then the quiz opens
+  const quizMutation = useMutation({
+    mutationFn: async (documentId: string) => {
+      const response = await apiRequest('POST', `/api/documents/${documentId}/quizzes`, { studentId });
+      return response.json() as Promise<{ id: string }>;
+    },
+    onSuccess: (quiz) => {
+      setLocation(`/document-quiz/${quiz.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not make a quiz',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Update mutation
   const updateMutation = useMutation({
     mutationFn: async ({ id, updates }: { id: string; updates: Partial<Document> }) => {
@@ -147,11 +174,13 @@ export function AssignmentsPanel({ userId, onSelectionChange }: AssignmentsPanel
       return;
     }
 
-    const allowedTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain'];
-    if (!allowedTypes.includes(file.type)) {
+    const allowedTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain', 'image/png', 'image/jpeg', 'image/heic', 'image/heif'];
+    // Browsers other than Safari often leave the type of HEIC photos empty
+    const isHeic = /\.(heic|heif)$/i.test(file.name);
+    if (!allowedTypes.includes(file.type) && !isHeic) {
       toast({
         title: 'Invalid file type',
-        description: 'Please choose a PDF, Word document, or text file.',
+        description: 'Please choose a PDF, Word document, text file, or photo.',
         variant: 'destructive',
       });
       return;
@@ -227,7 +256,7 @@ export function AssignmentsPanel({ userId, onSelectionChange }: AssignmentsPanel
             <input
               ref={fileInputRef}
               type="file"
-              accept=".pdf,.docx,.txt"
+              accept=".pdf,.docx,.txt,.png,.jpg,.jpeg,.heic,.heif"
               onChange={handleFileSelect}
               className="block w-full text-sm text-gray-500 dark:text-gray-400
                 file:mr-4 file:py-2 file:px-4
@@ -368,6 +397,29 @@ export function AssignmentsPanel({ userId, onSelectionChange }: AssignmentsPanel
                       </td>
                       <td className="p-3">
                         <div className="actions flex gap-2">
+                          {document.processingStatus === 'ready' && (
+                            <button
+                              onClick={() => setLocation(`/worksheet/${document.id}`)}
+                              className="p-2 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 transition-colors"
+                              title="Practice worksheet questions"
+                              data-testid={`button-practice-${document.id}`}
+                            >
+                              <ListChecks className="w-4 h-4" />
+                            </button>
+                          )}
+                          {document.processingStatus === 'ready' && (
+                            <button
+                              onClick={() => quizMutation.mutate(document.id)}
+                              disabled={quizMutation.isPending}
+                              className="p-2 text-gray-500 hover:text-green-600 dark:text-gray-400 dark:hover:text-green-400 transition-colors disabled:opacity-50"
+                              title="Make a practice quiz from this document"
+                              data-testid={`button-quiz-${document.id}`}
+                            >
+                              {quizMutation.isPending && quizMutation.variables === document.id
+                                ? <Loader className="w-4 h-4 animate-spin" />
+                                : <GraduationCap className="w-4 h-4" />}
+                            </button>
+                          )}
                           <button
                             onClick={() => deleteMutation.mutate(document.id)}
                             className="p-2 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 transition-colors"
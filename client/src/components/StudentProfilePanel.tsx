@@ -4,6 +4,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { TutorInstructions } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import {
   Sheet,
@@ -32,7 +33,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Trash2, Download } from "lucide-react";
+import { Trash2, Download, ClipboardList } from "lucide-react";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -65,13 +66,153 @@ interface Student {
 
 interface UserDocument {
   id: string;
-  title: string;
+  title: string | null;
+  originalName: string;
   processingStatus: string;
+  tutorInstructions?: TutorInstructions | null;
 }
 
 interface StudentPin {
-  id: string;
-  docId: string;
+  pin: {
+    id: string;
+    docId: string;
+    tutorInstructions: TutorInstructions | null;
+  };
+  document: UserDocument;
+}
+
+const ANSWER_POLICY_LABELS: Record<NonNullable<TutorInstructions["answerPolicy"]>, string> = {
+  answers: "Can give answers",
+  hints: "Hints only",
+  check: "Only check my work",
+};
+
+// Blank fields are left out so the document's own instructions apply
+function cleanInstructions(instructions: TutorInstructions): TutorInstructions | null {
+  const cleaned = Object.fromEntries(
+    Object.entries(instructions).filter(([, value]) => typeof value === "string" && value.trim() !== "")
+  ) as TutorInstructions;
+  return Object.keys(cleaned).length > 0 ? cleaned : null;
+}
+
+interface PinInstructionsEditorProps {
+  studentId: string;
+  pin: StudentPin["pin"];
+  documentTitle: string;
+  onDone: () => void;
+}
+
+function PinInstructionsEditor({ studentId, pin, documentTitle, onDone }: PinInstructionsEditorProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<TutorInstructions>(pin.tutorInstructions || {});
+
+  useEffect(() => {
+    setDraft(pin.tutorInstructions || {});
+  }, [pin]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (instructions: TutorInstructions | null) => {
+      const res = await apiRequest('PUT', `/api/students/${studentId}/pins/${pin.id}`, { tutorInstructions: instructions });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/students', studentId, 'pins'] });
+      toast({ title: "Tutor instructions saved" });
+      onDone();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error saving instructions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const update = (field: keyof TutorInstructions, value: string) => {
+    setDraft(current => ({ ...current, [field]: value }));
+  };
+
+  return (
+    <div className="space-y-3 border rounded-md p-3 mt-3" data-testid={`editor-pin-instructions-${pin.id}`}>
+      <div className="text-sm font-medium">Tutor instructions for "{documentTitle}"</div>
+
+      <div className="space-y-1">
+        <label className="text-sm text-muted-foreground">Answers</label>
+        <Select
+          value={draft.answerPolicy || "default"}
+          onValueChange={(value) => update("answerPolicy", value === "default" ? "" : value)}
+        >
+          <SelectTrigger data-testid="select-answer-policy">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="default">Tutor decides</SelectItem>
+            {Object.entries(ANSWER_POLICY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className="text-sm text-muted-foreground">Problems</label>
+          <Input
+            placeholder="e.g., 5-10, 12"
+            value={draft.focusProblems || ""}
+            onChange={(e) => update("focusProblems", e.target.value)}
+            data-testid="input-focus-problems"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm text-muted-foreground">Pages</label>
+          <Input
+            placeholder="e.g., 2-3"
+            value={draft.focusPages || ""}
+            onChange={(e) => update("focusPages", e.target.value)}
+            data-testid="input-focus-pages"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-sm text-muted-foreground">Due date</label>
+        <Input
+          type="date"
+          value={draft.dueDate || ""}
+          onChange={(e) => update("dueDate", e.target.value)}
+          data-testid="input-due-date"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-sm text-muted-foreground">Notes for the tutor</label>
+        <Textarea
+          placeholder="e.g., Working on showing every step"
+          value={draft.notes || ""}
+          maxLength={500}
+          onChange={(e) => update("notes", e.target.value)}
+          data-testid="textarea-instruction-notes"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          size="sm"
+          onClick={() => saveMutation.mutate(cleanInstructions(draft))}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-instructions"
+        >
+          Save Instructions
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={onDone}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
 }
 
 interface StudentProfilePanelProps {
@@ -92,6 +233,7 @@ export function StudentProfilePanel({
   const { toast } = useToast();
   const [goalsText, setGoalsText] = useState("");
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [editingPinId, setEditingPinId] = useState<string | null>(null);
 
   // Fetch student data if editing
   const { data: student } = useQuery<Student>({
@@ -100,8 +242,9 @@ export function StudentProfilePanel({
   });
 
   // Fetch user documents for pinning
-  const { data: documents = [] } = useQuery<UserDocument[]>({
-    queryKey: ['/api/documents'],
+  const { data: documents = [] } = useQuery<{ documents: UserDocument[] }, Error, UserDocument[]>({
+    queryKey: ['/api/documents/list'],
+    select: (data) => data.documents,
   });
 
   // Fetch pinned documents
@@ -245,9 +388,9 @@ export function StudentProfilePanel({
   const pinMutation = useMutation({
     mutationFn: async ({ docId, isPinned }: { docId: string; isPinned: boolean }) => {
       if (isPinned) {
-        const pin = pins.find(p => p.docId === docId);
-        if (pin) {
-          await apiRequest('DELETE', `/api/students/${studentId}/pins/${pin.id}`);
+        const pinned = pins.find(p => p.pin.docId === docId);
+        if (pinned) {
+          await apiRequest('DELETE', `/api/students/${studentId}/pins/${pinned.pin.id}`);
         }
       } else {
         await apiRequest('POST', `/api/students/${studentId}/pins`, { docId });
@@ -277,6 +420,7 @@ export function StudentProfilePanel({
   const readyDocuments = documents.filter(
     doc => doc.processingStatus === 'ready' || doc.processingStatus === 'completed'
   );
+  const editingPin = pins.find(p => p.pin.id === editingPinId);
 
   return (
     <>
@@ -417,7 +561,8 @@ export function StudentProfilePanel({
                   ) : (
                     <div className="space-y-2 max-h-[200px] overflow-y-auto border rounded-md p-3">
                       {readyDocuments.map((doc) => {
-                        const isPinned = pins.some(p => p.docId === doc.id);
+                        const pinned = pins.find(p => p.pin.docId === doc.id);
+                        const isPinned = !!pinned;
                         return (
                           <div
                             key={doc.id}
@@ -436,13 +581,34 @@ export function StudentProfilePanel({
                               htmlFor={`pin-${doc.id}`}
                               className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
                             >
-                              {doc.title}
+                              {doc.title || doc.originalName}
                             </label>
+                            {pinned && (
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                className="ml-auto h-7"
+                                onClick={() => setEditingPinId(pinned.pin.id)}
+                                data-testid={`button-pin-instructions-${doc.id}`}
+                              >
+                                <ClipboardList className="h-4 w-4 mr-1" />
+                                {pinned.pin.tutorInstructions ? "Edit instructions" : "Add instructions"}
+                              </Button>
+                            )}
                           </div>
                         );
                       })}
                     </div>
                   )}
+                  {studentId && editingPin && (
+                    <PinInstructionsEditor
+                      studentId={studentId}
+                      pin={editingPin.pin}
+                      documentTitle={editingPin.document.title || editingPin.document.originalName}
+                      onDone={() => setEditingPinId(null)}
+                    />
+                  )}
                 </div>
               )}
 
@@ -8,9 +8,10 @@ import { AsrDebugHud } from "@/components/asr-debug-hud";
 
 interface VoiceControlsProps {
   lessonId: string;
+  studentId?: string; // the active student profile, if one is selected
 }
 
-export function VoiceControls({ lessonId }: VoiceControlsProps) {
+export function VoiceControls({ lessonId, studentId }: VoiceControlsProps) {
   const { 
     isActive, 
     isConnected, 
@@ -22,7 +23,7 @@ export function VoiceControls({ lessonId }: VoiceControlsProps) {
     error,
     conversationHistory,
     activeBanner
-  } = useVoice();
+  } = useVoice({ studentId });
 
   const lastMessageRef = useRef<HTMLDivElement>(null);
 
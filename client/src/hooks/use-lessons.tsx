@@ -10,6 +10,8 @@ interface Lesson {
   orderIndex: number;
   estimatedMinutes: number;
   content: any;
+  availability?: 'locked' | 'unlocked' | 'recommended';
+  missingPrerequisites?: string[];
   progress?: {
     status: string;
     progressPercentage: number;
@@ -22,13 +22,16 @@ interface ConversationMessage {
   banner?: string;
 }
 
-export function useVoice() {
+export function useVoice(options: { studentId?: string } = {}) {
   const [isActive, setIsActive] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [sessionStartTime, setSessionStartTime] = useState<number | null>(null);
+  // Server-metered session (billing is computed server-side from heartbeats)
+  const [meterId, setMeterId] = useState<string | null>(null);
+  const [heartbeatIntervalMs, setHeartbeatIntervalMs] = useState(30000);
   const [conversationHistory, setConversationHistory] = useState<ConversationMessage[]>([]);
   const [activeBanner, setActiveBanner] = useState<string | null>(null);
   
@@ -37,6 +40,11 @@ export function useVoice() {
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const conversationTimeoutsRef = useRef<NodeJS.Timeout[]>([]);
+  // Read at request time: the realtime handlers are set up once per session
+  const studentIdRef = useRef(options.studentId);
+  studentIdRef.current = options.studentId;
+  // The session's documents, as chosen or pinned by /api/context/session-start
+  const documentIdsRef = useRef<string[] | undefined>(undefined);
 
   // Get voice token mutation
   const getTokenMutation = useMutation({
@@ -62,9 +70,9 @@ export function useVoice() {
 
   // End session mutation
   const endSessionMutation = useMutation({
-    mutationFn: async (data: { sessionId: string; voiceMinutesUsed: number; transcript?: string }) => {
+    mutationFn: async (data: { sessionId: string; transcript?: string }) => {
+      // Saves the transcript; minutes are billed by the metered session
       const response = await apiRequest("PUT", `/api/sessions/${data.sessionId}/end`, {
-        voiceMinutesUsed: data.voiceMinutesUsed,
         transcript: data.transcript,
       });
       return await response.json();
@@ -125,6 +133,8 @@ export function useVoice() {
               message: userInput,
               lessonId: lessonId || 'general',
               sessionId: sessionId,
+              studentId: studentIdRef.current,
+              documentIds: documentIdsRef.current,
               speechDuration,
               speechConfidence,
               // Energy level will be determined by server from session or defaults
@@ -418,11 +428,25 @@ export function useVoice() {
   }, []);
 
   const startVoiceSession = useCallback(async (lessonId: string) => {
+    let openedMeterId: string | null = null;
     try {
       setError(null);
       
       // Start the learning session first
       const session = await startSessionMutation.mutateAsync(lessonId);
+
+      // Open a metered session before connecting
+      const meterResponse = await apiRequest("POST", "/api/session/meter/start", { sessionType: "voice" });
+      const meter = await meterResponse.json();
+      openedMeterId = meter.meterId;
+      setMeterId(meter.meterId);
+      setHeartbeatIntervalMs(meter.heartbeatIntervalMs || 30000);
+
+      // Pick the documents the tutor draws on for this session; without them the server falls back to the student's pins
+      documentIdsRef.current = await apiRequest("POST", "/api/context/session-start", { studentId: studentIdRef.current })
+        .then(response => response.json())
+        .then(context => context.documentIds)
+        .catch(() => undefined);
       
       // Get voice token and config
       const { token, config } = await getTokenMutation.mutateAsync();
@@ -493,8 +517,11 @@ export function useVoice() {
         variant: "destructive",
       });
       
-      // Cleanup on error
+      // Cleanup on error; stop billing right away rather than after the heartbeat grace period
       cleanup();
+      if (openedMeterId) {
+        apiRequest("POST", `/api/session/meter/${openedMeterId}/end`).catch(() => undefined);
+      }
     }
   }, [getTokenMutation, startSessionMutation, initializeAudioContext, getUserMedia, setupRealtimeConnection, toast]);
 
@@ -502,22 +529,20 @@ export function useVoice() {
     // Always cleanup first to ensure UI state is clean
     cleanup();
     
-    // Calculate actual elapsed time in minutes
-    const sessionDuration = sessionStartTime ? Date.now() - sessionStartTime : 0;
-    const voiceMinutesUsed = Math.ceil(sessionDuration / 60000);
-    
     // Try to save session data, but don't let failures affect the UI
     if (sessionId) {
       try {
-        await endSessionMutation.mutateAsync({
-          sessionId,
-          voiceMinutesUsed,
-          transcript: "Voice session transcript placeholder", // Would be actual transcript
-        });
+        let billedMinutes = 0;
+        if (meterId) {
+          const meterResponse = await apiRequest("POST", `/api/session/meter/${meterId}/end`);
+          billedMinutes = (await meterResponse.json()).billedMinutes || 0;
+        }
+        // The server fills in the transcript it recorded for this session
+        await endSessionMutation.mutateAsync({ sessionId });
         
         toast({
           title: "Voice session ended",
-          description: `Session saved. Used ${voiceMinutesUsed} minutes.`,
+          description: `Session saved. Used ${billedMinutes} minutes.`,
         });
       } catch (error: any) {
         // Silently handle API errors - user doesn't need to see them
@@ -534,7 +559,7 @@ export function useVoice() {
         description: "Session stopped successfully.",
       });
     }
-  }, [sessionId, endSessionMutation, toast, sessionStartTime]);
+  }, [sessionId, meterId, endSessionMutation, toast]);
 
   const cleanup = useCallback(() => {
     // Clear all conversation timeouts to prevent callbacks after session ends
@@ -564,6 +589,7 @@ export function useVoice() {
     setIsMuted(false);
     setError(null);
     setSessionId(null);
+    setMeterId(null);
     setSessionStartTime(null);
     setConversationHistory([]); // Clear conversation history on session end
   }, []);
@@ -580,6 +606,45 @@ export function useVoice() {
     }
   }, [isConnected]);
 
+  // Heartbeat the metered session while it's open; the server stops billing if these stop
+  useEffect(() => {
+    if (!meterId) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await apiRequest("POST", `/api/session/meter/${meterId}/heartbeat`);
+        const status = await response.json();
+
+        if (!status.active) {
+          // Server closed the session (out of minutes or timed out)
+          cleanup();
+          toast({
+            title: "Voice session ended",
+            description: "You're out of voice minutes for now.",
+            variant: "destructive",
+          });
+        }
+      } catch (error: any) {
+        console.error('Heartbeat failed:', error);
+      }
+    }, heartbeatIntervalMs);
+
+    return () => clearInterval(interval);
+  }, [meterId, heartbeatIntervalMs, cleanup, toast]);
+
+  // Handle page close/refresh: end the metered session right away
+  useEffect(() => {
+    const handleBeforeUnload = () => {
+      if (meterId) {
+        // If the beacon never arrives, the server closes the session once heartbeats stop
+        navigator.sendBeacon(`/api/session/meter/${meterId}/end`);
+      }
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [meterId]);
+
   // Cleanup on unmount
   useEffect(() => {
     return cleanup;
@@ -1,8 +1,11 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { AdminLayout } from "@/components/admin-layout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { FileText, HardDrive } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Cpu, DollarSign, FileText, HardDrive, ShieldAlert } from "lucide-react";
 
 interface DocumentAnalytics {
   totalDocuments?: number;
@@ -10,23 +13,125 @@ interface DocumentAnalytics {
   avgPerUser?: string;
 }
 
+interface CostReport {
+  model: string;
+  documents: number;
+  duplicateDocuments: number;
+  storageBytes: number;
+  uniqueStorageBytes: number;
+  chunks: number;
+  embeddingTokens: number;
+  reusedEmbeddingTokens: number;
+  embeddingCostUsd: number;
+  savedCostUsd: number;
+  staleEmbeddings: number;
+}
+
 interface DocumentData {
   analytics: DocumentAnalytics;
+  costReport?: CostReport;
   documents?: Array<{
     id: string;
-    fileName: string;
+    title: string | null;
+    originalName: string;
+    fileType: string;
     fileSize: number;
-    username: string;
+    ownerEmail: string;
+    processingStatus: string;
+    quarantineReason: string | null;
+    screeningFlags: string[] | null;
+    chunkCount: number;
+    embeddingTokens: number;
+    reusedEmbeddingTokens: number;
     createdAt: string;
   }>;
 }
 
+interface EmbeddingMigration {
+  status: {
+    state: "idle" | "running" | "completed" | "failed";
+    provider: string | null;
+    model: string | null;
+    userId: string | null;
+    embedded: number;
+    reused: number;
+    pruned: number;
+    error: string | null;
+  };
+  defaultProvider: string;
+  providers: Array<{ name: string; model: string }>;
+  embeddingsByModel: Array<{ model: string | null; count: number }>;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatUsd(amount: number): string {
+  return amount < 0.01 && amount > 0 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
+
 export default function AdminDocuments() {
   const { data: documents, isLoading } = useQuery<DocumentData>({
     queryKey: ["/api/admin/documents"],
   });
 
+  const { toast } = useToast();
+  const { data: migration } = useQuery<EmbeddingMigration>({
+    queryKey: ["/api/admin/embeddings/migration"],
+    refetchInterval: (query) => query.state.data?.status.state === "running" ? 5000 : false,
+  });
+
+  const migrateMutation = useMutation({
+    mutationFn: async (provider: string) => {
+      const response = await apiRequest("POST", "/api/admin/embeddings/migration", { provider });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/embeddings/migration"] });
+      toast({
+        title: "Migration started",
+        description: "Documents are being re-embedded in the background.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start migration",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "approve" | "reject" }) => {
+      const response = await apiRequest("POST", `/api/admin/documents/${id}/review`, { action });
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/documents"] });
+      toast({
+        title: action === "approve" ? "Document released" : "Document deleted",
+        description: action === "approve"
+          ? "It has been queued for processing."
+          : "The document and its files have been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review document",
+        variant: "destructive",
+      });
+    },
+  });
+
   const stats = documents?.analytics || {};
+  const costs = documents?.costReport;
+  const migrationStatus = migration?.status;
+  const quarantined = documents?.documents?.filter((doc) => doc.processingStatus === "quarantined") || [];
 
   return (
     <AdminLayout>
@@ -87,6 +192,144 @@ export default function AdminDocuments() {
           </Card>
         </div>
 
+        {/* Storage & Embedding Costs */}
+        {costs && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <DollarSign className="w-5 h-5" />
+                Storage & Embedding Costs
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-6" data-testid="cost-report">
+                <div>
+                  <p className="text-sm text-muted-foreground">Embedding spend ({costs.model})</p>
+                  <p className="text-xl font-bold">{formatUsd(costs.embeddingCostUsd)}</p>
+                  <p className="text-xs text-muted-foreground">{costs.embeddingTokens.toLocaleString()} tokens</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Saved by reuse</p>
+                  <p className="text-xl font-bold text-green-600">{formatUsd(costs.savedCostUsd)}</p>
+                  <p className="text-xs text-muted-foreground">{costs.reusedEmbeddingTokens.toLocaleString()} tokens</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Storage</p>
+                  <p className="text-xl font-bold">{formatBytes(costs.storageBytes)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatBytes(costs.uniqueStorageBytes)} unique · {costs.duplicateDocuments} duplicate upload{costs.duplicateDocuments === 1 ? "" : "s"}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Chunks</p>
+                  <p className="text-xl font-bold">{costs.chunks.toLocaleString()}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {costs.staleEmbeddings > 0 ? `${costs.staleEmbeddings} awaiting re-embedding` : "All on the current model"}
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Embedding Providers */}
+        {migration && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Cpu className="w-5 h-5" />
+                Embedding Providers
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {migration.providers.map((provider) => {
+                  const vectors = migration.embeddingsByModel.find((row) => row.model === provider.model)?.count || 0;
+                  return (
+                    <div key={provider.name} className="flex items-center justify-between border rounded p-3">
+                      <div>
+                        <p className="font-medium">
+                          {provider.name}
+                          {provider.name === migration.defaultProvider && <Badge variant="outline" className="ml-2">default</Badge>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">{provider.model} · {vectors.toLocaleString()} vectors</p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={migrationStatus?.state === "running" || migrateMutation.isPending}
+                        onClick={() => migrateMutation.mutate(provider.name)}
+                        data-testid={`button-migrate-${provider.name}`}
+                      >
+                        Migrate all accounts
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+              {migrationStatus && migrationStatus.state !== "idle" && (
+                <p className="text-sm text-muted-foreground" data-testid="migration-status">
+                  {migrationStatus.state === "running" ? "Migrating" : migrationStatus.state === "completed" ? "Migrated" : "Migration failed"} to {migrationStatus.model}
+                  {migrationStatus.userId ? ` for account ${migrationStatus.userId}` : ""}: {migrationStatus.embedded} embedded, {migrationStatus.reused} reused, {migrationStatus.pruned} old vectors removed
+                  {migrationStatus.error ? ` (${migrationStatus.error})` : ""}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Quarantined uploads awaiting review */}
+        {quarantined.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldAlert className="w-5 h-5 text-amber-600" />
+                Awaiting Review ({quarantined.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {quarantined.map((doc) => (
+                <div key={doc.id} className="flex items-center justify-between border rounded p-3" data-testid={`quarantined-${doc.id}`}>
+                  <div>
+                    <p className="font-medium">{doc.title || doc.originalName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {doc.ownerEmail} · {new Date(doc.createdAt).toLocaleDateString()}
+                    </p>
+                    <p className="text-sm mt-1">{doc.quarantineReason || "Flagged by content screening"}</p>
+                    {doc.screeningFlags && doc.screeningFlags.length > 0 && (
+                      <div className="flex gap-1 mt-1">
+                        {doc.screeningFlags.map((flag) => (
+                          <Badge key={flag} variant="destructive">{flag}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ id: doc.id, action: "approve" })}
+                      data-testid={`button-approve-${doc.id}`}
+                    >
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ id: doc.id, action: "reject" })}
+                      data-testid={`button-reject-${doc.id}`}
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Documents Table */}
         <Card>
           <CardHeader>
@@ -108,23 +351,40 @@ export default function AdminDocuments() {
                       <th className="text-left p-3 font-semibold">Owner</th>
                       <th className="text-left p-3 font-semibold">Type</th>
                       <th className="text-left p-3 font-semibold">Size</th>
+                      <th className="text-left p-3 font-semibold">Status</th>
+                      <th className="text-left p-3 font-semibold">Chunks</th>
+                      <th className="text-left p-3 font-semibold">Embedding Tokens</th>
                       <th className="text-left p-3 font-semibold">Uploaded</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {documents?.documents?.map((doc: any) => (
+                    {documents?.documents?.map((doc) => (
                       <tr key={doc.id} className="border-b hover:bg-muted/50">
                         <td className="p-3">
-                          <p className="font-medium">{doc.filename}</p>
+                          <p className="font-medium">{doc.title || doc.originalName}</p>
                         </td>
                         <td className="p-3">
                           <span className="text-sm text-muted-foreground">{doc.ownerEmail}</span>
                         </td>
                         <td className="p-3">
-                          <Badge variant="outline">{doc.mimeType}</Badge>
+                          <Badge variant="outline">{doc.fileType}</Badge>
+                        </td>
+                        <td className="p-3">
+                          <span className="text-sm">{doc.fileSize ? formatBytes(doc.fileSize) : "N/A"}</span>
+                        </td>
+                        <td className="p-3">
+                          <Badge variant={doc.processingStatus === "quarantined" || doc.processingStatus === "failed" ? "destructive" : "secondary"}>
+                            {doc.processingStatus}
+                          </Badge>
+                        </td>
+                        <td className="p-3">
+                          <span className="text-sm">{doc.chunkCount}</span>
                         </td>
                         <td className="p-3">
-                          <span className="text-sm">{doc.fileSize || "N/A"}</span>
+                          <span className="text-sm">{doc.embeddingTokens.toLocaleString()}</span>
+                          {doc.reusedEmbeddingTokens > 0 && (
+                            <span className="text-xs text-green-600 ml-1">+{doc.reusedEmbeddingTokens.toLocaleString()} reused</span>
+                          )}
                         </td>
                         <td className="p-3">
                           <span className="text-sm text-muted-foreground">
@@ -134,7 +394,7 @@ export default function AdminDocuments() {
                       </tr>
                     )) || (
                       <tr>
-                        <td colSpan={5} className="p-8 text-center text-muted-foreground">
+                        <td colSpan={8} className="p-8 text-center text-muted-foreground">
                           No documents found
                         </td>
                       </tr>
@@ -119,6 +119,28 @@ export default function HomePage() {
             </Card>
           )}
 
+          {/* Next Best Lesson */}
+          {(resumeData as any)?.nextLesson && (resumeData as any).nextLesson.lessonId !== (resumeData as any)?.lessonId && (
+            <Card className="shadow-sm" data-testid="card-next-lesson">
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h2 className="text-xl font-semibold text-foreground">Up Next</h2>
+                    <p className="text-muted-foreground text-sm" data-testid="text-next-lesson">
+                      {(resumeData as any).nextLesson.subject} · {(resumeData as any).nextLesson.title}
+                    </p>
+                  </div>
+                  <Button
+                    onClick={() => setLocation(`/lesson/${(resumeData as any).nextLesson.lessonId}`)}
+                    data-testid="button-next-lesson"
+                  >
+                    {(resumeData as any).nextLesson.reason === 'in_progress' ? 'Continue' : 'Start Lesson'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Subject Progress Overview */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             {(dashboard as any)?.subjectProgress?.map((subject: any, index: number) => {
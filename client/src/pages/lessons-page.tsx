@@ -1,17 +1,22 @@
 import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { NavigationHeader } from "@/components/navigation-header";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useLessons } from "@/hooks/use-lessons";
-import { BookOpen, Clock, CheckCircle, Play } from "lucide-react";
+import { BookOpen, Clock, CheckCircle, Play, Lock } from "lucide-react";
 
 export default function LessonsPage() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
   const { subjects, isLoading, error } = useLessons();
+  const { data: review } = useQuery<{ totalDue: number }>({
+    queryKey: ["/api/review/due"],
+    enabled: !!user,
+  });
 
   if (isLoading) {
     return (
@@ -56,6 +61,11 @@ export default function LessonsPage() {
             <p className="text-muted-foreground text-lg">
               Choose a subject and start learning with your AI tutor
             </p>
+            {review && review.totalDue > 0 && (
+              <Button className="mt-4" onClick={() => setLocation("/review")} data-testid="button-start-review">
+                Review {review.totalDue} question{review.totalDue === 1 ? '' : 's'}
+              </Button>
+            )}
           </div>
 
           {/* Subjects and Lessons */}
@@ -86,12 +96,14 @@ export default function LessonsPage() {
                       const progress = lesson.progress?.progressPercentage || 0;
                       const isCompleted = lesson.progress?.status === 'completed' || lesson.progress?.status === 'mastered';
                       const isInProgress = lesson.progress?.status === 'in_progress';
+                      const isLocked = lesson.availability === 'locked';
+                      const isRecommended = lesson.availability === 'recommended';
                       
                       return (
                         <Card 
                           key={lesson.id} 
-                          className="hover:shadow-md transition-shadow cursor-pointer"
-                          onClick={() => setLocation(`/lesson/${lesson.id}`)}
+                          className={isLocked ? "opacity-60" : `hover:shadow-md transition-shadow cursor-pointer${isRecommended ? " ring-2 ring-primary" : ""}`}
+                          onClick={() => !isLocked && setLocation(`/lesson/${lesson.id}`)}
                           data-testid={`card-lesson-${lesson.id}`}
                         >
                           <CardContent className="pt-4">
@@ -108,7 +120,9 @@ export default function LessonsPage() {
                                   </p>
                                 </div>
                                 <div className="ml-2">
-                                  {isCompleted ? (
+                                  {isLocked ? (
+                                    <Lock className="w-5 h-5 text-muted-foreground" />
+                                  ) : isCompleted ? (
                                     <CheckCircle className="w-5 h-5 text-green-500" />
                                   ) : isInProgress ? (
                                     <Play className="w-5 h-5 text-primary" />
@@ -138,7 +152,7 @@ export default function LessonsPage() {
                                   <span>{lesson.estimatedMinutes || 15} min</span>
                                 </div>
                                 <Badge variant={isCompleted ? "default" : isInProgress ? "secondary" : "outline"} className="text-xs">
-                                  {isCompleted ? "Completed" : isInProgress ? "In Progress" : "Not Started"}
+                                  {isLocked ? "Locked" : isCompleted ? "Completed" : isInProgress ? "In Progress" : isRecommended ? "Recommended" : "Not Started"}
                                 </Badge>
                               </div>
 
@@ -147,9 +161,10 @@ export default function LessonsPage() {
                                 className="w-full" 
                                 variant={isCompleted ? "outline" : "default"}
                                 size="sm"
+                                disabled={isLocked}
                                 data-testid={`button-start-lesson-${lesson.id}`}
                               >
-                                {isCompleted ? "Review Lesson" : isInProgress ? "Continue" : "Start Lesson"}
+                                {isLocked ? "Complete prerequisites first" : isCompleted ? "Review Lesson" : isInProgress ? "Continue" : "Start Lesson"}
                               </Button>
                             </div>
                           </CardContent>
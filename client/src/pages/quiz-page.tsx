@@ -4,6 +4,7 @@ import { useParams, useLocation } from "wouter";
 import { NavigationHeader } from "@/components/navigation-header";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -16,8 +17,624 @@ interface QuizQuestion {
   visual?: string;
 }
 
+interface DueReviewItem {
+  reviewItemId: string;
+  lessonId: string;
+  lessonTitle: string;
+  question: string;
+  options: string[];
+  visual?: string;
+}
+
+interface ReviewResult {
+  correct: boolean;
+  correctAnswer: number;
+  explanation: string;
+  nextDueAt: string;
+}
+
+// Review mode: due items from every lesson, scheduled by the server (SM-2)
+function ReviewSession() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [result, setResult] = useState<ReviewResult | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+
+  // Snapshot the queue once so answered items don't reshuffle mid-session
+  const { data, isLoading } = useQuery<{ items: DueReviewItem[]; totalDue: number }>({
+    queryKey: ["/api/review/due"],
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+
+  const answerMutation = useMutation({
+    mutationFn: async (data: { reviewItemId: string; answer: number }) => {
+      const response = await apiRequest("POST", `/api/review/${data.reviewItemId}/answer`, { answer: data.answer });
+      return await response.json() as ReviewResult;
+    },
+    onSuccess: (reviewResult) => {
+      setResult(reviewResult);
+      if (reviewResult.correct) setCorrectCount(prev => prev + 1);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error submitting answer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const items = data?.items || [];
+  const finished = !!data && currentIndex >= items.length;
+
+  const handleFinish = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/review/due"] });
+    setLocation("/lessons");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="flex items-center justify-center min-h-[50vh]">
+          <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (finished) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="flex items-center justify-center min-h-[50vh]">
+          <div className="text-center">
+            <h2 className="text-2xl font-bold text-foreground mb-2" data-testid="text-review-complete">
+              {items.length > 0 ? "Review complete! 🎉" : "Nothing to review right now"}
+            </h2>
+            <p className="text-muted-foreground mb-4">
+              {items.length > 0
+                ? `You got ${correctCount} of ${items.length} right. Missed questions will come back soon.`
+                : "Questions you miss in lesson quizzes will show up here when they're due."}
+            </p>
+            <Button onClick={handleFinish} data-testid="button-finish-review">
+              Back to Lessons
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const item = items[currentIndex];
+
+  const handleSubmit = () => {
+    if (selectedAnswer === null) return;
+    answerMutation.mutate({ reviewItemId: item.reviewItemId, answer: selectedAnswer });
+  };
+
+  const handleNext = () => {
+    setCurrentIndex(currentIndex + 1);
+    setSelectedAnswer(null);
+    setResult(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader />
+      
+      <div className="flex-1 p-6">
+        <div className="max-w-4xl mx-auto">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-foreground mb-2" data-testid="text-review-title">
+              Review
+            </h1>
+            <p className="text-muted-foreground">From: {item.lessonTitle}</p>
+            <div className="flex items-center justify-center space-x-4 mt-4">
+              <span className="text-sm text-muted-foreground">
+                Question {currentIndex + 1} of {items.length}
+              </span>
+              <Progress value={Math.round(((currentIndex + 1) / items.length) * 100)} className="w-32" />
+            </div>
+          </div>
+
+          <Card className="shadow-sm mb-6">
+            <CardContent className="pt-8">
+              <div className="text-center mb-8">
+                <h2 className="text-4xl font-bold text-foreground mb-4" data-testid="text-review-question">
+                  {item.question}
+                </h2>
+                
+                {item.visual && (
+                  <div className="mb-8" dangerouslySetInnerHTML={{ __html: item.visual }} />
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-2xl mx-auto">
+                {item.options.map((option, index) => (
+                  <Button
+                    key={index}
+                    variant={
+                      result
+                        ? index === result.correctAnswer ? "default" : index === selectedAnswer ? "destructive" : "outline"
+                        : selectedAnswer === index ? "default" : "outline"
+                    }
+                    className="h-auto p-6 text-xl font-semibold text-center"
+                    onClick={() => !result && setSelectedAnswer(index)}
+                    data-testid={`button-review-option-${index}`}
+                  >
+                    {option}
+                  </Button>
+                ))}
+              </div>
+
+              {result && (
+                <p className="text-center text-muted-foreground mt-6" data-testid="text-review-explanation">
+                  {result.correct ? "Correct! " : "Not quite. "}{result.explanation}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            {result ? (
+              <Button onClick={handleNext} data-testid="button-review-next">
+                {currentIndex < items.length - 1 ? "Next Question" : "Finish Review"}
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSubmit}
+                disabled={selectedAnswer === null || answerMutation.isPending}
+                data-testid="button-review-submit"
+              >
+                Check Answer
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface WorksheetQuestion {
+  id: string;
+  number: string;
+  page: number | null;
+  section: string | null;
+  prompt: string;
+  questionType: 'mcq' | 'math' | 'short' | 'open';
+  options: string[];
+  hasAnswerKey: boolean;
+}
+
+interface WorksheetCheckResult {
+  correct: boolean;
+  message: string;
+  credit: number;
+}
+
+// Worksheet mode: the questions found on an uploaded document, one at a time.
+// "?problem=3" starts at that problem.
+function WorksheetSession({ documentId }: { documentId: string }) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const [currentIndex, setCurrentIndex] = useState<number | null>(null);
+  const [answer, setAnswer] = useState("");
+  const [result, setResult] = useState<WorksheetCheckResult | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+
+  const { data, isLoading } = useQuery<{ documentId: string; questions: WorksheetQuestion[] }>({
+    queryKey: ["/api/documents", documentId, "questions"],
+    refetchOnWindowFocus: false,
+  });
+
+  const questions = data?.questions || [];
+
+  useEffect(() => {
+    if (!data || currentIndex !== null) return;
+    const problem = new URLSearchParams(window.location.search).get("problem");
+    const start = problem ? data.questions.findIndex(question => question.number === problem) : -1;
+    setCurrentIndex(Math.max(start, 0));
+  }, [data, currentIndex]);
+
+  const checkMutation = useMutation({
+    mutationFn: async (data: { questionId: string; answer: string }) => {
+      const response = await apiRequest("POST", `/api/documents/${documentId}/questions/${data.questionId}/check`, { answer: data.answer });
+      return await response.json() as WorksheetCheckResult;
+    },
+    onSuccess: (checkResult) => {
+      setResult(checkResult);
+      if (checkResult.correct) setCorrectCount(prev => prev + 1);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error checking answer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || currentIndex === null) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="flex items-center justify-center min-h-[50vh]">
+          <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (currentIndex >= questions.length) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="flex items-center justify-center min-h-[50vh]">
+          <div className="text-center">
+            <h2 className="text-2xl font-bold text-foreground mb-2" data-testid="text-worksheet-complete">
+              {questions.length > 0 ? "Worksheet complete! 🎉" : "No questions found"}
+            </h2>
+            <p className="text-muted-foreground mb-4">
+              {questions.length > 0
+                ? `You got ${correctCount} right.`
+                : "We couldn't find numbered questions in this document. Try asking your tutor about it instead."}
+            </p>
+            <Button onClick={() => setLocation("/")} data-testid="button-finish-worksheet">
+              Go Home
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const question = questions[currentIndex];
+  const location = [question.page ? `Page ${question.page}` : null, question.section].filter(Boolean).join(" · ");
+
+  const handleSubmit = (value: string) => {
+    if (!value.trim()) return;
+    checkMutation.mutate({ questionId: question.id, answer: value });
+  };
+
+  const handleNext = () => {
+    setCurrentIndex(currentIndex + 1);
+    setAnswer("");
+    setResult(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader />
+
+      <div className="flex-1 p-6">
+        <div className="max-w-4xl mx-auto">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-foreground mb-2" data-testid="text-worksheet-title">
+              Problem {question.number}
+            </h1>
+            {location && <p className="text-muted-foreground">{location}</p>}
+            <div className="flex items-center justify-center space-x-4 mt-4">
+              <span className="text-sm text-muted-foreground">
+                Problem {currentIndex + 1} of {questions.length}
+              </span>
+              <Progress value={Math.round(((currentIndex + 1) / questions.length) * 100)} className="w-32" />
+            </div>
+          </div>
+
+          <Card className="shadow-sm mb-6">
+            <CardContent className="pt-8">
+              <h2 className="text-2xl font-bold text-foreground text-center mb-8" data-testid="text-worksheet-question">
+                {question.prompt}
+              </h2>
+
+              {!question.hasAnswerKey ? (
+                <p className="text-center text-muted-foreground" data-testid="text-worksheet-no-key">
+                  This problem has no answer key, so it can't be checked here. Talk it through with your tutor!
+                </p>
+              ) : question.options.length > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-2xl mx-auto">
+                  {question.options.map((option, index) => {
+                    const letter = String.fromCharCode(65 + index);
+                    return (
+                      <Button
+                        key={index}
+                        variant={answer === letter ? (result ? (result.correct ? "default" : "destructive") : "default") : "outline"}
+                        className="h-auto p-6 text-xl font-semibold text-center"
+                        onClick={() => !result && setAnswer(letter)}
+                        data-testid={`button-worksheet-option-${index}`}
+                      >
+                        {letter}) {option}
+                      </Button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <form
+                  className="max-w-md mx-auto"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (!result) handleSubmit(answer);
+                  }}
+                >
+                  <Input
+                    value={answer}
+                    onChange={(e) => setAnswer(e.target.value)}
+                    disabled={!!result}
+                    placeholder="Your answer"
+                    className="text-xl text-center"
+                    data-testid="input-worksheet-answer"
+                  />
+                </form>
+              )}
+
+              {result && (
+                <p className="text-center text-muted-foreground mt-6" data-testid="text-worksheet-feedback">
+                  {result.message}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            {result || !question.hasAnswerKey ? (
+              <Button onClick={handleNext} data-testid="button-worksheet-next">
+                {currentIndex < questions.length - 1 ? "Next Problem" : "Finish Worksheet"}
+              </Button>
+            ) : (
+              <Button
+                onClick={() => handleSubmit(answer)}
+                disabled={!answer.trim() || checkMutation.isPending}
+                data-testid="button-worksheet-submit"
+              >
+                Check Answer
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface DocumentQuizQuestion {
+  id: number;
+  type: "mcq" | "short";
+  question: string;
+  options: string[];
+  citation: string;
+}
+
+interface DocumentQuizResult {
+  score: number;
+  totalQuestions: number;
+  percentage: number;
+  passed: boolean;
+  feedback: Array<{ questionIndex: number; correct: boolean; explanation: string; correctAnswer: string; citation: string }>;
+}
+
+// Document quiz mode: questions generated from an uploaded document, scored
+// through the same submit endpoint as lesson quizzes
+function DocumentQuizSession({ quizId }: { quizId: string }) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, number | string>>({});
+  const [results, setResults] = useState<DocumentQuizResult | null>(null);
+  const [timeSpent, setTimeSpent] = useState(0);
+
+  const { data: quiz, isLoading } = useQuery<{ id: string; title: string; questions: DocumentQuizQuestion[] }>({
+    queryKey: ["/api/documents/quizzes", quizId],
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    const interval = setInterval(() => setTimeSpent(prev => prev + 1), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const submitMutation = useMutation({
+    mutationFn: async (data: { answers: Record<string, number | string>; timeSpent: number }) => {
+      const response = await apiRequest("POST", `/api/quiz/${quizId}/submit`, data);
+      return await response.json() as DocumentQuizResult;
+    },
+    onSuccess: (quizResults) => {
+      setResults(quizResults);
+      queryClient.invalidateQueries({ queryKey: ["/api/documents/quizzes"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error submitting quiz",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !quiz) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="flex items-center justify-center min-h-[50vh]">
+          <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+        </div>
+      </div>
+    );
+  }
+
+  const questions = quiz.questions;
+
+  if (results) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="flex-1 p-6">
+          <div className="max-w-4xl mx-auto">
+            <div className="text-center mb-8">
+              <h1 className="text-3xl font-bold mb-2" data-testid="text-document-quiz-result">
+                {results.passed ? "Great job! 🎉" : "Keep practicing! 💪"}
+              </h1>
+              <p className="text-xl text-muted-foreground mb-4">
+                You scored {results.score} out of {results.totalQuestions} ({results.percentage}%)
+              </p>
+            </div>
+
+            <Card className="shadow-sm mb-6">
+              <CardContent className="pt-6">
+                <h3 className="text-lg font-semibold mb-4">Question Breakdown</h3>
+                <div className="space-y-3">
+                  {results.feedback.map((feedback) => (
+                    <div key={feedback.questionIndex} className="border rounded-lg p-4">
+                      <div className="flex items-start justify-between mb-2">
+                        <p className="font-medium">{questions[feedback.questionIndex]?.question}</p>
+                        <div className={`w-6 h-6 rounded-full flex items-center justify-center ${
+                          feedback.correct ? 'bg-secondary text-secondary-foreground' : 'bg-destructive text-destructive-foreground'
+                        }`}>
+                          {feedback.correct ? '✓' : '✗'}
+                        </div>
+                      </div>
+                      {!feedback.correct && (
+                        <p className="text-sm mb-1">Answer: {feedback.correctAnswer}</p>
+                      )}
+                      <p className="text-sm text-muted-foreground">{feedback.explanation}</p>
+                      <p className="text-xs text-muted-foreground mt-1">Source: {feedback.citation}</p>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-center space-x-4">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setCurrentIndex(0);
+                  setAnswers({});
+                  setResults(null);
+                  setTimeSpent(0);
+                }}
+                data-testid="button-retake-document-quiz"
+              >
+                Retake Quiz
+              </Button>
+              <Button onClick={() => setLocation("/")} data-testid="button-finish-document-quiz">
+                Done
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const question = questions[currentIndex];
+  const key = currentIndex.toString();
+  const answer = answers[key];
+  const answered = question.type === "mcq" ? typeof answer === "number" : typeof answer === "string" && answer.trim() !== "";
+  const isLast = currentIndex >= questions.length - 1;
+
+  const handleNext = () => {
+    if (isLast) {
+      submitMutation.mutate({ answers, timeSpent });
+    } else {
+      setCurrentIndex(currentIndex + 1);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader />
+
+      <div className="flex-1 p-6">
+        <div className="max-w-4xl mx-auto">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-foreground mb-2" data-testid="text-document-quiz-title">
+              {quiz.title}
+            </h1>
+            <p className="text-muted-foreground">From: {question.citation}</p>
+            <div className="flex items-center justify-center space-x-4 mt-4">
+              <span className="text-sm text-muted-foreground">
+                Question {currentIndex + 1} of {questions.length}
+              </span>
+              <Progress value={Math.round(((currentIndex + 1) / questions.length) * 100)} className="w-32" />
+            </div>
+          </div>
+
+          <Card className="shadow-sm mb-6">
+            <CardContent className="pt-8">
+              <h2 className="text-2xl font-bold text-foreground text-center mb-8" data-testid="text-document-quiz-question">
+                {question.question}
+              </h2>
+
+              {question.type === "mcq" ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-2xl mx-auto">
+                  {question.options.map((option, index) => (
+                    <Button
+                      key={index}
+                      variant={answer === index ? "default" : "outline"}
+                      className="h-auto p-6 text-xl font-semibold text-center"
+                      onClick={() => setAnswers({ ...answers, [key]: index })}
+                      data-testid={`button-document-quiz-option-${index}`}
+                    >
+                      {option}
+                    </Button>
+                  ))}
+                </div>
+              ) : (
+                <form
+                  className="max-w-md mx-auto"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (answered) handleNext();
+                  }}
+                >
+                  <Input
+                    value={typeof answer === "string" ? answer : ""}
+                    onChange={(e) => setAnswers({ ...answers, [key]: e.target.value })}
+                    placeholder="Your answer"
+                    className="text-xl text-center"
+                    data-testid="input-document-quiz-answer"
+                  />
+                </form>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-between">
+            <Button
+              variant="outline"
+              onClick={() => setCurrentIndex(currentIndex + 1)}
+              disabled={isLast}
+              data-testid="button-document-quiz-skip"
+            >
+              Skip
+            </Button>
+            <Button
+              onClick={handleNext}
+              disabled={(!answered && !isLast) || submitMutation.isPending}
+              data-testid="button-document-quiz-next"
+            >
+              {isLast ? "Submit Quiz" : "Next Question"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function QuizPage() {
-  const { lessonId } = useParams<{ lessonId: string }>();
+  const { lessonId, documentId, quizId } = useParams<{ lessonId?: string; documentId?: string; quizId?: string }>();
+  // Mounted at /review without a lesson, at /worksheet/:documentId for uploaded worksheets
+  // and at /document-quiz/:quizId for quizzes generated from uploads
+  const isReviewMode = !lessonId && !documentId && !quizId;
   const { user } = useAuth();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
@@ -44,6 +661,7 @@ export default function QuizPage() {
       setShowResults(true);
       queryClient.invalidateQueries({ queryKey: ["/api/lessons", lessonId] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/review/due"] });
     },
     onError: (error: Error) => {
       toast({
@@ -63,6 +681,18 @@ export default function QuizPage() {
     return () => clearInterval(interval);
   }, []);
 
+  if (documentId) {
+    return <WorksheetSession documentId={documentId} />;
+  }
+
+  if (quizId) {
+    return <DocumentQuizSession quizId={quizId} />;
+  }
+
+  if (isReviewMode) {
+    return <ReviewSession />;
+  }
+
   if (!lesson?.content?.quiz) {
     return (
       <div className="min-h-screen bg-background">
@@ -168,7 +798,9 @@ export default function QuizPage() {
 
               {quizResults.passed ? (
                 <p className="text-secondary mb-6">
-                  Excellent work! You've mastered this lesson.
+                  {quizResults.mastery?.lessonMastered
+                    ? "Excellent work! You've mastered this lesson."
+                    : "Nice work! A little more practice and you'll master it."}
                 </p>
               ) : (
                 <p className="text-muted-foreground mb-6">
@@ -63,8 +63,9 @@ export default function TutorPage() {
   const [transcriptMessages, setTranscriptMessages] = useState<ConvaiMessage[]>([]);
   const [isTranscriptConnected, setIsTranscriptConnected] = useState(false);
   
-  // Session tracking state
-  const [sessionStartTime, setSessionStartTime] = useState<Date | null>(null);
+  // Server-metered session (billing is computed server-side from heartbeats)
+  const [meterId, setMeterId] = useState<string | null>(null);
+  const [heartbeatIntervalMs, setHeartbeatIntervalMs] = useState(30000);
   const [showTopUpModal, setShowTopUpModal] = useState(false);
 
   // Fetch available minutes
@@ -169,6 +170,12 @@ export default function TutorPage() {
           variant: "default",
         });
       }
+
+      // Open a metered session before connecting
+      const meterResponse = await apiRequest('POST', '/api/session/meter/start', { sessionType: 'voice' });
+      const meter = await meterResponse.json();
+      setMeterId(meter.meterId);
+      setHeartbeatIntervalMs(meter.heartbeatIntervalMs || 30000);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -191,9 +198,6 @@ export default function TutorPage() {
     setTranscriptMessages([]);
     setIsTranscriptConnected(false);
     
-    // Start session tracking
-    setSessionStartTime(new Date());
-    
     // Simple static agent connection - no dynamic session creation
     setMounted(true);
     
@@ -223,33 +227,26 @@ export default function TutorPage() {
   };
 
   const stop = async () => {
-    // Log usage if session was active
-    if (sessionStartTime) {
-      const endTime = new Date();
-      const durationMs = endTime.getTime() - sessionStartTime.getTime();
-      const minutesUsed = Math.ceil(durationMs / 60000);
-
-      if (minutesUsed > 0) {
-        try {
-          await apiRequest('POST', '/api/usage/log', {
-            minutesUsed,
-            sessionStart: sessionStartTime.toISOString(),
-            sessionEnd: endTime.toISOString(),
-          });
-          
-          // Refresh minutes data
-          queryClient.invalidateQueries({ queryKey: ['/api/session/check-availability'] });
-          
+    // Close the metered session; the server computes the billed minutes
+    if (meterId) {
+      try {
+        const response = await apiRequest('POST', `/api/session/meter/${meterId}/end`);
+        const { billedMinutes } = await response.json();
+        
+        // Refresh minutes data
+        queryClient.invalidateQueries({ queryKey: ['/api/session/check-availability'] });
+        
+        if (billedMinutes > 0) {
           toast({
             title: "Session Ended",
-            description: `${minutesUsed} minute${minutesUsed === 1 ? '' : 's'} logged`,
+            description: `${billedMinutes} minute${billedMinutes === 1 ? '' : 's'} logged`,
           });
-        } catch (error: any) {
-          console.error('Failed to log usage:', error);
         }
+      } catch (error: any) {
+        console.error('Failed to end metered session:', error);
       }
       
-      setSessionStartTime(null);
+      setMeterId(null);
     }
 
     setMounted(false);
@@ -306,30 +303,48 @@ export default function TutorPage() {
     setProfileDrawerOpen(true);
   };
 
-  // Handle page close/refresh to log minutes
+  // Heartbeat the metered session while connected; the server stops billing if these stop
   useEffect(() => {
-    const handleBeforeUnload = async () => {
-      if (sessionStartTime) {
-        const endTime = new Date();
-        const durationMs = endTime.getTime() - sessionStartTime.getTime();
-        const minutesUsed = Math.ceil(durationMs / 60000);
-
-        if (minutesUsed > 0) {
-          // Use sendBeacon for reliable logging during page unload
-          const data = JSON.stringify({
-            minutesUsed,
-            sessionStart: sessionStartTime.toISOString(),
-            sessionEnd: endTime.toISOString(),
+    if (!meterId) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await apiRequest('POST', `/api/session/meter/${meterId}/heartbeat`);
+        const status = await response.json();
+
+        if (!status.active) {
+          // Server closed the session (out of minutes or timed out)
+          setMeterId(null);
+          setMounted(false);
+          queryClient.invalidateQueries({ queryKey: ['/api/session/check-availability'] });
+          toast({
+            title: "Out of Minutes",
+            description: "Your session has ended. Purchase more minutes to continue.",
+            variant: "destructive",
           });
-          
-          navigator.sendBeacon('/api/usage/log', data);
+          setShowTopUpModal(true);
         }
+      } catch (error: any) {
+        console.error('Heartbeat failed:', error);
+      }
+    }, heartbeatIntervalMs);
+
+    return () => clearInterval(interval);
+  }, [meterId, heartbeatIntervalMs]);
+
+  // Handle page close/refresh: end the metered session right away
+  useEffect(() => {
+    const handleBeforeUnload = () => {
+      if (meterId) {
+        // Use sendBeacon for reliable delivery during page unload; if it never
+        // arrives, the server closes the session once heartbeats stop
+        navigator.sendBeacon(`/api/session/meter/${meterId}/end`);
       }
     };
 
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [sessionStartTime]);
+  }, [meterId]);
 
   return (
     <NetworkAwareWrapper>
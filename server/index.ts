@@ -71,6 +71,18 @@ app.use((req, res, next) => {
     startEmbeddingWorker();
     log('Embedding worker started for background document processing');
 
+    // Close metered sessions whose clients stopped heartbeating (closed tabs)
+    const { usageMeter } = await import('./services/usageMeter');
+    usageMeter.start();
+
+    // Purge documents past their retention period
+    const { documentRetentionService } = await import('./services/documentRetention');
+    documentRetentionService.start();
+
+    // Drop conversation contexts for sessions idle over a day
+    const { conversationManager } = await import('./services/conversationManager');
+    conversationManager.start();
+
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
       const status = err.status || err.statusCode || 500;
       const message = err.message || "Internal Server Error";
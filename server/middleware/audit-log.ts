@@ -3,7 +3,7 @@ import { storage } from '../storage';
 
 interface AuditAction {
   action: string;
-  targetType: 'user' | 'subscription' | 'document' | 'agent' | 'system';
+  targetType: 'user' | 'subscription' | 'document' | 'agent' | 'lesson' | 'system';
   getTargetId?: (req: Request) => string | undefined;
   getDetails?: (req: Request) => any;
 }
@@ -74,6 +74,13 @@ export const auditActions = {
     targetType: 'document',
   }),
   
+  reviewDocument: createAuditLogger({
+    action: 'review_document',
+    targetType: 'document',
+    getTargetId: (req) => req.params.id,
+    getDetails: (req) => ({ decision: req.body?.action }),
+  }),
+  
   viewAnalytics: createAuditLogger({
     action: 'view_analytics',
     targetType: 'system',
@@ -96,4 +103,41 @@ export const auditActions = {
     action: 'view_campaigns',
     targetType: 'system',
   }),
+
+  createLesson: createAuditLogger({
+    action: 'create_lesson',
+    targetType: 'lesson',
+    getTargetId: (req) => req.body?.id,
+  }),
+
+  updateLesson: createAuditLogger({
+    action: 'update_lesson',
+    targetType: 'lesson',
+    getTargetId: (req) => req.params.lessonId,
+    getDetails: (req) => ({ changeNote: req.body?.changeNote }),
+  }),
+
+  publishLesson: createAuditLogger({
+    action: 'publish_lesson',
+    targetType: 'lesson',
+    getTargetId: (req) => req.params.lessonId,
+  }),
+
+  archiveLesson: createAuditLogger({
+    action: 'archive_lesson',
+    targetType: 'lesson',
+    getTargetId: (req) => req.params.lessonId,
+  }),
+
+  purgeCache: createAuditLogger({
+    action: 'purge_cache',
+    targetType: 'system',
+    getDetails: (req) => ({ ...req.query }),
+  }),
+
+  warmCache: createAuditLogger({
+    action: 'warm_cache',
+    targetType: 'system',
+    getDetails: (req) => ({ sessionIds: req.body?.sessionIds, lessonId: req.body?.lessonId }),
+  }),
 };
@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import { usageMeter } from '../services/usageMeter';
+
+// Voice endpoints only serve users with an open, heartbeating metered session, and each
+// request they serve extends that session so usage can't be under-reported by the client
+export const requireActiveMeter = async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.isAuthenticated || !req.isAuthenticated()) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+
+  try {
+    const status = await usageMeter.recordActivity(req.user!.id);
+    if (!status) {
+      return res.status(402).json({ error: 'No active metered session. Start a session with minutes remaining first.' });
+    }
+    next();
+  } catch (error) {
+    console.error('[UsageMeter] Activity check error:', error);
+    res.status(500).json({ error: 'Failed to check metered session' });
+  }
+};
@@ -1,6 +1,6 @@
 import { openaiService } from '../services/openai';
 import { inputGatingService } from '../services/inputGating';
-import { normalizeAnswer, parseSimpleMathExpression, mathAnswersEqual, levenshteinDistance } from '../utils/answerNormalization';
+import { answerGrader, type GradeVerdict } from '../services/answerGrader';
 
 interface VoiceResponse {
   response: string;
@@ -120,105 +120,25 @@ class VoiceIntegration {
     }
   }
 
-  // Answer checking with comprehensive normalization
+  // Answer checking through the shared AnswerGrader
   checkAnswer(
     questionType: 'short' | 'mcq' | 'math' | 'open',
     studentAnswer: string,
     correctAnswer: string,
     options?: string[]
-  ): { isCorrect: boolean; correction?: string; method: string } {
-    const normalizedStudent = normalizeAnswer(studentAnswer);
-    const normalizedCorrect = normalizeAnswer(correctAnswer);
-
-    // Math expressions
-    if (questionType === 'math') {
-      try {
-        const studentResult = parseSimpleMathExpression(normalizedStudent);
-        const correctResult = parseSimpleMathExpression(normalizedCorrect);
-        
-        if (studentResult !== null && correctResult !== null) {
-          const isCorrect = mathAnswersEqual(studentResult, correctResult);
-          return {
-            isCorrect,
-            correction: isCorrect ? undefined : `Not quite! The answer is ${correctAnswer}.`,
-            method: 'math_expression'
-          };
-        }
-      } catch (error) {
-        // Fall through to text comparison
-      }
-    }
-
-    // MCQ handling
-    if (questionType === 'mcq' && options) {
-      // Check direct option match (a, b, c, etc.)
-      const optionMatch = normalizedStudent.match(/^([a-z])\)?\s*$/);
-      if (optionMatch) {
-        const optionIndex = optionMatch[1].charCodeAt(0) - 97; // a=0, b=1, etc.
-        if (optionIndex >= 0 && optionIndex < options.length) {
-          const selectedOption = normalizeAnswer(options[optionIndex]);
-          const isCorrect = selectedOption === normalizedCorrect;
-          return {
-            isCorrect,
-            correction: isCorrect ? undefined : `That's option ${optionMatch[1]}, but the correct answer is ${correctAnswer}.`,
-            method: 'mcq_letter'
-          };
-        }
-      }
-
-      // Check "option X" format
-      const optionWordMatch = normalizedStudent.match(/option\s+([a-z])/);
-      if (optionWordMatch) {
-        const optionIndex = optionWordMatch[1].charCodeAt(0) - 97;
-        if (optionIndex >= 0 && optionIndex < options.length) {
-          const selectedOption = normalizeAnswer(options[optionIndex]);
-          const isCorrect = selectedOption === normalizedCorrect;
-          return {
-            isCorrect,
-            correction: isCorrect ? undefined : `You chose option ${optionWordMatch[1]}, but the correct answer is ${correctAnswer}.`,
-            method: 'mcq_word'
-          };
-        }
-      }
-
-      // Check full option text match
-      for (let i = 0; i < options.length; i++) {
-        if (normalizeAnswer(options[i]) === normalizedStudent) {
-          const isCorrect = normalizedStudent === normalizedCorrect;
-          return {
-            isCorrect,
-            correction: isCorrect ? undefined : `You selected "${options[i]}", but the correct answer is ${correctAnswer}.`,
-            method: 'mcq_full_text'
-          };
-        }
-      }
-    }
-
-    // Exact match
-    if (normalizedStudent === normalizedCorrect) {
-      return { isCorrect: true, method: 'exact_match' };
-    }
-
-    // Fuzzy matching for short answers
-    if (questionType === 'short') {
-      const distance = levenshteinDistance(normalizedStudent, normalizedCorrect);
-      const threshold = normalizedCorrect.length <= 5 ? 1 : 2;
-      
-      if (distance <= threshold) {
-        return { 
-          isCorrect: true, 
-          method: 'fuzzy_match',
-          correction: `Close enough! The exact answer is "${correctAnswer}".`
-        };
-      }
+  ): { isCorrect: boolean; correction?: string; method: string; verdict: GradeVerdict } {
+    // MCQ keys may be the option text; the grader resolves them against the options
+    const spec = answerGrader.specFor(correctAnswer, questionType, { options });
+    const verdict = answerGrader.grade(spec, studentAnswer);
+
+    let correction: string | undefined;
+    if (!verdict.correct) {
+      correction = `Not quite. The correct answer is ${correctAnswer}.`;
+    } else if (verdict.reason === 'close_match' || verdict.reason === 'accent_insensitive') {
+      correction = `Close enough! The exact answer is "${correctAnswer}".`;
     }
 
-    // Default to incorrect
-    return {
-      isCorrect: false,
-      correction: `Not quite. The correct answer is ${correctAnswer}.`,
-      method: 'no_match'
-    };
+    return { isCorrect: verdict.correct, correction, method: verdict.reason, verdict };
   }
 
   // Stream TTS (placeholder for Azure integration)
@@ -4,7 +4,14 @@ import { setupAuth } from "./auth";
 import { storage } from "./storage";
 import { voiceService } from "./services/voice";
 import { lessonsService } from "./services/lessons";
-import { openaiService } from "./services/openai";
+import { openaiService, requestGradeBand } from "./services/openai";
+import { telemetryManager } from "./services/sessionTelemetry";
+import { reviewQueueService } from "./services/reviewQueue";
+import { buildCostReport } from "./services/documentDedup";
+import { EMBEDDING_PROVIDERS, getEmbeddingProvider } from "./services/embeddingProvider";
+import { embeddingMigrationService, EmbeddingMigrationError } from "./services/embeddingMigration";
+import { documentFileService } from "./services/documentFiles";
+import { documentQuizService } from "./services/documentQuizzes";
 import voiceRoutes from "./routes/voiceRoutes";
 import conversationRoutes from "./routes/conversationRoutes";
 import streamingRoutes from "./routes/streamingRoutes";
@@ -118,6 +125,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const { sessionRouter } = await import('./routes/session');
   app.use("/api/session", sessionRouter);
 
+  // Spaced-repetition review queue
+  const { default: reviewRoutes } = await import('./routes/review');
+  app.use("/api/review", reviewRoutes);
+
+  // Admin lesson authoring
+  const { default: adminLessonRoutes } = await import('./routes/adminLessons');
+  app.use("/api/admin/lessons", adminLessonRoutes);
+
+  // Admin semantic cache inspection, purge and warm-up
+  const { default: adminCacheRoutes } = await import('./routes/adminCache');
+  app.use("/api/admin/cache", adminCacheRoutes);
+
+  // System metrics (queues, cache, circuit breakers, LLM providers); admin only
+  const { default: observabilityRoutes } = await import('./routes/observabilityRoutes');
+  app.use("/api/observability", observabilityRoutes);
+
   // Legacy voice API routes (for compatibility)
   // Note: live-token endpoint is now handled in voiceRoutes
 
@@ -162,9 +185,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { lessonId } = req.params;
       const user = req.user as any;
-      const lesson = await lessonsService.getLessonWithProgress(lessonId, user.id);
+      // Admins can preview drafts; learners only see published lessons
+      const lesson = await lessonsService.getLessonWithProgress(lessonId, user.id, !!user.isAdmin);
       res.json(lesson);
     } catch (error: any) {
+      if (error.message === 'Lesson not found') {
+        return res.status(404).json({ message: error.message });
+      }
       res.status(500).json({ message: "Error fetching lesson: " + error.message });
     }
   });
@@ -232,20 +259,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { sessionId } = req.params;
       const user = req.user as any;
-      const { transcript, voiceMinutesUsed = 0 } = req.body;
+      const { transcript } = req.body;
+
+      const existing = (await storage.getUserSessions(user.id)).find(s => s.id === sessionId);
+      if (!existing) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (existing.endedAt) {
+        return res.json(existing);
+      }
+
+      // Voice time is billed by the metered session (/api/session/meter) from its
+      // heartbeats, so a closed tab or a late end isn't billed here
+
+      // Fall back to the transcript recorded server-side for this session
+      telemetryManager.endSession(sessionId);
+      const recordedTranscript = transcript ?? await telemetryManager.renderTranscript(sessionId, user.id);
 
       const session = await storage.endLearningSession(sessionId, user.id, {
-        transcript,
-        voiceMinutesUsed,
+        transcript: recordedTranscript,
         endedAt: new Date(),
         isCompleted: true,
       });
 
-      // Update user's weekly voice usage
-      if (voiceMinutesUsed > 0) {
-        await storage.updateUserVoiceUsage(user.id, voiceMinutesUsed);
-      }
-
       res.json(session);
     } catch (error: any) {
       res.status(500).json({ message: "Error ending session: " + error.message });
@@ -261,7 +297,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { lessonId } = req.params;
       const user = req.user as any;
-      const { answers, sessionId, timeSpent } = req.body;
+      const { answers, sessionId, timeSpent, studentId } = req.body;
+
+      if (studentId && !(await storage.getStudent(studentId, user.id))) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      // Quizzes generated from the student's own documents share this endpoint
+      const documentQuiz = await documentQuizService.findForUser(lessonId, user.id);
+      if (documentQuiz) {
+        return res.json(await documentQuizService.submit(documentQuiz, answers));
+      }
+
+      if (!user.isAdmin && !(await lessonsService.isVisibleToLearners(lessonId))) {
+        return res.status(404).json({ message: "Lesson not found" });
+      }
 
       const result = await lessonsService.submitQuiz(user.id, lessonId, {
         answers,
@@ -269,6 +319,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         timeSpent,
       });
 
+      // Missed items come back later through the review queue
+      try {
+        await reviewQueueService.recordQuizResults(user.id, studentId || null, lessonId,
+          result.feedback.map(({ questionIndex, correct }) => ({
+            questionIndex,
+            outcome: correct ? 'correct' : answers?.[questionIndex.toString()] === undefined ? 'skipped' : 'incorrect',
+          }))
+        );
+      } catch (error) {
+        console.error('[Review] Failed to schedule quiz items:', error);
+      }
+
       res.json(result);
     } catch (error: any) {
       res.status(500).json({ message: "Error submitting quiz: " + error.message });
@@ -299,7 +361,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const user = req.user as any;
       const resumeData = await storage.getResumeSession(user.id);
-      res.json(resumeData);
+      const nextLesson = await lessonsService.getNextBestLesson(user.id);
+      res.json({ ...(resumeData || { hasResumeSession: false }), nextLesson });
     } catch (error: any) {
       res.status(500).json({ message: "Error fetching resume data: " + error.message });
     }
@@ -537,33 +600,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Usage tracking endpoint
-  app.post('/api/usage/log', async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-
-    try {
-      const { minutesUsed, sessionStart, sessionEnd, sessionId } = req.body;
-      const userId = (req.user as any).id;
-
-      if (!minutesUsed || minutesUsed <= 0) {
-        return res.status(400).json({ message: "Invalid minutes used" });
-      }
-
-      // Log the usage
-      await storage.createUsageLog(userId, minutesUsed, 'voice', sessionId);
-
-      // Update user's voice usage counter
-      await storage.updateUserVoiceUsage(userId, minutesUsed);
-
-      res.json({ success: true, minutesUsed });
-    } catch (error: any) {
-      console.error('[Usage Log] Error:', error);
-      res.status(500).json({ message: "Error logging usage: " + error.message });
-    }
-  });
-
   // Admin routes
   app.get("/api/admin/users", requireAdmin, auditActions.viewUsers, async (req, res) => {
     try {
@@ -642,18 +678,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/admin/documents", requireAdmin, auditActions.viewDocuments, async (req, res) => {
     try {
       const documents = await storage.getAllDocumentsForAdmin();
+      const embeddingsByModel = await storage.countEmbeddingsByModel();
+      const activeModels = EMBEDDING_PROVIDERS.map(name => getEmbeddingProvider(name).model);
+      const costReport = buildCostReport(documents, getEmbeddingProvider('openai').model, embeddingsByModel, activeModels);
+      const owners = new Set(documents.map((doc: any) => doc.userId)).size;
       const analytics = {
         totalDocuments: documents.length,
-        storageUsed: "N/A",
-        avgPerUser: 0,
+        storageUsed: `${(costReport.storageBytes / (1024 * 1024)).toFixed(1)} MB`,
+        avgPerUser: owners > 0 ? (documents.length / owners).toFixed(1) : "0",
       };
 
-      res.json({ documents, analytics });
+      res.json({ documents, analytics, costReport });
     } catch (error: any) {
       res.status(500).json({ message: "Error fetching documents: " + error.message });
     }
   });
 
+  // Admin: Release a quarantined document for processing, or delete it
+  app.post("/api/admin/documents/:id/review", requireAdmin, auditActions.reviewDocument, async (req, res) => {
+    try {
+      const { action } = z.object({ action: z.enum(['approve', 'reject']) }).parse(req.body);
+
+      const document = await storage.getDocumentById(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (document.processingStatus !== 'quarantined') {
+        return res.status(409).json({ message: "Document is not awaiting review" });
+      }
+
+      if (action === 'reject') {
+        await storage.deleteDocument(document.id, document.userId);
+        await documentFileService.remove(document);
+        return res.json({ id: document.id, deleted: true });
+      }
+
+      // Requeued for the worker, which skips content screening once reviewed
+      const updated = await storage.updateDocumentById(document.id, {
+        processingStatus: 'queued',
+        quarantineReason: null,
+        reviewedBy: (req.user as any).id,
+        reviewedAt: new Date(),
+        retryCount: 0,
+        nextRetryAt: null,
+      });
+      res.json({ id: document.id, processingStatus: updated?.processingStatus });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error reviewing document: " + error.message });
+    }
+  });
+
+  // Admin: Embedding providers and the corpus migration job
+  app.get("/api/admin/embeddings/migration", requireAdmin, async (req, res) => {
+    try {
+      res.json({
+        status: embeddingMigrationService.getStatus(),
+        defaultProvider: getEmbeddingProvider().name,
+        providers: EMBEDDING_PROVIDERS.map(name => ({ name, model: getEmbeddingProvider(name).model })),
+        embeddingsByModel: await storage.countEmbeddingsByModel(),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: "Error fetching embedding migration: " + error.message });
+    }
+  });
+
+  // Admin: Re-embed one account (or every account) with another provider
+  app.post("/api/admin/embeddings/migration", requireAdmin, async (req, res) => {
+    try {
+      const { provider, userId } = z.object({
+        provider: z.enum(['openai', 'local']),
+        userId: z.string().optional(),
+      }).parse(req.body);
+
+      if (userId && !(await storage.getUser(userId))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.status(202).json(embeddingMigrationService.start(provider, userId));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid migration request", errors: error.errors });
+      }
+      if (error instanceof EmbeddingMigrationError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error starting embedding migration: " + error.message });
+    }
+  });
+
   // Admin: Get analytics data
   app.get("/api/admin/analytics", requireAdmin, auditActions.viewAnalytics, async (req, res) => {
     try {
@@ -830,12 +945,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     try {
       const user = req.user as any;
-      const { message, lessonId, sessionId } = req.body;
+      const { message, lessonId, sessionId, studentId } = req.body;
 
       const response = await openaiService.generateTutorResponse(message, {
         userId: user.id,
         lessonId,
         sessionId,
+        studentId: typeof studentId === 'string' ? studentId : undefined,
+        gradeBand: await requestGradeBand(user, studentId),
+        language: user.preferredLanguage || undefined,
       });
 
       res.json({ response });
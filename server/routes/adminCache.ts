@@ -0,0 +1,85 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { requireAdmin } from '../middleware/admin-auth';
+import { auditActions } from '../middleware/audit-log';
+import { semanticCache, cacheScope, transcriptPairs } from '../services/semanticCache';
+import { telemetryManager } from '../services/sessionTelemetry';
+
+const router = Router();
+
+router.use(requireAdmin);
+
+const gradeBandSchema = z.enum(['k-2', '3-5', '6-8', '9-12', 'college', 'unknown']);
+
+const scopeFilterSchema = z.object({
+  lessonId: z.string().min(1).optional(),
+  gradeBand: gradeBandSchema.optional(),
+  language: z.string().min(1).transform(language => language.toLowerCase()).optional(),
+});
+
+const inspectQuerySchema = scopeFilterSchema.extend({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+const warmSchema = z.object({
+  sessionIds: z.array(z.string().min(1)).min(1).max(50),
+  lessonId: z.string().min(1),
+  gradeBand: gradeBandSchema.exclude(['unknown']).optional(),
+  language: z.string().min(1).optional(),
+  subject: z.string().min(1).optional(),
+});
+
+// One embedding batch per warm-up request
+const MAX_WARM_PAIRS = 500;
+
+function handleError(res: Response, error: any, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Validation error', errors: error.errors });
+  }
+  res.status(500).json({ message: `Error ${action}: ` + error.message });
+}
+
+// GET /api/admin/cache - Cache status and entries, optionally filtered by lesson, grade band and language
+router.get('/', async (req, res) => {
+  try {
+    const { limit, ...filter } = inspectQuerySchema.parse(req.query);
+    res.json({
+      status: semanticCache.getStatus(),
+      entries: semanticCache.inspect(filter, limit),
+    });
+  } catch (error: any) {
+    handleError(res, error, 'inspecting cache');
+  }
+});
+
+// DELETE /api/admin/cache - Purge matching entries; no filter purges everything
+router.delete('/', auditActions.purgeCache, async (req, res) => {
+  try {
+    const filter = scopeFilterSchema.parse(req.query);
+    res.json({ purged: semanticCache.purge(filter) });
+  } catch (error: any) {
+    handleError(res, error, 'purging cache');
+  }
+});
+
+// POST /api/admin/cache/warm - Cache the student question → tutor reply pairs from past session transcripts
+router.post('/warm', auditActions.warmCache, async (req, res) => {
+  try {
+    const input = warmSchema.parse(req.body);
+    const scope = cacheScope(input.lessonId, input.gradeBand, input.language);
+    const subject = input.subject || input.lessonId.split('-')[0] || 'general';
+
+    const pairs: Array<{ question: string; response: string; subject: string }> = [];
+    for (const sessionId of input.sessionIds) {
+      const transcript = await telemetryManager.getTranscript(sessionId);
+      pairs.push(...transcriptPairs(transcript).map(pair => ({ ...pair, subject })));
+    }
+
+    const warmed = await semanticCache.warmUp(scope, pairs.slice(0, MAX_WARM_PAIRS));
+    res.json({ scope, warmed, skipped: Math.max(0, pairs.length - MAX_WARM_PAIRS) });
+  } catch (error: any) {
+    handleError(res, error, 'warming cache');
+  }
+});
+
+export default router;
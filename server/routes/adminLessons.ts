@@ -0,0 +1,143 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { requireAdmin } from '../middleware/admin-auth';
+import { auditActions } from '../middleware/audit-log';
+import { lessonAuthoringService, LessonAuthoringError } from '../services/lessonAuthoring';
+import { buildPracticeQuiz, PRACTICE_SKILLS, type PracticeSkill } from '../services/practiceGenerators';
+
+const router = Router();
+
+router.use(requireAdmin);
+
+const listQuerySchema = z.object({
+  status: z.enum(['draft', 'published', 'archived']).optional(),
+});
+
+const createLessonSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Lesson IDs use lowercase letters, digits and dashes'),
+  subjectId: z.string().min(1),
+  orderIndex: z.number().int().min(0),
+  estimatedMinutes: z.number().int().min(1).optional(),
+  content: z.record(z.unknown()),
+  changeNote: z.string().max(500).optional(),
+});
+
+const updateLessonSchema = z.object({
+  orderIndex: z.number().int().min(0).optional(),
+  estimatedMinutes: z.number().int().min(1).optional(),
+  content: z.record(z.unknown()).optional(),
+  changeNote: z.string().max(500).optional(),
+});
+
+const validateSchema = z.object({
+  id: z.string().min(1),
+  content: z.record(z.unknown()),
+});
+
+const practiceQuizSchema = z.object({
+  skill: z.enum(PRACTICE_SKILLS as [PracticeSkill, ...PracticeSkill[]]),
+  count: z.number().int().min(1).max(20).default(5),
+  difficulty: z.enum(['easy', 'medium', 'hard']).default('easy'),
+  gradeBand: z.enum(['k-2', '3-5', '6-8', '9-12', 'college']).default('k-2'),
+  seed: z.number().int().min(0).optional(),
+});
+
+function handleError(res: Response, error: any, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Validation error', errors: error.errors });
+  }
+  if (error instanceof LessonAuthoringError) {
+    return res.status(error.statusCode).json({ message: error.message, issues: error.issues });
+  }
+  res.status(500).json({ message: `Error ${action}: ` + error.message });
+}
+
+// GET /api/admin/lessons - All lessons, optionally filtered by status
+router.get('/', async (req, res) => {
+  try {
+    const { status } = listQuerySchema.parse(req.query);
+    res.json(await lessonAuthoringService.listLessons(status));
+  } catch (error: any) {
+    handleError(res, error, 'fetching lessons');
+  }
+});
+
+// POST /api/admin/lessons/validate - Dry-run validation of lesson content
+router.post('/validate', async (req, res) => {
+  try {
+    const { id, content } = validateSchema.parse(req.body);
+    const { issues } = await lessonAuthoringService.validate(id, content);
+    res.json({ valid: issues.length === 0, issues });
+  } catch (error: any) {
+    handleError(res, error, 'validating lesson');
+  }
+});
+
+// POST /api/admin/lessons/practice-quiz - Generate quiz items for a skill to paste into lesson content
+router.post('/practice-quiz', async (req, res) => {
+  try {
+    const { skill, count, difficulty, gradeBand, seed } = practiceQuizSchema.parse(req.body);
+    // Returned so the same quiz can be regenerated later
+    const quizSeed = seed ?? Math.floor(Math.random() * 0x7fffffff);
+    res.json({ seed: quizSeed, quiz: buildPracticeQuiz(skill, count, { difficulty, gradeBand, seed: quizSeed }) });
+  } catch (error: any) {
+    handleError(res, error, 'generating practice quiz');
+  }
+});
+
+// GET /api/admin/lessons/:lessonId - Lesson with its version history
+router.get('/:lessonId', async (req, res) => {
+  try {
+    const result = await lessonAuthoringService.getLesson(req.params.lessonId);
+    if (!result) {
+      return res.status(404).json({ message: 'Lesson not found' });
+    }
+    res.json(result);
+  } catch (error: any) {
+    handleError(res, error, 'fetching lesson');
+  }
+});
+
+// POST /api/admin/lessons - Create a draft lesson
+router.post('/', auditActions.createLesson, async (req, res) => {
+  try {
+    const user = req.user as any;
+    const input = createLessonSchema.parse(req.body);
+    const lesson = await lessonAuthoringService.createLesson(input, user.id);
+    res.status(201).json(lesson);
+  } catch (error: any) {
+    handleError(res, error, 'creating lesson');
+  }
+});
+
+// PATCH /api/admin/lessons/:lessonId - Edit a lesson; content changes create a new version, held as a draft on published lessons
+router.patch('/:lessonId', auditActions.updateLesson, async (req, res) => {
+  try {
+    const user = req.user as any;
+    const changes = updateLessonSchema.parse(req.body);
+    const lesson = await lessonAuthoringService.updateLesson(req.params.lessonId, changes, user.id);
+    res.json(lesson);
+  } catch (error: any) {
+    handleError(res, error, 'updating lesson');
+  }
+});
+
+// POST /api/admin/lessons/:lessonId/publish - Make a lesson, or its draft version, visible to learners
+router.post('/:lessonId/publish', auditActions.publishLesson, async (req, res) => {
+  try {
+    res.json(await lessonAuthoringService.publishLesson(req.params.lessonId));
+  } catch (error: any) {
+    handleError(res, error, 'publishing lesson');
+  }
+});
+
+// POST /api/admin/lessons/:lessonId/archive - Hide a lesson from learners
+router.post('/:lessonId/archive', auditActions.archiveLesson, async (req, res) => {
+  try {
+    res.json(await lessonAuthoringService.archiveLesson(req.params.lessonId));
+  } catch (error: any) {
+    handleError(res, error, 'archiving lesson');
+  }
+});
+
+export default router;
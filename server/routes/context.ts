@@ -1,10 +1,13 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { storage } from '../storage';
-import { DocumentProcessor } from '../services/document-processor';
+import { contextRetrievalService } from '../services/contextRetrieval';
+import { formatCitation, type ChunkMetadata } from '../services/documentChunker';
+import { documentQuestionService } from '../services/documentQuestions';
+import { compileInstructions, mergeInstructions } from '../services/tutorInstructions';
+import type { DocumentQuestion, TutorInstructions } from '@shared/schema';
 
 const router = Router();
-const processor = new DocumentProcessor();
 
 // Request schemas
 const sessionStartSchema = z.object({
@@ -38,6 +41,7 @@ router.post('/session-start', async (req, res) => {
     let student = null;
     let lastSession = null;
     let pinnedDocs: any[] = [];
+    const pinInstructions = new Map<string, TutorInstructions | null>();
     
     if (request.studentId) {
       student = await storage.getStudent(request.studentId, userId);
@@ -45,6 +49,7 @@ router.post('/session-start', async (req, res) => {
         lastSession = await storage.getLastStudentSession(request.studentId, userId, 30);
         const pinnedData = await storage.getStudentPinnedDocs(request.studentId, userId);
         pinnedDocs = pinnedData.map(pd => pd.document);
+        pinnedData.forEach(pd => pinInstructions.set(pd.document.id, pd.pin.tutorInstructions));
       }
     }
     
@@ -92,6 +97,7 @@ router.post('/session-start', async (req, res) => {
     }
 
     // Build enhanced context with actual content
+    const worksheetQuestions = await documentQuestionService.listForDocuments(contextData.documents.map(doc => doc.id));
     const documentsWithContent = contextData.documents.map(doc => {
       const docChunks = contextData.chunks.filter(chunk => chunk.documentId === doc.id);
       return {
@@ -101,7 +107,11 @@ router.post('/session-start', async (req, res) => {
         grade: doc.grade,
         chunkCount: docChunks.length,
         description: doc.description,
-        chunks: docChunks.map(chunk => chunk.content)
+        chunks: docChunks.map(chunk => chunk.content),
+        citations: docChunks.map(chunk => formatCitation(doc.title || doc.originalName, chunk.metadata as ChunkMetadata | null)),
+        questions: worksheetQuestions.filter(question => question.documentId === doc.id),
+        // The student's pin overrides the document's defaults field by field
+        instructions: compileInstructions(mergeInstructions(doc.tutorInstructions, pinInstructions.get(doc.id)))
       };
     });
 
@@ -132,8 +142,9 @@ router.post('/session-start', async (req, res) => {
         : `Context prepared with ${contextData.documents.length} document(s) and ${contextData.chunks.length} content sections`,
       hasContext: true,
       documentCount: contextData.documents.length,
+      documentIds: contextData.documents.map(doc => doc.id), // sent back with each tutor turn to scope retrieval
       chunkCount: contextData.chunks.length,
-      documents: documentsWithContent.map(d => ({ title: d.title, type: d.type, subject: d.subject, grade: d.grade, chunkCount: d.chunkCount })),
+      documents: documentsWithContent.map(d => ({ title: d.title, type: d.type, subject: d.subject, grade: d.grade, chunkCount: d.chunkCount, questionCount: d.questions.length, hasInstructions: d.instructions.length > 0 })),
       student: student ? {
         name: student.name,
         gradeBand: student.gradeBand,
@@ -161,32 +172,26 @@ router.post('/query', async (req, res) => {
 
     const { query, documentIds, maxResults } = queryContextSchema.parse(req.body);
     
-    // Generate embedding for the query
-    const queryEmbedding = await processor.generateEmbedding(query);
-    
-    // Search for relevant content
-    const searchResults = await storage.searchSimilarContent(
-      userId, 
-      queryEmbedding, 
-      maxResults, 
-      0.7 // similarity threshold
-    );
-
-    // Filter by specific documents if requested
-    const filteredResults = documentIds 
-      ? searchResults.filter(result => documentIds.includes(result.document.id))
-      : searchResults;
+    // Hybrid keyword + semantic search, restricted to specific documents if requested
+    const ranked = await contextRetrievalService.search(userId, query, {
+      documentIds,
+      embeddingProvider: req.user?.embeddingProvider ?? null
+    });
+    const filteredResults = ranked.slice(0, maxResults);
 
     // Format response
     const contextChunks = filteredResults.map(result => ({
-      content: result.chunk.content,
-      similarity: Math.round(result.similarity * 100) / 100,
+      content: result.content,
+      similarity: Math.round(result.semantic * 100) / 100,
+      score: Math.round(result.score * 100) / 100,
       source: {
-        title: result.document.title,
-        type: result.document.fileType,
-        page: (result.chunk.metadata as any)?.page || null
+        title: result.documentTitle,
+        page: result.metadata?.page || null,
+        section: result.metadata?.section || null,
+        questions: result.metadata?.questions || [],
+        citation: result.citation
       },
-      relevance: result.similarity > 0.85 ? 'high' : result.similarity > 0.7 ? 'medium' : 'low'
+      relevance: result.score >= 0.7 ? 'high' : result.score >= 0.4 ? 'medium' : 'low'
     }));
 
     res.json({
@@ -202,6 +207,29 @@ router.post('/query', async (req, res) => {
   }
 });
 
+/**
+ * Join a document's chunks, each prefixed with its citation ("[worksheet p.2, Question 4]")
+ * so the tutor can say where an answer came from
+ */
+function labelChunks(doc: { chunks: string[]; citations?: string[] }): string {
+  return doc.chunks
+    .map((content, index) => doc.citations?.[index] ? `[${doc.citations[index]}]\n${content}` : content)
+    .join('\n\n');
+}
+
+/**
+ * One line per worksheet question so the tutor can find "problem 3", e.g.
+ * "Problem 3 (p.2, Part B): Which is even? A) 3 B) 4 [answer key: B]"
+ */
+function formatWorksheetQuestions(questions: DocumentQuestion[]): string {
+  return questions.map(question => {
+    const where = [question.page ? `p.${question.page}` : null, question.section].filter(Boolean).join(', ');
+    const options = (question.options || []).map((option, i) => `${String.fromCharCode(65 + i)}) ${option}`).join(' ');
+    return `Problem ${question.number}${where ? ` (${where})` : ''}: ${question.prompt}${options ? ` ${options}` : ''}` +
+      (question.answer ? ` [answer key: ${question.answer}]` : '');
+  }).join('\n');
+}
+
 /**
  * Build system prompt with document context and student memory
  */
@@ -260,19 +288,34 @@ function buildSystemPrompt(
       
       if (doc.chunks && doc.chunks.length > 0) {
         // Include actual content, limiting to first 2000 chars per doc to avoid token limits
-        const contentPreview = doc.chunks.join('\n\n').slice(0, 2000);
+        const contentPreview = labelChunks(doc).slice(0, 2000);
         prompt += `Content:\n${contentPreview}${contentPreview.length >= 2000 ? '...[content continues]' : ''}\n\n`;
       }
+
+      if (doc.questions && doc.questions.length > 0) {
+        prompt += `Worksheet Questions (${doc.questions.length}):\n${formatWorksheetQuestions(doc.questions)}\n\n`;
+      }
+
+      if (doc.instructions && doc.instructions.length > 0) {
+        prompt += `Parent's Instructions for this document:\n${doc.instructions.map((line: string) => `- ${line}`).join('\n')}\n\n`;
+      }
       
       prompt += `---\n\n`;
     });
     
     prompt += `IMPORTANT TUTORING GUIDELINES:\n`;
     prompt += `1. Use ONLY the content from these study materials when answering content-specific questions\n`;
-    prompt += `2. Reference which document you're using (e.g., "According to Document 1: ${documents[0].title}...")\n`;
+    prompt += `2. Reference where the content comes from using its [source] label (e.g., "In ${documents[0].citations?.[0] || documents[0].title}...")\n`;
     prompt += `3. If asked about content not in the materials, say "I don't see that in your uploaded materials, but I can help you with..."\n`;
     prompt += `4. Help the student understand and apply the concepts from their materials\n`;
-    prompt += `5. Ask follow-up questions to check understanding\n\n`;
+    prompt += `5. Ask follow-up questions to check understanding\n`;
+    if (documents.some(doc => doc.questions && doc.questions.length > 0)) {
+      prompt += `6. When the student asks about a problem by number, work through that worksheet question one step at a time. Let them answer before you reveal the answer key\n`;
+    }
+    if (documents.some(doc => doc.instructions && doc.instructions.length > 0)) {
+      prompt += `7. Follow the parent's instructions for each document. Where they conflict with these guidelines, the parent's instructions win\n`;
+    }
+    prompt += `\n`;
   }
   
   return prompt;
@@ -340,17 +383,30 @@ function buildFirstMessage(
       
       if (doc.chunks && doc.chunks.length > 0) {
         // Include actual content (limited to avoid token limits)
-        const contentPreview = doc.chunks.join('\n\n').slice(0, 1500);
+        const contentPreview = labelChunks(doc).slice(0, 1500);
         message += `Content Preview:\n${contentPreview}${contentPreview.length >= 1500 ? '...[continues]' : ''}\n\n`;
       }
+      if (doc.questions && doc.questions.length > 0) {
+        message += `Worksheet Questions:\n${formatWorksheetQuestions(doc.questions)}\n\n`;
+      }
+      if (doc.instructions && doc.instructions.length > 0) {
+        message += `Parent's Instructions:\n${doc.instructions.map((line: string) => `- ${line}`).join('\n')}\n\n`;
+      }
       message += '---\n\n';
     });
     
     message += 'IMPORTANT INSTRUCTIONS:\n';
     message += '1. Reference these documents when answering questions\n';
-    message += '2. Say which document you\'re using (e.g., "In your ' + documents[0].title + '...")\n';
+    message += '2. Say where the content comes from using its [source] label (e.g., "In your ' + (documents[0].citations?.[0] || documents[0].title) + '...")\n';
     message += '3. If content isn\'t in the materials, say so politely\n';
-    message += '4. Help the student understand their materials deeply\n\n';
+    message += '4. Help the student understand their materials deeply\n';
+    if (documents.some(doc => doc.questions && doc.questions.length > 0)) {
+      message += '5. For a numbered worksheet problem, guide the student step by step and let them answer before revealing the answer key\n';
+    }
+    if (documents.some(doc => doc.instructions && doc.instructions.length > 0)) {
+      message += '6. Follow the parent\'s instructions for each document; they take priority over these instructions\n';
+    }
+    message += '\n';
   }
   
   message += '[END CONTEXT]\n\n';
@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { z } from 'zod';
 import { conversationManager } from '../services/conversationManager';
 import { telemetryManager } from '../services/sessionTelemetry';
 import { topicRouter } from '../services/topicRouter';
@@ -6,70 +7,139 @@ import { topicRouter } from '../services/topicRouter';
 const router = Router();
 
 // Get conversation state
-router.get('/state/:sessionId', (req, res) => {
-  const { sessionId } = req.params;
-  const context = conversationManager.getContext(sessionId);
-  
-  if (!context) {
-    return res.status(404).json({ error: 'Session not found' });
+router.get('/state/:sessionId', async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const context = await conversationManager.getContext(sessionId);
+    
+    if (!context) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json({
+      state: context.state,
+      topic: context.topic,
+      currentPlan: context.currentPlan,
+      previousPlans: context.previousPlans.length,
+      currentQuestion: context.currentQuestion || null,
+      updatedAt: context.updatedAt ? new Date(context.updatedAt).toISOString() : null
+    });
+  } catch (error) {
+    console.error('[Conversation] Failed to load state:', error);
+    res.status(500).json({ error: 'Failed to load conversation state' });
   }
-
-  res.json({
-    state: context.state,
-    topic: context.topic,
-    currentPlan: context.currentPlan,
-    previousPlans: context.previousPlans.length
-  });
 });
 
 // Update conversation state
-router.post('/state/:sessionId', (req, res) => {
-  const { sessionId } = req.params;
-  const { state } = req.body;
-
-  const success = conversationManager.updateState(sessionId, state);
-  
-  if (!success) {
-    return res.status(400).json({ error: 'Invalid state transition' });
+router.post('/state/:sessionId', async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { state } = req.body;
+
+    const success = await conversationManager.updateState(sessionId, state);
+    
+    if (!success) {
+      return res.status(400).json({ error: 'Invalid state transition' });
+    }
+
+    res.json({ success: true, newState: state });
+  } catch (error) {
+    console.error('[Conversation] Failed to update state:', error);
+    res.status(500).json({ error: 'Failed to update conversation state' });
   }
+});
 
-  res.json({ success: true, newState: state });
+// Transcripts contain student input, so never inject them into HTML unescaped
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const shareRequestSchema = z.object({
+  expiresInHours: z.number().int().min(1).max(24 * 30).optional()
 });
 
 // Get session transcript
-router.get('/transcript/:sessionId', (req, res) => {
+router.get('/transcript/:sessionId', async (req, res) => {
   if (!req.isAuthenticated()) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
-  const { sessionId } = req.params;
-  const transcript = telemetryManager.getTranscript(sessionId);
-  
-  res.json({ transcript });
+  try {
+    const { sessionId } = req.params;
+    const session = await telemetryManager.getSessionSummary(sessionId);
+
+    if (!session || session.userId !== req.user!.id) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json({ transcript: session.transcript });
+  } catch (error) {
+    console.error('[Conversation] Failed to load transcript:', error);
+    res.status(500).json({ error: 'Failed to load transcript' });
+  }
 });
 
 // Generate shareable transcript token
-router.post('/transcript/:sessionId/share', (req, res) => {
+router.post('/transcript/:sessionId/share', async (req, res) => {
   if (!req.isAuthenticated()) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
-  const { sessionId } = req.params;
-  const shareToken = telemetryManager.generateShareToken(sessionId);
-  
-  if (!shareToken) {
-    return res.status(404).json({ error: 'Session not found' });
+  try {
+    const { sessionId } = req.params;
+    const { expiresInHours } = shareRequestSchema.parse(req.body || {});
+    const share = await telemetryManager.generateShareToken(
+      sessionId,
+      req.user!.id,
+      expiresInHours ? expiresInHours * 60 * 60 * 1000 : undefined
+    );
+    
+    if (!share) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json({ 
+      shareId: share.shareId,
+      shareToken: share.token,
+      shareUrl: `${req.protocol}://${req.get('host')}/api/conversation/shared/${sessionId}?token=${share.token}`,
+      expiresAt: share.expiresAt.toISOString()
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid share request', details: error.errors });
+    }
+    console.error('[Conversation] Failed to create share link:', error);
+    res.status(500).json({ error: 'Failed to create share link' });
   }
+});
+
+// Revoke a transcript share link
+router.delete('/transcript/shares/:shareId', async (req, res) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const revoked = await telemetryManager.revokeShareToken(req.params.shareId, req.user!.id);
 
-  res.json({ 
-    shareToken,
-    shareUrl: `${req.protocol}://${req.get('host')}/api/conversation/shared/${sessionId}?token=${shareToken}`,
-    expiresIn: '24 hours'
-  });
+    if (!revoked) {
+      return res.status(404).json({ error: 'Share link not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[Conversation] Failed to revoke share link:', error);
+    res.status(500).json({ error: 'Failed to revoke share link' });
+  }
 });
 
 // Public shareable transcript view (requires token)
-router.get('/shared/:sessionId', (req, res) => {
+router.get('/shared/:sessionId', async (req, res) => {
   const { sessionId } = req.params;
   const { token } = req.query;
   
@@ -77,7 +147,13 @@ router.get('/shared/:sessionId', (req, res) => {
     return res.status(401).json({ error: 'Share token required' });
   }
   
-  const shareableTranscript = telemetryManager.generateShareableTranscript(sessionId, token);
+  let shareableTranscript: string;
+  try {
+    shareableTranscript = await telemetryManager.generateShareableTranscript(sessionId, token);
+  } catch (error) {
+    console.error('[Conversation] Failed to load shared transcript:', error);
+    return res.status(500).json({ error: 'Failed to load transcript' });
+  }
   
   if (!shareableTranscript) {
     return res.status(404).json({ error: 'Transcript not found, expired, or invalid token' });
@@ -98,7 +174,7 @@ router.get('/shared/:sessionId', (req, res) => {
       </style>
     </head>
     <body>
-      <pre>${shareableTranscript}</pre>
+      <pre>${escapeHtml(shareableTranscript)}</pre>
     </body>
     </html>`;
     res.setHeader('Content-Type', 'text/html');
@@ -122,19 +198,24 @@ router.post('/classify-topic', (req, res) => {
 });
 
 // Get session summary
-router.get('/summary/:sessionId', (req, res) => {
+router.get('/summary/:sessionId', async (req, res) => {
   if (!req.isAuthenticated()) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
-  const { sessionId } = req.params;
-  const summary = telemetryManager.getSessionSummary(sessionId);
-  
-  if (!summary) {
-    return res.status(404).json({ error: 'Session not found' });
+  try {
+    const { sessionId } = req.params;
+    const summary = await telemetryManager.getSessionSummary(sessionId);
+    
+    if (!summary || summary.userId !== req.user!.id) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json(summary);
+  } catch (error) {
+    console.error('[Conversation] Failed to load session summary:', error);
+    res.status(500).json({ error: 'Failed to load session summary' });
   }
-
-  res.json(summary);
 });
 
 export default router;
\ No newline at end of file
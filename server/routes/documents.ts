@@ -1,21 +1,27 @@
 import { Router } from 'express';
 import multer from 'multer';
 import path from 'path';
-import fs from 'fs';
 import { z } from 'zod';
 import { storage } from '../storage';
 import { DocumentProcessor } from '../services/document-processor';
+import { getEmbeddingProvider } from '../services/embeddingProvider';
+import { formatCitation, type ChunkMetadata } from '../services/documentChunker';
+import { IMAGE_FILE_TYPES } from '../services/ocr';
+import { documentQuestionService, DocumentQuestionError } from '../services/documentQuestions';
+import { fileContentHash } from '../services/documentDedup';
+import { documentFileService } from '../services/documentFiles';
+import { checkStorageQuota } from '../services/documentPolicy';
+import { getUploadScreeningService, UploadRejectedError } from '../services/uploadScreening';
+import { documentQuizService, DocumentQuizError } from '../services/documentQuizzes';
+import { DEFAULT_QUIZ_OPTIONS, MAX_QUIZ_QUESTIONS } from '../services/quizBuilder';
+import type { GradeReason } from '../services/answerGrader';
+import { tutorInstructionsSchema, type DocumentQuiz } from '@shared/schema';
 
 const router = Router();
 
-// Configure multer for file uploads
-const uploadDir = path.join(process.cwd(), 'uploads');
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
+// Uploads are held in memory and written to blob storage once accepted
 const upload = multer({
-  dest: uploadDir,
+  storage: multer.memoryStorage(),
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB
   },
@@ -25,10 +31,14 @@ const upload = multer({
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
       'text/plain',
       'image/png',
-      'image/jpeg'
+      'image/jpeg',
+      'image/heic',
+      'image/heif'
     ];
+    // Some browsers don't report a MIME type for HEIC photos
+    const isHeic = /\.(heic|heif)$/i.test(file.originalname);
     
-    if (allowedTypes.includes(file.mimetype)) {
+    if (allowedTypes.includes(file.mimetype) || isHeic) {
       cb(null, true);
     } else {
       cb(new Error('Invalid file type'));
@@ -45,6 +55,11 @@ const uploadMetadataSchema = z.object({
   keepForFutureSessions: z.boolean().optional().default(false)
 });
 
+// Instructions set here are the defaults for every student the document is pinned to
+const updateDocumentSchema = uploadMetadataSchema.partial().extend({
+  tutorInstructions: tutorInstructionsSchema.nullable().optional(),
+});
+
 const contextRequestSchema = z.object({
   userId: z.string(),
   subject: z.string().optional(),
@@ -53,6 +68,53 @@ const contextRequestSchema = z.object({
   sessionId: z.string().optional()
 });
 
+const searchRequestSchema = z.object({
+  query: z.string().min(1),
+  topK: z.number().int().min(1).max(50).optional(),
+  threshold: z.number().min(-1).max(1).optional(),
+  documentIds: z.array(z.string()).optional()
+});
+
+const answerKeySchema = z.object({
+  answer: z.string().trim().min(1).nullable()
+});
+
+const checkAnswerSchema = z.object({
+  answer: z.string().trim().min(1),
+  studentId: z.string().optional() // the student answering, whose pin may override the answer policy
+});
+
+const generateQuizSchema = z.object({
+  studentId: z.string().optional(),
+  questionCount: z.number().int().min(3).max(MAX_QUIZ_QUESTIONS).optional().default(DEFAULT_QUIZ_OPTIONS.questionCount),
+  shortAnswerCount: z.number().int().min(0).max(MAX_QUIZ_QUESTIONS).optional().default(DEFAULT_QUIZ_OPTIONS.shortAnswerCount)
+}).refine(request => request.shortAnswerCount <= request.questionCount, {
+  message: 'shortAnswerCount cannot exceed questionCount',
+  path: ['shortAnswerCount']
+});
+
+// Feedback on a wrong worksheet answer that doesn't state the answer key
+function withheldAnswerMessage(reason: GradeReason): string {
+  if (reason === 'unsimplified') return 'Almost! Can you simplify that?';
+  if (reason === 'missing_unit') return "Right number! Don't forget the units.";
+  if (reason === 'wrong_unit') return 'Check your units and try again.';
+  return 'Not quite. Give it another try!';
+}
+
+function quizSummary(quiz: DocumentQuiz) {
+  return {
+    id: quiz.id,
+    documentId: quiz.documentId,
+    studentId: quiz.studentId,
+    title: quiz.title,
+    questionCount: quiz.questions.length,
+    bestScore: quiz.bestScore,
+    attempts: quiz.attempts,
+    lastAttemptAt: quiz.lastAttemptAt,
+    createdAt: quiz.createdAt
+  };
+}
+
 // Document processor instance
 const processor = new DocumentProcessor();
 
@@ -82,18 +144,48 @@ router.post('/upload', upload.single('file'), async (req, res) => {
 
     // Determine file type
     const fileExtension = path.extname(req.file.originalname).toLowerCase().slice(1);
-    const supportedTypes = ['pdf', 'docx', 'txt'];
+    const supportedTypes = ['pdf', 'docx', 'txt', ...IMAGE_FILE_TYPES];
     
     if (!supportedTypes.includes(fileExtension)) {
-      fs.unlinkSync(req.file.path); // Clean up uploaded file
       return res.status(400).json({ error: 'Unsupported file type' });
     }
 
+    // Content must match the extension, fit the limits and pass the malware scan
+    try {
+      await getUploadScreeningService().screen(req.file.buffer, fileExtension);
+    } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    // An identical file this account already processed is copied instead of re-embedded
+    const contentHash = fileContentHash(req.file.buffer);
+    const duplicate = await storage.findDuplicateDocument(userId, contentHash);
+
+    // Duplicates share the stored file, so they don't count against the quota
+    const quota = checkStorageQuota(
+      await storage.getDocumentStorageUsage(userId),
+      duplicate ? 0 : req.file.size,
+      req.user?.subscriptionPlan
+    );
+    if (!quota.allowed) {
+      return res.status(413).json({
+        error: 'Storage quota exceeded',
+        usedBytes: quota.usedBytes,
+        quotaBytes: quota.quotaBytes,
+        remainingBytes: quota.remainingBytes
+      });
+    }
+
+    const stored = await documentFileService.save(userId, req.file.buffer, fileExtension, req.file.mimetype);
+
     // Save document record - queued for background processing by the embedding worker
-    const document = await storage.uploadDocument(userId, {
+    let document = await storage.uploadDocument(userId, {
       originalName: req.file.originalname,
-      fileName: req.file.filename,
-      filePath: req.file.path,
+      fileName: path.basename(stored.storageKey),
+      storageKey: stored.storageKey,
       fileType: fileExtension,
       fileSize: req.file.size,
       subject: metadata.subject,
@@ -101,12 +193,29 @@ router.post('/upload', upload.single('file'), async (req, res) => {
       title: metadata.title || req.file.originalname,
       description: metadata.description,
       keepForFutureSessions: metadata.keepForFutureSessions,
-      processingStatus: 'queued',
+      contentHash,
+      processingStatus: duplicate ? 'processing' : 'queued',
       retryCount: 0
     });
 
-    // The embedding worker will automatically process this document in the background
-    console.log(`Document ${document.id} queued for processing`);
+    if (duplicate) {
+      const copied = await storage.copyDocumentContent(duplicate.id, document.id).catch(error => {
+        console.error(`Failed to copy duplicate document ${duplicate.id}:`, error);
+        return null;
+      });
+      if (copied) {
+        document = copied;
+        console.log(`Document ${document.id} reused content from duplicate ${duplicate.id}`);
+      } else {
+        // Fall back to processing the upload from scratch
+        document = await storage.updateDocumentById(document.id, { processingStatus: 'queued' }) || document;
+      }
+    }
+
+    if (document.processingStatus === 'queued') {
+      // The embedding worker will automatically process this document in the background
+      console.log(`Document ${document.id} queued for processing`);
+    }
 
     res.json({
       id: document.id,
@@ -115,17 +224,12 @@ router.post('/upload', upload.single('file'), async (req, res) => {
       fileType: document.fileType,
       fileSize: document.fileSize,
       processingStatus: document.processingStatus,
+      deduplicated: document.processingStatus === 'ready',
       createdAt: document.createdAt
     });
 
   } catch (error) {
     console.error('Upload error:', error);
-    
-    // Clean up uploaded file on error
-    if (req.file && fs.existsSync(req.file.path)) {
-      fs.unlinkSync(req.file.path);
-    }
-    
     res.status(500).json({ error: 'Failed to upload document' });
   }
 });
@@ -153,6 +257,7 @@ router.get('/list', async (req, res) => {
         grade: doc.grade,
         description: doc.description,
         keepForFutureSessions: doc.keepForFutureSessions,
+        tutorInstructions: doc.tutorInstructions,
         processingStatus: doc.processingStatus,
         processingError: doc.processingError,
         retryCount: doc.retryCount,
@@ -179,13 +284,13 @@ router.delete('/:id', async (req, res) => {
 
     const documentId = req.params.id;
     
-    // Get document to delete file from disk
     const document = await storage.getDocument(documentId, userId);
-    if (document && fs.existsSync(document.filePath)) {
-      fs.unlinkSync(document.filePath);
-    }
-
     await storage.deleteDocument(documentId, userId);
+
+    // Stored files go once no other upload of the same file uses them
+    if (document) {
+      await documentFileService.remove(document);
+    }
     
     res.json({ success: true });
 
@@ -206,7 +311,7 @@ router.put('/:id', async (req, res) => {
     }
 
     const documentId = req.params.id;
-    const updates = uploadMetadataSchema.partial().parse(req.body);
+    const updates = updateDocumentSchema.parse(req.body);
 
     const document = await storage.updateDocument(documentId, userId, updates);
     
@@ -217,15 +322,219 @@ router.put('/:id', async (req, res) => {
       grade: document.grade,
       description: document.description,
       keepForFutureSessions: document.keepForFutureSessions,
+      tutorInstructions: document.tutorInstructions,
       updatedAt: document.updatedAt
     });
 
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid document details', details: error.errors });
+    }
     console.error('Update document error:', error);
     res.status(500).json({ error: 'Failed to update document' });
   }
 });
 
+/**
+ * Questions found on a worksheet, in order
+ */
+router.get('/:id/questions', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const questions = await documentQuestionService.listQuestions(req.params.id, userId);
+
+    res.json({
+      documentId: req.params.id,
+      questions: questions.map(question => ({
+        id: question.id,
+        number: question.number,
+        page: question.page,
+        section: question.section,
+        prompt: question.prompt,
+        questionType: question.questionType,
+        options: question.options || [],
+        blanks: question.blanks,
+        hasAnswerKey: !!question.answer,
+        attempts: question.attempts,
+        lastCorrect: question.lastCorrect
+      }))
+    });
+
+  } catch (error) {
+    if (error instanceof DocumentQuestionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('List questions error:', error);
+    res.status(500).json({ error: 'Failed to fetch questions' });
+  }
+});
+
+/**
+ * Set or clear a question's answer key
+ */
+router.put('/:id/questions/:questionId/answer-key', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { answer } = answerKeySchema.parse(req.body);
+    const question = await documentQuestionService.setAnswerKey(req.params.id, req.params.questionId, userId, answer);
+
+    res.json({ id: question.id, answer: question.answer });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid answer key', details: error.errors });
+    }
+    if (error instanceof DocumentQuestionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Set answer key error:', error);
+    res.status(500).json({ error: 'Failed to update answer key' });
+  }
+});
+
+/**
+ * Grade a student's answer to one worksheet question
+ */
+router.post('/:id/questions/:questionId/check', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { answer, studentId } = checkAnswerSchema.parse(req.body);
+    const result = await documentQuestionService.checkAnswer(req.params.id, req.params.questionId, userId, answer);
+    const policy = await documentQuestionService.answerPolicy(req.params.id, userId, studentId);
+
+    // The key would give the answer away: only echo it back once the student has reached it,
+    // and not at all when the parent asked for hints or checking only. Wrong answers get
+    // feedback that doesn't state the key either.
+    const revealAnswer = result.ok && policy !== 'hints' && policy !== 'check';
+
+    res.json({
+      correct: result.ok,
+      message: result.ok ? result.msg : withheldAnswerMessage(result.verdict.reason),
+      credit: result.verdict.credit,
+      reason: result.verdict.reason,
+      ...(revealAnswer ? { correctAnswer: result.question.answer } : {}),
+      attempts: result.question.attempts
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid answer', details: error.errors });
+    }
+    if (error instanceof DocumentQuestionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Check answer error:', error);
+    res.status(500).json({ error: 'Failed to check answer' });
+  }
+});
+
+/**
+ * Generate a self-test quiz from a processed document
+ */
+router.post('/:id/quizzes', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const request = generateQuizSchema.parse(req.body);
+    const quiz = await documentQuizService.generate(userId, req.params.id, request.studentId || null, {
+      questionCount: request.questionCount,
+      shortAnswerCount: request.shortAnswerCount
+    });
+
+    res.status(201).json(quizSummary(quiz));
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid quiz request', details: error.errors });
+    }
+    if (error instanceof DocumentQuizError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Generate quiz error:', error);
+    res.status(500).json({ error: 'Failed to generate quiz' });
+  }
+});
+
+/**
+ * Generated quizzes for the account holder, or for one student with ?studentId=
+ */
+router.get('/quizzes', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const studentId = typeof req.query.studentId === 'string' ? req.query.studentId : null;
+    const quizzes = await documentQuizService.list(userId, studentId);
+
+    res.json({ quizzes: quizzes.map(quizSummary) });
+
+  } catch (error) {
+    console.error('List quizzes error:', error);
+    res.status(500).json({ error: 'Failed to fetch quizzes' });
+  }
+});
+
+/**
+ * A quiz's questions for the player, without answer keys.
+ * Answers are submitted to /api/quiz/:quizId/submit like lesson quizzes.
+ */
+router.get('/quizzes/:quizId', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    res.json(await documentQuizService.getPlayable(req.params.quizId, userId));
+
+  } catch (error) {
+    if (error instanceof DocumentQuizError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Get quiz error:', error);
+    res.status(500).json({ error: 'Failed to fetch quiz' });
+  }
+});
+
+/**
+ * Delete a generated quiz
+ */
+router.delete('/quizzes/:quizId', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    await documentQuizService.remove(req.params.quizId, userId);
+    res.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof DocumentQuizError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Delete quiz error:', error);
+    res.status(500).json({ error: 'Failed to delete quiz' });
+  }
+});
+
 /**
  * Get context for learning session
  */
@@ -284,17 +593,14 @@ router.post('/search', async (req, res) => {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    const { query, topK = 5, threshold = 0.7 } = req.body;
-    
-    if (!query) {
-      return res.status(400).json({ error: 'Query required' });
-    }
+    const { query, topK = 5, threshold = 0.7, documentIds } = searchRequestSchema.parse(req.body);
 
-    // Generate embedding for query
-    const queryEmbedding = await processor.generateEmbedding(query);
+    // Generate embedding for query with the model the account's documents use
+    const provider = getEmbeddingProvider(req.user?.embeddingProvider);
+    const queryEmbedding = await processor.generateEmbedding(query, provider);
     
     // Search for similar content
-    const results = await storage.searchSimilarContent(userId, queryEmbedding, topK, threshold);
+    const results = await storage.searchSimilarContent(userId, queryEmbedding, provider.model, topK, threshold, documentIds);
     
     res.json({
       query,
@@ -302,14 +608,19 @@ router.post('/search', async (req, res) => {
         content: result.chunk.content,
         similarity: result.similarity,
         document: {
+          id: result.document.id,
           title: result.document.title,
           originalName: result.document.originalName
         },
-        metadata: result.chunk.metadata
+        metadata: result.chunk.metadata,
+        citation: formatCitation(result.document.title || result.document.originalName, result.chunk.metadata as ChunkMetadata | null)
       }))
     });
 
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid search request', details: error.errors });
+    }
     console.error('Search error:', error);
     res.status(500).json({ error: 'Search failed' });
   }
@@ -336,10 +647,12 @@ async function processDocumentAsync(documentId: string, filePath: string, fileTy
       });
       
       // Generate and store embedding
-      const embedding = await processor.generateEmbedding(chunkData.content);
+      const provider = getEmbeddingProvider();
+      const embedding = await processor.generateEmbedding(chunkData.content, provider);
       await storage.createDocumentEmbedding({
         chunkId: chunk.id,
-        embedding: JSON.stringify(embedding)
+        embedding: JSON.stringify(embedding),
+        embeddingModel: provider.model
       });
     }
     
@@ -1,20 +1,22 @@
 import express from 'express';
-import { openaiService } from '../services/openai';
+import { openaiService, requestGradeBand } from '../services/openai';
 import { getAzureTTSService } from '../services/azureTTS';
 import { telemetryManager } from '../services/sessionTelemetry';
 import { conversationManager } from '../services/conversationManager';
 import { debugLogger } from '../utils/debugLogger';
 import { rateLimitTracker } from '../utils/rateLimitHandler';
 import { type EnergyStyle } from '../utils/ssmlGenerator';
+import { streamTutorResponse } from '../services/voiceResponseStream';
+import { requireActiveMeter } from '../middleware/usage-meter';
 
 const router = express.Router();
 
 // Enhanced voice response with comprehensive gating, rate limiting, and monitoring
-router.post('/generate-response', async (req, res) => {
+router.post('/generate-response', requireActiveMeter, async (req, res) => {
   const startTime = Date.now();
   
   try {
-    const { message, lessonId, sessionId, energyLevel, speechDuration, speechConfidence } = req.body;
+    const { message, lessonId, sessionId, energyLevel, speechDuration, speechConfidence, documentIds, studentId } = req.body;
     const userId = req.user?.id || 'anonymous';
     
     // 1. RATE LIMIT CHECK
@@ -79,15 +81,15 @@ router.post('/generate-response', async (req, res) => {
     // 3. LESSON CONTEXT MANAGEMENT
     // Clear context on lesson switch to prevent cross-contamination
     if (sessionId && lessonId) {
-      const currentContext = conversationManager.getContext(sessionId);
+      const currentContext = await conversationManager.getContext(sessionId);
       if (currentContext && currentContext.topic !== lessonId) {
         console.log(`[Voice API] Lesson switch detected: ${currentContext.topic} -> ${lessonId}`);
-        conversationManager.clearContext(sessionId);
-        conversationManager.initializeContext(sessionId, userId);
-        conversationManager.setTopic(sessionId, lessonId);
+        await conversationManager.clearContext(sessionId);
+        await conversationManager.initializeContext(sessionId, userId);
+        await conversationManager.setTopic(sessionId, lessonId);
       } else if (!currentContext) {
-        conversationManager.initializeContext(sessionId, userId);
-        conversationManager.setTopic(sessionId, lessonId);
+        await conversationManager.initializeContext(sessionId, userId);
+        await conversationManager.setTopic(sessionId, lessonId);
       }
     }
     
@@ -107,7 +109,11 @@ router.post('/generate-response', async (req, res) => {
         userId,
         lessonId: lessonId || 'general',
         sessionId,
-        energyLevel: effectiveEnergyLevel
+        energyLevel: effectiveEnergyLevel,
+        documentIds: Array.isArray(documentIds) ? documentIds.filter((id: unknown) => typeof id === 'string') : undefined,
+        studentId: typeof studentId === 'string' ? studentId : undefined,
+        gradeBand: await requestGradeBand(req.user, studentId),
+        language: req.user?.preferredLanguage || undefined
       });
       
       // Extract retry count from response if available
@@ -285,100 +291,7 @@ function getLessonFallbacks(subject: string): string[] {
 }
 
 // Stream response with Server-Sent Events for barge-in support
-router.get('/stream-response', async (req, res) => {
-  // Set SSE headers
-  res.writeHead(200, {
-    'Content-Type': 'text/event-stream',
-    'Cache-Control': 'no-cache',
-    'Connection': 'keep-alive',
-    'Access-Control-Allow-Origin': '*',
-  });
-  
-  const { message, lessonId, sessionId } = req.query as any;
-  const userId = req.user?.id || 'anonymous';
-  const startTime = Date.now();
-  
-  // Abort controller for barge-in
-  const abortController = new AbortController();
-  
-  // Handle client disconnect (barge-in)
-  req.on('close', () => {
-    console.log('[Streaming] Client disconnected (barge-in), aborting TTS');
-    abortController.abort();
-    res.end();
-  });
-  
-  try {
-    // Generate AI response
-    const response = await openaiService.generateEnhancedTutorResponse(message as string, {
-      userId,
-      lessonId: lessonId as string,
-      sessionId: sessionId as string,
-    });
-    
-    // Split into sentences for streaming
-    const sentences = response.content.split(/(?<=[.!?])\s+/).filter(s => s.length > 0);
-    
-    // Stream each sentence
-    for (let i = 0; i < sentences.length; i++) {
-      if (abortController.signal.aborted) {
-        console.log('[Streaming] Aborted at sentence', i);
-        break;
-      }
-      
-      const sentence = sentences[i];
-      
-      // Send text first
-      res.write(`data: ${JSON.stringify({ 
-        type: 'text', 
-        content: sentence, 
-        index: i,
-        total: sentences.length 
-      })}\n\n`);
-      
-      // Generate audio if available
-      if (process.env.VOICE_TEST_MODE !== '1' && process.env.AZURE_SPEECH_KEY) {
-        try {
-          const azureTTS = getAzureTTSService();
-          const audioBuffer = await azureTTS.synthesizeSpeech(
-            sentence, 
-            (process.env.ENERGY_LEVEL as EnergyStyle) || 'upbeat'
-          );
-          
-          if (!abortController.signal.aborted) {
-            res.write(`data: ${JSON.stringify({ 
-              type: 'audio', 
-              content: Buffer.from(audioBuffer).toString('base64'), 
-              index: i 
-            })}\n\n`);
-          }
-        } catch (error) {
-          console.error('[Streaming] TTS error for sentence', i, error);
-        }
-      }
-      
-      // Small delay between sentences
-      await new Promise<void>(resolve => setTimeout(resolve, 100));
-    }
-    
-    // Send completion
-    if (!abortController.signal.aborted) {
-      res.write(`data: ${JSON.stringify({ 
-        type: 'complete',
-        durationMs: Date.now() - startTime
-      })}\n\n`);
-    }
-    
-  } catch (error) {
-    console.error('[Streaming] Error:', error);
-    res.write(`data: ${JSON.stringify({ 
-      type: 'error', 
-      message: 'Failed to generate response' 
-    })}\n\n`);
-  } finally {
-    res.end();
-  }
-});
+router.get('/stream-response', requireActiveMeter, streamTutorResponse);
 
 // Get current voice configuration
 router.get('/config', (req, res) => {
@@ -1,22 +1,16 @@
 import express from 'express';
 import { openaiCircuitBreaker } from '../services/circuitBreaker';
+import { llmRouter } from '../services/llmRouter';
 import { userQueueManager } from '../services/userQueueManager';
 import { semanticCache } from '../services/semanticCache';
 import { inputGatingService } from '../services/inputGating';
 import { debugLogger } from '../utils/debugLogger';
+import { requireAdmin } from '../middleware/admin-auth';
 
 const router = express.Router();
 
-// Debug/observability routes (auth-gated)
-const requireAuth = (req: express.Request, res: express.Response, next: express.NextFunction) => {
-  if (!req.user || (req.user as any).role !== 'admin') {
-    return res.status(403).json({ error: 'Admin access required' });
-  }
-  next();
-};
-
 // Get comprehensive system metrics
-router.get('/metrics', requireAuth, (req, res) => {
+router.get('/metrics', requireAdmin, (req, res) => {
   try {
     const queueMetrics = userQueueManager.getGlobalMetrics();
     const cacheMetrics = semanticCache.getMetrics();
@@ -63,6 +57,9 @@ router.get('/metrics', requireAuth, (req, res) => {
           : null
       },
       
+      // LLM providers in failover order, each with its own circuit breaker
+      providers: llmRouter.getMetrics(),
+      
       // Input gating
       inputGating: {
         totalInputs: gatingMetrics.totalInputs,
@@ -178,7 +175,7 @@ router.get('/health', (req, res) => {
 });
 
 // Get last N conversation turns for debugging
-router.get('/last-turns', requireAuth, (req, res) => {
+router.get('/last-turns', requireAdmin, (req, res) => {
   try {
     const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
     const turns = debugLogger.getRecentTurns(limit);
@@ -195,7 +192,7 @@ router.get('/last-turns', requireAuth, (req, res) => {
 });
 
 // Get specific session details
-router.get('/session/:sessionId', requireAuth, (req, res) => {
+router.get('/session/:sessionId', requireAdmin, (req, res) => {
   try {
     const { sessionId } = req.params;
     
@@ -224,13 +221,13 @@ router.get('/session/:sessionId', requireAuth, (req, res) => {
 });
 
 // Reset specific metrics (for testing)
-router.post('/reset', requireAuth, (req, res) => {
+router.post('/reset', requireAdmin, (req, res) => {
   try {
     const { component } = req.body;
     
     switch (component) {
       case 'circuit':
-        openaiCircuitBreaker.reset();
+        llmRouter.resetMetrics();
         break;
       case 'cache':
         semanticCache.clear();
@@ -242,7 +239,7 @@ router.post('/reset', requireAuth, (req, res) => {
         userQueueManager.cleanup();
         break;
       case 'all':
-        openaiCircuitBreaker.reset();
+        llmRouter.resetMetrics();
         semanticCache.clear();
         inputGatingService.resetMetrics();
         userQueueManager.cleanup();
@@ -309,7 +306,7 @@ router.get('/health', (req, res) => {
 });
 
 // Performance monitoring endpoint
-router.get('/performance', requireAuth, (req, res) => {
+router.get('/performance', requireAdmin, (req, res) => {
   try {
     const queueMetrics = userQueueManager.getGlobalMetrics();
     const cacheMetrics = semanticCache.getMetrics();
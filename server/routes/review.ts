@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { reviewQueueService } from '../services/reviewQueue';
+
+const router = Router();
+
+// Middleware to ensure authentication
+const requireAuth = (req: any, res: any, next: any) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+  next();
+};
+
+router.use(requireAuth);
+
+const dueQuerySchema = z.object({
+  studentId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+const answerSchema = z.object({
+  answer: z.number().int().min(0).nullable(),
+});
+
+// GET /api/review/due - Quiz items due for review, mixed across lessons
+router.get('/due', async (req, res) => {
+  try {
+    const user = req.user as any;
+    const { studentId, limit } = dueQuerySchema.parse(req.query);
+
+    if (studentId && !(await storage.getStudent(studentId, user.id))) {
+      return res.status(404).json({ message: 'Student not found' });
+    }
+
+    const [items, totalDue] = await Promise.all([
+      reviewQueueService.getDueItems(user.id, studentId || null, limit),
+      reviewQueueService.countDue(user.id, studentId || null),
+    ]);
+
+    res.json({ items, totalDue });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: error.errors });
+    }
+    res.status(500).json({ message: 'Error fetching review items: ' + error.message });
+  }
+});
+
+// POST /api/review/:reviewItemId/answer - Grade a review answer and reschedule the item
+router.post('/:reviewItemId/answer', async (req, res) => {
+  try {
+    const user = req.user as any;
+    const { answer } = answerSchema.parse(req.body);
+
+    const result = await reviewQueueService.submitReview(user.id, req.params.reviewItemId, answer);
+    if (!result) {
+      return res.status(404).json({ message: 'Review item not found' });
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: error.errors });
+    }
+    res.status(500).json({ message: 'Error submitting review answer: ' + error.message });
+  }
+});
+
+export default router;
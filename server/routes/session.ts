@@ -1,6 +1,8 @@
 import { Router } from 'express';
+import { z } from 'zod';
 import { sessionAgentService } from '../services/session-agent-service';
 import { storage } from '../storage';
+import { usageMeter, HEARTBEAT_INTERVAL_MS } from '../services/usageMeter';
 
 export const sessionRouter = Router();
 
@@ -83,10 +85,9 @@ sessionRouter.post('/check-availability', async (req, res) => {
   }
 
   try {
-    const userId = req.user!.id;
-    const user = await storage.getUser(userId);
-    
-    if (!user) {
+    const availability = await checkAvailability(req.user!.id);
+
+    if (!availability) {
       return res.status(404).json({ 
         allowed: false, 
         reason: 'user_not_found',
@@ -94,42 +95,138 @@ sessionRouter.post('/check-availability', async (req, res) => {
       });
     }
 
-    // Check if user has an active subscription
-    if (!user.subscriptionStatus || user.subscriptionStatus !== 'active') {
-      return res.json({ 
-        allowed: false, 
-        reason: 'no_subscription',
-        message: 'Please subscribe to start tutoring sessions',
-        remainingMinutes: 0
-      });
+    res.json(availability);
+  } catch (error) {
+    console.error('Error checking session availability:', error);
+    res.status(500).json({ 
+      error: 'Failed to check session availability',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+const openMeterSchema = z.object({
+  sessionType: z.enum(['voice', 'text']).default('voice')
+});
+
+// Open a server-metered session; the client must heartbeat it while connected
+sessionRouter.post('/meter/start', async (req, res) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { sessionType } = openMeterSchema.parse(req.body || {});
+    const availability = await checkAvailability(req.user!.id);
+
+    if (!availability) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (!availability.allowed) {
+      return res.status(403).json(availability);
     }
 
-    // Get available minutes
-    const minutesData = await storage.getAvailableMinutes(userId);
-    
-    if (minutesData.remaining <= 0) {
-      return res.json({ 
-        allowed: false, 
-        reason: 'no_minutes',
-        message: 'You\'ve used all your minutes. Purchase more to continue.',
-        remainingMinutes: 0,
-        totalMinutes: minutesData.total,
-        usedMinutes: minutesData.used
-      });
+    const meter = await usageMeter.open(req.user!.id, sessionType);
+
+    res.json({
+      meterId: meter.id,
+      startedAt: meter.startedAt,
+      heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS,
+      remainingMinutes: availability.remainingMinutes
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid meter request', details: error.errors });
     }
+    console.error('Error opening metered session:', error);
+    res.status(500).json({ 
+      error: 'Failed to start metered session',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
 
-    res.json({ 
-      allowed: true, 
-      remainingMinutes: minutesData.remaining,
-      totalMinutes: minutesData.total,
-      usedMinutes: minutesData.used,
-      warningThreshold: minutesData.remaining < 10 
+sessionRouter.post('/meter/:meterId/heartbeat', async (req, res) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const status = await usageMeter.heartbeat(req.params.meterId, req.user!.id);
+
+    if (!status) {
+      return res.status(404).json({ error: 'Metered session not found' });
+    }
+
+    res.json(status);
+  } catch (error) {
+    console.error('Error recording heartbeat:', error);
+    res.status(500).json({ 
+      error: 'Failed to record heartbeat',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Also the target of navigator.sendBeacon on page unload, so it takes no body
+sessionRouter.post('/meter/:meterId/end', async (req, res) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const meter = await usageMeter.end(req.params.meterId, req.user!.id);
+
+    if (!meter) {
+      return res.status(404).json({ error: 'Metered session not found' });
+    }
+
+    res.json({
+      meterId: meter.id,
+      billedMinutes: meter.billedMinutes || 0,
+      endReason: meter.endReason
     });
   } catch (error) {
-    console.error('Error checking session availability:', error);
+    console.error('Error ending metered session:', error);
     res.status(500).json({ 
-      error: 'Failed to check session availability',
+      error: 'Failed to end metered session',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
+
+async function checkAvailability(userId: string) {
+  const user = await storage.getUser(userId);
+  if (!user) return null;
+
+  const minutesData = await storage.getAvailableMinutes(userId);
+  const minutes = {
+    ...minutesData,
+    remainingMinutes: minutesData.remaining,
+    totalMinutes: minutesData.total,
+    usedMinutes: minutesData.used
+  };
+
+  if (await storage.canUserUseVoice(userId)) {
+    return { allowed: true, ...minutes, warningThreshold: minutesData.remaining < 10 };
+  }
+
+  // Check if user has an active subscription
+  if (!user.subscriptionStatus || user.subscriptionStatus !== 'active') {
+    return { 
+      allowed: false, 
+      reason: 'no_subscription',
+      message: 'Please subscribe to start tutoring sessions',
+      ...minutes,
+      remainingMinutes: 0
+    };
+  }
+
+  return { 
+    allowed: false, 
+    reason: 'no_minutes',
+    message: 'You\'ve used all your minutes. Purchase more to continue.',
+    ...minutes,
+    remainingMinutes: 0
+  };
+}
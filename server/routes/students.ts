@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { storage } from '../storage';
-import { insertStudentSchema, insertStudentDocPinSchema, insertTutorSessionSchema } from '@shared/schema';
+import { insertStudentSchema, insertStudentDocPinSchema, insertTutorSessionSchema, tutorInstructionsSchema } from '@shared/schema';
 import { z } from 'zod';
 
 const router = Router();
@@ -135,6 +135,26 @@ router.delete('/:studentId/pins/:pinId', async (req, res) => {
   }
 });
 
+// PUT /api/students/:studentId/pins/:pinId - Set this student's tutor instructions for a pinned document
+router.put('/:studentId/pins/:pinId', async (req, res) => {
+  try {
+    const user = req.user as any;
+    const { studentId, pinId } = req.params;
+    
+    const instructions = tutorInstructionsSchema.nullable().parse(req.body.tutorInstructions ?? null);
+    const pin = await storage.updatePinInstructions(studentId, pinId, user.id, instructions);
+    if (!pin) {
+      return res.status(404).json({ message: 'Pin not found' });
+    }
+    res.json(pin);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Validation error', errors: error.errors });
+    }
+    res.status(500).json({ message: 'Error updating pin: ' + error.message });
+  }
+});
+
 // GET /api/students/:studentId/pins - Get pinned documents for a student
 router.get('/:studentId/pins', async (req, res) => {
   try {
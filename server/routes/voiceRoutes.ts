@@ -1,6 +1,6 @@
 import express from 'express';
 import { voiceService } from '../services/voice';
-import { openaiService } from '../services/openai';
+import { openaiService, requestGradeBand } from '../services/openai';
 import { getAzureTTSService } from '../services/azureTTS';
 import { getCurrentEnergyLevel, type EnergyLevel } from '../llm/voiceConfig';
 import { telemetryManager } from '../services/sessionTelemetry';
@@ -13,6 +13,7 @@ import { answerChecker } from '../services/answerChecker';
 import { latencyTracker } from '../services/latencyTracker';
 import { latencyConfig, microAckPool, fallbackPools, getRandomFromPool } from '../config/latencyConfig';
 import { answerFeedbackService } from '../services/answerFeedback';
+import { requireActiveMeter } from '../middleware/usage-meter';
 
 const router = express.Router();
 
@@ -79,9 +80,9 @@ const extractExpectedAnswer = (question: string): string | null => {
 };
 
 // Generate voice response with lesson grounding and turn gating
-router.post('/generate-response', async (req, res) => {
+router.post('/generate-response', requireActiveMeter, async (req, res) => {
   try {
-    const { message, lessonId, sessionId, energyLevel, speechDuration, speechConfidence } = req.body;
+    const { message, lessonId, sessionId, energyLevel, speechDuration, speechConfidence, documentIds, studentId } = req.body;
     
     // Get user and session identifiers
     const userId = req.user?.id || 'anonymous';
@@ -141,7 +142,11 @@ router.post('/generate-response', async (req, res) => {
         userId,
         lessonId: lessonId || 'general',
         sessionId: effectiveSessionId,
-        energyLevel: effectiveEnergyLevel
+        energyLevel: effectiveEnergyLevel,
+        documentIds: Array.isArray(documentIds) ? documentIds.filter((id: unknown) => typeof id === 'string') : undefined,
+        studentId: typeof studentId === 'string' ? studentId : undefined,
+        gradeBand: await requestGradeBand(req.user, studentId),
+        language: req.user?.preferredLanguage || undefined
       }, {
         duration: speechDuration,
         confidence: speechConfidence
@@ -214,21 +219,17 @@ router.post('/generate-response', async (req, res) => {
           audioChunks.push(base64Audio);
         }
 
-        // Add telemetry entries for transcript
-        if (effectiveSessionId) {
-          // Initialize session telemetry if needed
-          if (!telemetryManager.getSessionSummary(effectiveSessionId)) {
-            telemetryManager.startSession(effectiveSessionId, userId);
-          }
-
-          telemetryManager.addTranscriptEntry(effectiveSessionId, {
+        // Add telemetry entries for transcript, initializing (or resuming) session telemetry if needed.
+        // A session id that belongs to another user records nothing.
+        if (effectiveSessionId && await telemetryManager.ensureSession(effectiveSessionId, userId)) {
+          await telemetryManager.addTranscriptEntry(effectiveSessionId, {
             speaker: 'user',
             content: message,
             topic: enhancedResponse.topic,
             energyLevel: effectiveEnergyLevel
           });
 
-          telemetryManager.addTranscriptEntry(effectiveSessionId, {
+          await telemetryManager.addTranscriptEntry(effectiveSessionId, {
             speaker: 'tutor',
             content: enhancedResponse.content,
             topic: enhancedResponse.topic,
@@ -259,21 +260,17 @@ router.post('/generate-response', async (req, res) => {
     }
 
     // Test mode response (browser TTS will handle synthesis)
-    // Add telemetry entries for transcript
-    if (effectiveSessionId) {
-      // Initialize session telemetry if needed
-      if (!telemetryManager.getSessionSummary(effectiveSessionId)) {
-        telemetryManager.startSession(effectiveSessionId, userId);
-      }
-
-      telemetryManager.addTranscriptEntry(effectiveSessionId, {
+    // Add telemetry entries for transcript, initializing (or resuming) session telemetry if needed.
+    // A session id that belongs to another user records nothing.
+    if (effectiveSessionId && await telemetryManager.ensureSession(effectiveSessionId, userId)) {
+      await telemetryManager.addTranscriptEntry(effectiveSessionId, {
         speaker: 'user',
         content: message,
         topic: enhancedResponse.topic,
         energyLevel: effectiveEnergyLevel
       });
 
-      telemetryManager.addTranscriptEntry(effectiveSessionId, {
+      await telemetryManager.addTranscriptEntry(effectiveSessionId, {
         speaker: 'tutor',
         content: enhancedResponse.content,
         topic: enhancedResponse.topic,
@@ -314,20 +311,17 @@ router.post('/generate-response', async (req, res) => {
     // Return a lesson-specific fallback response instead of generic error
     const subject = lessonId ? lessonId.split('-')[0] : 'general';
     
-    // CRITICAL: Check if user provided an answer to a previous question
+    // CRITICAL: Check if user answered the question the session is waiting on
     let answerFeedback = '';
-    // Get last question from session state
-    const lastQuestionKey = `last_question_${sessionId || 'default'}`;
-    const lastQuestion = (req.session as any)[lastQuestionKey] as string | undefined;
+    const questionState = await conversationManager.getQuestionState(effectiveSessionId);
     
-    if (lastQuestion && message && message.length > 0 && subject === 'math') {
-      // For math, check if this is an answer to a math problem
-      const expectedAnswer = extractExpectedAnswer(lastQuestion);
-      if (expectedAnswer) {
-        const checkResult = answerChecker.checkAnswer(expectedAnswer, message, 'math');
-        console.log(`[Voice API Fallback] Answer check - Expected: ${expectedAnswer}, Got: ${message}, Result: ${checkResult.ok}`);
-        answerFeedback = checkResult.msg + ' ';
-      }
+    if (questionState?.expectedAnswer && message && message.length > 0) {
+      const answerType = (questionState.questionType === 'open' ? 'short' : questionState.questionType) || 'auto';
+      const checkResult = [questionState.expectedAnswer, ...(questionState.acceptedAnswers || [])]
+        .map(expected => answerChecker.checkAnswer(expected, message, answerType, subject, questionState.options))
+        .reduce((best, result) => best.ok ? best : result.ok ? result : best);
+      console.log(`[Voice API Fallback] Answer check - Expected: ${questionState.expectedAnswer}, Got: ${message}, Result: ${checkResult.ok}`);
+      answerFeedback = checkResult.msg + ' ';
     }
     
     // Use centralized fallback pools from config
@@ -346,20 +340,17 @@ router.post('/generate-response', async (req, res) => {
     selectedResponse = guardrails.avoidRepeat(sessionId || 'default', selectedResponse, subject);
     selectedResponse = guardrails.enforceFormat(selectedResponse);
     
-    // Store the new question for next answer checking
-    if (selectedResponse.includes('?')) {
-      const lastQuestionKey = `last_question_${sessionId || 'default'}`;
-      (req.session as any)[lastQuestionKey] = selectedResponse;
+    // The new question replaces the one the session was waiting on; math ones can be checked next turn
+    const expectedAnswer = fallbackSubject === 'math' && selectedResponse.includes('?')
+      ? extractExpectedAnswer(selectedResponse)
+      : null;
+    if (expectedAnswer) {
+      await conversationManager.setQuestionState(effectiveSessionId, selectedResponse, expectedAnswer, 'math');
+    } else {
+      await conversationManager.clearQuestionState(effectiveSessionId);
     }
     
-    // Track this response (keep only last 3 responses for better variety)
-    const sessionKey = `recent_responses_${sessionId || 'default'}`;
-    const recentResponses = (req.session as any)[sessionKey] || [];
-    const updatedHistory = [...recentResponses.slice(-2), selectedResponse];
-    (req.session as any)[sessionKey] = updatedHistory;
-    
     console.log(`[Voice API] Selected fallback response for ${subject}: "${selectedResponse.substring(0, 50)}..."`);
-    console.log(`[Voice API] Recent responses history length: ${updatedHistory.length}`);
     
     res.json({ 
       content: selectedResponse,
@@ -377,7 +368,7 @@ router.post('/generate-response', async (req, res) => {
 });
 
 // Generate live token for OpenAI Realtime API
-router.get('/live-token', async (req, res) => {
+router.get('/live-token', requireActiveMeter, async (req, res) => {
   try {
     const useRealtimeAPI = process.env.USE_REALTIME === 'true' || process.env.USE_REALTIME === '1';
     
@@ -1,5 +1,5 @@
 import { db } from "./db";
-import { subjects, lessons } from "@shared/schema";
+import { subjects, lessons, lessonVersions } from "@shared/schema";
 import * as fs from "fs/promises";
 import * as path from "path";
 
@@ -64,7 +64,17 @@ async function seedDatabase() {
           content: content,
           orderIndex: lessonInfo.orderIndex,
           estimatedMinutes: 15,
-          isActive: true
+          isActive: true,
+          status: 'published',
+          version: 1
+        });
+        await db.insert(lessonVersions).values({
+          lessonId: lessonInfo.id,
+          version: 1,
+          title: content.title,
+          description: content.description,
+          content: content,
+          changeNote: 'Seeded from content/lessons'
         });
         
         console.log(`Inserted lesson: ${content.title}`);
@@ -1,6 +1,7 @@
 // Enhanced answer feedback system with explicit correct/incorrect acknowledgements
 
 import { answerChecker } from './answerChecker';
+import { conversationManager } from './conversationManager';
 import { getRandomFromPool, microAckPool, fallbackPools } from '../config/latencyConfig';
 
 interface AnswerFeedback {
@@ -12,6 +13,7 @@ interface AnswerFeedback {
 }
 
 interface LessonContext {
+  sessionId?: string;
   lastQuestion?: string;
   expectedAnswer?: string;
   questionType?: 'math' | 'mcq' | 'short' | 'auto';
@@ -21,7 +23,6 @@ interface LessonContext {
 }
 
 export class AnswerFeedbackService {
-  private recentQuestions: Map<string, string[]> = new Map();
   private readonly MAX_RECENT_QUESTIONS = 10;
 
   // Generate immediate micro-acknowledgement
@@ -30,10 +31,10 @@ export class AnswerFeedbackService {
   }
 
   // Classify and provide feedback on user's answer
-  classifyAnswer(
+  async classifyAnswer(
     userAnswer: string,
     context: LessonContext
-  ): AnswerFeedback {
+  ): Promise<AnswerFeedback> {
     const { lastQuestion, expectedAnswer, questionType, subject } = context;
 
     // If no expected answer or question context, treat as exploratory
@@ -47,14 +48,14 @@ export class AnswerFeedbackService {
     }
 
     // Check answer correctness
-    const isCorrect = answerChecker.checkAnswer(userAnswer, expectedAnswer, questionType as any);
+    const { ok: isCorrect } = answerChecker.checkAnswer(expectedAnswer, userAnswer, questionType, subject);
 
     if (isCorrect) {
       // Correct answer - advance and praise
       return {
         isCorrect: true,
         feedback: this.getCorrectFeedback(),
-        nextQuestion: this.getNextQuestion(context),
+        nextQuestion: await this.getNextQuestion(context),
         shouldAdvance: true,
         microAck: "Correct — great work!"
       };
@@ -114,34 +115,33 @@ export class AnswerFeedbackService {
   }
 
   // Get next question ensuring no repetition
-  private getNextQuestion(context: LessonContext): string | undefined {
-    const { subject = 'math', currentStep = 0 } = context;
-    const sessionId = `${subject}-${currentStep}`;
+  private async getNextQuestion(context: LessonContext): Promise<string | undefined> {
+    const { subject = 'math', sessionId } = context;
     
     // Get pool of questions for this subject
     const questionPool = fallbackPools[subject] || fallbackPools.math;
     
-    // Get recent questions for this session
-    let recent = this.recentQuestions.get(sessionId) || [];
+    // Recent questions live on the session's persisted conversation context. Without one
+    // there's no user to store them for, so pick without the anti-repeat history.
+    const conversation = sessionId ? await conversationManager.getContext(sessionId) : undefined;
+    if (!sessionId || !conversation) {
+      return getRandomFromPool(questionPool);
+    }
+    const recent = conversation.recentQuestions || [];
     
     // Find a question not recently used
     const availableQuestions = questionPool.filter(q => !recent.includes(q));
     
     if (availableQuestions.length === 0) {
       // Reset if we've used all questions
-      recent = [];
-      this.recentQuestions.set(sessionId, recent);
+      await conversationManager.clearRecentQuestions(sessionId);
       return getRandomFromPool(questionPool);
     }
     
     const nextQuestion = getRandomFromPool(availableQuestions);
     
     // Track this question
-    recent.push(nextQuestion);
-    if (recent.length > this.MAX_RECENT_QUESTIONS) {
-      recent.shift();
-    }
-    this.recentQuestions.set(sessionId, recent);
+    await conversationManager.recordRecentQuestion(sessionId, nextQuestion, this.MAX_RECENT_QUESTIONS);
     
     return nextQuestion;
   }
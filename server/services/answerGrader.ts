@@ -0,0 +1,568 @@
+// Single grading engine for every place that checks a learner's answer
+
+import {
+  compareMath,
+  evaluateMath,
+  parseMath,
+  type MathEquivalenceOptions,
+  type MathTolerance,
+  type ParsedMath,
+  type UnitPolicy
+} from './mathEquivalence';
+
+export type AnswerKind = 'numeric' | 'fraction' | 'expression' | 'mcq' | 'short_text' | 'set' | 'spanish';
+
+export type AnswerSpec =
+  | { kind: 'numeric'; expected: string | number; tolerance?: number; units?: UnitPolicy }
+  | { kind: 'fraction'; expected: string; requireSimplest?: boolean }
+  | { kind: 'expression'; expected: string; tolerance?: MathTolerance; units?: UnitPolicy; convertUnits?: boolean }
+  | { kind: 'mcq'; expected: string | number; options?: string[] }
+  | { kind: 'short_text'; expected: string; accept?: string[] }
+  | { kind: 'set'; expected: string[] }
+  | { kind: 'spanish'; expected: string; accept?: string[] };
+
+export type GradeReason =
+  | 'exact'              // same answer after normalization
+  | 'equivalent'         // different form, same value (2+2 for 4, 0.5 for 1/2)
+  | 'close_match'        // small spelling slip
+  | 'accent_insensitive' // right apart from accents
+  | 'contains_expected'  // expected answer stated inside a longer reply
+  | 'partial'            // some of the expected parts
+  | 'unsimplified'       // right value, fraction not in lowest terms
+  | 'missing_unit'       // right value, but the key requires a unit
+  | 'wrong_unit'         // unit of a different kind, or one that must not be converted
+  | 'incorrect'
+  | 'unparseable'        // couldn't read a value or option out of the reply
+  | 'empty'
+  | 'invalid_key';       // the expected answer itself couldn't be interpreted
+
+export interface GradeVerdict {
+  kind: AnswerKind;
+  correct: boolean;
+  credit: number; // 0-1, partial credit
+  reason: GradeReason;
+}
+
+// Hints used by the older call sites ('math' | 'mcq' | 'short' ...) to pick an answer kind
+export type AnswerHint = 'math' | 'mcq' | 'short' | 'text' | 'open' | 'auto';
+
+export const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+  hundred: 100, thousand: 1000
+};
+
+const FRACTION_WORDS: Record<string, number> = {
+  half: 2, halves: 2, third: 3, thirds: 3, quarter: 4, quarters: 4, fourth: 4, fourths: 4,
+  fifth: 5, fifths: 5, sixth: 6, sixths: 6, seventh: 7, sevenths: 7, eighth: 8, eighths: 8,
+  ninth: 9, ninths: 9, tenth: 10, tenths: 10
+};
+
+const OPERATOR_WORDS: Array<[RegExp, string]> = [
+  [/\bdivided by\b/g, '/'],
+  [/\bmultiplied by\b/g, '*'],
+  [/\btimes\b/g, '*'],
+  [/\bplus\b/g, '+'],
+  [/\bminus\b/g, '-'],
+  [/\bnegative\b/g, '-'],
+  [/\btake away\b/g, '-'],
+  [/\b(?:equals|is equal to)\b/g, '='],
+  [/\b(?:to the power of|raised to)\b/g, '^'],
+  [/\bsquared\b/g, '^ 2'],
+  [/\bcubed\b/g, '^ 3'],
+  [/\bsquare root of\b/g, 'sqrt']
+];
+
+// Lead-ins learners say before the actual answer ("I think it's b")
+const FILLER_PREFIX = /^(?:(?:i think|i guess|maybe|um+|uh+|so|well)\s+)*(?:(?:it's|it is|its|the answer is|my answer is|answer is|is)\s+)?/;
+
+// Words that turn a reply containing the right number into a wrong one ("not 4", "I don't think it's 4")
+const NEGATION = /\b(?:not|no|nope|never|wrong|isnt|dont|doesnt|didnt|cant|wont|arent|wasnt)\b/;
+
+// A lone number, optionally followed by what it counts ("4", "4 apples"), once any lead-in is dropped
+const LOOSE_NUMBER = /^(-?\d+(?:\.\d+)?(?:\s*\/\s*\d+)?)(?:\s+[a-z\u00c0-\u024f]+){0,2}$/;
+
+type NumberWordClass = 'unit' | 'teen' | 'tens' | 'hundred' | 'thousand';
+
+function classifyNumberWord(word: string): NumberWordClass | null {
+  const value = NUMBER_WORDS[word];
+  if (value === undefined) return null;
+  if (value === 100) return 'hundred';
+  if (value === 1000) return 'thousand';
+  if (value < 10) return 'unit';
+  if (value < 20) return 'teen';
+  return 'tens';
+}
+
+// Which word classes may follow each other inside one spoken number ("two hundred forty five")
+const NUMBER_WORD_FOLLOWS: Record<NumberWordClass, Array<NumberWordClass | null>> = {
+  unit: [null, 'tens', 'hundred', 'thousand'],
+  teen: [null, 'hundred', 'thousand'],
+  tens: [null, 'hundred', 'thousand'],
+  hundred: [null, 'unit', 'teen'],
+  thousand: [null, 'unit', 'teen', 'tens', 'hundred'],
+};
+
+/**
+ * Replace spelled-out numbers with digits, combining compounds
+ * ("twenty one" → 21, "two hundred five" → 205) but keeping separate
+ * numbers apart ("two three" → "2 3").
+ */
+export function wordsToDigits(text: string): string {
+  const tokens = text
+    .replace(/\b(twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety)-(one|two|three|four|five|six|seven|eight|nine)\b/g, '$1 $2')
+    .split(' ');
+  const output: string[] = [];
+  let total = 0;
+  let current = 0;
+  let last: NumberWordClass | null = null;
+  let inNumber = false;
+
+  const flush = () => {
+    if (inNumber) output.push(String(total + current));
+    total = 0;
+    current = 0;
+    last = null;
+    inNumber = false;
+  };
+
+  for (const token of tokens) {
+    const cls = classifyNumberWord(token);
+    if (!cls) {
+      flush();
+      output.push(token);
+      continue;
+    }
+    if (inNumber && !NUMBER_WORD_FOLLOWS[cls].includes(last)) {
+      flush();
+    }
+
+    const value = NUMBER_WORDS[token];
+    if (cls === 'hundred') {
+      current = (current || 1) * 100;
+    } else if (cls === 'thousand') {
+      total += (current || 1) * 1000;
+      current = 0;
+    } else {
+      current += value;
+    }
+    last = cls;
+    inNumber = true;
+  }
+  flush();
+
+  return output.join(' ');
+}
+
+/**
+ * Lowercase, turn number words into digits, and drop punctuation other than
+ * math symbols. Latin letters keep their accents; Spanish answers fold them separately.
+ */
+export function normalizeText(text: string): string {
+  if (!text) return '';
+  const cleaned = text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[×·]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/[^0-9a-z\u00c0-\u024f\s+\-*/^%()=.,']/g, ' ')
+    .replace(/'/g, '')
+    .replace(/\.(?!\d)/g, ' ')
+    .replace(/,(?!\d)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return wordsToDigits(cleaned);
+}
+
+// normalizeText plus spoken operators ("three plus two" → "3 + 2")
+export function normalizeExpression(text: string): string {
+  let normalized = normalizeText(text);
+  for (const [pattern, symbol] of OPERATOR_WORDS) {
+    normalized = normalized.replace(pattern, ` ${symbol} `);
+  }
+  return normalized
+    .replace(/(\d),(\d{3})\b/g, '$1$2')
+    .replace(/(\d)\s*x\s*(?=\d)/g, '$1 * ') // "3 x 4" is times, not a variable
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function foldAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+}
+
+export function levenshtein(a: string, b: string): number {
+  const dp = Array(b.length + 1).fill(0).map((_, i) => [i]);
+  for (let j = 0; j <= a.length; j++) dp[0][j] = j;
+  for (let i = 1; i <= b.length; i++) {
+    for (let j = 1; j <= a.length; j++) {
+      dp[i][j] = b[i - 1] === a[j - 1]
+        ? dp[i - 1][j - 1]
+        : Math.min(dp[i - 1][j - 1], dp[i][j - 1], dp[i - 1][j]) + 1;
+    }
+  }
+  return dp[b.length][a.length];
+}
+
+/**
+ * Evaluate a constant expression: + - * / ^, parentheses, sqrt, pi and mixed
+ * numbers. Anything with variables, units or an equals sign is rejected.
+ */
+export function evaluateExpression(expression: string): number | null {
+  const parsed = parseMath(expression);
+  if (!parsed || parsed.right || parsed.unit || parsed.variables.length > 0) return null;
+  return evaluateMath(parsed.left);
+}
+
+interface Rational {
+  num: number;
+  den: number;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? Math.abs(a) : gcd(b, a % b);
+}
+
+// "3/4", "1 1/2", "3 quarters", "a half", "0.75", "75%" or "2"
+export function parseRational(text: string): Rational | null {
+  const normalized = normalizeText(text).replace(/^(?:a|an)\s+(?=[a-z])/, '1 ');
+
+  let match = normalized.match(/^(-?\d+(?:\.\d+)?)\s*(?:%|percent)$/);
+  if (match) {
+    const value = parseRational(match[1]);
+    return value && { num: value.num, den: value.den * 100 };
+  }
+
+  match = normalized.match(/^(-?\d+)\s*\/\s*(\d+)$/);
+  if (match) {
+    const den = parseInt(match[2], 10);
+    return den === 0 ? null : { num: parseInt(match[1], 10), den };
+  }
+
+  match = normalized.match(/^(\d+)\s+(\d+)\s*\/\s*(\d+)$/);
+  if (match) {
+    const den = parseInt(match[3], 10);
+    return den === 0 ? null : { num: parseInt(match[1], 10) * den + parseInt(match[2], 10), den };
+  }
+
+  match = normalized.match(/^(\d+)\s+([a-z]+)$/);
+  if (match && FRACTION_WORDS[match[2]]) {
+    return { num: parseInt(match[1], 10), den: FRACTION_WORDS[match[2]] };
+  }
+
+  match = normalized.match(/^(-?\d+)(?:\.(\d+))?$/);
+  if (match) {
+    const decimals = match[2] || '';
+    const den = Math.pow(10, decimals.length);
+    return { num: parseInt(match[1] + decimals, 10), den };
+  }
+
+  return null;
+}
+
+/**
+ * Read a numeric value from a reply: an expression ("2 + 2"), the right-hand
+ * side of an equation ("2 + 2 = 4"), a fraction, or a lone number after a
+ * lead-in ("it's 4", "4 apples"). Replies with several numbers, other words
+ * around the number or a negation ("not 4") are not read as that number.
+ */
+export function parseNumericAnswer(text: string): number | null {
+  let normalized = normalizeExpression(text).replace(FILLER_PREFIX, '');
+  if (normalized.includes('=')) {
+    normalized = normalized.split('=').pop()!.trim();
+  }
+
+  const evaluated = evaluateExpression(normalized);
+  if (evaluated !== null) return evaluated;
+
+  const rational = parseRational(normalized);
+  if (rational) return rational.num / rational.den;
+
+  const loose = normalized.match(LOOSE_NUMBER);
+  return loose && !NEGATION.test(normalized) ? evaluateExpression(loose[1]) : null;
+}
+
+/**
+ * Read a multiple-choice pick as a zero-based option index: the option's own
+ * text, or "b", "B)", "option b", "answer 2", "I think it's c". The option
+ * texts are matched first, and when they are numbers themselves ("4", "5")
+ * a number is never read as an option position.
+ */
+export function parseChoice(text: string, options?: string[]): number | null {
+  const normalized = normalizeText(text).replace(FILLER_PREFIX, '').replace(/[).]+$/, '').trim();
+
+  if (options) {
+    const index = options.findIndex(option => normalizeText(option) === normalized);
+    if (index >= 0) return index;
+  }
+
+  const numericOptions = !!options && options.some(option => /^-?\d+(?:\.\d+)?$/.test(normalizeText(option)));
+  const match = normalized.match(/^(?:option|answer|choice|letter|number)?\s*([a-z]|\d{1,2})$/);
+  if (match) {
+    const token = match[1];
+    const isNumber = /\d/.test(token);
+    if (isNumber && numericOptions) return null;
+    const index = isNumber ? parseInt(token, 10) - 1 : token.charCodeAt(0) - 97;
+    if (index >= 0 && (!options || index < options.length)) return index;
+  }
+
+  return null;
+}
+
+function typoThreshold(length: number): number {
+  if (length <= 2) return 0;
+  if (length <= 5) return 1;
+  if (length <= 10) return 2;
+  return Math.floor(length * 0.2);
+}
+
+function verdict(kind: AnswerKind, reason: GradeReason, credit: number): GradeVerdict {
+  return { kind, reason, credit: Math.round(credit * 100) / 100, correct: credit >= 1 };
+}
+
+export class AnswerGrader {
+  grade(spec: AnswerSpec, answer: string): GradeVerdict {
+    if (!answer || !normalizeText(answer)) {
+      return verdict(spec.kind, 'empty', 0);
+    }
+
+    switch (spec.kind) {
+      case 'numeric':
+      case 'expression':
+        return this.gradeMath(spec, answer);
+      case 'fraction':
+        return this.gradeFraction(spec, answer);
+      case 'mcq':
+        return this.gradeChoice(spec, answer);
+      case 'set':
+        return this.gradeSet(spec, answer);
+      case 'short_text':
+      case 'spanish':
+        return this.gradeText(spec.kind, [spec.expected, ...(spec.accept || [])], answer);
+    }
+  }
+
+  /**
+   * Build a spec from a bare expected answer, the way the tutor's question state
+   * stores it. `hint` is the question type the caller knew, if any.
+   */
+  specFor(expected: string, hint: AnswerHint = 'auto', context: { subject?: string; options?: string[]; requireSimplest?: boolean } = {}): AnswerSpec {
+    const normalized = normalizeText(expected);
+    const looksLikeChoice = /^(?:option\s+)?[a-d]$/.test(normalized);
+    const looksLikeFraction = /^\d+\s+\d+\s*\/\s*\d+$|^\d+\s*\/\s*\d+$/.test(normalized);
+    const looksNumeric = /^[\d\s+\-*/().=]+$/.test(normalizeExpression(expected));
+    // Algebra ("3x + 2", "x = 3") and quantities with units ("5 cm")
+    const math = /\d/.test(normalized) ? parseMath(normalizeExpression(expected)) : null;
+    const looksSymbolic = !!math && (math.variables.length > 0 || !!math.unit);
+
+    if (hint === 'mcq' || (hint === 'auto' && (looksLikeChoice || context.options))) {
+      return { kind: 'mcq', expected, options: context.options };
+    }
+    if (hint === 'math' || hint === 'auto') {
+      if (looksLikeFraction) return { kind: 'fraction', expected, requireSimplest: context.requireSimplest };
+      if (looksSymbolic) return { kind: 'expression', expected };
+      if (looksNumeric || hint === 'math') return { kind: 'numeric', expected };
+    }
+    if (context.subject === 'spanish') {
+      return { kind: 'spanish', expected };
+    }
+    return { kind: 'short_text', expected };
+  }
+
+  check(expected: string, answer: string, hint: AnswerHint = 'auto', context: { subject?: string; options?: string[] } = {}): GradeVerdict {
+    return this.grade(this.specFor(expected, hint, context), answer);
+  }
+
+  // Zero-based index of the expected option, accepting a letter, a 1-based number or the option text
+  resolveChoice(expected: string | number, options?: string[]): number | null {
+    if (typeof expected === 'number') {
+      return Number.isInteger(expected) && expected >= 0 && (!options || expected < options.length) ? expected : null;
+    }
+    return parseChoice(expected, options);
+  }
+
+  private gradeMath(spec: Extract<AnswerSpec, { kind: 'numeric' | 'expression' }>, answer: string): GradeVerdict {
+    const expectedText = String(spec.expected);
+    let expectedForm = normalizeExpression(expectedText);
+    let expected = typeof spec.expected === 'number'
+      ? parseMath(String(spec.expected))
+      : parseMath(expectedForm);
+    let label = '';
+    if (!expected) {
+      const labelled = this.splitLabel(expectedForm);
+      if (labelled) {
+        ({ math: expected, label } = labelled);
+        expectedForm = expectedForm.slice(0, -label.length).trim();
+      }
+    }
+    if (!expected) {
+      // Not actually math ("a triangle"), so grade it as text
+      return spec.kind === 'numeric'
+        ? this.gradeText('short_text', [expectedText], answer)
+        : verdict('expression', 'invalid_key', 0);
+    }
+
+    let cleaned = normalizeExpression(answer).replace(FILLER_PREFIX, '');
+    if (label && cleaned.endsWith(` ${label}`)) {
+      cleaned = cleaned.slice(0, -label.length).trim();
+    }
+    const given = parseMath(cleaned) ?? this.looseNumber(answer);
+    if (!given) {
+      return verdict(spec.kind, 'unparseable', 0);
+    }
+
+    const options: MathEquivalenceOptions = spec.kind === 'numeric'
+      ? { tolerance: spec.tolerance === undefined ? undefined : { absolute: spec.tolerance }, units: spec.units }
+      : { tolerance: spec.tolerance, units: spec.units, convertUnits: spec.convertUnits };
+
+    switch (compareMath(expected, given, options)) {
+      case 'missing_unit':
+        return verdict(spec.kind, 'missing_unit', 0.5);
+      case 'wrong_unit':
+        return verdict(spec.kind, 'wrong_unit', 0);
+      case 'not_equivalent':
+        return verdict(spec.kind, 'incorrect', 0);
+      case 'equivalent': {
+        const sameForm = cleaned.replace(/\s+/g, '') === expectedForm.replace(/\s+/g, '');
+        return verdict(spec.kind, sameForm ? 'exact' : 'equivalent', 1);
+      }
+    }
+  }
+
+  /**
+   * A count of something that isn't a unit ("5 apples"): graded on the number,
+   * which the student may say alone ("5", "five").
+   */
+  private splitLabel(expected: string): { math: ParsedMath; label: string } | null {
+    const match = expected.match(/^(.*\d.*?)\s+([a-z\u00c0-\u024f][a-z\u00c0-\u024f\s]*)$/);
+    if (!match) return null;
+    const math = parseMath(match[1]);
+    return math && math.variables.length === 0 ? { math, label: match[2] } : null;
+  }
+
+  // A lone number with a label, like "4 apples"
+  private looseNumber(answer: string): ParsedMath | null {
+    const value = parseNumericAnswer(answer);
+    return value === null ? null : { left: { type: 'num', value }, right: null, unit: null, variables: [] };
+  }
+
+  private gradeFraction(spec: Extract<AnswerSpec, { kind: 'fraction' }>, answer: string): GradeVerdict {
+    const expected = parseRational(spec.expected);
+    if (!expected) {
+      return verdict('fraction', 'invalid_key', 0);
+    }
+
+    const given = parseRational(normalizeText(answer).replace(FILLER_PREFIX, ''));
+    if (!given) {
+      // Expressions like "1/4 + 1/2" still count if they evaluate to the expected value
+      const value = parseNumericAnswer(answer);
+      if (value === null) return verdict('fraction', 'unparseable', 0);
+      const matches = Math.abs(value - expected.num / expected.den) <= 1e-9;
+      return verdict('fraction', matches ? 'equivalent' : 'incorrect', matches ? 1 : 0);
+    }
+
+    if (given.num * expected.den !== expected.num * given.den) {
+      return verdict('fraction', 'incorrect', 0);
+    }
+    if (given.num === expected.num && given.den === expected.den) {
+      return verdict('fraction', 'exact', 1);
+    }
+    // Only a reply written as a fraction can be unsimplified; "0.75" for 3/4 is fine
+    if (spec.requireSimplest && given.den !== 1 && gcd(given.num, given.den) !== 1 && answer.includes('/')) {
+      return verdict('fraction', 'unsimplified', 0.5);
+    }
+    return verdict('fraction', 'equivalent', 1);
+  }
+
+  private gradeChoice(spec: Extract<AnswerSpec, { kind: 'mcq' }>, answer: string): GradeVerdict {
+    const expected = this.resolveChoice(spec.expected, spec.options);
+    if (expected === null) {
+      return verdict('mcq', 'invalid_key', 0);
+    }
+
+    const picked = parseChoice(answer, spec.options);
+    if (picked === null) {
+      return verdict('mcq', 'unparseable', 0);
+    }
+    return verdict('mcq', picked === expected ? 'exact' : 'incorrect', picked === expected ? 1 : 0);
+  }
+
+  private gradeSet(spec: Extract<AnswerSpec, { kind: 'set' }>, answer: string): GradeVerdict {
+    const items = answer
+      .split(/,|;|&|\n|\band\b|\by\b/i)
+      .map(item => item.trim())
+      .filter(item => normalizeText(item));
+    const remaining = [...items];
+
+    let matched = 0;
+    for (const expected of spec.expected) {
+      const index = remaining.findIndex(item => this.gradeText('short_text', [expected], item).correct);
+      if (index >= 0) {
+        matched++;
+        remaining.splice(index, 1);
+      }
+    }
+
+    // Extra wrong items dilute credit so listing everything doesn't score
+    const credit = matched / Math.max(spec.expected.length, items.length);
+    if (credit >= 1) return verdict('set', 'exact', 1);
+    return verdict('set', matched > 0 ? 'partial' : 'incorrect', credit);
+  }
+
+  private gradeText(kind: 'short_text' | 'spanish', accepted: string[], answer: string): GradeVerdict {
+    const fold = kind === 'spanish' ? foldAccents : (text: string) => text;
+    const given = normalizeText(answer).replace(/[¿¡]/g, '').trim();
+    const bareGiven = given.replace(FILLER_PREFIX, '');
+
+    let best = verdict(kind, 'incorrect', 0);
+    for (const form of accepted) {
+      const expected = normalizeText(form).replace(/[¿¡]/g, '').trim();
+      if (!expected) continue;
+
+      const candidate = this.matchText(kind, expected, given, bareGiven, fold);
+      if (candidate.credit > best.credit) best = candidate;
+      if (best.reason === 'exact') break;
+    }
+    return best;
+  }
+
+  private matchText(
+    kind: 'short_text' | 'spanish',
+    expected: string,
+    given: string,
+    bareGiven: string,
+    fold: (text: string) => string
+  ): GradeVerdict {
+    if (given === expected || bareGiven === expected) {
+      return verdict(kind, 'exact', 1);
+    }
+
+    const foldedExpected = fold(expected);
+    const foldedGiven = fold(bareGiven);
+    if (foldedGiven === foldedExpected) {
+      return verdict(kind, 'accent_insensitive', 1);
+    }
+    if (levenshtein(foldedGiven, foldedExpected) <= typoThreshold(foldedExpected.length)) {
+      return verdict(kind, 'close_match', 1);
+    }
+    if (` ${fold(given)} `.includes(` ${foldedExpected} `)) {
+      return verdict(kind, 'contains_expected', 1);
+    }
+
+    // Multi-word answers earn credit for the words they get right
+    const expectedWords = foldedExpected.split(' ');
+    if (expectedWords.length > 1) {
+      const givenWords = new Set(fold(given).split(' '));
+      const hits = expectedWords.filter(word => givenWords.has(word)).length;
+      if (hits === expectedWords.length) return verdict(kind, 'equivalent', 1);
+      if (hits > 0) return verdict(kind, 'partial', hits / expectedWords.length);
+    }
+
+    return verdict(kind, 'incorrect', 0);
+  }
+}
+
+export const answerGrader = new AnswerGrader();
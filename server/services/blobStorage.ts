@@ -0,0 +1,191 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client
+} from '@aws-sdk/client-s3';
+
+export type BlobBackend = 'local' | 's3';
+
+/**
+ * Where uploaded files and their extracted text live. Keys are relative,
+ * slash-separated paths such as "documents/<userId>/<sha256>.pdf".
+ */
+export interface BlobStore {
+  readonly backend: BlobBackend;
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>; // no-op when the key is missing
+}
+
+export class BlobNotFoundError extends Error {
+  constructor(public key: string) {
+    super(`Blob not found: ${key}`);
+    this.name = 'BlobNotFoundError';
+  }
+}
+
+/**
+ * Files under one directory. Fine for development and single-instance
+ * deployments with a persistent volume.
+ */
+export class LocalBlobStore implements BlobStore {
+  readonly backend = 'local' as const;
+  private readonly root: string;
+
+  constructor(root: string = process.env.BLOB_LOCAL_DIR || path.join(process.cwd(), 'uploads', 'blobs')) {
+    this.root = path.resolve(root);
+  }
+
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') throw new BlobNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+export interface S3BlobStoreOptions {
+  bucket: string;
+  region?: string;
+  endpoint?: string; // for S3-compatible services (MinIO, R2, Spaces)
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+  prefix?: string; // prepended to every key, e.g. "production/"
+}
+
+/**
+ * Amazon S3 or any S3-compatible service, so every instance sees the same
+ * files and redeploys don't lose them.
+ */
+export class S3BlobStore implements BlobStore {
+  readonly backend = 's3' as const;
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3BlobStoreOptions) {
+    this.client = new S3Client({
+      region: options.region || 'us-east-1',
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle ?? !!options.endpoint,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  private objectKey(key: string): string {
+    return `${this.options.prefix || ''}${key}`;
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.objectKey(key),
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.options.bucket, Key: this.objectKey(key) }));
+      if (!response.Body) throw new BlobNotFoundError(key);
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error: any) {
+      if (isNotFound(error)) throw new BlobNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.options.bucket, Key: this.objectKey(key) }));
+      return true;
+    } catch (error: any) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: this.objectKey(key) }));
+  }
+}
+
+function isNotFound(error: any): boolean {
+  return error instanceof BlobNotFoundError
+    || error?.name === 'NoSuchKey'
+    || error?.name === 'NotFound'
+    || error?.$metadata?.httpStatusCode === 404;
+}
+
+/**
+ * Pick the backend from BLOB_BACKEND (default: local disk). The S3 backend
+ * reads S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID,
+ * S3_SECRET_ACCESS_KEY and S3_PREFIX.
+ */
+export function createBlobStore(): BlobStore {
+  const configured = process.env.BLOB_BACKEND || 'local';
+
+  if (configured === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('BLOB_BACKEND=s3 requires S3_BUCKET');
+    }
+    console.log(`[BlobStorage] Using S3 bucket ${process.env.S3_BUCKET}${process.env.S3_ENDPOINT ? ` at ${process.env.S3_ENDPOINT}` : ''}`);
+    return new S3BlobStore({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION,
+      endpoint: process.env.S3_ENDPOINT,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE ? process.env.S3_FORCE_PATH_STYLE === 'true' : undefined,
+      prefix: process.env.S3_PREFIX,
+    });
+  }
+
+  console.log('[BlobStorage] Using local disk backend');
+  return new LocalBlobStore();
+}
+
+let blobStore: BlobStore | null = null;
+
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    blobStore = createBlobStore();
+  }
+  return blobStore;
+}
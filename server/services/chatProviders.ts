@@ -0,0 +1,271 @@
+import OpenAI from 'openai';
+import { LLM_CONFIG } from '../llm/systemPrompt';
+
+export type ChatProviderName = 'openai' | 'anthropic' | 'local';
+
+export const CHAT_PROVIDERS: ChatProviderName[] = ['openai', 'anthropic', 'local'];
+
+export interface ChatCapabilities {
+  tools: boolean;     // honours a forced function call (tutor_turn)
+  streaming: boolean; // streams tokens; otherwise the router emulates a stream with one chunk
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  topP?: number;
+  presencePenalty?: number; // OpenAI-style providers only
+  tool?: OpenAI.Chat.ChatCompletionFunctionTool; // always called when given; the router drops it for providers without tools
+  signal?: AbortSignal;
+}
+
+// The parts of a model reply the tutor uses, whether it was streamed or not
+export interface ChatReply {
+  content: string;
+  toolArguments?: string; // the forced tool call's JSON arguments
+  tokensUsed: number;
+}
+
+export interface ChatStreamChunk {
+  contentDelta?: string;
+  argumentsDelta?: string;
+  tokensUsed?: number; // running total, when the provider reports it
+}
+
+/**
+ * A chat completion backend. The router decides which one answers; callers
+ * only ever see ChatReply and ChatStreamChunk.
+ */
+export interface ChatProvider {
+  readonly name: ChatProviderName;
+  readonly model: string;
+  readonly capabilities: ChatCapabilities;
+  complete(request: ChatRequest): Promise<ChatReply>;
+  stream(request: ChatRequest): AsyncIterable<ChatStreamChunk>;
+}
+
+/**
+ * OpenAI, or any server speaking its chat completions API (Ollama, llama.cpp,
+ * vLLM) when given a base URL.
+ */
+export class OpenAIChatProvider implements ChatProvider {
+  private client: OpenAI | null = null;
+
+  constructor(
+    readonly name: ChatProviderName,
+    readonly model: string,
+    readonly capabilities: ChatCapabilities,
+    private clientOptions: { apiKey?: string; baseURL?: string; organization?: string }
+  ) {}
+
+  // Created on first use so a provider that is never reached needs no key
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ ...this.clientOptions, apiKey: this.clientOptions.apiKey || 'default_key' });
+    }
+    return this.client;
+  }
+
+  private params(request: ChatRequest): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming {
+    const params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      top_p: request.topP,
+      presence_penalty: request.presencePenalty
+    };
+    if (request.tool) {
+      params.tools = [request.tool];
+      params.tool_choice = { type: 'function', function: { name: request.tool.function.name } };
+    }
+    return params;
+  }
+
+  async complete(request: ChatRequest): Promise<ChatReply> {
+    const completion = await this.getClient().chat.completions.create(this.params(request), { signal: request.signal });
+    const message = completion.choices[0].message;
+    const toolCall = message.tool_calls?.find((tc: any) => tc.function?.name === request.tool?.function.name) as any;
+    return {
+      content: message.content || '',
+      toolArguments: toolCall?.function.arguments,
+      tokensUsed: completion.usage?.total_tokens || 0
+    };
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<ChatStreamChunk> {
+    const chunks = await this.getClient().chat.completions.create(
+      { ...this.params(request), stream: true, stream_options: { include_usage: true } },
+      { signal: request.signal }
+    );
+    for await (const chunk of chunks) {
+      const delta = chunk.choices[0]?.delta;
+      yield {
+        contentDelta: delta?.content || undefined,
+        argumentsDelta: delta?.tool_calls?.[0]?.function?.arguments || undefined,
+        tokensUsed: chunk.usage?.total_tokens
+      };
+    }
+  }
+}
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Anthropic's Messages API over fetch. The system prompt goes in its own field
+ * and the forced function becomes a tool_use block, whose input is streamed as
+ * the same JSON arguments OpenAI would produce.
+ */
+export class AnthropicChatProvider implements ChatProvider {
+  readonly name = 'anthropic' as const;
+  readonly capabilities: ChatCapabilities = { tools: true, streaming: true };
+
+  constructor(
+    readonly model: string = process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest',
+    private apiKey: string | undefined = process.env.ANTHROPIC_API_KEY
+  ) {}
+
+  private body(request: ChatRequest, stream: boolean): Record<string, unknown> {
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const body: Record<string, unknown> = {
+      model: this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: request.messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role, content: m.content })),
+      stream
+    };
+    if (system) body.system = system;
+    if (request.topP !== undefined) body.top_p = request.topP;
+    if (request.tool) {
+      const { name, description, parameters } = request.tool.function;
+      body.tools = [{ name, description, input_schema: parameters }];
+      body.tool_choice = { type: 'tool', name };
+    }
+    return body;
+  }
+
+  private async send(request: ChatRequest, stream: boolean): Promise<globalThis.Response> {
+    if (!this.apiKey) {
+      throw new Error('ANTHROPIC_API_KEY is not set');
+    }
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: JSON.stringify(this.body(request, stream)),
+      signal: request.signal
+    });
+    if (!response.ok) {
+      // Same shape as OpenAI's errors so retry decisions work for both
+      const error: any = new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+      error.status = response.status;
+      throw error;
+    }
+    return response;
+  }
+
+  async complete(request: ChatRequest): Promise<ChatReply> {
+    const data: any = await (await this.send(request, false)).json();
+    const blocks: any[] = data.content || [];
+    const toolUse = blocks.find(block => block.type === 'tool_use');
+    return {
+      content: blocks.filter(block => block.type === 'text').map(block => block.text).join(''),
+      toolArguments: toolUse ? JSON.stringify(toolUse.input) : undefined,
+      tokensUsed: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0)
+    };
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<ChatStreamChunk> {
+    const response = await this.send(request, true);
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let inputTokens = 0;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Server-sent events: only the data lines matter, one JSON event each
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line.startsWith('data:')) continue;
+
+        const event = JSON.parse(line.slice(5));
+        if (event.type === 'message_start') {
+          inputTokens = event.message?.usage?.input_tokens || 0;
+        } else if (event.type === 'content_block_delta') {
+          if (event.delta?.type === 'text_delta') yield { contentDelta: event.delta.text };
+          if (event.delta?.type === 'input_json_delta') yield { argumentsDelta: event.delta.partial_json };
+        } else if (event.type === 'message_delta' && event.usage) {
+          yield { tokensUsed: inputTokens + (event.usage.output_tokens || 0) };
+        } else if (event.type === 'error') {
+          throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown'}`);
+        }
+      }
+    }
+  }
+}
+
+export function isChatProviderName(name: string): name is ChatProviderName {
+  return (CHAT_PROVIDERS as string[]).includes(name);
+}
+
+export function createChatProvider(name: ChatProviderName): ChatProvider {
+  switch (name) {
+    case 'anthropic':
+      return new AnthropicChatProvider();
+    case 'local':
+      // Tool calling depends on the model the local server runs, so it's opt-in
+      return new OpenAIChatProvider('local', process.env.LOCAL_LLM_MODEL || 'llama3.1', {
+        tools: process.env.LOCAL_LLM_TOOLS === '1',
+        streaming: true
+      }, {
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+        baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1'
+      });
+    default:
+      return new OpenAIChatProvider('openai', LLM_CONFIG.model, { tools: true, streaming: true }, {
+        apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR,
+        organization: process.env.OPENAI_ORG_ID
+      });
+  }
+}
+
+/**
+ * Failover order: LLM_PROVIDERS (comma-separated) if set, else OpenAI followed
+ * by whichever of Anthropic and the local server are configured.
+ */
+export function resolveChatProviderOrder(env: NodeJS.ProcessEnv = process.env): ChatProviderName[] {
+  if (env.LLM_PROVIDERS) {
+    const names = env.LLM_PROVIDERS.split(',').map(name => name.trim()).filter(Boolean);
+    for (const name of names) {
+      if (!isChatProviderName(name)) {
+        throw new Error(`Unknown LLM provider: ${name}`);
+      }
+    }
+    return names.filter((name, index) => names.indexOf(name) === index) as ChatProviderName[];
+  }
+
+  const order: ChatProviderName[] = ['openai'];
+  if (env.ANTHROPIC_API_KEY) order.push('anthropic');
+  if (env.LOCAL_LLM_BASE_URL) order.push('local');
+  return order;
+}
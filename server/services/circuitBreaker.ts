@@ -4,6 +4,7 @@ interface CircuitBreakerConfig {
   failureThreshold: number;
   timeoutMs: number;
   resetTimeoutMs: number;
+  retryDelays?: number[]; // delays between attempts; [] leaves retrying (or failing over) to the caller
 }
 
 enum CircuitState {
@@ -47,14 +48,17 @@ export class CircuitBreaker extends EventEmitter {
     this.metrics.requests++;
 
     // Retry pattern: 250ms, 500ms, 1s, 2s (max 4 attempts)
-    const retryDelays = [250, 500, 1000, 2000];
+    const retryDelays = this.config.retryDelays ?? [250, 500, 1000, 2000];
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt < retryDelays.length + 1; attempt++) {
+      let timer: NodeJS.Timeout | undefined;
       try {
         const result = await Promise.race([
           operation(),
-          this.timeoutPromise()
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error('Operation timeout')), this.config.timeoutMs);
+          })
         ]);
 
         this.onSuccess();
@@ -71,6 +75,8 @@ export class CircuitBreaker extends EventEmitter {
         
         // Wait before retrying
         await new Promise(resolve => setTimeout(resolve, retryDelays[attempt]));
+      } finally {
+        clearTimeout(timer);
       }
     }
 
@@ -79,14 +85,6 @@ export class CircuitBreaker extends EventEmitter {
     throw lastError || new Error('All retry attempts failed');
   }
 
-  private timeoutPromise(): Promise<never> {
-    return new Promise((_, reject) => {
-      setTimeout(() => {
-        reject(new Error('Operation timeout'));
-      }, this.config.timeoutMs);
-    });
-  }
-
   private onSuccess(): void {
     this.metrics.successes++;
     
@@ -186,11 +184,12 @@ export class CircuitBreaker extends EventEmitter {
   }
 }
 
-// Global circuit breaker instance for OpenAI
+// Global circuit breaker instance for OpenAI (the first provider in the LLM router)
 const openaiCircuitBreaker = new CircuitBreaker({
   failureThreshold: 50, // 50% failure rate triggers opening
   timeoutMs: 30000, // 30 second timeout
-  resetTimeoutMs: parseInt(process.env.CIRCUIT_COOLDOWN_MS || '45000') // 45 second cooldown
+  resetTimeoutMs: parseInt(process.env.CIRCUIT_COOLDOWN_MS || '45000'), // 45 second cooldown
+  retryDelays: [] // the router retries quickly, then fails over to the next provider
 });
 
 export { openaiCircuitBreaker };
\ No newline at end of file
@@ -0,0 +1,109 @@
+import OpenAI from 'openai';
+
+export type ContentSafetyProviderName = 'local' | 'openai';
+
+export interface ContentSafetyResult {
+  flagged: boolean;
+  categories: string[]; // e.g. "sexual", "self-harm", "violence"
+  reason?: string; // short admin-facing summary when flagged
+}
+
+/**
+ * Decides whether extracted document text is fit for a student tutoring
+ * session. Flagged documents are quarantined for admin review rather than
+ * rejected outright.
+ */
+export interface ContentSafetyClassifier {
+  readonly name: ContentSafetyProviderName;
+  classify(text: string): Promise<ContentSafetyResult>;
+}
+
+// Explicit phrases only, so ordinary coursework (history, biology, literature) isn't held
+const LOCAL_PATTERNS: Array<{ category: string; pattern: RegExp }> = [
+  { category: 'sexual', pattern: /\b(porn(ography|ographic)?|xxx|hardcore sex|nude (pics|photos)|sexually explicit)\b/i },
+  { category: 'self-harm', pattern: /\b(how to (kill|hurt|cut) (myself|yourself)|ways to (commit )?suicide|suicide (method|instructions))\b/i },
+  { category: 'violence', pattern: /\b(how to (make|build) a (bomb|pipe bomb|explosive)|school shooting plan|kill (them|everyone) at school)\b/i },
+  { category: 'hate', pattern: /\b(white power|heil hitler|ethnic cleansing now|gas the \w+)\b/i },
+  { category: 'illicit', pattern: /\b(how to (cook|make) meth|buy (cocaine|heroin|fentanyl))\b/i },
+];
+
+export function classifyTextLocally(text: string): ContentSafetyResult {
+  const categories = LOCAL_PATTERNS
+    .filter(({ pattern }) => pattern.test(text))
+    .map(({ category }) => category);
+
+  return categories.length > 0
+    ? { flagged: true, categories, reason: `Matched ${categories.join(', ')} keywords` }
+    : { flagged: false, categories: [] };
+}
+
+export class LocalContentClassifier implements ContentSafetyClassifier {
+  readonly name = 'local' as const;
+
+  async classify(text: string): Promise<ContentSafetyResult> {
+    return classifyTextLocally(text);
+  }
+}
+
+const MODERATION_INPUT_CHARS = 8000;
+const MODERATION_BATCH_INPUTS = 16; // slices sent per moderation request
+
+/**
+ * OpenAI's moderation endpoint over the whole document text in slices, sent in
+ * batches. Any flagged slice flags the document.
+ */
+export class OpenAIModerationClassifier implements ContentSafetyClassifier {
+  readonly name = 'openai' as const;
+  private client: OpenAI | null = null;
+
+  constructor(private readonly model: string = process.env.CONTENT_SAFETY_MODEL || 'omni-moderation-latest') {}
+
+  async classify(text: string): Promise<ContentSafetyResult> {
+    const inputs: string[] = [];
+    for (let i = 0; i < text.length; i += MODERATION_INPUT_CHARS) {
+      inputs.push(text.slice(i, i + MODERATION_INPUT_CHARS));
+    }
+    if (inputs.length === 0) return { flagged: false, categories: [] };
+
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+
+    const categories = new Set<string>();
+    let flagged = false;
+    // One flagged batch is enough to quarantine the document, so stop there
+    for (let i = 0; i < inputs.length && !flagged; i += MODERATION_BATCH_INPUTS) {
+      const response = await this.client.moderations.create({
+        model: this.model,
+        input: inputs.slice(i, i + MODERATION_BATCH_INPUTS)
+      });
+
+      for (const result of response.results) {
+        if (!result.flagged) continue;
+        flagged = true;
+        for (const [category, hit] of Object.entries(result.categories)) {
+          if (hit) categories.add(category.split('/')[0]);
+        }
+      }
+    }
+
+    return flagged
+      ? { flagged, categories: Array.from(categories), reason: `Moderation flagged ${Array.from(categories).join(', ') || 'content'}` }
+      : { flagged: false, categories: [] };
+  }
+}
+
+let classifier: ContentSafetyClassifier | null = null;
+
+/**
+ * The classifier named by CONTENT_SAFETY_PROVIDER: `local` keyword matching
+ * (default) or `openai` moderation.
+ */
+export function getContentSafetyClassifier(): ContentSafetyClassifier {
+  if (!classifier) {
+    classifier = process.env.CONTENT_SAFETY_PROVIDER === 'openai'
+      ? new OpenAIModerationClassifier()
+      : new LocalContentClassifier();
+  }
+  return classifier;
+}
@@ -0,0 +1,114 @@
+import { storage } from '../storage';
+import { getEmbeddingProvider } from './embeddingProvider';
+import {
+  assembleContext,
+  dedupOverlapping,
+  rankCandidates,
+  type AssembledContext,
+  type RankedChunk,
+  type RetrievalCandidate
+} from './hybridRetrieval';
+import type { ChunkMetadata } from './documentChunker';
+
+const DEFAULT_TOKEN_BUDGET = 1500; // Document context per tutor turn
+const SEMANTIC_CANDIDATES = 20;    // Nearest chunks taken from the vector index
+
+export interface RetrievalOptions {
+  documentIds?: string[]; // defaults to the student's pinned documents, else the account's "keep for future sessions" ones
+  studentId?: string;     // the active student profile, whose pinned documents are the default
+  tokenBudget?: number;
+  embeddingProvider?: string | null; // the account's provider; looked up when omitted
+}
+
+const EMPTY_CONTEXT: AssembledContext = { text: '', chunks: [], tokens: 0 };
+
+class ContextRetrievalService {
+  /**
+   * The most relevant passages of the student's documents for one message,
+   * packed into a token budget. Embedding failures fall back to keywords only.
+   */
+  async retrieve(userId: string, query: string, options: RetrievalOptions = {}): Promise<AssembledContext> {
+    const ranked = await this.search(userId, query, options);
+    if (ranked.length === 0) return EMPTY_CONTEXT;
+    return assembleContext(ranked, options.tokenBudget ?? DEFAULT_TOKEN_BUDGET);
+  }
+
+  /**
+   * Chunks ranked by fused keyword and semantic relevance, overlaps removed
+   */
+  async search(userId: string, query: string, options: RetrievalOptions = {}): Promise<RankedChunk[]> {
+    const documentIds = options.documentIds ?? await this.defaultDocumentIds(userId, options.studentId);
+    if (documentIds.length === 0 || !query.trim()) return [];
+
+    const { chunks, documents } = await storage.getDocumentContext(userId, documentIds);
+    const readyDocuments = new Map(
+      documents
+        .filter(doc => doc.processingStatus === 'ready')
+        .map(doc => [doc.id, doc])
+    );
+    const candidates: RetrievalCandidate[] = chunks
+      .filter(chunk => readyDocuments.has(chunk.documentId))
+      .map(chunk => {
+        const doc = readyDocuments.get(chunk.documentId)!;
+        return {
+          chunkId: chunk.id,
+          documentId: chunk.documentId,
+          documentTitle: doc.title || doc.originalName,
+          chunkIndex: chunk.chunkIndex,
+          content: chunk.content,
+          tokenCount: chunk.tokenCount || 0,
+          metadata: chunk.metadata as ChunkMetadata | null,
+        };
+      });
+    if (candidates.length === 0) return [];
+
+    // The query must be embedded with the model that embedded the account's documents
+    const providerName = options.embeddingProvider !== undefined
+      ? options.embeddingProvider
+      : (await storage.getUser(userId))?.embeddingProvider;
+    const semantic = await this.semanticScores(userId, query, Array.from(readyDocuments.keys()), providerName);
+    return dedupOverlapping(rankCandidates(query, candidates, semantic));
+  }
+
+  /**
+   * Prompt section for the tutor, or an empty string when nothing matched
+   */
+  formatForPrompt(context: AssembledContext): string {
+    if (context.chunks.length === 0) return '';
+    return `RELEVANT PASSAGES FROM THE STUDENT'S MATERIALS (cite the [source] label when you use one):\n\n${context.text}`;
+  }
+
+  // The documents a session starts with when none are picked, as /api/context/session-start chooses them
+  private async defaultDocumentIds(userId: string, studentId?: string): Promise<string[]> {
+    if (studentId) {
+      const pinned = (await storage.getStudentPinnedDocs(studentId, userId))
+        .filter(({ document }) => document.processingStatus === 'ready')
+        .map(({ document }) => document.id);
+      if (pinned.length > 0) return pinned;
+    }
+
+    const docs = await storage.getUserDocuments(userId);
+    return docs
+      .filter(doc => doc.keepForFutureSessions && doc.processingStatus === 'ready')
+      .map(doc => doc.id);
+  }
+
+  private async semanticScores(
+    userId: string,
+    query: string,
+    documentIds: string[],
+    providerName?: string | null
+  ): Promise<Map<string, number>> {
+    try {
+      const provider = getEmbeddingProvider(providerName);
+      const { vectors } = await provider.embed([query]);
+      const matches = await storage.searchSimilarContent(userId, vectors[0], provider.model, SEMANTIC_CANDIDATES, 0, documentIds);
+      return new Map(matches.map(match => [match.chunk.id, match.similarity]));
+    } catch (error) {
+      console.warn('[ContextRetrieval] Semantic search unavailable, using keywords only:', error);
+      return new Map();
+    }
+  }
+}
+
+export const contextRetrievalService = new ContextRetrievalService();
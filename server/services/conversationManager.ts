@@ -1,60 +1,61 @@
-import { DialogState, ConversationContext, TutorPlan, STATE_TRANSITIONS } from '../types/conversationState';
+import { DialogState, ConversationContext, TutorPlan, TutorTurn, QuestionType, STATE_TRANSITIONS } from '../types/conversationState';
+import { ConversationStore, createConversationStore } from './conversationStore';
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // hourly
 
 export class ConversationManager {
-  private contexts: Map<string, ConversationContext> = new Map();
+  private intervalId: NodeJS.Timeout | null = null;
+
+  constructor(private store: ConversationStore = createConversationStore()) {}
 
   // Initialize conversation context for a session
-  initializeContext(sessionId: string, userId: string): ConversationContext {
+  async initializeContext(sessionId: string, userId: string): Promise<ConversationContext> {
     // Clear any existing context to prevent message duplication
-    if (this.contexts.has(sessionId)) {
+    if (await this.store.get(sessionId)) {
       console.log(`[Conversation] Clearing existing context for session ${sessionId}`);
-      this.contexts.delete(sessionId);
+      await this.store.delete(sessionId);
     }
     
+    const now = Date.now();
     const context: ConversationContext = {
       state: 'greet',
       sessionId,
       userId,
-      previousPlans: []
+      previousPlans: [],
+      createdAt: now,
+      updatedAt: now
     };
-    this.contexts.set(sessionId, context);
+    await this.store.save(context);
     console.log(`[Conversation] Initialized fresh context for session ${sessionId}`);
     return context;
   }
   
   // Clear context when switching lessons
-  clearContext(sessionId: string): void {
-    if (this.contexts.has(sessionId)) {
-      this.contexts.delete(sessionId);
+  async clearContext(sessionId: string): Promise<void> {
+    if (await this.store.get(sessionId)) {
+      await this.store.delete(sessionId);
       console.log(`[Conversation] Cleared context for session ${sessionId}`);
     }
   }
 
   // Get conversation context
-  getContext(sessionId: string): ConversationContext | undefined {
-    return this.contexts.get(sessionId);
+  async getContext(sessionId: string): Promise<ConversationContext | undefined> {
+    return this.store.get(sessionId);
   }
 
   // Update conversation state
-  updateState(sessionId: string, newState: DialogState): boolean {
-    const context = this.contexts.get(sessionId);
+  async updateState(sessionId: string, newState: DialogState): Promise<boolean> {
+    const context = await this.store.get(sessionId);
     if (!context) return false;
 
-    const validTransitions = STATE_TRANSITIONS[context.state];
-    if (!validTransitions.includes(newState)) {
-      console.warn(`Invalid state transition from ${context.state} to ${newState}`);
-      return false;
-    }
-
-    const oldState = context.state;
-    context.state = newState;
-    console.log(`[Conversation] State transition: ${oldState} → ${newState} for session ${sessionId}`);
+    if (!this.transition(context, newState)) return false;
+    await this.save(context);
     return true;
   }
 
   // Add tutor plan to context and advance state
-  addPlan(sessionId: string, plan: TutorPlan): void {
-    const context = this.contexts.get(sessionId);
+  async addPlan(sessionId: string, plan: TutorPlan): Promise<void> {
+    const context = await this.store.get(sessionId);
     if (!context) return;
 
     context.currentPlan = plan;
@@ -62,78 +63,160 @@ export class ConversationManager {
     
     // Auto-advance state based on plan content
     if (context.state === 'greet' && plan.goal.toLowerCase().includes('understand')) {
-      this.updateState(sessionId, 'understand');
+      this.transition(context, 'understand');
     } else if (context.state === 'understand' && plan.plan.length > 0) {
-      this.updateState(sessionId, 'plan');
+      this.transition(context, 'plan');
     } else if (context.state === 'plan' && plan.next_prompt.includes('?')) {
-      this.updateState(sessionId, 'teach');
+      this.transition(context, 'teach');
     }
     
+    await this.save(context);
     console.log(`[Conversation] New plan added for session ${sessionId}: ${plan.goal}`);
   }
 
   // Set topic for context
-  setTopic(sessionId: string, topic: string): void {
-    const context = this.contexts.get(sessionId);
+  async setTopic(sessionId: string, topic: string): Promise<void> {
+    const context = await this.store.get(sessionId);
     if (context) {
       context.topic = topic;
+      await this.save(context);
       console.log(`[Conversation] Topic set to: ${topic} for session ${sessionId}`);
     }
   }
 
   // Set question state for answer acknowledgment
-  setQuestionState(
+  async setQuestionState(
     sessionId: string, 
     question: string, 
     expectedAnswer: string, 
-    questionType: 'short' | 'mcq' | 'math' | 'open' = 'short',
+    questionType: QuestionType = 'short',
     options?: string[]
-  ): void {
-    const context = this.contexts.get(sessionId);
+  ): Promise<void> {
+    const context = await this.store.get(sessionId);
     if (!context) return;
 
     context.currentQuestion = question;
     context.expectedAnswer = expectedAnswer;
+    context.acceptedAnswers = undefined;
     context.questionType = questionType;
     context.options = options;
+    context.hints = undefined;
+    context.hintsGiven = undefined;
+    await this.save(context);
     
     console.log(`[Conversation] Set question state for session ${sessionId}: ${questionType} question`);
   }
 
+  // Set question state from a validated tutor turn, with every accepted answer and its hints
+  async setTurnQuestion(sessionId: string, turn: TutorTurn): Promise<void> {
+    if (!turn.question || turn.expectedAnswers.length === 0) return;
+    const context = await this.store.get(sessionId);
+    if (!context) return;
+
+    context.currentQuestion = turn.question;
+    context.expectedAnswer = turn.expectedAnswers[0];
+    context.acceptedAnswers = turn.expectedAnswers.slice(1);
+    context.questionType = turn.answerKind;
+    context.options = turn.options;
+    context.hints = turn.hints;
+    context.hintsGiven = 0;
+    await this.save(context);
+
+    console.log(`[Conversation] Set question state for session ${sessionId}: ${turn.answerKind} question with ${turn.hints.length} hint(s)`);
+  }
+
+  // Next hint for the current question, or undefined once they've all been given
+  async takeNextHint(sessionId: string): Promise<string | undefined> {
+    const context = await this.store.get(sessionId);
+    const given = context?.hintsGiven || 0;
+    if (!context || !context.hints || given >= context.hints.length) return undefined;
+
+    context.hintsGiven = given + 1;
+    await this.save(context);
+    return context.hints[given];
+  }
+
   // Clear question state after acknowledgment
-  clearQuestionState(sessionId: string): void {
-    const context = this.contexts.get(sessionId);
+  async clearQuestionState(sessionId: string): Promise<void> {
+    const context = await this.store.get(sessionId);
     if (!context) return;
 
     context.currentQuestion = undefined;
     context.expectedAnswer = undefined;
+    context.acceptedAnswers = undefined;
     context.questionType = undefined;
     context.options = undefined;
+    context.hints = undefined;
+    context.hintsGiven = undefined;
+    await this.save(context);
     
     console.log(`[Conversation] Cleared question state for session ${sessionId}`);
   }
 
   // Get current question state
-  getQuestionState(sessionId: string): {
+  async getQuestionState(sessionId: string): Promise<{
     currentQuestion?: string;
     expectedAnswer?: string;
-    questionType?: 'short' | 'mcq' | 'math' | 'open';
+    acceptedAnswers?: string[];
+    questionType?: QuestionType;
     options?: string[];
-  } | null {
-    const context = this.contexts.get(sessionId);
+    hints?: string[];
+    hintsGiven?: number;
+  } | null> {
+    const context = await this.store.get(sessionId);
     if (!context) return null;
 
     return {
       currentQuestion: context.currentQuestion,
       expectedAnswer: context.expectedAnswer,
+      acceptedAnswers: context.acceptedAnswers,
       questionType: context.questionType,
-      options: context.options
+      options: context.options,
+      hints: context.hints,
+      hintsGiven: context.hintsGiven
     };
   }
 
+  // Record a fallback question asked in this session, keeping the last `limit`
+  async recordRecentQuestion(sessionId: string, question: string, limit: number): Promise<void> {
+    const context = await this.store.get(sessionId);
+    if (!context) return;
+
+    const recent = [...(context.recentQuestions || []), question];
+    context.recentQuestions = recent.slice(-limit);
+    await this.save(context);
+  }
+
+  async clearRecentQuestions(sessionId: string): Promise<void> {
+    const context = await this.store.get(sessionId);
+    if (!context) return;
+
+    context.recentQuestions = [];
+    await this.save(context);
+  }
+
+  // Apply a validated transition to a loaded context (caller saves)
+  private transition(context: ConversationContext, newState: DialogState): boolean {
+    const validTransitions = STATE_TRANSITIONS[context.state];
+    if (!validTransitions.includes(newState)) {
+      console.warn(`Invalid state transition from ${context.state} to ${newState}`);
+      return false;
+    }
+
+    const oldState = context.state;
+    context.state = newState;
+    console.log(`[Conversation] State transition: ${oldState} → ${newState} for session ${context.sessionId}`);
+    return true;
+  }
+
+  private async save(context: ConversationContext): Promise<void> {
+    context.updatedAt = Date.now();
+    await this.store.save(context);
+  }
+
   // Get appropriate system prompt based on state and topic
-  getSystemPrompt(sessionId: string): string {
-    const context = this.contexts.get(sessionId);
+  async getSystemPrompt(sessionId: string): Promise<string> {
+    const context = await this.store.get(sessionId);
     if (!context) return this.getBasePrompt();
 
     let prompt = this.getBasePrompt();
@@ -201,24 +284,27 @@ Rules:
 - Always be positive and specific in feedback.`;
   }
 
-  // Clean up old contexts (call periodically)
-  cleanup(maxAgeMs: number = 24 * 60 * 60 * 1000): void {
-    const now = Date.now();
-    const expiredSessions: string[] = [];
-
-    const sessionIds = Array.from(this.contexts.keys());
-    for (const sessionId of sessionIds) {
-      const context = this.contexts.get(sessionId)!;
-      // This is a simple cleanup - in production you'd want proper timestamp tracking
-      if (context.previousPlans.length === 0) {
-        expiredSessions.push(sessionId);
-      }
+  // Clean up contexts idle longer than maxAgeMs (run hourly by start())
+  async cleanup(maxAgeMs: number = 24 * 60 * 60 * 1000): Promise<void> {
+    const removed = await this.store.deleteOlderThan(new Date(Date.now() - maxAgeMs));
+    if (removed > 0) {
+      console.log(`[Conversation] Cleaned up ${removed} expired sessions`);
     }
+  }
 
-    expiredSessions.forEach(sessionId => {
-      this.contexts.delete(sessionId);
-      console.log(`[Conversation] Cleaned up expired session: ${sessionId}`);
-    });
+  start() {
+    if (this.intervalId) return;
+    this.intervalId = setInterval(() => {
+      this.cleanup().catch(error => console.error('[Conversation] Cleanup error:', error));
+    }, CLEANUP_INTERVAL_MS);
+    console.log('[Conversation] Started idle context cleanup');
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
   }
 }
 
@@ -0,0 +1,95 @@
+import { eq, lt } from 'drizzle-orm';
+import { conversationStates } from '@shared/schema';
+import { db } from '../db';
+import { ConversationContext } from '../types/conversationState';
+
+// Persistence adapter for conversation state machine contexts
+export interface ConversationStore {
+  get(sessionId: string): Promise<ConversationContext | undefined>;
+  save(context: ConversationContext): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  // Remove contexts not updated since the cutoff, returning how many were removed
+  deleteOlderThan(cutoff: Date): Promise<number>;
+}
+
+// Process-local store for development and tests (lost on restart)
+export class InMemoryConversationStore implements ConversationStore {
+  private contexts: Map<string, ConversationContext> = new Map();
+
+  async get(sessionId: string): Promise<ConversationContext | undefined> {
+    const context = this.contexts.get(sessionId);
+    // Hand out copies so callers can't mutate stored state without saving
+    return context ? structuredClone(context) : undefined;
+  }
+
+  async save(context: ConversationContext): Promise<void> {
+    this.contexts.set(context.sessionId, structuredClone(context));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.contexts.delete(sessionId);
+  }
+
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    let removed = 0;
+    const sessionIds = Array.from(this.contexts.keys());
+    for (const sessionId of sessionIds) {
+      const context = this.contexts.get(sessionId)!;
+      if ((context.updatedAt || 0) < cutoff.getTime()) {
+        this.contexts.delete(sessionId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+// Postgres-backed store shared by every server instance
+export class PostgresConversationStore implements ConversationStore {
+  async get(sessionId: string): Promise<ConversationContext | undefined> {
+    const [row] = await db.select().from(conversationStates)
+      .where(eq(conversationStates.sessionId, sessionId));
+    return row ? (row.context as ConversationContext) : undefined;
+  }
+
+  async save(context: ConversationContext): Promise<void> {
+    const updatedAt = new Date(context.updatedAt || Date.now());
+    await db.insert(conversationStates)
+      .values({
+        sessionId: context.sessionId,
+        userId: context.userId,
+        state: context.state,
+        context,
+        updatedAt,
+      })
+      .onConflictDoUpdate({
+        target: conversationStates.sessionId,
+        set: { userId: context.userId, state: context.state, context, updatedAt },
+      });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await db.delete(conversationStates).where(eq(conversationStates.sessionId, sessionId));
+  }
+
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    const removed = await db.delete(conversationStates)
+      .where(lt(conversationStates.updatedAt, cutoff))
+      .returning({ sessionId: conversationStates.sessionId });
+    return removed.length;
+  }
+}
+
+// Mirror the session store choice: Postgres only when a real database is configured
+export function createConversationStore(): ConversationStore {
+  const isTestMode = process.env.AUTH_TEST_MODE === 'true' || process.env.NODE_ENV === 'development';
+  const configured = process.env.CONVERSATION_STORE;
+
+  if (configured === 'postgres' || (!configured && !isTestMode && process.env.DATABASE_URL)) {
+    console.log('[ConversationStore] Using Postgres conversation store');
+    return new PostgresConversationStore();
+  }
+
+  console.log('[ConversationStore] Using in-memory conversation store');
+  return new InMemoryConversationStore();
+}
@@ -1,30 +1,39 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import mammoth from 'mammoth';
-import OpenAI from 'openai';
 import { PdfJsTextExtractor } from './pdf-extractor';
+import { cosineSimilarity } from './vector-index';
+import { getEmbeddingProvider, type EmbeddingProvider } from './embeddingProvider';
+import { IMAGE_FILE_TYPES, LOW_TEXT_PAGE_CHARS, ocrService, type OcrPageConfidence } from './ocr';
+import { decodeText } from './uploadScreening';
+import {
+  blocksFromHtml,
+  blocksFromPlainText,
+  chunkBlocks,
+  type DocumentBlock,
+  type TextChunk
+} from './documentChunker';
+import { extractQuestions, type ExtractedQuestion } from './questionExtractor';
 
 export interface ProcessedDocument {
-  chunks: Array<{
-    content: string;
-    chunkIndex: number;
-    tokenCount?: number;
-    metadata?: any;
-  }>;
+  chunks: TextChunk[];
+  questions: ExtractedQuestion[]; // numbered worksheet questions, empty for notes
   totalTokens: number;
   processingTime: number;
+  ocrPages: OcrPageConfidence[]; // empty unless the document needed OCR
+}
+
+interface ExtractedContent {
+  blocks: DocumentBlock[];
+  ocrPages: OcrPageConfidence[];
 }
 
 export class DocumentProcessor {
-  private openai: OpenAI;
   private pdfExtractor: PdfJsTextExtractor;
   private readonly maxChunkSize = 1000; // tokens per chunk
   private readonly chunkOverlap = 200; // token overlap between chunks
 
   constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
     this.pdfExtractor = new PdfJsTextExtractor();
   }
 
@@ -33,37 +42,36 @@ export class DocumentProcessor {
    */
   async processFile(filePath: string, fileType: string): Promise<ProcessedDocument> {
     const startTime = Date.now();
-    let text: string;
+    const type = fileType.toLowerCase();
+    let extracted: ExtractedContent;
 
     try {
-      switch (fileType.toLowerCase()) {
-        case 'pdf':
-          text = await this.extractPdfText(filePath);
-          break;
-        case 'docx':
-          text = await this.extractDocxText(filePath);
-          break;
-        case 'txt':
-          text = await this.extractTxtText(filePath);
-          break;
-        default:
-          throw new Error(`Unsupported file type: ${fileType}`);
+      if (type === 'pdf') {
+        extracted = await this.extractPdfBlocks(filePath);
+      } else if (type === 'docx') {
+        extracted = { blocks: await this.extractDocxBlocks(filePath), ocrPages: [] };
+      } else if (type === 'txt') {
+        extracted = { blocks: await this.extractTxtBlocks(filePath), ocrPages: [] };
+      } else if (IMAGE_FILE_TYPES.includes(type)) {
+        extracted = await this.extractImageBlocks(filePath, type);
+      } else {
+        throw new Error(`Unsupported file type: ${fileType}`);
       }
+      const { blocks, ocrPages } = extracted;
 
-      // Clean and validate text
-      text = this.cleanText(text);
-      if (!text.trim()) {
+      // Split into chunks along page and section boundaries
+      const chunks = chunkBlocks(blocks, { maxTokens: this.maxChunkSize, overlapTokens: this.chunkOverlap });
+      if (chunks.length === 0) {
         throw new Error('No readable text content found in document');
       }
-
-      // Split into chunks
-      const chunks = await this.createTextChunks(text);
-      const totalTokens = chunks.reduce((sum, chunk) => sum + (chunk.tokenCount || 0), 0);
+      const totalTokens = chunks.reduce((sum, chunk) => sum + chunk.tokenCount, 0);
 
       return {
         chunks,
+        questions: extractQuestions(blocks),
         totalTokens,
         processingTime: Date.now() - startTime,
+        ocrPages,
       };
     } catch (error) {
       console.error(`Failed to process ${fileType} file:`, error);
@@ -73,145 +81,79 @@ export class DocumentProcessor {
   }
 
   /**
-   * Extract text from PDF using PDF.js
-   */
-  private async extractPdfText(filePath: string): Promise<string> {
-    return this.pdfExtractor.extractText(filePath);
-  }
-
-  /**
-   * Extract text from DOCX
-   */
-  private async extractDocxText(filePath: string): Promise<string> {
-    const result = await mammoth.extractRawText({ path: filePath });
-    if (result.messages.length > 0) {
-      console.warn('DOCX processing warnings:', result.messages);
-    }
-    return result.value;
-  }
-
-  /**
-   * Extract text from TXT
-   */
-  private async extractTxtText(filePath: string): Promise<string> {
-    return fs.readFileSync(filePath, 'utf-8');
-  }
-
-  /**
-   * Clean extracted text
+   * Extract paragraphs from PDF using PDF.js, tagged with their page number.
+   * Pages with next to no text layer are scans, so they are rendered and OCR'd.
    */
-  private cleanText(text: string): string {
-    return text
-      .replace(/\r\n/g, '\n') // normalize line endings
-      .replace(/\n{3,}/g, '\n\n') // collapse multiple newlines
-      .replace(/\s+/g, ' ') // normalize whitespace
-      .trim();
-  }
-
-  /**
-   * Split text into chunks with overlap
-   */
-  private async createTextChunks(text: string): Promise<Array<{
-    content: string;
-    chunkIndex: number;
-    tokenCount: number;
-    metadata?: any;
-  }>> {
-    const sentences = this.splitIntoSentences(text);
-    const chunks: Array<{content: string; chunkIndex: number; tokenCount: number; metadata?: any}> = [];
-    
-    let currentChunk = '';
-    let currentTokenCount = 0;
-    let chunkIndex = 0;
-
-    for (let i = 0; i < sentences.length; i++) {
-      const sentence = sentences[i];
-      const sentenceTokens = this.estimateTokens(sentence);
-
-      // If adding this sentence would exceed max chunk size, start new chunk
-      if (currentTokenCount + sentenceTokens > this.maxChunkSize && currentChunk) {
-        chunks.push({
-          content: currentChunk.trim(),
-          chunkIndex: chunkIndex++,
-          tokenCount: currentTokenCount,
-          metadata: { startSentence: Math.max(0, i - 20), endSentence: i }
-        });
-
-        // Start new chunk with overlap from previous chunk
-        const overlapSentences = this.getOverlapSentences(sentences, i, this.chunkOverlap);
-        currentChunk = overlapSentences.join(' ') + ' ';
-        currentTokenCount = this.estimateTokens(currentChunk);
+  private async extractPdfBlocks(filePath: string): Promise<ExtractedContent> {
+    const pages = await this.pdfExtractor.extractPages(filePath);
+    const scannedPages = pages
+      .map((pageText, index) => ({ page: index + 1, characters: pageText.replace(/\s/g, '').length }))
+      .filter(page => page.characters < LOW_TEXT_PAGE_CHARS)
+      .map(page => page.page);
+
+    const images = scannedPages.length > 0
+      ? await this.pdfExtractor.renderPages(filePath, scannedPages)
+      : new Map<number, Buffer>();
+
+    const blocks: DocumentBlock[] = [];
+    const ocrPages: OcrPageConfidence[] = [];
+    for (let index = 0; index < pages.length; index++) {
+      const page = index + 1;
+      const image = images.get(page);
+      if (!image) {
+        blocks.push(...blocksFromPlainText(pages[index], page));
+        continue;
       }
 
-      currentChunk += sentence + ' ';
-      currentTokenCount += sentenceTokens;
+      const ocr = await ocrService.recognize(image);
+      ocrPages.push({ page, confidence: ocr.confidence, characters: ocr.text.replace(/\s/g, '').length });
+      blocks.push(...blocksFromPlainText(ocr.text, page).map(block => ({ ...block, ocrConfidence: ocr.confidence })));
     }
 
-    // Add final chunk if it has content
-    if (currentChunk.trim()) {
-      chunks.push({
-        content: currentChunk.trim(),
-        chunkIndex: chunkIndex,
-        tokenCount: currentTokenCount,
-        metadata: { startSentence: Math.max(0, sentences.length - 20), endSentence: sentences.length }
-      });
+    if (ocrPages.length > 0) {
+      console.log(`[DocumentProcessor] OCR'd ${ocrPages.length} of ${pages.length} PDF page(s)`);
     }
-
-    return chunks;
+    return { blocks, ocrPages };
   }
 
   /**
-   * Split text into sentences
+   * OCR a photo of a worksheet. A photo has no pages to cite, but its
+   * confidence is recorded as page 1.
    */
-  private splitIntoSentences(text: string): string[] {
-    return text
-      .split(/[.!?]+/)
-      .map(s => s.trim())
-      .filter(s => s.length > 0)
-      .map(s => s + '.');
+  private async extractImageBlocks(filePath: string, fileType: string): Promise<ExtractedContent> {
+    const ocr = await ocrService.recognizeFile(filePath, fileType);
+    return {
+      blocks: blocksFromPlainText(ocr.text).map(block => ({ ...block, ocrConfidence: ocr.confidence })),
+      ocrPages: [{ page: 1, confidence: ocr.confidence, characters: ocr.text.replace(/\s/g, '').length }],
+    };
   }
 
   /**
-   * Get overlap sentences for chunk boundary
+   * Extract headings and paragraphs from DOCX
    */
-  private getOverlapSentences(sentences: string[], endIndex: number, maxOverlapTokens: number): string[] {
-    const overlapSentences: string[] = [];
-    let tokenCount = 0;
-    
-    for (let i = endIndex - 1; i >= 0 && tokenCount < maxOverlapTokens; i--) {
-      const sentence = sentences[i];
-      const sentenceTokens = this.estimateTokens(sentence);
-      
-      if (tokenCount + sentenceTokens <= maxOverlapTokens) {
-        overlapSentences.unshift(sentence);
-        tokenCount += sentenceTokens;
-      } else {
-        break;
-      }
+  private async extractDocxBlocks(filePath: string): Promise<DocumentBlock[]> {
+    const result = await mammoth.convertToHtml({ path: filePath });
+    if (result.messages.length > 0) {
+      console.warn('DOCX processing warnings:', result.messages);
     }
-    
-    return overlapSentences;
+    return blocksFromHtml(result.value);
   }
 
   /**
-   * Estimate token count for text (rough approximation)
+   * Extract paragraphs from TXT, treating Markdown-style "#" lines as headings
    */
-  private estimateTokens(text: string): number {
-    // Rough approximation: 1 token ≈ 4 characters for English
-    return Math.ceil(text.length / 4);
+  private async extractTxtBlocks(filePath: string): Promise<DocumentBlock[]> {
+    return blocksFromPlainText(decodeText(fs.readFileSync(filePath)));
   }
 
   /**
-   * Generate embeddings for text content
+   * Generate embeddings for text content; pass the account's provider so the
+   * vector matches the ones stored for its documents
    */
-  async generateEmbedding(text: string): Promise<number[]> {
+  async generateEmbedding(text: string, provider: EmbeddingProvider = getEmbeddingProvider()): Promise<number[]> {
     try {
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: text,
-      });
-
-      return response.data[0].embedding;
+      const { vectors } = await provider.embed([text]);
+      return vectors[0];
     } catch (error) {
       console.error('Failed to generate embedding:', error);
       throw new Error('Failed to generate text embedding');
@@ -222,20 +164,6 @@ export class DocumentProcessor {
    * Calculate cosine similarity between embeddings
    */
   static cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) {
-      throw new Error('Embedding vectors must have same length');
-    }
-
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+    return cosineSimilarity(a, b);
   }
 }
\ No newline at end of file
@@ -0,0 +1,274 @@
+// Structure-aware chunking for uploaded documents. Extraction yields blocks that
+// remember their page (PDF) or heading (DOCX, Markdown-style TXT); chunks never
+// cross a section boundary and carry enough metadata to be cited.
+
+export interface DocumentBlock {
+  text: string;
+  page?: number;         // 1-based, PDFs only
+  headingLevel?: number; // set when the block is a heading, 1 = top level
+  ocrConfidence?: number; // 0-100, set when the text came from OCR
+}
+
+// Stored in documentChunks.metadata
+export interface ChunkMetadata {
+  page?: number;
+  pageEnd?: number;       // last page when a chunk runs across a page break
+  section?: string;       // nearest heading
+  headingPath?: string[]; // all enclosing headings, outermost first
+  questions?: string[];   // question labels the chunk covers ("Question 4")
+  ocrConfidence?: number; // lowest OCR confidence among the chunk's pages
+}
+
+export interface TextChunk {
+  content: string;
+  chunkIndex: number;
+  tokenCount: number;
+  metadata: ChunkMetadata;
+}
+
+export interface ChunkingOptions {
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+// One paragraph, or one sentence of a paragraph too long for a chunk
+interface ChunkUnit {
+  text: string;
+  tokens: number;
+  page?: number;
+  question?: string;
+  paragraph: number; // sentences of the same paragraph are rejoined with spaces
+  heading?: boolean;
+  ocrConfidence?: number;
+}
+
+const QUESTION_PATTERN = /^(?:(?:question|problem|exercise|q)\s*\.?\s*(\d{1,3}[a-z]?)\b|(\d{1,3})[.)]\s+\S)/i;
+const SECTION_LINE_PATTERN = /^(?:[Pp]art|PART|[Ss]ection|SECTION|[Uu]nit|UNIT|[Cc]hapter|CHAPTER)\s+(?:\d{1,3}|[A-Z]|[IVX]{1,4})\b[^.?!]{0,60}$/;
+const MARKDOWN_HEADING_PATTERN = /^(#{1,6})\s+(.+)$/;
+
+// Rough approximation: 1 token ≈ 4 characters for English
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Collapse whitespace inside lines but keep line and paragraph breaks, which
+ * carry the structure the chunker relies on.
+ */
+export function cleanText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v ]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// "Question 4", "Q4", "4." or "4)" at the start of a paragraph
+export function questionLabel(text: string): string | null {
+  const parsed = parseQuestionNumber(text);
+  return parsed ? `Question ${parsed.number}` : null;
+}
+
+// The printed number of a paragraph that starts a question, and the text after it
+export function parseQuestionNumber(text: string): { number: string; rest: string } | null {
+  const trimmed = text.trim();
+  const match = trimmed.match(QUESTION_PATTERN);
+  if (!match) return null;
+  if (match[1]) {
+    return { number: match[1], rest: trimmed.slice(match[0].length).replace(/^\s*[.:)\-]?\s*/, '') };
+  }
+  // The pattern consumes the first character after "4." to tell it apart from "4.5"
+  return { number: match[2], rest: trimmed.slice(match[0].length - 1) };
+}
+
+/**
+ * Split extracted text into paragraphs. Markdown headings and "Part B" style
+ * lines become headings, and a line that starts a numbered question starts a
+ * new paragraph even without a blank line before it (PDF pages rarely have one).
+ */
+export function blocksFromPlainText(text: string, page?: number): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let lines: string[] = [];
+
+  const flush = () => {
+    const paragraph = lines.join(' ').trim();
+    if (paragraph) blocks.push({ text: paragraph, page });
+    lines = [];
+  };
+
+  for (const line of cleanText(text).split('\n')) {
+    const heading = line.match(MARKDOWN_HEADING_PATTERN);
+    if (heading || SECTION_LINE_PATTERN.test(line)) {
+      flush();
+      blocks.push({
+        text: heading ? heading[2].trim() : line,
+        page,
+        headingLevel: heading ? heading[1].length : 1,
+      });
+    } else if (!line) {
+      flush();
+    } else {
+      if (questionLabel(line)) flush();
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+// Headings, paragraphs and list items from mammoth's HTML conversion of a DOCX
+export function blocksFromHtml(html: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  const pattern = /<(h[1-6]|p|li)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html)) !== null) {
+    const text = cleanText(decodeEntities(match[2].replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ' ')))
+      .replace(/\n+/g, ' ');
+    if (!text) continue;
+
+    const tag = match[1].toLowerCase();
+    blocks.push(tag.startsWith('h') ? { text, headingLevel: parseInt(tag[1], 10) } : { text });
+  }
+
+  return blocks;
+}
+
+function splitIntoSentences(text: string): string[] {
+  return (text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) || [text])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Group blocks into chunks of at most `maxTokens`. A heading always closes the
+ * current chunk, overlap is only taken from the same section, and each chunk
+ * records its pages, heading path and question labels.
+ */
+export function chunkBlocks(blocks: DocumentBlock[], options: ChunkingOptions): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let headingPath: string[] = [];
+  let units: ChunkUnit[] = [];
+  let tokens = 0;
+  let question: string | undefined;
+  let paragraph = 0;
+  let hasNewBody = false; // false while the chunk holds only headings or carried-over overlap
+
+  const emit = () => {
+    if (!hasNewBody) return;
+    hasNewBody = false;
+
+    const content = units
+      .map((unit, i) => (i === 0 ? '' : unit.paragraph === units[i - 1].paragraph ? ' ' : '\n\n') + unit.text)
+      .join('');
+    const pages = units.map(unit => unit.page).filter((page): page is number => page !== undefined);
+    const questions = units
+      .map(unit => unit.question)
+      .filter((label, i, all): label is string => !!label && all.indexOf(label) === i);
+
+    const metadata: ChunkMetadata = {};
+    if (pages.length > 0) {
+      metadata.page = Math.min(...pages);
+      const last = Math.max(...pages);
+      if (last !== metadata.page) metadata.pageEnd = last;
+    }
+    if (headingPath.length > 0) {
+      metadata.section = headingPath[headingPath.length - 1];
+      metadata.headingPath = headingPath.slice();
+    }
+    if (questions.length > 0) metadata.questions = questions;
+    const confidences = units.map(unit => unit.ocrConfidence).filter((value): value is number => value !== undefined);
+    if (confidences.length > 0) metadata.ocrConfidence = Math.min(...confidences);
+
+    chunks.push({ content, chunkIndex: chunks.length, tokenCount: tokens, metadata });
+  };
+
+  // Tail of the current chunk carried into the next one
+  const overlap = (): ChunkUnit[] => {
+    const carried: ChunkUnit[] = [];
+    let carriedTokens = 0;
+    for (let i = units.length - 1; i > 0; i--) {
+      if (carriedTokens + units[i].tokens > options.overlapTokens) break;
+      carried.unshift(units[i]);
+      carriedTokens += units[i].tokens;
+    }
+    return carried;
+  };
+
+  const add = (unit: ChunkUnit) => {
+    if (tokens + unit.tokens > options.maxTokens && units.length > 0) {
+      emit();
+      units = overlap();
+      tokens = units.reduce((sum, carried) => sum + carried.tokens, 0);
+    }
+    units.push(unit);
+    tokens += unit.tokens;
+    if (!unit.heading) hasNewBody = true;
+  };
+
+  for (const block of blocks) {
+    const text = block.text.trim();
+    if (!text) continue;
+
+    if (block.headingLevel) {
+      emit();
+      units = [];
+      tokens = 0;
+      question = undefined;
+      headingPath = headingPath.slice(0, block.headingLevel - 1).concat(text);
+      // The heading opens its section's first chunk so retrieval sees it
+      add({ text, tokens: estimateTokens(text), page: block.page, paragraph: paragraph++, heading: true, ocrConfidence: block.ocrConfidence });
+      continue;
+    }
+
+    question = questionLabel(text) || question;
+    const blockTokens = estimateTokens(text);
+    const pieces = blockTokens > options.maxTokens ? splitIntoSentences(text) : [text];
+    for (const piece of pieces) {
+      add({ text: piece, tokens: estimateTokens(piece), page: block.page, question, paragraph, ocrConfidence: block.ocrConfidence });
+    }
+    paragraph++;
+  }
+
+  emit();
+
+  return chunks;
+}
+
+/**
+ * Human-readable source for a chunk, e.g. "Fractions worksheet p.2, Question 4"
+ * or "Biology notes, Photosynthesis". Chunks stored before structure-aware
+ * chunking only have the title.
+ */
+export function formatCitation(title: string, metadata?: ChunkMetadata | null): string {
+  if (!metadata) return title;
+
+  let citation = title;
+  if (metadata.page) {
+    citation += metadata.pageEnd ? ` pp.${metadata.page}-${metadata.pageEnd}` : ` p.${metadata.page}`;
+  }
+
+  const details: string[] = [];
+  if (metadata.section) details.push(metadata.section);
+  const questions = metadata.questions || [];
+  if (questions.length === 1) {
+    details.push(questions[0]);
+  } else if (questions.length > 1) {
+    details.push(`Questions ${questions[0].replace('Question ', '')}-${questions[questions.length - 1].replace('Question ', '')}`);
+  }
+
+  return details.length > 0 ? `${citation}, ${details.join(', ')}` : citation;
+}
@@ -0,0 +1,111 @@
+import { createHash } from 'crypto';
+
+// USD per million input tokens, from OpenAI's published embedding pricing
+export const EMBEDDING_PRICE_PER_MILLION: Record<string, number> = {
+  'text-embedding-3-small': 0.02,
+  'text-embedding-3-large': 0.13,
+  'text-embedding-ada-002': 0.10,
+};
+
+// Identical uploads within an account share chunks and embeddings
+export function fileContentHash(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Hash of a chunk's text, ignoring whitespace differences so re-extracting the
+ * same page doesn't count as a change.
+ */
+export function chunkContentHash(content: string): string {
+  return createHash('sha256').update(content.replace(/\s+/g, ' ').trim()).digest('hex');
+}
+
+export interface EmbeddingPlan {
+  reuse: number[]; // chunk indexes with a stored embedding for the same text and model
+  embed: number[]; // chunk indexes that need a new embedding
+  reusedTokens: number;
+}
+
+export function planEmbeddings(
+  chunks: Array<{ contentHash: string; tokenCount: number }>,
+  reusable: Map<string, string>
+): EmbeddingPlan {
+  const plan: EmbeddingPlan = { reuse: [], embed: [], reusedTokens: 0 };
+  chunks.forEach((chunk, index) => {
+    if (reusable.has(chunk.contentHash)) {
+      plan.reuse.push(index);
+      plan.reusedTokens += chunk.tokenCount;
+    } else {
+      plan.embed.push(index);
+    }
+  });
+  return plan;
+}
+
+// Unknown models are priced like text-embedding-3-small
+export function estimateEmbeddingCost(tokens: number, model: string): number {
+  const price = EMBEDDING_PRICE_PER_MILLION[model] ?? EMBEDDING_PRICE_PER_MILLION['text-embedding-3-small'];
+  return Math.round((tokens / 1000000) * price * 10000) / 10000;
+}
+
+export interface DocumentUsage {
+  userId: string;
+  contentHash: string | null;
+  fileSize: number;
+  chunkCount: number;
+  embeddingTokens: number;
+  reusedEmbeddingTokens: number;
+}
+
+export interface DocumentCostReport {
+  model: string;
+  documents: number;
+  duplicateDocuments: number; // uploads whose file the account already had
+  storageBytes: number;
+  uniqueStorageBytes: number;
+  chunks: number;
+  embeddingTokens: number;
+  reusedEmbeddingTokens: number;
+  embeddingCostUsd: number;
+  savedCostUsd: number;
+  staleEmbeddings: number; // vectors from a model no provider uses any more
+}
+
+export function buildCostReport(
+  documents: DocumentUsage[],
+  model: string,
+  embeddingsByModel: Array<{ model: string | null; count: number }>,
+  activeModels: string[] = [model] // models of every configured provider
+): DocumentCostReport {
+  const seen = new Set<string>();
+  let duplicateDocuments = 0;
+  let uniqueStorageBytes = 0;
+  for (const doc of documents) {
+    const key = doc.contentHash ? `${doc.userId}:${doc.contentHash}` : null;
+    if (key && seen.has(key)) {
+      duplicateDocuments++;
+      continue;
+    }
+    if (key) seen.add(key);
+    uniqueStorageBytes += doc.fileSize;
+  }
+
+  const embeddingTokens = documents.reduce((total, doc) => total + doc.embeddingTokens, 0);
+  const reusedEmbeddingTokens = documents.reduce((total, doc) => total + doc.reusedEmbeddingTokens, 0);
+
+  return {
+    model,
+    documents: documents.length,
+    duplicateDocuments,
+    storageBytes: documents.reduce((total, doc) => total + doc.fileSize, 0),
+    uniqueStorageBytes,
+    chunks: documents.reduce((total, doc) => total + doc.chunkCount, 0),
+    embeddingTokens,
+    reusedEmbeddingTokens,
+    embeddingCostUsd: estimateEmbeddingCost(embeddingTokens, model),
+    savedCostUsd: estimateEmbeddingCost(reusedEmbeddingTokens, model),
+    staleEmbeddings: embeddingsByModel
+      .filter(row => !row.model || !activeModels.includes(row.model))
+      .reduce((total, row) => total + row.count, 0),
+  };
+}
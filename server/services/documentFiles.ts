@@ -0,0 +1,90 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { storage } from '../storage';
+import { getBlobStore } from './blobStorage';
+import { fileContentHash } from './documentDedup';
+import type { UserDocument } from '@shared/schema';
+
+type StoredFile = Pick<UserDocument, 'id' | 'userId' | 'fileType' | 'filePath' | 'storageKey' | 'parsedTextPath' | 'contentHash'>;
+
+/**
+ * Uploaded files and their extracted text in blob storage. Keys are content
+ * addressed per account, so duplicate uploads share one blob and a blob is
+ * only deleted with the last document that uses it.
+ */
+class DocumentFileService {
+  async save(userId: string, data: Buffer, fileType: string, contentType?: string): Promise<{ storageKey: string; contentHash: string }> {
+    const contentHash = fileContentHash(data);
+    const storageKey = `documents/${userId}/${contentHash}.${fileType}`;
+    const store = getBlobStore();
+    if (!(await store.exists(storageKey))) {
+      await store.put(storageKey, data, contentType);
+    }
+    return { storageKey, contentHash };
+  }
+
+  async read(doc: StoredFile): Promise<Buffer> {
+    if (doc.storageKey) {
+      return getBlobStore().get(doc.storageKey);
+    }
+    if (doc.filePath) {
+      return fs.readFile(doc.filePath);
+    }
+    throw new Error(`Document ${doc.id} has no stored file`);
+  }
+
+  /**
+   * Run `fn` with the file on local disk, as PDF, DOCX and OCR extraction
+   * need a path. Blobs are copied to a temp file that is removed afterwards.
+   */
+  async withLocalCopy<T>(doc: StoredFile, fn: (localPath: string) => Promise<T>): Promise<T> {
+    if (!doc.storageKey && doc.filePath) {
+      return fn(doc.filePath);
+    }
+
+    const tempPath = path.join(os.tmpdir(), `document-${doc.id}-${randomUUID()}.${doc.fileType}`);
+    await fs.writeFile(tempPath, await this.read(doc));
+    try {
+      return await fn(tempPath);
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  async saveParsedText(doc: StoredFile, text: string): Promise<string> {
+    const key = `parsed/${doc.userId}/${doc.contentHash || doc.id}.txt`;
+    await getBlobStore().put(key, Buffer.from(text, 'utf-8'), 'text/plain; charset=utf-8');
+    return key;
+  }
+
+  /**
+   * Delete a removed document's files unless another document still uses them.
+   * Call after the document row is gone.
+   */
+  async remove(doc: StoredFile): Promise<void> {
+    for (const key of [doc.storageKey, doc.parsedTextPath]) {
+      if (!key) continue;
+      try {
+        if (await storage.countDocumentsReferencingBlob(key) > 0) continue;
+        if (path.isAbsolute(key)) {
+          // Extracted text of documents processed before blob storage
+          await fs.rm(key, { force: true });
+        } else {
+          await getBlobStore().delete(key);
+        }
+      } catch (error) {
+        console.error(`[DocumentFiles] Failed to delete ${key} for document ${doc.id}:`, error);
+      }
+    }
+
+    if (doc.filePath) {
+      await fs.rm(doc.filePath, { force: true }).catch(error => {
+        console.error(`[DocumentFiles] Failed to delete ${doc.filePath} for document ${doc.id}:`, error);
+      });
+    }
+  }
+}
+
+export const documentFileService = new DocumentFileService();
@@ -0,0 +1,50 @@
+// Storage quotas and retention for uploaded documents
+
+const MB = 1024 * 1024;
+
+// Per-plan upload storage, in MB. Duplicate uploads share storage and count once.
+export const STORAGE_QUOTA_MB: Record<string, number> = {
+  starter: 100,
+  single: 250,
+  standard: 500,
+  all: 1000,
+  pro: 2000,
+};
+
+const NO_PLAN_QUOTA_MB = 50;
+
+export interface QuotaCheck {
+  allowed: boolean;
+  usedBytes: number;
+  quotaBytes: number;
+  remainingBytes: number;
+}
+
+export function storageQuotaBytes(plan?: string | null): number {
+  return (plan && STORAGE_QUOTA_MB[plan] !== undefined ? STORAGE_QUOTA_MB[plan] : NO_PLAN_QUOTA_MB) * MB;
+}
+
+export function checkStorageQuota(usedBytes: number, incomingBytes: number, plan?: string | null): QuotaCheck {
+  const quotaBytes = storageQuotaBytes(plan);
+  return {
+    allowed: usedBytes + incomingBytes <= quotaBytes,
+    usedBytes,
+    quotaBytes,
+    remainingBytes: Math.max(0, quotaBytes - usedBytes),
+  };
+}
+
+/**
+ * Days to keep documents not marked "keep for future sessions", from
+ * DOCUMENT_RETENTION_DAYS. Unset or 0 keeps them forever.
+ */
+export function retentionDays(): number {
+  const configured = parseInt(process.env.DOCUMENT_RETENTION_DAYS || '', 10);
+  return Number.isFinite(configured) && configured >= 0 ? configured : 0;
+}
+
+// Documents uploaded before the cutoff are purged; null when retention is off
+export function retentionCutoff(now: Date, days: number = retentionDays()): Date | null {
+  if (days <= 0) return null;
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,172 @@
+import { and, asc, eq, inArray, sql } from 'drizzle-orm';
+import { documentQuestions, studentDocPins, students, userDocuments, type DocumentQuestion } from '@shared/schema';
+import { db } from '../db';
+import { answerChecker } from './answerChecker';
+import type { GradeVerdict } from './answerGrader';
+import { requiresSimplestForm, type ExtractedQuestion } from './questionExtractor';
+import { mergeInstructions, type AnswerPolicy } from './tutorInstructions';
+
+export interface WorksheetCheckResult {
+  ok: boolean;
+  msg: string;
+  verdict: GradeVerdict;
+  question: DocumentQuestion;
+}
+
+export class DocumentQuestionError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'DocumentQuestionError';
+  }
+}
+
+class DocumentQuestionService {
+  /**
+   * Re-processing a document updates its questions in place, matched by their
+   * printed number (in order, when a number repeats across sections). Matched
+   * questions keep their attempts and any answer a parent set; questions no
+   * longer on the sheet are removed.
+   */
+  async replaceQuestions(documentId: string, questions: ExtractedQuestion[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      const existing = await tx.select().from(documentQuestions)
+        .where(eq(documentQuestions.documentId, documentId))
+        .orderBy(asc(documentQuestions.orderIndex));
+
+      const byNumber = new Map<string, DocumentQuestion[]>();
+      for (const row of existing) {
+        byNumber.set(row.number, [...(byNumber.get(row.number) || []), row]);
+      }
+
+      // Move kept rows out of the way first: (documentId, orderIndex) is unique
+      if (existing.length > 0) {
+        await tx.update(documentQuestions)
+          .set({ orderIndex: sql`-1 - ${documentQuestions.orderIndex}` })
+          .where(eq(documentQuestions.documentId, documentId));
+      }
+
+      const kept = new Set<string>();
+      for (let orderIndex = 0; orderIndex < questions.length; orderIndex++) {
+        const question = questions[orderIndex];
+        const fields = {
+          orderIndex,
+          page: question.page ?? null,
+          section: question.section ?? null,
+          prompt: question.prompt,
+          questionType: question.type,
+          options: question.options.length > 0 ? question.options : null,
+          blanks: question.blanks,
+        };
+        const match = byNumber.get(question.number)?.shift();
+
+        if (match) {
+          kept.add(match.id);
+          await tx.update(documentQuestions)
+            .set({
+              ...fields,
+              answer: match.answerEdited ? match.answer : question.answer ?? null,
+              updatedAt: new Date(),
+            })
+            .where(eq(documentQuestions.id, match.id));
+        } else {
+          await tx.insert(documentQuestions).values({
+            ...fields,
+            documentId,
+            number: question.number,
+            answer: question.answer ?? null,
+          });
+        }
+      }
+
+      const removed = existing.filter(row => !kept.has(row.id)).map(row => row.id);
+      if (removed.length > 0) {
+        await tx.delete(documentQuestions).where(inArray(documentQuestions.id, removed));
+      }
+    });
+  }
+
+  async listQuestions(documentId: string, userId: string): Promise<DocumentQuestion[]> {
+    await this.assertOwner(documentId, userId);
+    return this.listForDocuments([documentId]);
+  }
+
+  // Callers must already have checked the documents belong to the user
+  async listForDocuments(documentIds: string[]): Promise<DocumentQuestion[]> {
+    if (documentIds.length === 0) return [];
+    return db.select().from(documentQuestions)
+      .where(inArray(documentQuestions.documentId, documentIds))
+      .orderBy(asc(documentQuestions.documentId), asc(documentQuestions.orderIndex));
+  }
+
+  // Parents can fill in or correct the key for questions the sheet didn't answer
+  async setAnswerKey(documentId: string, questionId: string, userId: string, answer: string | null): Promise<DocumentQuestion> {
+    await this.getOwnedQuestion(documentId, questionId, userId);
+    const [updated] = await db.update(documentQuestions)
+      .set({ answer, answerEdited: true, updatedAt: new Date() })
+      .where(eq(documentQuestions.id, questionId))
+      .returning();
+    return updated;
+  }
+
+  // Grades with the tutor's answer checker and records the attempt
+  async checkAnswer(documentId: string, questionId: string, userId: string, answer: string): Promise<WorksheetCheckResult> {
+    const question = await this.getOwnedQuestion(documentId, questionId, userId);
+    if (!question.answer) {
+      throw new DocumentQuestionError('This question has no answer key yet', 409);
+    }
+
+    const result = answerChecker.checkAnswer(
+      question.answer,
+      answer,
+      question.questionType,
+      undefined,
+      question.options || undefined,
+      requiresSimplestForm(question.prompt, question.answer)
+    );
+    const [updated] = await db.update(documentQuestions)
+      .set({
+        attempts: sql`${documentQuestions.attempts} + 1`,
+        lastAnswer: answer,
+        lastCorrect: result.ok,
+        updatedAt: new Date(),
+      })
+      .where(eq(documentQuestions.id, questionId))
+      .returning();
+
+    return { ...result, question: updated };
+  }
+
+  // The document's answer policy, overridden by the student's pin when a student is named
+  async answerPolicy(documentId: string, userId: string, studentId?: string): Promise<AnswerPolicy | undefined> {
+    const [document] = await db.select({ tutorInstructions: userDocuments.tutorInstructions }).from(userDocuments)
+      .where(and(eq(userDocuments.id, documentId), eq(userDocuments.userId, userId)));
+    if (!document) throw new DocumentQuestionError('Document not found', 404);
+
+    const [pin] = studentId
+      ? await db.select({ tutorInstructions: studentDocPins.tutorInstructions }).from(studentDocPins)
+        .innerJoin(students, eq(students.id, studentDocPins.studentId))
+        .where(and(
+          eq(studentDocPins.docId, documentId),
+          eq(studentDocPins.studentId, studentId),
+          eq(students.ownerUserId, userId)
+        ))
+      : [];
+    return mergeInstructions(document.tutorInstructions, pin?.tutorInstructions).answerPolicy;
+  }
+
+  private async assertOwner(documentId: string, userId: string): Promise<void> {
+    const [document] = await db.select({ id: userDocuments.id }).from(userDocuments)
+      .where(and(eq(userDocuments.id, documentId), eq(userDocuments.userId, userId)));
+    if (!document) throw new DocumentQuestionError('Document not found', 404);
+  }
+
+  private async getOwnedQuestion(documentId: string, questionId: string, userId: string): Promise<DocumentQuestion> {
+    await this.assertOwner(documentId, userId);
+    const [question] = await db.select().from(documentQuestions)
+      .where(and(eq(documentQuestions.id, questionId), eq(documentQuestions.documentId, documentId)));
+    if (!question) throw new DocumentQuestionError('Question not found', 404);
+    return question;
+  }
+}
+
+export const documentQuestionService = new DocumentQuestionService();
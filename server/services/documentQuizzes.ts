@@ -0,0 +1,156 @@
+import OpenAI from 'openai';
+import { and, asc, desc, eq, isNull, sql } from 'drizzle-orm';
+import { documentChunks, documentQuizzes, type DocumentQuiz } from '@shared/schema';
+import { db } from '../db';
+import { storage } from '../storage';
+import type { ChunkMetadata } from './documentChunker';
+import {
+  buildQuizPrompt,
+  DEFAULT_QUIZ_OPTIONS,
+  parseGeneratedQuiz,
+  scoreDocumentQuiz,
+  selectQuizSources,
+  type QuizOptions,
+  type QuizScore
+} from './quizBuilder';
+
+const QUIZ_MODEL = process.env.QUIZ_MODEL || 'gpt-4o-mini';
+const MIN_QUESTIONS = 3; // fewer usable questions than this isn't worth a quiz
+
+export class DocumentQuizError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'DocumentQuizError';
+  }
+}
+
+// What the quiz player sees: no answer keys or explanations until submission
+export interface PlayableQuiz {
+  id: string;
+  documentId: string;
+  studentId: string | null;
+  title: string;
+  questions: Array<{ id: number; type: 'mcq' | 'short'; question: string; options: string[]; citation: string }>;
+}
+
+class DocumentQuizService {
+  private client: OpenAI | null = null;
+
+  async generate(userId: string, documentId: string, studentId: string | null, options: QuizOptions = DEFAULT_QUIZ_OPTIONS): Promise<DocumentQuiz> {
+    const document = await storage.getDocument(documentId, userId);
+    if (!document) throw new DocumentQuizError('Document not found', 404);
+    if (document.processingStatus !== 'ready') {
+      throw new DocumentQuizError('The document is still being processed', 409);
+    }
+    if (studentId && !(await storage.getStudent(studentId, userId))) {
+      throw new DocumentQuizError('Student not found', 404);
+    }
+
+    const chunks = await db.select().from(documentChunks)
+      .where(eq(documentChunks.documentId, documentId))
+      .orderBy(asc(documentChunks.chunkIndex));
+    const sources = selectQuizSources(chunks.map(chunk => ({
+      chunkId: chunk.id,
+      chunkIndex: chunk.chunkIndex,
+      content: chunk.content,
+      metadata: chunk.metadata as ChunkMetadata | null,
+    })));
+    if (sources.length === 0) {
+      throw new DocumentQuizError("There isn't enough text in this document to make a quiz", 422);
+    }
+
+    const title = document.title || document.originalName;
+    const prompt = buildQuizPrompt(title, sources, options);
+
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    const response = await this.client.chat.completions.create({
+      model: QUIZ_MODEL,
+      messages: [
+        { role: 'system', content: prompt.system },
+        { role: 'user', content: prompt.user },
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0.4,
+    });
+
+    let raw: unknown = null;
+    try {
+      raw = JSON.parse(response.choices[0].message.content || '{}');
+    } catch {
+      // Treated as a reply with no usable questions
+    }
+    const questions = parseGeneratedQuiz(raw, sources, title).slice(0, options.questionCount);
+    console.log(`[DocumentQuiz] Generated ${questions.length}/${options.questionCount} question(s) for document ${documentId}`);
+    if (questions.length < MIN_QUESTIONS) {
+      throw new DocumentQuizError("We couldn't write enough questions from this document. Try again or pick another document.", 422);
+    }
+
+    const [quiz] = await db.insert(documentQuizzes).values({
+      userId,
+      studentId,
+      documentId,
+      title: `${title} Quiz`,
+      questions,
+      model: QUIZ_MODEL,
+    }).returning();
+    return quiz;
+  }
+
+  // Quizzes for the account holder (no studentId) or one student, newest first
+  async list(userId: string, studentId: string | null): Promise<DocumentQuiz[]> {
+    return db.select().from(documentQuizzes)
+      .where(and(
+        eq(documentQuizzes.userId, userId),
+        studentId ? eq(documentQuizzes.studentId, studentId) : isNull(documentQuizzes.studentId)
+      ))
+      .orderBy(desc(documentQuizzes.createdAt));
+  }
+
+  async findForUser(quizId: string, userId: string): Promise<DocumentQuiz | undefined> {
+    const [quiz] = await db.select().from(documentQuizzes)
+      .where(and(eq(documentQuizzes.id, quizId), eq(documentQuizzes.userId, userId)));
+    return quiz || undefined;
+  }
+
+  async getPlayable(quizId: string, userId: string): Promise<PlayableQuiz> {
+    const quiz = await this.findForUser(quizId, userId);
+    if (!quiz) throw new DocumentQuizError('Quiz not found', 404);
+
+    return {
+      id: quiz.id,
+      documentId: quiz.documentId,
+      studentId: quiz.studentId,
+      title: quiz.title,
+      questions: quiz.questions.map((question, index) => ({
+        id: index,
+        type: question.type,
+        question: question.question,
+        options: question.options || [],
+        citation: question.source.citation,
+      })),
+    };
+  }
+
+  async submit(quiz: DocumentQuiz, answers: Record<string, unknown>): Promise<QuizScore> {
+    const result = scoreDocumentQuiz(quiz.questions, answers || {});
+    await db.update(documentQuizzes)
+      .set({
+        attempts: sql`${documentQuizzes.attempts} + 1`,
+        bestScore: Math.max(result.percentage, quiz.bestScore || 0),
+        lastAttemptAt: new Date(),
+      })
+      .where(eq(documentQuizzes.id, quiz.id));
+    return result;
+  }
+
+  async remove(quizId: string, userId: string): Promise<void> {
+    const deleted = await db.delete(documentQuizzes)
+      .where(and(eq(documentQuizzes.id, quizId), eq(documentQuizzes.userId, userId)))
+      .returning({ id: documentQuizzes.id });
+    if (deleted.length === 0) throw new DocumentQuizError('Quiz not found', 404);
+  }
+}
+
+export const documentQuizService = new DocumentQuizService();
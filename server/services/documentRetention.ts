@@ -0,0 +1,61 @@
+import { storage } from '../storage';
+import { documentFileService } from './documentFiles';
+import { retentionCutoff, retentionDays } from './documentPolicy';
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000; // hourly
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * Deletes documents not marked "keep for future sessions" or pinned to a
+ * student once they are older than DOCUMENT_RETENTION_DAYS, along with their
+ * chunks, embeddings, worksheet questions (all cascade with the row) and
+ * stored files.
+ */
+export class DocumentRetentionService {
+  private intervalId: NodeJS.Timeout | null = null;
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const cutoff = retentionCutoff(now);
+    if (!cutoff) return 0;
+
+    let purged = 0;
+    for (;;) {
+      const expired = await storage.getExpiredDocuments(cutoff, PURGE_BATCH_SIZE);
+      for (const doc of expired) {
+        await storage.deleteDocument(doc.id, doc.userId);
+        await documentFileService.remove(doc);
+        purged++;
+      }
+      if (expired.length < PURGE_BATCH_SIZE) break;
+    }
+
+    if (purged > 0) {
+      console.log(`[DocumentRetention] Purged ${purged} document(s) uploaded before ${cutoff.toISOString()}`);
+    }
+    return purged;
+  }
+
+  start() {
+    if (this.intervalId) return;
+    if (retentionDays() === 0) {
+      console.log('[DocumentRetention] Retention disabled (DOCUMENT_RETENTION_DAYS not set)');
+      return;
+    }
+
+    const sweep = () => {
+      this.purgeExpired().catch(error => console.error('[DocumentRetention] Sweep error:', error));
+    };
+    sweep();
+    this.intervalId = setInterval(sweep, SWEEP_INTERVAL_MS);
+    console.log(`[DocumentRetention] Purging unkept documents after ${retentionDays()} days`);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+}
+
+export const documentRetentionService = new DocumentRetentionService();
@@ -1,26 +1,33 @@
 import { storage } from '../storage';
 import { DocumentProcessor } from './document-processor';
+import { ocrService } from './ocr';
+import { documentQuestionService } from './documentQuestions';
+import { chunkContentHash, fileContentHash, planEmbeddings } from './documentDedup';
+import {
+  EMBEDDING_PROVIDERS,
+  embedWithRetry,
+  getEmbeddingProvider,
+  resolveEmbeddingProviderName,
+  type EmbeddingProvider
+} from './embeddingProvider';
+import { embeddingMigrationService } from './embeddingMigration';
+import { documentFileService } from './documentFiles';
+import { getContentSafetyClassifier, type ContentSafetyResult } from './contentSafety';
 import { UserDocument } from '@shared/schema';
-import OpenAI from 'openai';
-import * as fs from 'fs';
-import * as path from 'path';
 
 const MAX_RETRIES = 5;
 const RETRY_SCHEDULE_MS = [1 * 60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000, 60 * 60 * 1000, 6 * 60 * 60 * 1000]; // 1m, 5m, 15m, 1h, 6h
 const WORKER_INTERVAL_MS = 15 * 1000; // 15 seconds for faster processing
 const BATCH_SIZE = 3; // Process 3 documents at a time to avoid overwhelming the API
+const BACKFILL_BATCH_SIZE = 20; // Chunks embedded per idle tick after a model or provider change
 
 export class EmbeddingWorker {
   private processor: DocumentProcessor;
-  private openai: OpenAI;
   private isRunning = false;
   private intervalId: NodeJS.Timeout | null = null;
-  private readonly embeddingModel: string;
 
   constructor() {
     this.processor = new DocumentProcessor();
-    this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    this.embeddingModel = process.env.EMBED_MODEL || 'text-embedding-3-small';
   }
 
   start() {
@@ -45,6 +52,7 @@ export class EmbeddingWorker {
       this.intervalId = null;
     }
     this.isRunning = false;
+    ocrService.terminate().catch(error => console.error('[EmbeddingWorker] Failed to stop OCR worker:', error));
     console.log('[EmbeddingWorker] Stopped');
   }
 
@@ -53,6 +61,8 @@ export class EmbeddingWorker {
       const queuedDocs = await this.getQueuedDocuments(BATCH_SIZE);
       
       if (queuedDocs.length === 0) {
+        // Only spend idle ticks catching up old embeddings
+        await this.backfillEmbeddings(BACKFILL_BATCH_SIZE);
         return;
       }
 
@@ -94,52 +104,106 @@ export class EmbeddingWorker {
         return; // Another worker picked it up
       }
 
-      // Delete existing chunks and embeddings if this is a retry (idempotency)
-      if (doc.retryCount && doc.retryCount > 0) {
-        console.log(`[EmbeddingWorker] Cleaning up existing chunks for retry attempt ${doc.retryCount}`);
-        await this.deleteDocumentChunks(doc.id);
+      // Embed with the owner's provider so their searches compare like with like
+      const owner = await storage.getUser(doc.userId);
+      const provider = getEmbeddingProvider(owner?.embeddingProvider);
+
+      // Hash files uploaded before dedup so later copies can find them
+      const contentHash = doc.contentHash || fileContentHash(await documentFileService.read(doc));
+
+      // Extract text (OCR'ing photos and scanned pages) and create chunks.
+      // OCR is slow, so the file is only processed once per attempt.
+      const processed = await documentFileService.withLocalCopy(doc, localPath =>
+        this.processor.processFile(localPath, doc.fileType)
+      );
+      if (processed.ocrPages.length > 0) {
+        const avgConfidence = Math.round(
+          processed.ocrPages.reduce((sum, page) => sum + page.confidence, 0) / processed.ocrPages.length
+        );
+        console.log(`[EmbeddingWorker] OCR'd ${processed.ocrPages.length} page(s) of document ${doc.id} (avg confidence ${avgConfidence})`);
       }
 
-      // Extract or load text
-      const fullText = await this.getDocumentText(doc);
-      
       // Save parsed text for future reference
-      const parsedTextPath = await this.saveParsedText(doc.id, fullText);
-      await storage.updateDocumentById(doc.id, { parsedTextPath });
+      const fullText = processed.chunks.map(c => c.content).join('\n\n');
+      const parsedTextPath = await documentFileService.saveParsedText({ ...doc, contentHash }, fullText);
+      await storage.updateDocumentById(doc.id, {
+        parsedTextPath,
+        contentHash,
+        ocrPages: processed.ocrPages.length > 0 ? processed.ocrPages : null,
+      });
 
-      // Create chunks
-      const processed = await this.processor.processFile(doc.filePath, doc.fileType);
+      // Hold unsafe material for admin review before it can reach a tutoring session.
+      // Documents an admin already released aren't screened again.
+      if (!doc.reviewedAt) {
+        const screening = await this.screenContent(fullText);
+        if (screening.flagged) {
+          await storage.updateDocumentById(doc.id, {
+            processingStatus: 'quarantined',
+            quarantineReason: screening.reason || 'Flagged by content screening',
+            screeningFlags: screening.categories,
+          });
+          console.warn(`[EmbeddingWorker] Quarantined document ${doc.id}: ${screening.reason}`);
+          return;
+        }
+      }
+
+      // Worksheet questions for step-by-step practice
+      await documentQuestionService.replaceQuestions(doc.id, processed.questions);
+      if (processed.questions.length > 0) {
+        console.log(`[EmbeddingWorker] Found ${processed.questions.length} question(s) in document ${doc.id}`);
+      }
+
+      // Chunks whose text the account has already embedded with this model (including this
+      // document's own chunks from an earlier attempt) keep their embedding
+      const chunks = processed.chunks.map(chunk => ({ ...chunk, contentHash: chunkContentHash(chunk.content) }));
+      const reusable = await storage.getReusableEmbeddings(doc.userId, chunks.map(c => c.contentHash), provider.model);
+      const plan = planEmbeddings(chunks, reusable);
+
+      // Replace any chunks from an earlier attempt (embeddings cascade)
+      await this.deleteDocumentChunks(doc.id);
       
       // Save chunks to storage
       const savedChunks = await Promise.all(
-        processed.chunks.map((chunk, index) => 
+        chunks.map((chunk, index) => 
           storage.createDocumentChunk({
             documentId: doc.id,
             chunkIndex: index,
             content: chunk.content,
             tokenCount: chunk.tokenCount,
             metadata: chunk.metadata,
+            contentHash: chunk.contentHash,
           })
         )
       );
 
-      // Generate embeddings with retry logic
-      const embeddings = await this.generateEmbeddingsWithRetry(
-        processed.chunks.map(c => c.content),
-        savedChunks.map(c => c.id)
-      );
-
-      // Save embeddings to storage
+      // Reused embeddings are saved first and new ones as they arrive, so a retry
+      // after a rate limit only pays for the chunks that were still missing
       await Promise.all(
-        embeddings.map(emb => 
+        plan.reuse.map(i => 
           storage.createDocumentEmbedding({
-            chunkId: emb.chunkId,
-            embedding: JSON.stringify(emb.embedding),
-            embeddingModel: this.embeddingModel,
+            chunkId: savedChunks[i].id,
+            embedding: reusable.get(chunks[i].contentHash)!,
+            embeddingModel: provider.model,
           })
         )
       );
 
+      let embeddedTokens = 0;
+      try {
+        for (const i of plan.embed) {
+          const [emb] = await this.generateEmbeddingsWithRetry(provider, [chunks[i].content], [savedChunks[i].id]);
+          await storage.createDocumentEmbedding({
+            chunkId: emb.chunkId,
+            embedding: JSON.stringify(emb.embedding),
+            embeddingModel: provider.model,
+          });
+          embeddedTokens += emb.tokens;
+        }
+      } finally {
+        await storage.recordEmbeddingUsage(doc.id, embeddedTokens, plan.reusedTokens);
+      }
+      console.log(`[EmbeddingWorker] Embedded ${plan.embed.length} chunk(s) and reused ${plan.reuse.length} for document ${doc.id}`);
+
       // Mark as ready
       await storage.updateDocumentById(doc.id, {
         processingStatus: 'ready',
@@ -155,26 +219,19 @@ export class EmbeddingWorker {
     }
   }
 
-  private async getDocumentText(doc: UserDocument): Promise<string> {
-    // If we already have parsed text, use it
-    if (doc.parsedTextPath && fs.existsSync(doc.parsedTextPath)) {
-      return fs.readFileSync(doc.parsedTextPath, 'utf-8');
-    }
-
-    // Otherwise, extract it from the original file
-    const processed = await this.processor.processFile(doc.filePath, doc.fileType);
-    return processed.chunks.map(c => c.content).join('\n\n');
-  }
-
-  private async saveParsedText(docId: string, text: string): Promise<string> {
-    const parsedDir = path.join(process.cwd(), 'uploads', 'parsed');
-    if (!fs.existsSync(parsedDir)) {
-      fs.mkdirSync(parsedDir, { recursive: true });
+  private async screenContent(text: string): Promise<ContentSafetyResult> {
+    const classifier = getContentSafetyClassifier();
+    try {
+      return await classifier.classify(text);
+    } catch (error: any) {
+      // Fail closed: an admin can release the document once screening is back
+      console.error(`[EmbeddingWorker] ${classifier.name} content screening failed:`, error);
+      return {
+        flagged: true,
+        categories: [],
+        reason: `Content screening failed: ${error?.message || String(error)}`,
+      };
     }
-
-    const parsedPath = path.join(parsedDir, `${docId}.txt`);
-    fs.writeFileSync(parsedPath, text, 'utf-8');
-    return parsedPath;
   }
 
   private async deleteDocumentChunks(documentId: string): Promise<void> {
@@ -182,45 +239,42 @@ export class EmbeddingWorker {
     await storage.deleteDocumentChunks(documentId);
   }
 
+  /**
+   * Embed chunks that have no vector from their account's model yet, e.g. after
+   * EMBED_MODEL changes or documents finish while a migration runs, a batch per
+   * idle tick. A running migration does this itself.
+   */
+  private async backfillEmbeddings(limit: number) {
+    if (embeddingMigrationService.isRunning()) return;
+
+    const defaultProvider = resolveEmbeddingProviderName();
+    for (const name of EMBEDDING_PROVIDERS) {
+      const provider = getEmbeddingProvider(name);
+      const { embedded, reused } = await embeddingMigrationService.embedMissing(
+        provider,
+        { provider: name, isDefault: name === defaultProvider },
+        limit
+      );
+      if (embedded + reused > 0) {
+        console.log(`[EmbeddingWorker] Backfilled ${embedded} chunk(s) and reused ${reused} with ${provider.model}`);
+      }
+    }
+  }
+
   private async generateEmbeddingsWithRetry(
+    provider: EmbeddingProvider,
     texts: string[], 
     chunkIds: string[]
-  ): Promise<Array<{ chunkId: string; embedding: number[] }>> {
-    const results: Array<{ chunkId: string; embedding: number[] }> = [];
+  ): Promise<Array<{ chunkId: string; embedding: number[]; tokens: number }>> {
+    const results: Array<{ chunkId: string; embedding: number[]; tokens: number }> = [];
     
     for (let i = 0; i < texts.length; i++) {
-      const text = texts[i];
-      const chunkId = chunkIds[i];
-      
-      let delay = 500;
-      let attempts = 0;
-      
-      while (attempts < 3) {
-        try {
-          const response = await this.openai.embeddings.create({
-            model: this.embeddingModel,
-            input: text,
-          });
-          
-          results.push({
-            chunkId,
-            embedding: response.data[0].embedding,
-          });
-          
-          break; // Success, move to next chunk
-        } catch (error: any) {
-          attempts++;
-          const status = error?.status || error?.response?.status;
-          
-          if (status === 429 && attempts < 3) {
-            console.log(`[EmbeddingWorker] Rate limited, retrying after ${delay}ms (attempt ${attempts}/3)`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            delay *= 2; // Exponential backoff
-          } else {
-            throw error; // Re-throw to trigger document-level retry
-          }
-        }
-      }
+      const batch = await embedWithRetry(provider, [texts[i]]);
+      results.push({
+        chunkId: chunkIds[i],
+        embedding: batch.vectors[0],
+        tokens: batch.tokens,
+      });
     }
     
     return results;
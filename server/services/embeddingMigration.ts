@@ -0,0 +1,159 @@
+import { storage, type EmbeddingScope } from '../storage';
+import { chunkContentHash } from './documentDedup';
+import {
+  embedWithRetry,
+  getEmbeddingProvider,
+  resolveEmbeddingProviderName,
+  type EmbeddingProvider,
+  type EmbeddingProviderName
+} from './embeddingProvider';
+
+const MIGRATION_BATCH_SIZE = 50; // Chunks fetched per round while migrating
+
+export interface EmbeddingMigrationStatus {
+  state: 'idle' | 'running' | 'completed' | 'failed';
+  provider: EmbeddingProviderName | null;
+  model: string | null;
+  userId: string | null; // null when migrating every account
+  embedded: number;
+  reused: number;
+  pruned: number;
+  error: string | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+export class EmbeddingMigrationError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'EmbeddingMigrationError';
+  }
+}
+
+class EmbeddingMigrationService {
+  private status: EmbeddingMigrationStatus = {
+    state: 'idle',
+    provider: null,
+    model: null,
+    userId: null,
+    embedded: 0,
+    reused: 0,
+    pruned: 0,
+    error: null,
+    startedAt: null,
+    finishedAt: null,
+  };
+
+  getStatus(): EmbeddingMigrationStatus {
+    return { ...this.status };
+  }
+
+  isRunning(): boolean {
+    return this.status.state === 'running';
+  }
+
+  /**
+   * Embed up to `limit` chunks in scope that have no vector from the provider's
+   * model yet. Text the account already embedded with that model is copied
+   * instead of paying for it again.
+   */
+  async embedMissing(
+    provider: EmbeddingProvider,
+    scope: EmbeddingScope,
+    limit: number
+  ): Promise<{ embedded: number; reused: number }> {
+    const pending = await storage.getChunksMissingEmbedding(provider.model, scope, limit);
+    const missing: typeof pending = [];
+    let reused = 0;
+
+    for (const chunk of pending) {
+      const contentHash = chunk.contentHash || chunkContentHash(chunk.content);
+      const reusable = await storage.getReusableEmbeddings(chunk.userId, [contentHash], provider.model);
+      const embedding = reusable.get(contentHash);
+      if (!embedding) {
+        missing.push(chunk);
+        continue;
+      }
+
+      await storage.createDocumentEmbedding({ chunkId: chunk.chunkId, embedding, embeddingModel: provider.model });
+      await storage.recordEmbeddingUsage(chunk.documentId, 0, chunk.tokenCount || 0);
+      reused++;
+    }
+
+    if (missing.length > 0) {
+      const batch = await embedWithRetry(provider, missing.map(chunk => chunk.content));
+      const totalTokens = missing.reduce((total, chunk) => total + (chunk.tokenCount || 0), 0);
+      for (let i = 0; i < missing.length; i++) {
+        await storage.createDocumentEmbedding({
+          chunkId: missing[i].chunkId,
+          embedding: JSON.stringify(batch.vectors[i]),
+          embeddingModel: provider.model,
+        });
+        // The API bills the batch as a whole, so split it by each chunk's share
+        const share = totalTokens > 0 ? (missing[i].tokenCount || 0) / totalTokens : 1 / missing.length;
+        await storage.recordEmbeddingUsage(missing[i].documentId, Math.round(batch.tokens * share), 0);
+      }
+    }
+
+    return { embedded: missing.length, reused };
+  }
+
+  /**
+   * Move one account, or every account, onto `target` in the background: embed
+   * all their chunks with the new model, switch the accounts over, then drop
+   * vectors from other models. Search keeps using the old vectors until the switch.
+   */
+  start(target: string, userId?: string): EmbeddingMigrationStatus {
+    if (this.isRunning()) {
+      throw new EmbeddingMigrationError('An embedding migration is already running', 409);
+    }
+
+    let provider: EmbeddingProvider;
+    try {
+      provider = getEmbeddingProvider(target);
+    } catch (error: any) {
+      throw new EmbeddingMigrationError(error.message, 400);
+    }
+
+    this.status = {
+      state: 'running',
+      provider: provider.name,
+      model: provider.model,
+      userId: userId || null,
+      embedded: 0,
+      reused: 0,
+      pruned: 0,
+      error: null,
+      startedAt: new Date(),
+      finishedAt: null,
+    };
+
+    this.run(provider, userId ? { userId } : { all: true }).catch(error => {
+      console.error('[EmbeddingMigration] Migration failed:', error);
+      this.status = { ...this.status, state: 'failed', error: error?.message || String(error), finishedAt: new Date() };
+    });
+
+    return this.getStatus();
+  }
+
+  private async run(provider: EmbeddingProvider, scope: EmbeddingScope): Promise<void> {
+    console.log(`[EmbeddingMigration] Migrating ${'userId' in scope ? `account ${scope.userId}` : 'all accounts'} to ${provider.model}`);
+
+    for (;;) {
+      const { embedded, reused } = await this.embedMissing(provider, scope, MIGRATION_BATCH_SIZE);
+      if (embedded + reused === 0) break;
+      this.status.embedded += embedded;
+      this.status.reused += reused;
+    }
+
+    // Accounts on the default provider keep a null column so they follow EMBED_PROVIDER
+    const isDefault = provider.name === resolveEmbeddingProviderName();
+    await storage.setEmbeddingProvider(scope, isDefault ? null : provider.name);
+    this.status.pruned = await storage.pruneEmbeddings(provider.model, scope);
+
+    this.status = { ...this.status, state: 'completed', finishedAt: new Date() };
+    console.log(`[EmbeddingMigration] Embedded ${this.status.embedded} chunk(s), reused ${this.status.reused} and pruned ${this.status.pruned} old vector(s)`);
+  }
+}
+
+export const embeddingMigrationService = new EmbeddingMigrationService();
@@ -0,0 +1,133 @@
+import OpenAI from 'openai';
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+
+export type EmbeddingProviderName = 'openai' | 'local';
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = ['openai', 'local'];
+
+export interface EmbeddingBatch {
+  vectors: number[][]; // one per input, in input order
+  tokens: number;      // billed tokens; 0 for local models
+}
+
+/**
+ * Turns text into vectors. `model` is recorded on each stored embedding, and
+ * vectors are only ever compared with others from the same model.
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  embed(texts: string[]): Promise<EmbeddingBatch>;
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI | null = null;
+
+  constructor(readonly model: string = process.env.EMBED_MODEL || 'text-embedding-3-small') {}
+
+  async embed(texts: string[]): Promise<EmbeddingBatch> {
+    // Created on first use so the local provider works without an API key
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+
+    const response = await this.client.embeddings.create({ model: this.model, input: texts });
+    const vectors = response.data
+      .slice()
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+    return { vectors, tokens: response.usage?.total_tokens ?? 0 };
+  }
+}
+
+/**
+ * Sentence-transformer run on the CPU through ONNX Runtime, so document text
+ * never leaves the server. Model files are downloaded from the Hugging Face hub
+ * on first use, or read from LOCAL_EMBED_MODEL_PATH to stay fully offline.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  constructor(readonly model: string = process.env.LOCAL_EMBED_MODEL || 'Xenova/all-MiniLM-L6-v2') {}
+
+  /**
+   * Lazy load transformers.js; loading the model takes a few seconds
+   */
+  private getExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      this.extractor = (async () => {
+        const { env, pipeline } = await import('@huggingface/transformers');
+        env.cacheDir = process.env.LOCAL_EMBED_CACHE_PATH || 'uploads/embedding-cache';
+        if (process.env.LOCAL_EMBED_MODEL_PATH) {
+          env.localModelPath = process.env.LOCAL_EMBED_MODEL_PATH;
+          env.allowRemoteModels = false;
+        }
+        // Narrowed by hand; inferring pipeline()'s overloads is too much for tsc
+        const createExtractor = pipeline as (
+          task: 'feature-extraction',
+          model: string,
+          options: { dtype: 'q8' }
+        ) => Promise<FeatureExtractionPipeline>;
+        return createExtractor('feature-extraction', this.model, { dtype: 'q8' });
+      })();
+      this.extractor.catch(error => {
+        console.error('[Embeddings] Failed to load local model:', error);
+        this.extractor = null;
+      });
+    }
+    return this.extractor;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingBatch> {
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return { vectors: output.tolist() as number[][], tokens: 0 };
+  }
+}
+
+export function isEmbeddingProviderName(name: string): name is EmbeddingProviderName {
+  return (EMBEDDING_PROVIDERS as string[]).includes(name);
+}
+
+// The account's choice, else EMBED_PROVIDER, else OpenAI
+export function resolveEmbeddingProviderName(name?: string | null): EmbeddingProviderName {
+  const resolved = name || process.env.EMBED_PROVIDER || 'openai';
+  if (!isEmbeddingProviderName(resolved)) {
+    throw new Error(`Unknown embedding provider: ${resolved}`);
+  }
+  return resolved;
+}
+
+const providers = new Map<EmbeddingProviderName, EmbeddingProvider>();
+
+export function getEmbeddingProvider(name?: string | null): EmbeddingProvider {
+  const resolved = resolveEmbeddingProviderName(name);
+  let provider = providers.get(resolved);
+  if (!provider) {
+    provider = resolved === 'local' ? new LocalEmbeddingProvider() : new OpenAIEmbeddingProvider();
+    providers.set(resolved, provider);
+  }
+  return provider;
+}
+
+/**
+ * Embed with a short exponential backoff on rate limits; other errors (and a
+ * third 429) are thrown so the caller can schedule a longer retry.
+ */
+export async function embedWithRetry(provider: EmbeddingProvider, texts: string[]): Promise<EmbeddingBatch> {
+  let delay = 500;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await provider.embed(texts);
+    } catch (error: any) {
+      const status = error?.status || error?.response?.status;
+      if (status !== 429 || attempt >= 3) throw error;
+
+      console.log(`[Embeddings] Rate limited, retrying after ${delay}ms (attempt ${attempt}/3)`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay *= 2;
+    }
+  }
+}
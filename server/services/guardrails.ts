@@ -6,19 +6,28 @@ export class TutorGuardrails {
 
   sanitizeTutorQuestion(text: string): string {
     // P0 HOTFIX: Hard block any banned phrases first
-    let s = hardBlockIfBanned(text);
-    
+    const s = this.softenPhrasing(hardBlockIfBanned(text));
+
+    // Normalize capitalization
+    return s.charAt(0).toUpperCase() + s.slice(1);
+  }
+
+  // Inclusive rephrasing without the banned-phrase block or capitalization, so it also works on a clause
+  softenPhrasing(text: string): string {
     // Apply inclusive sanitization
-    s = sanitizeInclusive(s);
+    let s = sanitizeInclusive(text);
     
     // Generic physical-command softening (assumptions → imagination)
     const verbs = ['stand','walk','run','jump','see','hear','touch','hold','grab','reach','climb','skip','hop'];
     verbs.forEach(v => {
       s = s.replace(new RegExp(`\\b(you ${v}|${v} up|${v} down|${v} around)\\b`, 'gi'), `imagine you ${v}`);
     });
+    return s;
+  }
 
-    // Normalize capitalization
-    return s.charAt(0).toUpperCase() + s.slice(1);
+  // Guardrails for a response spoken while it streams, one sentence or clause at a time
+  createSentenceGuard(sessionId: string, subject?: string): SentenceGuard {
+    return new SentenceGuard(this, sessionId, subject);
   }
 
   avoidRepeat(sessionId: string, candidate: string, subject?: string): string {
@@ -63,4 +72,70 @@ export class TutorGuardrails {
   }
 }
 
+/**
+ * Applies the guardrails to a streamed response piece by piece, before each
+ * piece reaches TTS. The banned-phrase block and inclusive rephrasing run on
+ * every piece; the two-sentence limit and closing question run across the
+ * whole turn. Anti-repeat can't take back speech, so the finished turn is only
+ * recorded for the next one.
+ */
+export class SentenceGuard {
+  private spoken: string[] = [];
+  private sentences = 0;
+  private closed = false;
+
+  constructor(private guards: TutorGuardrails, private sessionId: string, private subject?: string) {}
+
+  /** What to say for the next sentence or clause; empty once the turn is full. */
+  accept(piece: string): string[] {
+    if (this.closed) return [];
+
+    const blocked = hardBlockIfBanned(piece);
+    if (blocked !== piece) {
+      // The safe alternative is a whole turn of its own; nothing more is said after it
+      this.closed = true;
+      return this.say(blocked);
+    }
+
+    let text = this.guards.softenPhrasing(piece);
+    if (this.atSentenceStart()) {
+      text = text.charAt(0).toUpperCase() + text.slice(1);
+    }
+    if (/[.!?]["')”’]*$/.test(text) && ++this.sentences >= 2) {
+      this.closed = true;
+    }
+    return this.say(text);
+  }
+
+  /** Closes the turn, adding a question if it didn't end with one. */
+  finish(): string[] {
+    const text = this.spokenText;
+    const extra: string[] = [];
+    if (!text.endsWith('?')) {
+      const formatted = this.guards.enforceFormat(text).match(/[^.!?]+[.!?]+/g) || [];
+      const ending = (formatted[formatted.length - 1] || '').trim();
+      if (ending) extra.push(...this.say(ending));
+    }
+    this.closed = true;
+    this.guards.avoidRepeat(this.sessionId, this.spokenText, this.subject);
+    return extra;
+  }
+
+  get spokenText(): string {
+    return this.spoken.join(' ');
+  }
+
+  private atSentenceStart(): boolean {
+    const last = this.spoken[this.spoken.length - 1];
+    return !last || /[.!?]["')”’]*$/.test(last);
+  }
+
+  private say(text: string): string[] {
+    const piece = text.trim();
+    if (!piece) return [];
+    this.spoken.push(piece);
+    return [piece];
+  }
+}
+
 export const guardrails = new TutorGuardrails();
\ No newline at end of file
@@ -0,0 +1,211 @@
+// Hybrid retrieval over a student's document chunks: BM25 keyword scores and
+// embedding similarity are fused, explicit page/problem references rerank the
+// result, overlapping chunks are dropped and what's left is packed into a token
+// budget for the tutor prompt.
+
+import { estimateTokens, formatCitation, type ChunkMetadata } from './documentChunker';
+
+export interface RetrievalCandidate {
+  chunkId: string;
+  documentId: string;
+  documentTitle: string;
+  chunkIndex: number;
+  content: string;
+  tokenCount: number;
+  metadata: ChunkMetadata | null;
+}
+
+export interface RankedChunk extends RetrievalCandidate {
+  score: number;    // fused and reranked, roughly 0-1.5
+  keyword: number;  // BM25, normalized to 0-1 within the query
+  semantic: number; // cosine similarity, 0 when no embedding was available
+  citation: string;
+}
+
+export interface QueryReferences {
+  pages: number[];
+  questions: string[]; // "Question 4" labels as stored in ChunkMetadata
+}
+
+export interface RankingOptions {
+  semanticWeight: number; // share of the fused score from embeddings, the rest from BM25
+  minScore: number;
+}
+
+export interface AssembledContext {
+  text: string;
+  chunks: RankedChunk[];
+  tokens: number;
+}
+
+export const DEFAULT_RANKING: RankingOptions = { semanticWeight: 0.6, minScore: 0.15 };
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const PAGE_BOOST = 0.5;
+const QUESTION_BOOST = 0.5;
+const OVERLAP_THRESHOLD = 0.6; // share of the shorter chunk's words already in a kept chunk
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'how',
+  'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was',
+  'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you', 'your',
+  'el', 'la', 'los', 'las', 'de', 'del', 'en', 'y', 'que', 'un', 'una', 'es', 'por', 'para', 'con',
+]);
+
+/**
+ * Lowercased word tokens without stopwords. Plurals are folded ("fractions" ->
+ * "fraction") so students don't have to match the worksheet's wording exactly.
+ */
+export function tokenizeForSearch(text: string): string[] {
+  const words = text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9]+/g) || [];
+  return words
+    .filter(word => !STOPWORDS.has(word))
+    .map(word => (word.length > 3 && /[^s]s$/.test(word) ? word.slice(0, -1) : word));
+}
+
+/**
+ * Okapi BM25 score of each document for the query, with IDF computed over the
+ * given documents only (the student's own materials).
+ */
+export function bm25Scores(queryTerms: string[], documents: string[][]): number[] {
+  if (documents.length === 0 || queryTerms.length === 0) return documents.map(() => 0);
+
+  const avgLength = documents.reduce((total, doc) => total + doc.length, 0) / documents.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const doc of documents) {
+    new Set(doc).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+  }
+
+  const uniqueTerms = Array.from(new Set(queryTerms));
+  return documents.map(doc => {
+    const termFrequency = new Map<string, number>();
+    for (const term of doc) termFrequency.set(term, (termFrequency.get(term) || 0) + 1);
+
+    return uniqueTerms.reduce((score, term) => {
+      const tf = termFrequency.get(term) || 0;
+      if (tf === 0) return score;
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      return score + idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength));
+    }, 0);
+  });
+}
+
+/**
+ * Pages and worksheet problems the student names explicitly, e.g. "page 5",
+ * "p. 3", "pages 2 and 3", "problem 4", "question 2b" or "#7".
+ */
+export function parseQueryReferences(query: string): QueryReferences {
+  const pages: number[] = [];
+  const questions: string[] = [];
+
+  const pagePattern = /\b(?:pages?|pgs?\.?|pp?\.|p[aá]ginas?)\s*(\d{1,4})(?:\s*(?:-|and|to|y|&)\s*(\d{1,4}))?/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pagePattern.exec(query)) !== null) {
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    for (let page = start; page <= Math.min(end, start + 10); page++) {
+      if (!pages.includes(page)) pages.push(page);
+    }
+  }
+
+  const questionPattern = /(?:\b(?:question|problem|exercise|pregunta|problema|ejercicio|number|n[uú]mero)\s*#?\s*|#)(\d{1,3}[a-z]?)\b/gi;
+  while ((match = questionPattern.exec(query)) !== null) {
+    const label = `Question ${match[1]}`;
+    if (!questions.includes(label)) questions.push(label);
+  }
+
+  return { pages, questions };
+}
+
+function pageMatches(metadata: ChunkMetadata | null, pages: number[]): boolean {
+  if (!metadata?.page) return false;
+  const last = metadata.pageEnd || metadata.page;
+  return pages.some(page => page >= metadata.page! && page <= last);
+}
+
+function questionMatches(metadata: ChunkMetadata | null, questions: string[]): boolean {
+  const labels = (metadata?.questions || []).map(label => label.toLowerCase());
+  return questions.some(question => labels.includes(question.toLowerCase()));
+}
+
+/**
+ * Fuse keyword and semantic scores, then rerank: chunks on a page or problem
+ * the student named are boosted above anything that merely shares words.
+ * `semantic` maps chunk IDs to cosine similarity; pass an empty map to rank on
+ * keywords alone (e.g. when the embedding provider is unavailable).
+ */
+export function rankCandidates(
+  query: string,
+  candidates: RetrievalCandidate[],
+  semantic: Map<string, number>,
+  options: RankingOptions = DEFAULT_RANKING
+): RankedChunk[] {
+  const queryTerms = tokenizeForSearch(query);
+  const keywordScores = bm25Scores(queryTerms, candidates.map(candidate => tokenizeForSearch(candidate.content)));
+  const maxKeyword = Math.max(0, ...keywordScores);
+  const references = parseQueryReferences(query);
+  const semanticWeight = semantic.size > 0 ? options.semanticWeight : 0;
+
+  return candidates
+    .map((candidate, index) => {
+      const keyword = maxKeyword > 0 ? keywordScores[index] / maxKeyword : 0;
+      const similarity = Math.max(0, semantic.get(candidate.chunkId) || 0);
+      let score = semanticWeight * similarity + (1 - semanticWeight) * keyword;
+      if (references.pages.length > 0 && pageMatches(candidate.metadata, references.pages)) score += PAGE_BOOST;
+      if (references.questions.length > 0 && questionMatches(candidate.metadata, references.questions)) score += QUESTION_BOOST;
+
+      return {
+        ...candidate,
+        score,
+        keyword,
+        semantic: similarity,
+        citation: formatCitation(candidate.documentTitle, candidate.metadata),
+      };
+    })
+    .filter(chunk => chunk.score >= options.minScore)
+    .sort((a, b) => b.score - a.score || a.chunkIndex - b.chunkIndex);
+}
+
+/**
+ * Drop chunks that mostly repeat a higher-ranked one. Neighbouring chunks share
+ * their overlap window, and duplicate uploads share whole chunks.
+ */
+export function dedupOverlapping(ranked: RankedChunk[]): RankedChunk[] {
+  const kept: Array<{ chunk: RankedChunk; words: Set<string> }> = [];
+  for (const chunk of ranked) {
+    const words = new Set(chunk.content.toLowerCase().match(/[a-z0-9]+/g) || []);
+    const repeats = kept.some(other => {
+      const smaller = Math.min(words.size, other.words.size);
+      if (smaller === 0) return chunk.content.trim() === other.chunk.content.trim();
+      let shared = 0;
+      words.forEach(word => { if (other.words.has(word)) shared++; });
+      return shared / smaller >= OVERLAP_THRESHOLD;
+    });
+    if (!repeats) kept.push({ chunk, words });
+  }
+  return kept.map(entry => entry.chunk);
+}
+
+/**
+ * Pack the best chunks into `tokenBudget`, each under its [citation] label.
+ * Chunks that don't fit are skipped so a smaller, lower-ranked one can still
+ * be used; the result is ordered by relevance.
+ */
+export function assembleContext(ranked: RankedChunk[], tokenBudget: number): AssembledContext {
+  const chunks: RankedChunk[] = [];
+  const sections: string[] = [];
+  let tokens = 0;
+
+  for (const chunk of ranked) {
+    const section = `[${chunk.citation}]\n${chunk.content}`;
+    const cost = estimateTokens(section);
+    if (tokens + cost > tokenBudget) continue;
+    chunks.push(chunk);
+    sections.push(section);
+    tokens += cost;
+  }
+
+  return { text: sections.join('\n\n'), chunks, tokens };
+}
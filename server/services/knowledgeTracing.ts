@@ -0,0 +1,79 @@
+// Bayesian knowledge tracing (BKT) for per-concept mastery estimates
+
+export interface BktParams {
+  pInit: number;    // prior that a concept is already known
+  pTransit: number; // chance of learning it on each practice opportunity
+  pSlip: number;    // chance of answering wrong despite knowing it
+  pGuess: number;   // chance of answering right without knowing it
+}
+
+export interface ConceptEstimate {
+  pKnown: number;
+  attempts: number;
+  correctCount: number;
+}
+
+// Guess rate assumes four-option multiple choice, the format of lesson quizzes
+export const DEFAULT_BKT_PARAMS: BktParams = {
+  pInit: 0.2,
+  pTransit: 0.15,
+  pSlip: 0.1,
+  pGuess: 0.25
+};
+
+export const MASTERY_THRESHOLD = 0.95;
+// One lucky streak shouldn't count as mastery
+export const MIN_MASTERY_ATTEMPTS = 3;
+
+export function initialEstimate(params: BktParams = DEFAULT_BKT_PARAMS): ConceptEstimate {
+  return { pKnown: params.pInit, attempts: 0, correctCount: 0 };
+}
+
+/**
+ * Condition P(known) on one observed answer, then apply the learning transition
+ * for the practice opportunity that answer represented.
+ */
+export function updateEstimate(
+  estimate: ConceptEstimate,
+  correct: boolean,
+  params: BktParams = DEFAULT_BKT_PARAMS
+): ConceptEstimate {
+  const { pSlip, pGuess, pTransit } = params;
+  const p = estimate.pKnown;
+
+  const posterior = correct
+    ? (p * (1 - pSlip)) / (p * (1 - pSlip) + (1 - p) * pGuess)
+    : (p * pSlip) / (p * pSlip + (1 - p) * (1 - pGuess));
+
+  return {
+    pKnown: posterior + (1 - posterior) * pTransit,
+    attempts: estimate.attempts + 1,
+    correctCount: estimate.correctCount + (correct ? 1 : 0)
+  };
+}
+
+/**
+ * Evidence from an item with no concept tag, split across the `share` concepts
+ * it may have exercised: P(known) moves 1/share of the way to the full update.
+ * Split evidence isn't an attempt, so it can't make a concept mastered on its
+ * own; with a single concept it is a full update.
+ */
+export function updateEstimateShared(
+  estimate: ConceptEstimate,
+  correct: boolean,
+  share: number,
+  params: BktParams = DEFAULT_BKT_PARAMS
+): ConceptEstimate {
+  const full = updateEstimate(estimate, correct, params);
+  if (share <= 1) return full;
+
+  return {
+    pKnown: estimate.pKnown + (full.pKnown - estimate.pKnown) / share,
+    attempts: estimate.attempts,
+    correctCount: estimate.correctCount
+  };
+}
+
+export function isMastered(estimate: ConceptEstimate): boolean {
+  return estimate.pKnown >= MASTERY_THRESHOLD && estimate.attempts >= MIN_MASTERY_ATTEMPTS;
+}
@@ -0,0 +1,288 @@
+import { and, asc, desc, eq, isNull, ne } from 'drizzle-orm';
+import {
+  lessons,
+  lessonVersions,
+  lessonContentSchema,
+  type Lesson,
+  type LessonContent,
+  type LessonVersion
+} from '@shared/schema';
+import { db } from '../db';
+import { validateLessonGraph, type LessonNode } from './lessonGraph';
+import { lessonsService } from './lessons';
+import { lessonService } from './lessonService';
+import { semanticCache } from './semanticCache';
+
+export type LessonStatus = NonNullable<Lesson['status']>;
+
+export interface LessonValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class LessonAuthoringError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public issues: LessonValidationIssue[] = []
+  ) {
+    super(message);
+    this.name = 'LessonAuthoringError';
+  }
+}
+
+export interface CreateLessonInput {
+  id: string;
+  subjectId: string;
+  orderIndex: number;
+  estimatedMinutes?: number;
+  content: unknown;
+  changeNote?: string;
+}
+
+export interface UpdateLessonInput {
+  orderIndex?: number;
+  estimatedMinutes?: number;
+  content?: unknown;
+  changeNote?: string;
+}
+
+class LessonAuthoringService {
+  /**
+   * Check content against lessonContentSchema and the lesson graph: quiz items
+   * must be well formed, and prerequisites must name existing lessons without
+   * introducing a cycle.
+   */
+  async validate(lessonId: string, rawContent: unknown): Promise<{ content: LessonContent | null; issues: LessonValidationIssue[] }> {
+    const parsed = lessonContentSchema.safeParse(rawContent);
+    if (!parsed.success) {
+      return {
+        content: null,
+        issues: parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+      };
+    }
+
+    const content = parsed.data;
+    const prerequisites = content.progression.prerequisites || [];
+    const issues: LessonValidationIssue[] = [];
+
+    if (prerequisites.includes(lessonId)) {
+      issues.push({ path: 'progression.prerequisites', message: 'A lesson cannot be its own prerequisite' });
+    }
+
+    const others = await db.select().from(lessons).where(ne(lessons.status, 'archived'));
+    const nodes: LessonNode[] = others
+      .filter(lesson => lesson.id !== lessonId)
+      .map(lesson => ({
+        id: lesson.id,
+        subjectId: lesson.subjectId,
+        orderIndex: lesson.orderIndex,
+        prerequisites: (lesson.content as Partial<LessonContent>)?.progression?.prerequisites || [],
+      }));
+
+    const known = new Set(nodes.map(node => node.id));
+    for (const prereq of prerequisites) {
+      if (prereq !== lessonId && !known.has(prereq)) {
+        issues.push({ path: 'progression.prerequisites', message: `Unknown prerequisite lesson "${prereq}"` });
+      }
+    }
+
+    if (issues.length === 0) {
+      // Only cycles through this lesson are its fault; in each, this lesson requires the next one
+      const { cycles } = validateLessonGraph([...nodes, { id: lessonId, subjectId: '', orderIndex: 0, prerequisites }]);
+      for (const cycle of cycles) {
+        const index = cycle.indexOf(lessonId);
+        if (index < 0) continue;
+        const path = [...cycle.slice(index), ...cycle.slice(0, index), lessonId];
+        issues.push({
+          path: 'progression.prerequisites',
+          message: `Prerequisite "${path[1]}" would create a cycle: ${path.join(' -> ')}`,
+        });
+      }
+    }
+
+    return { content: issues.length === 0 ? content : null, issues };
+  }
+
+  async listLessons(status?: LessonStatus): Promise<Lesson[]> {
+    const query = db.select().from(lessons);
+    return await (status ? query.where(eq(lessons.status, status)) : query)
+      .orderBy(asc(lessons.subjectId), asc(lessons.orderIndex));
+  }
+
+  async getLesson(lessonId: string): Promise<{ lesson: Lesson; versions: LessonVersion[] } | null> {
+    const [lesson] = await db.select().from(lessons).where(eq(lessons.id, lessonId));
+    if (!lesson) return null;
+
+    const versions = await db.select().from(lessonVersions)
+      .where(eq(lessonVersions.lessonId, lessonId))
+      .orderBy(desc(lessonVersions.version));
+    return { lesson, versions };
+  }
+
+  // New lessons start as drafts so they can be reviewed before learners see them
+  async createLesson(input: CreateLessonInput, adminId: string): Promise<Lesson> {
+    const [existing] = await db.select({ id: lessons.id }).from(lessons).where(eq(lessons.id, input.id));
+    if (existing) {
+      throw new LessonAuthoringError(`Lesson ${input.id} already exists`, 409);
+    }
+
+    const content = await this.requireValidContent(input.id, input.content);
+
+    const lesson = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(lessons).values({
+        id: input.id,
+        subjectId: input.subjectId,
+        title: content.title,
+        description: content.description,
+        content,
+        orderIndex: input.orderIndex,
+        estimatedMinutes: input.estimatedMinutes ?? 15,
+        status: 'draft',
+        isActive: false,
+        version: 1,
+      }).returning();
+
+      await tx.insert(lessonVersions).values({
+        lessonId: created.id,
+        version: 1,
+        title: content.title,
+        description: content.description,
+        content,
+        changeNote: input.changeNote,
+        createdBy: adminId,
+      });
+
+      return created;
+    });
+
+    console.log(`[LessonAuthoring] Created draft lesson ${lesson.id}`);
+    return lesson;
+  }
+
+  /**
+   * Every content edit is snapshotted as a new version. A draft lesson takes
+   * the edit directly; a published one keeps serving its live content and the
+   * edit waits as its draft version until the next publish.
+   */
+  async updateLesson(lessonId: string, changes: UpdateLessonInput, adminId: string): Promise<Lesson> {
+    const current = await this.requireLesson(lessonId);
+    if (current.status === 'archived') {
+      throw new LessonAuthoringError('Archived lessons cannot be edited', 409);
+    }
+
+    const content = changes.content === undefined
+      ? null
+      : await this.requireValidContent(lessonId, changes.content);
+
+    const lesson = await db.transaction(async (tx) => {
+      const version = Math.max(current.version, current.draftVersion ?? 0) + 1;
+      const contentChanges = !content ? {}
+        : current.status === 'published' ? { draftVersion: version }
+        : { title: content.title, description: content.description, content, version };
+
+      const [updated] = await tx.update(lessons)
+        .set({
+          ...contentChanges,
+          orderIndex: changes.orderIndex ?? current.orderIndex,
+          estimatedMinutes: changes.estimatedMinutes ?? current.estimatedMinutes,
+          updatedAt: new Date(),
+        })
+        .where(eq(lessons.id, lessonId))
+        .returning();
+
+      if (content) {
+        await tx.insert(lessonVersions).values({
+          lessonId,
+          version,
+          title: content.title,
+          description: content.description,
+          content,
+          changeNote: changes.changeNote,
+          createdBy: adminId,
+        });
+      }
+
+      return updated;
+    });
+
+    this.invalidate(lessonId);
+    console.log(lesson.draftVersion
+      ? `[LessonAuthoring] Saved draft v${lesson.draftVersion} of lesson ${lessonId}`
+      : `[LessonAuthoring] Updated lesson ${lessonId} (v${lesson.version})`);
+    return lesson;
+  }
+
+  // Puts the draft version live, if there is one, in the same update that publishes the lesson
+  async publishLesson(lessonId: string): Promise<Lesson> {
+    const current = await this.requireLesson(lessonId);
+    let draft: LessonVersion | undefined;
+    if (current.draftVersion) {
+      [draft] = await db.select().from(lessonVersions)
+        .where(and(eq(lessonVersions.lessonId, lessonId), eq(lessonVersions.version, current.draftVersion)));
+    }
+    // Prerequisites may have been archived since the last edit
+    const content = await this.requireValidContent(lessonId, draft ? draft.content : current.content);
+
+    const [lesson] = await db.update(lessons)
+      .set({
+        ...(draft ? { title: content.title, description: content.description, content, version: draft.version } : {}),
+        draftVersion: null,
+        status: 'published',
+        isActive: true,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(lessons.id, lessonId),
+        current.draftVersion ? eq(lessons.draftVersion, current.draftVersion) : isNull(lessons.draftVersion)
+      ))
+      .returning();
+    if (!lesson) {
+      throw new LessonAuthoringError('The lesson was edited while publishing; try again', 409);
+    }
+
+    this.invalidate(lessonId);
+    console.log(`[LessonAuthoring] Lesson ${lessonId} is now published (v${lesson.version})`);
+    return lesson;
+  }
+
+  async archiveLesson(lessonId: string): Promise<Lesson> {
+    await this.requireLesson(lessonId);
+    return await this.setStatus(lessonId, 'archived');
+  }
+
+  private async setStatus(lessonId: string, status: LessonStatus): Promise<Lesson> {
+    const [lesson] = await db.update(lessons)
+      .set({ status, isActive: status === 'published', updatedAt: new Date() })
+      .where(eq(lessons.id, lessonId))
+      .returning();
+
+    this.invalidate(lessonId);
+    console.log(`[LessonAuthoring] Lesson ${lessonId} is now ${status}`);
+    return lesson;
+  }
+
+  private async requireLesson(lessonId: string): Promise<Lesson> {
+    const [lesson] = await db.select().from(lessons).where(eq(lessons.id, lessonId));
+    if (!lesson) {
+      throw new LessonAuthoringError('Lesson not found', 404);
+    }
+    return lesson;
+  }
+
+  private async requireValidContent(lessonId: string, rawContent: unknown): Promise<LessonContent> {
+    const { content, issues } = await this.validate(lessonId, rawContent);
+    if (!content) {
+      throw new LessonAuthoringError('Invalid lesson content', 400, issues);
+    }
+    return content;
+  }
+
+  private invalidate(lessonId: string) {
+    lessonsService.invalidateLesson(lessonId);
+    lessonService.clearCache();
+    semanticCache.invalidateLesson(lessonId);
+  }
+}
+
+export const lessonAuthoringService = new LessonAuthoringService();
@@ -0,0 +1,137 @@
+// Lesson dependency graph built from each lesson's `progression` block
+
+export interface LessonNode {
+  id: string;
+  subjectId: string;
+  orderIndex: number;
+  prerequisites: string[];
+  next?: string;
+}
+
+export interface LessonProgressSnapshot {
+  status: string | null;
+  lastAccessed?: Date | null;
+}
+
+export type LessonAvailability = 'locked' | 'unlocked' | 'recommended';
+
+export type RecommendationReason = 'in_progress' | 'next_in_sequence' | 'unlocked';
+
+export interface LessonRecommendation {
+  lessonId: string;
+  reason: RecommendationReason;
+}
+
+export interface LessonGraphIssues {
+  cycles: string[][]; // each lesson requires the next; the last requires the first
+  cycleEdges: Array<{ lessonId: string; prerequisite: string }>; // the edge that closed each cycle
+  danglingPrerequisites: Array<{ lessonId: string; missing: string }>;
+  danglingNext: Array<{ lessonId: string; missing: string }>;
+}
+
+export function isLessonDone(progress?: LessonProgressSnapshot): boolean {
+  return progress?.status === 'completed' || progress?.status === 'mastered';
+}
+
+/**
+ * Find dangling references and prerequisite cycles. `next` links are only
+ * suggestions, so they are checked for dangling IDs but not for cycles.
+ */
+export function validateLessonGraph(nodes: LessonNode[]): LessonGraphIssues {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const issues: LessonGraphIssues = { cycles: [], cycleEdges: [], danglingPrerequisites: [], danglingNext: [] };
+
+  for (const node of nodes) {
+    for (const prereq of node.prerequisites) {
+      if (!byId.has(prereq)) issues.danglingPrerequisites.push({ lessonId: node.id, missing: prereq });
+    }
+    if (node.next && !byId.has(node.next)) {
+      issues.danglingNext.push({ lessonId: node.id, missing: node.next });
+    }
+  }
+
+  // Depth-first search over prerequisite edges; a back edge to a node on the stack closes a cycle
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const prereq of byId.get(id)!.prerequisites) {
+      if (!byId.has(prereq)) continue;
+      if (state.get(prereq) === 'visiting') {
+        issues.cycles.push(stack.slice(stack.indexOf(prereq)));
+        issues.cycleEdges.push({ lessonId: id, prerequisite: prereq });
+      } else if (!state.has(prereq)) {
+        visit(prereq);
+      }
+    }
+    stack.pop();
+    state.set(id, 'done');
+  };
+  for (const node of nodes) {
+    if (!state.has(node.id)) visit(node.id);
+  }
+
+  return issues;
+}
+
+export class LessonGraph {
+  private nodes = new Map<string, LessonNode>();
+  private position = new Map<string, number>();
+  readonly issues: LessonGraphIssues;
+
+  // Dangling references and the edges that close prerequisite cycles are ignored and reported in `issues`
+  constructor(nodes: LessonNode[]) {
+    this.issues = validateLessonGraph(nodes);
+    const ignored = new Set(this.issues.cycleEdges.map(edge => `${edge.lessonId} -> ${edge.prerequisite}`));
+
+    nodes.forEach((node, index) => {
+      const prerequisites = node.prerequisites.filter(prereq => !ignored.has(`${node.id} -> ${prereq}`));
+      this.nodes.set(node.id, { ...node, prerequisites });
+      this.position.set(node.id, index);
+    });
+  }
+
+  // Prerequisites the learner hasn't completed yet; unknown prerequisite IDs never block
+  missingPrerequisites(lessonId: string, progress: ReadonlyMap<string, LessonProgressSnapshot>): string[] {
+    const node = this.nodes.get(lessonId);
+    if (!node) return [];
+    return node.prerequisites.filter(prereq => this.nodes.has(prereq) && !isLessonDone(progress.get(prereq)));
+  }
+
+  isUnlocked(lessonId: string, progress: ReadonlyMap<string, LessonProgressSnapshot>): boolean {
+    return this.missingPrerequisites(lessonId, progress).length === 0;
+  }
+
+  /**
+   * Pick the lesson the learner should take next, optionally among a subset
+   * (e.g. one subject): the most recently touched unfinished lesson, then the
+   * `next` of the most recently finished one, then the earliest unlocked lesson.
+   */
+  recommend(progress: ReadonlyMap<string, LessonProgressSnapshot>, lessonIds?: string[]): LessonRecommendation | null {
+    const ids = (lessonIds || Array.from(this.nodes.keys())).filter(id => this.nodes.has(id));
+    const candidates = new Set(ids.filter(id => !isLessonDone(progress.get(id)) && this.isUnlocked(id, progress)));
+    if (candidates.size === 0) return null;
+
+    const byRecency = (a: string, b: string) =>
+      (progress.get(b)?.lastAccessed?.getTime() || 0) - (progress.get(a)?.lastAccessed?.getTime() || 0);
+
+    const inProgress = ids.filter(id => candidates.has(id) && progress.get(id)?.status === 'in_progress').sort(byRecency);
+    if (inProgress.length > 0) {
+      return { lessonId: inProgress[0], reason: 'in_progress' };
+    }
+
+    const finished = ids.filter(id => isLessonDone(progress.get(id))).sort(byRecency);
+    for (const id of finished) {
+      const next = this.nodes.get(id)!.next;
+      if (next && candidates.has(next)) {
+        return { lessonId: next, reason: 'next_in_sequence' };
+      }
+    }
+
+    const [earliest] = Array.from(candidates).sort((a, b) =>
+      this.nodes.get(a)!.orderIndex - this.nodes.get(b)!.orderIndex || this.position.get(a)! - this.position.get(b)!
+    );
+    return { lessonId: earliest, reason: 'unlocked' };
+  }
+}
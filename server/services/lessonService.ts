@@ -1,72 +1,44 @@
 import { LessonContext } from '../types/lessonContext';
-import * as fs from 'fs';
-import * as path from 'path';
+import type { LessonContent } from '@shared/schema';
+import { lessonsService } from './lessons';
 
-// Mapping of short lesson IDs to actual file names
-const LESSON_ID_MAPPING: Record<string, string> = {
-  // Math lessons
+// Short lesson IDs used by the voice tutor, mapped to the lessons they stand for
+export const LESSON_ID_MAPPING: Record<string, string> = {
   'math-1': 'math-numbers-counting',
-  'math-2': 'math-basic-addition',
-  'math-3': 'math-basic-subtraction',
-  
-  // English lessons
   'english-1': 'english-parts-of-speech',
-  'english-2': 'english-sentence-structure',
-  'english-3': 'english-reading-comprehension',
-  
-  // Spanish lessons
   'spanish-1': 'spanish-greetings',
-  'spanish-2': 'spanish-numbers',
-  'spanish-3': 'spanish-colors',
 };
 
 export class LessonService {
   private lessonCache: Map<string, LessonContext> = new Map();
   
-  // Load lesson context from JSON files
+  // Load lesson context from the authored lesson content
   async getLessonContext(lessonId: string): Promise<LessonContext | null> {
     // Check cache first
     if (this.lessonCache.has(lessonId)) {
       return this.lessonCache.get(lessonId)!;
     }
     
-    try {
-      // Map lesson ID to actual filename
-      const filename = LESSON_ID_MAPPING[lessonId] || lessonId;
-      
-      // Try to load from content/lessons directory
-      const lessonPath = path.join(process.cwd(), 'content', 'lessons', `${filename}.json`);
-      
-      if (!fs.existsSync(lessonPath)) {
-        console.warn(`[LessonService] Lesson file not found: ${lessonPath}`);
+    // Try the mapped lesson first, then the ID as given
+    const candidates = Array.from(new Set([LESSON_ID_MAPPING[lessonId], lessonId].filter(Boolean)));
+    for (const candidate of candidates) {
+      try {
+        const content = await lessonsService.getLessonContent(candidate);
+        const subject = this.extractSubject(lessonId);
+        const context = this.mapToLessonContext(lessonId, subject, content);
         
-        // Try direct lessonId if mapping didn't work
-        const fallbackPath = path.join(process.cwd(), 'content', 'lessons', `${lessonId}.json`);
-        if (fs.existsSync(fallbackPath)) {
-          const content = JSON.parse(fs.readFileSync(fallbackPath, 'utf-8'));
-          const subject = this.extractSubject(lessonId);
-          const context = this.mapToLessonContext(lessonId, subject, content);
-          this.lessonCache.set(lessonId, context);
-          return context;
-        }
+        // Cache the result
+        this.lessonCache.set(lessonId, context);
         
-        console.warn(`[LessonService] Could not find lesson file for ID: ${lessonId}`);
-        return null;
+        console.log(`[LessonService] Loaded lesson context for ${lessonId}: ${context.title}`);
+        return context;
+      } catch (error) {
+        console.warn(`[LessonService] No lesson content for ${candidate}`);
       }
-      
-      const content = JSON.parse(fs.readFileSync(lessonPath, 'utf-8'));
-      const subject = this.extractSubject(lessonId);
-      const context = this.mapToLessonContext(lessonId, subject, content);
-      
-      // Cache the result
-      this.lessonCache.set(lessonId, context);
-      
-      console.log(`[LessonService] Loaded lesson context for ${lessonId}: ${context.title}`);
-      return context;
-    } catch (error) {
-      console.error(`[LessonService] Error loading lesson ${lessonId}:`, error);
-      return null;
     }
+    
+    console.warn(`[LessonService] Could not find lesson content for ID: ${lessonId}`);
+    return null;
   }
   
   private extractSubject(lessonId: string): string {
@@ -79,56 +51,18 @@ export class LessonService {
     return 'general';
   }
   
-  private mapToLessonContext(lessonId: string, subject: string, content: any): LessonContext {
+  private mapToLessonContext(lessonId: string, subject: string, content: LessonContent): LessonContext {
     return {
       lessonId,
       subject,
-      title: content.title || 'Lesson',
-      objectives: content.objectives || content.learningObjectives || [],
-      keyTerms: this.extractKeyTerms(content),
-      stepsOutline: this.extractSteps(content),
-      difficulty: content.difficulty || 'beginner'
+      title: content.title,
+      objectives: [content.objective],
+      keyTerms: content.concepts,
+      stepsOutline: content.examples.map(example => example.problem),
+      difficulty: 'beginner'
     };
   }
   
-  private extractKeyTerms(content: any): string[] {
-    const terms: string[] = [];
-    
-    // Extract from various possible locations
-    if (content.keyTerms) terms.push(...content.keyTerms);
-    if (content.vocabulary) terms.push(...Object.keys(content.vocabulary));
-    if (content.concepts) {
-      content.concepts.forEach((concept: any) => {
-        if (concept.term) terms.push(concept.term);
-        if (concept.name) terms.push(concept.name);
-      });
-    }
-    
-    return terms;
-  }
-  
-  private extractSteps(content: any): string[] {
-    const steps: string[] = [];
-    
-    if (content.steps) {
-      content.steps.forEach((step: any) => {
-        if (typeof step === 'string') {
-          steps.push(step);
-        } else if (step.title) {
-          steps.push(step.title);
-        }
-      });
-    }
-    
-    if (content.sections) {
-      content.sections.forEach((section: any) => {
-        if (section.title) steps.push(section.title);
-      });
-    }
-    
-    return steps;
-  }
-  
   // Clear cache when switching lessons
   clearCache(): void {
     this.lessonCache.clear();
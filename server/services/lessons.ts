@@ -1,54 +1,54 @@
 import { storage } from "../storage";
 import { 
   type Lesson, 
+  type LessonContent,
   type UserProgress,
-  type QuizAttempt 
+  type QuizAttempt,
+  lessonContentSchema
 } from "@shared/schema";
 import fs from 'fs/promises';
 import path from 'path';
+import { masteryService, type LessonMasteryUpdate } from './mastery';
+import { LessonGraph, type LessonAvailability, type LessonNode } from './lessonGraph';
 
-interface LessonContent {
-  title: string;
-  description: string;
-  objective: string;
-  concepts: string[];
-  examples: Array<{
-    problem: string;
-    visual?: string;
-    answer: string;
-    explanation: string;
-  }>;
-  quiz: Array<{
-    question: string;
-    options: string[];
-    correctAnswer: number;
-    explanation: string;
-    visual?: string;
-  }>;
-  progression: {
-    next?: string;
-    prerequisites?: string[];
-  };
-}
+const CONTENT_DIR = path.join(process.cwd(), 'content', 'lessons');
 
 class LessonsService {
   private lessonsCache = new Map<string, LessonContent>();
+  private lessonGraph: LessonGraph | null = null;
 
   async getUserLessons(userId: string) {
     const subjects = await storage.getAllSubjects();
+    const graph = await this.getLessonGraph();
     
+    const subjectLessons = await Promise.all(
+      subjects.map(async (subject) => ({
+        subject,
+        lessons: await storage.getSubjectLessons(subject.id),
+      }))
+    );
+    const progressMap = await this.getProgressMap(
+      userId,
+      subjectLessons.flatMap(({ lessons }) => lessons.map(lesson => lesson.id))
+    );
+
     const lessonsWithProgress = await Promise.all(
-      subjects.map(async (subject) => {
-        const lessons = await storage.getSubjectLessons(subject.id);
-        
+      subjectLessons.map(async ({ subject, lessons }) => {
+        const recommended = graph.recommend(progressMap, lessons.map(lesson => lesson.id));
+
         const lessonsData = await Promise.all(
           lessons.map(async (lesson) => {
-            const progress = await storage.getUserProgress(userId, lesson.id);
+            const progress = progressMap.get(lesson.id);
             const content = await this.getLessonContent(lesson.id);
+            const missingPrerequisites = graph.missingPrerequisites(lesson.id, progressMap);
+            const availability: LessonAvailability = missingPrerequisites.length > 0 ? 'locked' :
+              recommended?.lessonId === lesson.id ? 'recommended' : 'unlocked';
             
             return {
               ...lesson,
               content,
+              availability,
+              missingPrerequisites,
               progress: {
                 status: progress?.status || 'not_started',
                 progressPercentage: progress?.progressPercentage || 0,
@@ -70,9 +70,95 @@ class LessonsService {
     return lessonsWithProgress;
   }
 
-  async getLessonWithProgress(lessonId: string, userId: string) {
+  // Next best lesson across all subjects, for the resume card
+  async getNextBestLesson(userId: string) {
+    const graph = await this.getLessonGraph();
+    const subjects = await storage.getAllSubjects();
+
+    const lessonsById = new Map<string, { lesson: Lesson; subjectName: string }>();
+    for (const subject of subjects) {
+      for (const lesson of await storage.getSubjectLessons(subject.id)) {
+        lessonsById.set(lesson.id, { lesson, subjectName: subject.name });
+      }
+    }
+
+    const lessonIds = Array.from(lessonsById.keys());
+    const progressMap = await this.getProgressMap(userId, lessonIds);
+    const recommendation = graph.recommend(progressMap, lessonIds);
+    if (!recommendation) return null;
+
+    const { lesson, subjectName } = lessonsById.get(recommendation.lessonId)!;
+    return {
+      lessonId: lesson.id,
+      title: lesson.title,
+      subject: subjectName,
+      reason: recommendation.reason,
+      progressPercentage: progressMap.get(lesson.id)?.progressPercentage || 0,
+    };
+  }
+
+  /**
+   * Dependency graph over every active lesson, built from the `progression`
+   * block of its content. Dangling IDs and prerequisites that close a cycle
+   * (authoring rejects these, but JSON content isn't checked) are logged and
+   * ignored so broken content can't lock learners out or break the list.
+   */
+  async getLessonGraph(): Promise<LessonGraph> {
+    if (this.lessonGraph) {
+      return this.lessonGraph;
+    }
+
+    const nodes: LessonNode[] = [];
+    for (const subject of await storage.getAllSubjects()) {
+      for (const lesson of await storage.getSubjectLessons(subject.id)) {
+        try {
+          const { progression } = await this.getLessonContent(lesson.id);
+          nodes.push({
+            id: lesson.id,
+            subjectId: lesson.subjectId,
+            orderIndex: lesson.orderIndex,
+            prerequisites: progression?.prerequisites || [],
+            next: progression?.next,
+          });
+        } catch (error) {
+          console.warn(`[LessonGraph] Skipping lesson ${lesson.id} without content`);
+        }
+      }
+    }
+
+    const graph = new LessonGraph(nodes);
+    for (const { lessonId, missing } of graph.issues.danglingPrerequisites) {
+      console.warn(`[LessonGraph] Lesson ${lessonId} has unknown prerequisite ${missing}; ignoring it`);
+    }
+    for (const { lessonId, prerequisite } of graph.issues.cycleEdges) {
+      console.warn(`[LessonGraph] Lesson ${lessonId} prerequisite ${prerequisite} closes a cycle; ignoring it`);
+    }
+    for (const { lessonId, missing } of graph.issues.danglingNext) {
+      console.warn(`[LessonGraph] Lesson ${lessonId} points to unknown next lesson ${missing}`);
+    }
+
+    this.lessonGraph = graph;
+    return graph;
+  }
+
+  private async getProgressMap(userId: string, lessonIds: string[]): Promise<Map<string, UserProgress>> {
+    const progressMap = new Map<string, UserProgress>();
+    for (const lessonId of lessonIds) {
+      const progress = await storage.getUserProgress(userId, lessonId);
+      if (progress) progressMap.set(lessonId, progress);
+    }
+    return progressMap;
+  }
+
+  // Drafts and archived lessons are hidden from learners; lessons that only exist as JSON content are always live
+  async isVisibleToLearners(lessonId: string): Promise<boolean> {
     const lesson = await storage.getLessonById(lessonId);
-    if (!lesson) {
+    return !lesson || lesson.isActive !== false;
+  }
+
+  async getLessonWithProgress(lessonId: string, userId: string, includeUnpublished = false) {
+    const lesson = await storage.getLessonById(lessonId);
+    if (!lesson || (!includeUnpublished && lesson.isActive === false)) {
       throw new Error('Lesson not found');
     }
 
@@ -97,200 +183,8 @@ class LessonsService {
       return this.lessonsCache.get(lessonId)!;
     }
 
-    // Return test content in test mode
-    const isTestMode = process.env.AUTH_TEST_MODE === 'true' || process.env.NODE_ENV === 'development';
-    if (isTestMode) {
-      const testContent: Record<string, LessonContent> = {
-        'math-1': {
-          title: 'Introduction to Numbers',
-          description: 'Learn the basics of counting and number recognition',
-          objective: 'Students will be able to count from 1 to 10 and recognize numbers',
-          concepts: ['Numbers 1-10', 'Counting', 'Number recognition'],
-          examples: [
-            { 
-              problem: 'Count from 1 to 10', 
-              visual: '1, 2, 3, 4, 5, 6, 7, 8, 9, 10',
-              answer: 'Counted correctly',
-              explanation: 'Practice counting in sequence'
-            },
-            { 
-              problem: 'Identify the number 5', 
-              visual: 'Circle the number 5',
-              answer: '5',
-              explanation: 'Recognize individual numbers'
-            }
-          ],
-          quiz: [
-            {
-              question: 'What number comes after 5?',
-              options: ['4', '5', '6', '7'],
-              correctAnswer: 2,
-              explanation: 'After 5 comes 6. The counting sequence is 1, 2, 3, 4, 5, 6, 7...'
-            },
-            {
-              question: 'How many fingers do you have on both hands?',
-              options: ['5', '10', '15', '20'],
-              correctAnswer: 1,
-              explanation: 'You have 5 fingers on each hand, so 5 + 5 = 10 fingers total.'
-            }
-          ],
-          progression: {
-            next: 'math-2',
-            prerequisites: []
-          }
-        },
-        'math-2': {
-          title: 'Addition and Subtraction',
-          description: 'Master basic arithmetic operations',
-          objective: 'Students will learn to add and subtract single-digit numbers',
-          concepts: ['Addition', 'Subtraction', 'Basic equations'],
-          examples: [
-            { 
-              problem: 'What is 2 + 3?', 
-              visual: '2 + 3 = ?',
-              answer: '5',
-              explanation: 'Adding 2 and 3 gives us 5'
-            },
-            { 
-              problem: 'What is 7 - 4?', 
-              visual: '7 - 4 = ?',
-              answer: '3',
-              explanation: 'Subtracting 4 from 7 gives us 3'
-            }
-          ],
-          quiz: [
-            {
-              question: 'What is 3 + 4?',
-              options: ['5', '6', '7', '8'],
-              correctAnswer: 2,
-              explanation: '3 + 4 = 7. Count: 3, then add 4 more: 4, 5, 6, 7.'
-            },
-            {
-              question: 'What is 10 - 6?',
-              options: ['3', '4', '5', '6'],
-              correctAnswer: 1,
-              explanation: '10 - 6 = 4. Start with 10, take away 6, you have 4 left.'
-            }
-          ],
-          progression: {
-            next: 'math-3',
-            prerequisites: ['math-1']
-          }
-        },
-        'english-1': {
-          title: 'Parts of Speech',
-          description: 'Understanding nouns, verbs, and adjectives',
-          objective: 'Students will identify and use basic parts of speech',
-          concepts: ['Nouns', 'Verbs', 'Adjectives'],
-          examples: [
-            { 
-              problem: 'Identify the noun in: The cat sleeps', 
-              visual: 'The [cat] sleeps',
-              answer: 'cat',
-              explanation: 'Cat is the noun - it names an animal'
-            },
-            { 
-              problem: 'Identify the verb in: Birds fly high', 
-              visual: 'Birds [fly] high',
-              answer: 'fly',
-              explanation: 'Fly is the verb - it shows the action'
-            },
-            { 
-              problem: 'Identify the adjective in: The blue sky', 
-              visual: 'The [blue] sky',
-              answer: 'blue',
-              explanation: 'Blue is the adjective - it describes the sky'
-            }
-          ],
-          quiz: [
-            {
-              question: 'Which word is a noun?',
-              options: ['run', 'happy', 'dog', 'quickly'],
-              correctAnswer: 2,
-              explanation: 'Dog is a noun - it names an animal. The others are a verb, adjective, and adverb.'
-            },
-            {
-              question: 'Which word is a verb?',
-              options: ['table', 'jump', 'green', 'slowly'],
-              correctAnswer: 1,
-              explanation: 'Jump is a verb - it shows an action. The others are a noun, adjective, and adverb.'
-            }
-          ],
-          progression: {
-            next: 'english-2',
-            prerequisites: []
-          }
-        },
-        'spanish-1': {
-          title: 'Basic Greetings',
-          description: 'Learn common Spanish greetings and phrases',
-          objective: 'Students will use basic Spanish greetings in conversation',
-          concepts: ['Basic greetings', 'Common phrases', 'Pronunciation'],
-          examples: [
-            { 
-              problem: 'How do you say Hello?', 
-              visual: 'Hola (OH-lah)',
-              answer: 'Hola',
-              explanation: 'Hola is the most common greeting in Spanish'
-            },
-            { 
-              problem: 'How do you say Good morning?', 
-              visual: 'Buenos días (BWAY-nohs DEE-ahs)',
-              answer: 'Buenos días',
-              explanation: 'Use Buenos días until noon'
-            },
-            { 
-              problem: 'How do you say Goodbye?', 
-              visual: 'Adiós (ah-dee-OHS)',
-              answer: 'Adiós',
-              explanation: 'Adiós is the most common way to say goodbye'
-            }
-          ],
-          quiz: [
-            {
-              question: 'How do you say "Hello" in Spanish?',
-              options: ['Adiós', 'Hola', 'Gracias', 'Por favor'],
-              correctAnswer: 1,
-              explanation: 'Hola means Hello in Spanish. Adiós means goodbye.'
-            },
-            {
-              question: 'What does "Gracias" mean?',
-              options: ['Hello', 'Goodbye', 'Thank you', 'Please'],
-              correctAnswer: 2,
-              explanation: 'Gracias means Thank you in Spanish. It\'s a very important polite phrase!'
-            }
-          ],
-          progression: {
-            next: 'spanish-2',
-            prerequisites: []
-          }
-        }
-      };
-
-      const content = testContent[lessonId];
-      if (content) {
-        this.lessonsCache.set(lessonId, content);
-        return content;
-      }
-    }
-
     try {
-      // Map lesson IDs to content files
-      const contentFileMap: Record<string, string> = {
-        'math-numbers-counting': 'math-numbers-counting.json',
-        'english-parts-of-speech': 'english-parts-of-speech.json',
-        'spanish-greetings': 'spanish-greetings.json',
-      };
-
-      const fileName = contentFileMap[lessonId];
-      if (!fileName) {
-        throw new Error(`No content file found for lesson: ${lessonId}`);
-      }
-
-      const contentPath = path.join(process.cwd(), 'content', 'lessons', fileName);
-      const contentStr = await fs.readFile(contentPath, 'utf-8');
-      const content = JSON.parse(contentStr) as LessonContent;
-
+      const content = await this.loadLessonContent(lessonId);
       this.lessonsCache.set(lessonId, content);
       return content;
     } catch (error) {
@@ -299,6 +193,45 @@ class LessonsService {
     }
   }
 
+  // Drop cached content after authoring changes so learners see the new version
+  invalidateLesson(lessonId: string) {
+    this.lessonsCache.delete(lessonId);
+    this.lessonGraph = null;
+  }
+
+  /**
+   * Content authored into the lessons table wins; lessons that only exist as
+   * hand-written JSON are read from content/lessons/<id>.json, with the
+   * fixtures in content/lessons/test taking precedence in test mode.
+   */
+  private async loadLessonContent(lessonId: string): Promise<LessonContent> {
+    const isTestMode = process.env.AUTH_TEST_MODE === 'true' || process.env.NODE_ENV === 'development';
+    if (!isTestMode) {
+      const lesson = await storage.getLessonById(lessonId);
+      if (lesson) {
+        return lessonContentSchema.parse(lesson.content);
+      }
+    }
+
+    if (!/^[a-z0-9-]+$/i.test(lessonId)) {
+      throw new Error(`Invalid lesson ID: ${lessonId}`);
+    }
+
+    const directories = isTestMode ? [path.join(CONTENT_DIR, 'test'), CONTENT_DIR] : [CONTENT_DIR];
+    for (const directory of directories) {
+      let contentStr: string;
+      try {
+        contentStr = await fs.readFile(path.join(directory, `${lessonId}.json`), 'utf-8');
+      } catch (error: any) {
+        if (error.code === 'ENOENT') continue;
+        throw error;
+      }
+      return lessonContentSchema.parse(JSON.parse(contentStr));
+    }
+
+    throw new Error(`No content found for lesson: ${lessonId}`);
+  }
+
   async submitQuiz(userId: string, lessonId: string, submission: {
     answers: Record<string, number>;
     sessionId?: string;
@@ -313,6 +246,7 @@ class LessonsService {
       correct: boolean;
       explanation: string;
     }>;
+    mastery: LessonMasteryUpdate;
   }> {
     const content = await this.getLessonContent(lessonId);
     const quiz = content.quiz;
@@ -349,11 +283,10 @@ class LessonsService {
       timeSpent: submission.timeSpent,
     });
 
-    // Update user progress
+    // Update user progress (mastery is decided by the concept model below, and never revoked here)
     const currentProgress = await storage.getUserProgress(userId, lessonId);
-    const newStatus = passed ? 
-      (percentage >= 90 ? 'mastered' : 'completed') : 
-      'in_progress';
+    const newStatus = currentProgress?.status === 'mastered' ? 'mastered' :
+      passed ? 'completed' : 'in_progress';
 
     await storage.updateUserProgress(userId, lessonId, {
       status: newStatus,
@@ -363,12 +296,20 @@ class LessonsService {
       completedAt: passed ? new Date() : undefined,
     });
 
+    const mastery = await masteryService.recordObservations(
+      userId,
+      lessonId,
+      content.concepts,
+      quiz.map((question, index) => ({ concept: question.concept, correct: feedback[index].correct }))
+    );
+
     return {
       score,
       totalQuestions,
       percentage,
       passed,
       feedback,
+      mastery,
     };
   }
 
@@ -388,21 +329,10 @@ class LessonsService {
   }
 
   async checkPrerequisites(lessonId: string, userId: string): Promise<{ canAccess: boolean; missingPrerequisites: string[] }> {
+    const graph = await this.getLessonGraph();
     const content = await this.getLessonContent(lessonId);
-    const prerequisites = content.progression.prerequisites || [];
-
-    if (prerequisites.length === 0) {
-      return { canAccess: true, missingPrerequisites: [] };
-    }
-
-    const missingPrerequisites: string[] = [];
-
-    for (const prereqId of prerequisites) {
-      const progress = await storage.getUserProgress(userId, prereqId);
-      if (!progress || (progress.status !== 'completed' && progress.status !== 'mastered')) {
-        missingPrerequisites.push(prereqId);
-      }
-    }
+    const progressMap = await this.getProgressMap(userId, content.progression.prerequisites || []);
+    const missingPrerequisites = graph.missingPrerequisites(lessonId, progressMap);
 
     return {
       canAccess: missingPrerequisites.length === 0,
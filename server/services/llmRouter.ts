@@ -0,0 +1,305 @@
+import { CircuitBreaker, openaiCircuitBreaker } from './circuitBreaker';
+import {
+  createChatProvider,
+  resolveChatProviderOrder,
+  type ChatCapabilities,
+  type ChatProvider,
+  type ChatProviderName,
+  type ChatReply,
+  type ChatRequest,
+  type ChatStreamChunk
+} from './chatProviders';
+import { isRetryableError, VOICE_RETRY_CONFIG, type RetryConfig } from '../utils/openaiRetryHandler';
+
+// Latency samples kept per provider for the percentiles in getMetrics()
+const LATENCY_WINDOW = 200;
+
+export interface ProviderRoute {
+  provider: ChatProvider;
+  breaker: CircuitBreaker;
+  timeoutMs: number; // per attempt; for a stream, until its first chunk
+}
+
+export interface RoutedReply extends ChatReply {
+  provider: ChatProviderName;
+  model: string;
+  retryCount: number;
+}
+
+export interface RoutedStream {
+  provider: ChatProviderName;
+  model: string;
+  retryCount: number;
+  usedTool: boolean; // false when the provider can't call tools: the reply is plain text
+  chunks: AsyncIterable<ChatStreamChunk>;
+}
+
+export interface ProviderMetrics {
+  name: ChatProviderName;
+  model: string;
+  capabilities: ChatCapabilities;
+  circuitState: string;
+  requests: number;
+  successes: number;
+  failures: number;
+  skipped: number; // passed over while its circuit was open
+  latency: { samples: number; avgMs: number; p50Ms: number; p95Ms: number };
+  lastError: string | null;
+  lastFailureTime: string | null;
+}
+
+// Every provider was open, failed, or timed out; the caller falls back to canned replies
+export class AllProvidersFailedError extends Error {
+  constructor(readonly failures: { provider: ChatProviderName; error: string }[]) {
+    super(failures.length > 0
+      ? `All LLM providers failed: ${failures.map(f => `${f.provider}: ${f.error}`).join('; ')}`
+      : 'No LLM provider available');
+    this.name = 'AllProvidersFailedError';
+  }
+}
+
+interface ProviderStats {
+  requests: number;
+  successes: number;
+  failures: number;
+  skipped: number;
+  latencies: number[];
+  lastError: string | null;
+  lastFailureTime: number | null;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Sends chat completions to the first provider that can take them. Each
+ * provider has its own circuit breaker; a provider whose circuit is open is
+ * skipped, and one that errors or times out (after quick retries on 429/5xx)
+ * hands the request to the next. A barge-in abort never fails over.
+ */
+export class LLMRouter {
+  private stats = new Map<ChatProviderName, ProviderStats>();
+
+  constructor(private routes: ProviderRoute[], private retry: RetryConfig = VOICE_RETRY_CONFIG) {
+    for (const route of routes) {
+      this.stats.set(route.provider.name, {
+        requests: 0, successes: 0, failures: 0, skipped: 0, latencies: [], lastError: null, lastFailureTime: null
+      });
+    }
+  }
+
+  get providers(): ChatProviderName[] {
+    return this.routes.map(route => route.provider.name);
+  }
+
+  // False when every provider's circuit is open, so a request would go straight to fallback
+  isAvailable(): boolean {
+    return this.routes.some(route => !route.breaker.isOpen());
+  }
+
+  async complete(request: ChatRequest): Promise<RoutedReply> {
+    return this.route(request, async (route, attemptRequest) => {
+      const reply = await route.provider.complete(attemptRequest);
+      return { reply, settled: true };
+    }, ({ reply }, route, retryCount) => ({
+      ...reply,
+      provider: route.provider.name,
+      model: route.provider.model,
+      retryCount
+    }));
+  }
+
+  /**
+   * Resolves once a provider has produced its first chunk; only up to then can
+   * the request fail over. A provider that can't stream answers in one chunk.
+   */
+  async stream(request: ChatRequest): Promise<RoutedStream> {
+    return this.route(request, async (route, attemptRequest) => {
+      const iterator = this.providerStream(route.provider, attemptRequest)[Symbol.asyncIterator]();
+      const first = await iterator.next();
+      return { iterator, first, settled: false };
+    }, ({ iterator, first }, route, retryCount, release) => {
+      const stats = this.stats.get(route.provider.name)!;
+      async function* chunks(): AsyncIterable<ChatStreamChunk> {
+        try {
+          if (first.done) return;
+          yield first.value;
+          while (true) {
+            const next = await iterator.next();
+            if (next.done) return;
+            yield next.value;
+          }
+        } catch (error: any) {
+          // Too late to fail over: the caller has already started using this reply
+          if (!request.signal?.aborted) {
+            stats.failures++;
+            stats.lastError = error?.message || String(error);
+            stats.lastFailureTime = Date.now();
+          }
+          throw error;
+        } finally {
+          release();
+        }
+      }
+      return {
+        provider: route.provider.name,
+        model: route.provider.model,
+        retryCount,
+        usedTool: !!request.tool && route.provider.capabilities.tools,
+        chunks: chunks()
+      };
+    });
+  }
+
+  getMetrics(): ProviderMetrics[] {
+    return this.routes.map(({ provider, breaker }) => {
+      const stats = this.stats.get(provider.name)!;
+      const sorted = stats.latencies.slice().sort((a, b) => a - b);
+      const total = sorted.reduce((sum, ms) => sum + ms, 0);
+      return {
+        name: provider.name,
+        model: provider.model,
+        capabilities: provider.capabilities,
+        circuitState: breaker.getState(),
+        requests: stats.requests,
+        successes: stats.successes,
+        failures: stats.failures,
+        skipped: stats.skipped,
+        latency: {
+          samples: sorted.length,
+          avgMs: sorted.length > 0 ? Math.round(total / sorted.length) : 0,
+          p50Ms: percentile(sorted, 0.5),
+          p95Ms: percentile(sorted, 0.95)
+        },
+        lastError: stats.lastError,
+        lastFailureTime: stats.lastFailureTime ? new Date(stats.lastFailureTime).toISOString() : null
+      };
+    });
+  }
+
+  resetMetrics(): void {
+    for (const route of this.routes) {
+      route.breaker.reset();
+      this.stats.set(route.provider.name, {
+        requests: 0, successes: 0, failures: 0, skipped: 0, latencies: [], lastError: null, lastFailureTime: null
+      });
+    }
+  }
+
+  /**
+   * Tries each provider in order. `attempt` runs one call against one
+   * provider with its own abort signal (cancelled by the timeout or by the
+   * caller); `finish` shapes the result. Unless `attempt` reports it settled,
+   * the caller's abort stays wired to the provider until `release` is called.
+   */
+  private async route<A extends { settled: boolean }, R>(
+    request: ChatRequest,
+    attempt: (route: ProviderRoute, attemptRequest: ChatRequest) => Promise<A>,
+    finish: (result: A, route: ProviderRoute, retryCount: number, release: () => void) => R
+  ): Promise<R> {
+    const failures: { provider: ChatProviderName; error: string }[] = [];
+
+    for (const route of this.routes) {
+      const { provider, breaker } = route;
+      const stats = this.stats.get(provider.name)!;
+
+      if (breaker.isOpen()) {
+        stats.skipped++;
+        failures.push({ provider: provider.name, error: 'circuit open' });
+        continue;
+      }
+
+      const attemptRequest: ChatRequest = {
+        ...request,
+        tool: provider.capabilities.tools ? request.tool : undefined
+      };
+
+      let retryCount = 0;
+      try {
+        const { result, release } = await breaker.execute(async () => {
+          for (let attemptIndex = 0; ; attemptIndex++) {
+            retryCount = attemptIndex;
+            stats.requests++;
+            const startedAt = Date.now();
+            const controller = new AbortController();
+            const onAbort = () => controller.abort();
+            request.signal?.addEventListener('abort', onAbort);
+            const release = () => request.signal?.removeEventListener('abort', onAbort);
+            const timer = setTimeout(() => controller.abort(), route.timeoutMs);
+            // Settles on abort even if the provider doesn't watch its signal
+            const aborted = new Promise<never>((_, reject) => {
+              controller.signal.addEventListener('abort', () => reject(new Error('Request aborted')));
+            });
+
+            try {
+              const result = await Promise.race([attempt(route, { ...attemptRequest, signal: controller.signal }), aborted]);
+              stats.successes++;
+              stats.latencies.push(Date.now() - startedAt);
+              if (stats.latencies.length > LATENCY_WINDOW) stats.latencies.shift();
+              if (result.settled) release();
+              return { result, release };
+            } catch (error: any) {
+              release();
+              if (request.signal?.aborted) throw error;
+
+              const failure = controller.signal.aborted ? new Error('Operation timeout') : error;
+              stats.failures++;
+              stats.lastError = failure?.message || String(failure);
+              stats.lastFailureTime = Date.now();
+
+              if (attemptIndex >= this.retry.maxRetries || !isRetryableError(failure)) throw failure;
+              console.log(`[LLMRouter] ${provider.name} retry ${attemptIndex + 1}/${this.retry.maxRetries} after:`, stats.lastError);
+              await wait(this.retry.delays[attemptIndex] ?? this.retry.delays[this.retry.delays.length - 1]);
+            } finally {
+              clearTimeout(timer);
+            }
+          }
+        });
+
+        if (failures.length > 0) {
+          console.log(`[LLMRouter] Served by ${provider.name} after: ${failures.map(f => f.provider).join(', ')}`);
+        }
+        return finish(result, route, retryCount, release);
+      } catch (error: any) {
+        if (request.signal?.aborted) throw error;
+        console.warn(`[LLMRouter] ${provider.name} failed, trying next provider:`, error?.message);
+        failures.push({ provider: provider.name, error: error?.message || String(error) });
+      }
+    }
+
+    throw new AllProvidersFailedError(failures);
+  }
+
+  private providerStream(provider: ChatProvider, request: ChatRequest): AsyncIterable<ChatStreamChunk> {
+    if (provider.capabilities.streaming) {
+      return provider.stream(request);
+    }
+    return (async function* () {
+      const reply = await provider.complete(request);
+      yield { contentDelta: reply.content || undefined, argumentsDelta: reply.toolArguments, tokensUsed: reply.tokensUsed };
+    })();
+  }
+}
+
+function createRoutes(): ProviderRoute[] {
+  const timeoutMs = parseInt(process.env.LLM_TIMEOUT_MS || '3000'); // voice turns need a quick answer
+  return resolveChatProviderOrder().map(name => ({
+    provider: createChatProvider(name),
+    // OpenAI keeps the breaker the rest of the app already reports on
+    breaker: name === 'openai' ? openaiCircuitBreaker : new CircuitBreaker({
+      failureThreshold: 50,
+      timeoutMs: 30000,
+      resetTimeoutMs: parseInt(process.env.CIRCUIT_COOLDOWN_MS || '45000'),
+      retryDelays: []
+    }),
+    timeoutMs: name === 'local' ? parseInt(process.env.LOCAL_LLM_TIMEOUT_MS || String(timeoutMs)) : timeoutMs
+  }));
+}
+
+export const llmRouter = new LLMRouter(createRoutes());
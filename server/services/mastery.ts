@@ -0,0 +1,81 @@
+import { storage } from '../storage';
+import { ConceptEstimate, initialEstimate, isMastered, updateEstimate, updateEstimateShared } from './knowledgeTracing';
+
+export interface MasteryObservation {
+  correct: boolean;
+  // Concept the item exercises; evidence from items without one is split across the lesson's concepts
+  concept?: string;
+}
+
+export interface LessonMasteryUpdate {
+  concepts: Array<{ concept: string; pKnown: number; attempts: number; mastered: boolean }>;
+  lessonMastered: boolean;
+}
+
+class MasteryService {
+  /**
+   * Fold graded answers into the learner's concept estimates and promote the
+   * lesson to `mastered` once every concept is mastered. Sources: lesson quizzes
+   * and answers graded live by AnswerChecker during voice sessions.
+   */
+  async recordObservations(
+    userId: string,
+    lessonId: string,
+    lessonConcepts: string[],
+    observations: MasteryObservation[]
+  ): Promise<LessonMasteryUpdate> {
+    if (lessonConcepts.length === 0 || observations.length === 0) {
+      return { concepts: [], lessonMastered: false };
+    }
+
+    const stored = await storage.getConceptMastery(userId, lessonId);
+    const estimates = new Map<string, ConceptEstimate>(
+      lessonConcepts.map(concept => {
+        const row = stored.find(m => m.concept === concept);
+        return [concept, row ? { pKnown: row.pKnown, attempts: row.attempts, correctCount: row.correctCount } : initialEstimate()];
+      })
+    );
+
+    const touched = new Set<string>();
+    for (const observation of observations) {
+      if (observation.concept) {
+        // Items tagged with a concept outside this lesson aren't evidence for it
+        if (!estimates.has(observation.concept)) continue;
+        estimates.set(observation.concept, updateEstimate(estimates.get(observation.concept)!, observation.correct));
+        touched.add(observation.concept);
+        continue;
+      }
+
+      for (const concept of lessonConcepts) {
+        estimates.set(concept, updateEstimateShared(estimates.get(concept)!, observation.correct, lessonConcepts.length));
+        touched.add(concept);
+      }
+    }
+
+    for (const concept of Array.from(touched)) {
+      await storage.upsertConceptMastery(userId, lessonId, concept, estimates.get(concept)!);
+    }
+
+    const concepts = lessonConcepts.map(concept => {
+      const estimate = estimates.get(concept)!;
+      return { concept, pKnown: estimate.pKnown, attempts: estimate.attempts, mastered: isMastered(estimate) };
+    });
+    const lessonMastered = concepts.every(c => c.mastered);
+
+    if (lessonMastered) {
+      const progress = await storage.getUserProgress(userId, lessonId);
+      if (progress?.status !== 'mastered') {
+        await storage.updateUserProgress(userId, lessonId, {
+          status: 'mastered',
+          progressPercentage: 100,
+          completedAt: progress?.completedAt || new Date(),
+        });
+        console.log(`[Mastery] Lesson ${lessonId} mastered by user ${userId}`);
+      }
+    }
+
+    return { concepts, lessonMastered };
+  }
+}
+
+export const masteryService = new MasteryService();
@@ -0,0 +1,481 @@
+// Parses grade 6-12 math answers and decides whether two of them are equivalent:
+// fractions, mixed numbers, exponents, units, algebraic expressions and equations.
+// Input is expected to have gone through normalizeExpression already.
+
+export type MathNode =
+  | { type: 'num'; value: number }
+  | { type: 'var'; name: string }
+  | { type: 'neg'; arg: MathNode }
+  | { type: 'bin'; op: '+' | '-' | '*' | '/' | '^'; left: MathNode; right: MathNode }
+  | { type: 'call'; fn: 'sqrt' | 'abs'; arg: MathNode };
+
+export type UnitDimension = 'length' | 'mass' | 'time' | 'angle' | 'percent';
+
+export interface UnitInfo {
+  symbol: string;         // canonical symbol, with the power appended for areas/volumes ("cm^2")
+  dimension: UnitDimension;
+  power: number;          // 2 for areas, 3 for volumes
+  factor: number;         // size in base units (m, g, s, degree, percent) raised to `power`
+}
+
+export interface ParsedMath {
+  left: MathNode;
+  right: MathNode | null; // set for equations
+  unit: UnitInfo | null;
+  variables: string[];
+}
+
+export interface MathTolerance {
+  absolute?: number;
+  relative?: number;
+}
+
+// How a unit on the key is enforced: ignored entirely, checked only when the
+// learner gives one, or required
+export type UnitPolicy = 'ignore' | 'optional' | 'required';
+
+export interface MathEquivalenceOptions {
+  tolerance?: MathTolerance;
+  units?: UnitPolicy;
+  convertUnits?: boolean; // accept "50 mm" for "5 cm"
+}
+
+export type MathComparison = 'equivalent' | 'not_equivalent' | 'missing_unit' | 'wrong_unit';
+
+export const DEFAULT_MATH_TOLERANCE: MathTolerance = { absolute: 1e-2 };
+
+// Symbolic checks compare exact evaluations, so only float noise is forgiven
+const SYMBOLIC_TOLERANCE: MathTolerance = { absolute: 1e-9, relative: 1e-9 };
+
+// Points at which two expressions are evaluated; chosen to avoid 0, 1 and
+// other values where different polynomials commonly coincide
+const SAMPLE_POINTS = [0.37, 1.61, -2.23, 2.9, -0.71, 4.13];
+const MIN_VALID_SAMPLES = 3;
+
+const MAX_INPUT_LENGTH = 200;
+
+const UNIT_DEFINITIONS: Array<[string, UnitDimension, number, number, string[]]> = [
+  ['mm', 'length', 1, 0.001, ['millimeter', 'millimeters', 'millimetre', 'millimetres']],
+  ['cm', 'length', 1, 0.01, ['centimeter', 'centimeters', 'centimetre', 'centimetres']],
+  ['m', 'length', 1, 1, ['meter', 'meters', 'metre', 'metres']],
+  ['km', 'length', 1, 1000, ['kilometer', 'kilometers', 'kilometre', 'kilometres']],
+  ['in', 'length', 1, 0.0254, ['inch', 'inches']],
+  ['ft', 'length', 1, 0.3048, ['foot', 'feet']],
+  ['yd', 'length', 1, 0.9144, ['yard', 'yards']],
+  ['mi', 'length', 1, 1609.344, ['mile', 'miles']],
+  ['ml', 'length', 3, 1e-6, ['milliliter', 'milliliters', 'millilitre', 'millilitres']],
+  ['l', 'length', 3, 1e-3, ['liter', 'liters', 'litre', 'litres']],
+  ['mg', 'mass', 1, 0.001, ['milligram', 'milligrams']],
+  ['g', 'mass', 1, 1, ['gram', 'grams']],
+  ['kg', 'mass', 1, 1000, ['kilogram', 'kilograms']],
+  ['oz', 'mass', 1, 28.349523125, ['ounce', 'ounces']],
+  ['lb', 'mass', 1, 453.59237, ['lbs', 'pound', 'pounds']],
+  ['s', 'time', 1, 1, ['sec', 'secs', 'second', 'seconds']],
+  ['min', 'time', 1, 60, ['mins', 'minute', 'minutes']],
+  ['h', 'time', 1, 3600, ['hr', 'hrs', 'hour', 'hours']],
+  ['deg', 'angle', 1, 1, ['degree', 'degrees']],
+  ['%', 'percent', 1, 1, ['percent']],
+];
+
+const UNITS: Record<string, UnitInfo> = {};
+for (const [symbol, dimension, power, factor, aliases] of UNIT_DEFINITIONS) {
+  for (const name of [symbol, ...aliases]) {
+    UNITS[name] = { symbol, dimension, power, factor };
+  }
+}
+
+// "square cm", "sq ft", "cubic meters"
+const UNIT_POWER_WORDS: Record<string, number> = { square: 2, sq: 2, cubic: 3 };
+
+const FUNCTIONS: Record<string, 'sqrt' | 'abs'> = { sqrt: 'sqrt', root: 'sqrt', abs: 'abs' };
+const CONSTANTS: Record<string, number> = { pi: Math.PI };
+
+type Token =
+  | { type: 'num'; value: number }
+  | { type: 'word'; text: string }
+  | { type: 'op'; text: string };
+
+function tokenize(text: string): Token[] | null {
+  const tokens: Token[] = [];
+  let rest = text.trim();
+
+  while (rest) {
+    const match = rest.match(/^(?:(\d+(?:\.\d+)?|\.\d+)|([a-z\u00c0-\u024f]+|%)|([-+*/^()=]))\s*/);
+    if (!match) return null;
+    rest = rest.slice(match[0].length);
+    if (match[1] !== undefined) tokens.push({ type: 'num', value: parseFloat(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: 'word', text: match[2] });
+    else tokens.push({ type: 'op', text: match[3] });
+  }
+  return tokens;
+}
+
+/**
+ * Split a unit off the end of a side ("5 cm", "12 sq ft", "3 m^2"). Only a
+ * plain quantity can carry a unit, so "2m + 1" stays algebra.
+ */
+function splitUnit(tokens: Token[]): { tokens: Token[]; unit: UnitInfo } | null {
+  let end = tokens.length;
+  let power = 1;
+
+  const last = tokens[end - 1];
+  const beforeLast = tokens[end - 2];
+  if (last?.type === 'num' && (last.value === 2 || last.value === 3)) {
+    // "cm^2" or "cm2"
+    power = last.value;
+    end -= beforeLast?.type === 'op' && beforeLast.text === '^' ? 2 : 1;
+  }
+
+  const unitToken = tokens[end - 1];
+  if (unitToken?.type !== 'word' || !UNITS[unitToken.text]) return null;
+  end -= 1;
+
+  const powerWord = tokens[end - 1];
+  if (power === 1 && powerWord?.type === 'word' && UNIT_POWER_WORDS[powerWord.text]) {
+    power = UNIT_POWER_WORDS[powerWord.text];
+    end -= 1;
+  }
+
+  const base = UNITS[unitToken.text];
+  if (end === 0 || (power > 1 && base.power > 1)) return null;
+
+  const unit: UnitInfo = power === 1
+    ? base
+    : { symbol: `${base.symbol}^${power}`, dimension: base.dimension, power, factor: Math.pow(base.factor, power) };
+  return { tokens: tokens.slice(0, end), unit };
+}
+
+// Recursive-descent parser with implicit multiplication ("3x", "2(x + 1)")
+function parseTokens(tokens: Token[]): MathNode | null {
+  let pos = 0;
+
+  const peekOp = (ops: string) => {
+    const token = tokens[pos];
+    return token?.type === 'op' && ops.includes(token.text) ? token.text : null;
+  };
+
+  const startsAtom = () => {
+    const token = tokens[pos];
+    return !!token && (token.type === 'word' || (token.type === 'op' && token.text === '('));
+  };
+
+  const parseAtom = (): MathNode | null => {
+    const token = tokens[pos];
+    if (!token) return null;
+
+    if (token.type === 'num') {
+      pos++;
+      return { type: 'num', value: token.value };
+    }
+
+    if (token.type === 'op') {
+      if (token.text !== '(') return null;
+      pos++;
+      const inner = parseSum();
+      if (!inner || !peekOp(')')) return null;
+      pos++;
+      return inner;
+    }
+
+    pos++;
+    if (CONSTANTS[token.text] !== undefined) {
+      return { type: 'num', value: CONSTANTS[token.text] };
+    }
+    if (FUNCTIONS[token.text]) {
+      const arg = parsePower();
+      return arg && { type: 'call', fn: FUNCTIONS[token.text], arg };
+    }
+    // Short letter runs are products of variables ("xy"); longer ones are words
+    if (token.text.length > 3 || !/^[a-z]+$/.test(token.text)) return null;
+    return token.text.split('').reduce<MathNode | null>((product, name) => {
+      const variable: MathNode = { type: 'var', name };
+      return product ? { type: 'bin', op: '*', left: product, right: variable } : variable;
+    }, null);
+  };
+
+  const parsePower = (): MathNode | null => {
+    const base = parseAtom();
+    if (!base || !peekOp('^')) return base;
+    pos++;
+    const exponent = parseUnary();
+    return exponent && { type: 'bin', op: '^', left: base, right: exponent };
+  };
+
+  const parseUnary = (): MathNode | null => {
+    const sign = peekOp('+-');
+    if (!sign) return parsePower();
+    pos++;
+    const arg = parseUnary();
+    if (!arg) return null;
+    return sign === '-' ? { type: 'neg', arg } : arg;
+  };
+
+  const parseProduct = (): MathNode | null => {
+    let node = parseUnary();
+    while (node) {
+      const op = peekOp('*/');
+      if (op) {
+        pos++;
+        const right = parseUnary();
+        node = right && { type: 'bin', op: op as '*' | '/', left: node, right };
+      } else if (startsAtom()) {
+        const right = parsePower();
+        node = right && { type: 'bin', op: '*', left: node, right };
+      } else {
+        break;
+      }
+    }
+    return node;
+  };
+
+  const parseSum = (): MathNode | null => {
+    let node = parseProduct();
+    while (node) {
+      const op = peekOp('+-');
+      if (!op) break;
+      pos++;
+      const right = parseProduct();
+      node = right && { type: 'bin', op: op as '+' | '-', left: node, right };
+    }
+    return node;
+  };
+
+  const node = parseSum();
+  return node && pos === tokens.length ? node : null;
+}
+
+function collectVariables(node: MathNode, into: string[]): string[] {
+  switch (node.type) {
+    case 'var':
+      if (!into.includes(node.name)) into.push(node.name);
+      break;
+    case 'neg':
+    case 'call':
+      collectVariables(node.arg, into);
+      break;
+    case 'bin':
+      collectVariables(node.left, into);
+      collectVariables(node.right, into);
+      break;
+  }
+  return into;
+}
+
+function parseSide(tokens: Token[], allowUnit: boolean): { node: MathNode; unit: UnitInfo | null } | null {
+  if (allowUnit) {
+    const split = splitUnit(tokens);
+    const node = split && parseTokens(split.tokens);
+    if (split && node && collectVariables(node, []).length === 0) {
+      return { node, unit: split.unit };
+    }
+  }
+  const node = parseTokens(tokens);
+  return node && { node, unit: null };
+}
+
+/**
+ * Parse a normalized answer into an expression or equation, splitting off a
+ * trailing unit. Mixed numbers ("1 1/2") are read as a whole plus a fraction.
+ * Returns null for anything that isn't math.
+ */
+export function parseMath(text: string): ParsedMath | null {
+  if (!text || text.length > MAX_INPUT_LENGTH) return null;
+
+  const source = text.replace(/(^|[=(+\-*\s])(\d+)\s+(\d+)\s*\/\s*(\d+)(?![\d.^])/g, '$1($2+$3/$4)');
+  const tokens = tokenize(source);
+  if (!tokens || tokens.length === 0) return null;
+
+  const equals = tokens.findIndex(token => token.type === 'op' && token.text === '=');
+  if (equals === -1) {
+    const side = parseSide(tokens, true);
+    return side && { left: side.node, right: null, unit: side.unit, variables: collectVariables(side.node, []) };
+  }
+
+  const leftTokens = tokens.slice(0, equals);
+  const rightTokens = tokens.slice(equals + 1);
+  if (rightTokens.some(token => token.type === 'op' && token.text === '=')) return null;
+
+  const left = parseSide(leftTokens, false);
+  const right = parseSide(rightTokens, true);
+  if (!left || !right) return null;
+
+  return {
+    left: left.node,
+    right: right.node,
+    unit: right.unit,
+    variables: collectVariables(right.node, collectVariables(left.node, [])),
+  };
+}
+
+export function evaluateMath(node: MathNode, scope: Record<string, number> = {}): number | null {
+  let value: number | null;
+  switch (node.type) {
+    case 'num':
+      value = node.value;
+      break;
+    case 'var':
+      value = scope[node.name] ?? null;
+      break;
+    case 'neg': {
+      const arg = evaluateMath(node.arg, scope);
+      value = arg === null ? null : -arg;
+      break;
+    }
+    case 'call': {
+      const arg = evaluateMath(node.arg, scope);
+      value = arg === null ? null : node.fn === 'sqrt' ? Math.sqrt(arg) : Math.abs(arg);
+      break;
+    }
+    case 'bin': {
+      const left = evaluateMath(node.left, scope);
+      const right = evaluateMath(node.right, scope);
+      if (left === null || right === null) return null;
+      if (node.op === '/' && right === 0) return null;
+      value = node.op === '+' ? left + right
+        : node.op === '-' ? left - right
+        : node.op === '*' ? left * right
+        : node.op === '/' ? left / right
+        : Math.pow(left, right);
+      break;
+    }
+  }
+  return value !== null && Number.isFinite(value) ? value : null;
+}
+
+function withinTolerance(actual: number, expected: number, tolerance: MathTolerance): boolean {
+  const allowed = Math.max(
+    tolerance.absolute ?? 0,
+    (tolerance.relative ?? 0) * Math.max(Math.abs(actual), Math.abs(expected))
+  );
+  return Math.abs(actual - expected) <= allowed;
+}
+
+function sampleScope(variables: string[], sample: number): Record<string, number> {
+  const scope: Record<string, number> = {};
+  variables.forEach((name, index) => {
+    scope[name] = SAMPLE_POINTS[(sample + index) % SAMPLE_POINTS.length] * (1 + index / 7);
+  });
+  return scope;
+}
+
+// left - right, so an equation can be treated as "f = 0"
+function residual(parsed: ParsedMath): MathNode {
+  return parsed.right ? { type: 'bin', op: '-', left: parsed.left, right: parsed.right } : parsed.left;
+}
+
+/**
+ * The value a parsed answer settles on: a constant expression, the right side
+ * of a worked equation ("2 + 2 = 4"), or the solution of a linear equation in
+ * one variable ("x = 3", "2x + 1 = 7").
+ */
+function solvedValue(parsed: ParsedMath): { variable: string | null; value: number } | null {
+  if (parsed.variables.length === 0) {
+    const value = evaluateMath(parsed.right ?? parsed.left);
+    return value === null ? null : { variable: null, value };
+  }
+  if (!parsed.right || parsed.variables.length !== 1) return null;
+
+  const variable = parsed.variables[0];
+  const f = residual(parsed);
+  const at = (x: number) => evaluateMath(f, { [variable]: x });
+  const f0 = at(0);
+  const f1 = at(1);
+  const f2 = at(2);
+  if (f0 === null || f1 === null || f2 === null) return null;
+
+  const slope = f1 - f0;
+  if (slope === 0 || !withinTolerance(f2, f0 + 2 * slope, SYMBOLIC_TOLERANCE)) return null;
+  return { variable, value: -f0 / slope };
+}
+
+function compareQuantities(
+  expected: { value: number; unit: UnitInfo | null },
+  given: { value: number; unit: UnitInfo | null },
+  options: MathEquivalenceOptions
+): MathComparison {
+  const tolerance = options.tolerance ?? DEFAULT_MATH_TOLERANCE;
+  const matches = (value: number) => withinTolerance(value, expected.value, tolerance);
+  const policy = options.units ?? 'optional';
+
+  if (policy === 'ignore' || !expected.unit) {
+    // "50%" for a key of 0.5 is still right
+    const asFraction = given.unit?.dimension === 'percent' && policy !== 'ignore' && matches(given.value / 100);
+    return matches(given.value) || asFraction ? 'equivalent' : 'not_equivalent';
+  }
+
+  if (!given.unit) {
+    // Percent is a scale factor: "0.25" for a key of 25% is right
+    if (expected.unit.dimension === 'percent' && matches(given.value * 100)) return 'equivalent';
+    if (!matches(given.value)) return 'not_equivalent';
+    return policy === 'required' ? 'missing_unit' : 'equivalent';
+  }
+
+  if (given.unit.dimension !== expected.unit.dimension || given.unit.power !== expected.unit.power) {
+    return 'wrong_unit';
+  }
+  if (given.unit.symbol === expected.unit.symbol) {
+    return matches(given.value) ? 'equivalent' : 'not_equivalent';
+  }
+  if (options.convertUnits === false) {
+    return 'wrong_unit';
+  }
+  return matches(given.value * given.unit.factor / expected.unit.factor) ? 'equivalent' : 'not_equivalent';
+}
+
+/**
+ * Evaluate both sides at the same sample points. Expressions must agree
+ * everywhere; equations must agree up to a constant factor ("2x = 6" and
+ * "x = 3" describe the same line).
+ */
+function compareSymbolic(expected: ParsedMath, given: ParsedMath): MathComparison {
+  if (!!expected.right !== !!given.right) return 'not_equivalent';
+
+  const variables = expected.variables.concat(given.variables.filter(name => !expected.variables.includes(name)));
+  const expectedNode = residual(expected);
+  const givenNode = residual(given);
+  const isEquation = !!expected.right;
+
+  let ratio: number | null = null;
+  let valid = 0;
+  for (let sample = 0; sample < SAMPLE_POINTS.length; sample++) {
+    const scope = sampleScope(variables, sample);
+    const a = evaluateMath(expectedNode, scope);
+    const b = evaluateMath(givenNode, scope);
+    if (a === null || b === null) continue;
+    valid++;
+
+    if (!isEquation) {
+      if (!withinTolerance(b, a, SYMBOLIC_TOLERANCE)) return 'not_equivalent';
+      continue;
+    }
+    if (withinTolerance(a, 0, SYMBOLIC_TOLERANCE) || withinTolerance(b, 0, SYMBOLIC_TOLERANCE)) {
+      if (!withinTolerance(a, 0, SYMBOLIC_TOLERANCE) || !withinTolerance(b, 0, SYMBOLIC_TOLERANCE)) return 'not_equivalent';
+      continue;
+    }
+    if (ratio === null) ratio = b / a;
+    else if (!withinTolerance(b / a, ratio, SYMBOLIC_TOLERANCE)) return 'not_equivalent';
+  }
+
+  return valid >= MIN_VALID_SAMPLES ? 'equivalent' : 'not_equivalent';
+}
+
+export function compareMath(expected: ParsedMath, given: ParsedMath, options: MathEquivalenceOptions = {}): MathComparison {
+  const expectedSolved = solvedValue(expected);
+  const givenSolved = solvedValue(given);
+
+  if (expectedSolved && givenSolved) {
+    if (expectedSolved.variable && givenSolved.variable && expectedSolved.variable !== givenSolved.variable) {
+      return 'not_equivalent';
+    }
+    return compareQuantities(
+      { value: expectedSolved.value, unit: expected.unit },
+      { value: givenSolved.value, unit: given.unit },
+      options
+    );
+  }
+
+  if (expected.variables.length === 0 || given.variables.length === 0) {
+    return 'not_equivalent';
+  }
+  return compareSymbolic(expected, given);
+}
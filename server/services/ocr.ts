@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import type { Worker } from 'tesseract.js';
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-100, as reported by Tesseract
+}
+
+// Recorded per page on userDocuments.ocrPages
+export interface OcrPageConfidence {
+  page: number;
+  confidence: number;
+  characters: number;
+}
+
+export const IMAGE_FILE_TYPES = ['png', 'jpg', 'jpeg', 'heic', 'heif'];
+
+// Pages with less extractable text than this are treated as scans
+export const LOW_TEXT_PAGE_CHARS = 20;
+
+/**
+ * Local OCR using Tesseract compiled to WebAssembly, so worksheet photos never
+ * leave the server. Language data is read from OCR_LANG_PATH when set
+ * (pre-provisioned traineddata files) and cached on disk after first load.
+ */
+export class OcrService {
+  private worker: Promise<Worker> | null = null;
+  private readonly languages = (process.env.OCR_LANGS || 'eng+spa').split('+');
+
+  /**
+   * Lazy load tesseract.js; starting the WASM worker takes a few seconds
+   */
+  private async getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      this.worker = (async () => {
+        const { createWorker } = await import('tesseract.js');
+        const cachePath = process.env.OCR_CACHE_PATH || 'uploads/ocr-cache';
+        fs.mkdirSync(cachePath, { recursive: true });
+        return new Promise<Worker>((resolve, reject) => {
+          let started = false;
+          createWorker(this.languages, undefined, {
+            cachePath,
+            ...(process.env.OCR_LANG_PATH ? { langPath: process.env.OCR_LANG_PATH } : {}),
+            // Unhandled worker errors are rethrown outside any promise and crash the
+            // process, and a failed language download leaves createWorker pending forever
+            errorHandler: (error: unknown) => {
+              console.error('[OCR] Tesseract worker error:', error);
+              if (!started) reject(error instanceof Error ? error : new Error(String(error)));
+            },
+          }).then(worker => {
+            started = true;
+            resolve(worker);
+          }, reject);
+        });
+      })();
+      this.worker.catch(error => {
+        console.error('[OCR] Failed to start Tesseract worker:', error);
+        this.worker = null;
+      });
+    }
+    return this.worker;
+  }
+
+  async recognize(image: Buffer): Promise<OcrResult> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(image);
+    return { text: data.text, confidence: Math.round(data.confidence) };
+  }
+
+  /**
+   * OCR an uploaded photo. HEIC (the iPhone default) is converted to PNG first
+   * since Tesseract can't decode it.
+   */
+  async recognizeFile(filePath: string, fileType: string): Promise<OcrResult> {
+    let image = fs.readFileSync(filePath);
+    if (fileType === 'heic' || fileType === 'heif') {
+      const { default: convert } = await import('heic-convert');
+      image = Buffer.from(await convert({ buffer: image, format: 'PNG' }));
+    }
+    return this.recognize(image);
+  }
+
+  async terminate(): Promise<void> {
+    if (!this.worker) return;
+    const worker = await this.worker.catch(() => null);
+    this.worker = null;
+    await worker?.terminate();
+  }
+}
+
+export const ocrService = new OcrService();
@@ -2,21 +2,29 @@ import OpenAI from "openai";
 import { LLM_CONFIG, TUTOR_SYSTEM_PROMPT, ensureEndsWithQuestion, splitIntoSentences, getRandomPhrase, ACKNOWLEDGMENT_PHRASES, TRANSITION_PHRASES } from '../llm/systemPrompt';
 import { conversationManager } from './conversationManager';
 import { topicRouter } from './topicRouter';
-import { TutorPlan, TUTOR_PLAN_SCHEMA } from '../types/conversationState';
+import { TutorPlan, TutorTurn, TUTOR_TURN_SCHEMA } from '../types/conversationState';
 import { LessonContext, SUBJECT_PROMPTS, ASR_CONFIG } from '../types/lessonContext';
 import { lessonService } from './lessonService';
 import { debugLogger } from '../utils/debugLogger';
-import { retryOpenAICall, validateAndLogOpenAIKey, getRedactedOrgId, VOICE_RETRY_CONFIG, type OpenAIRetryResult } from '../utils/openaiRetryHandler';
-import { openaiCircuitBreaker } from './circuitBreaker';
+import { validateAndLogOpenAIKey, getRedactedOrgId } from '../utils/openaiRetryHandler';
+import { llmRouter, AllProvidersFailedError, type RoutedReply, type RoutedStream } from './llmRouter';
+import type { ChatReply, ChatRequest } from './chatProviders';
 import { userQueueManager } from './userQueueManager';
-import { semanticCache } from './semanticCache';
+import { semanticCache, cacheScope } from './semanticCache';
 import { inputGatingService } from './inputGating';
 import { normalizeAnswer } from '../utils/answerNormalization';
 import { voiceIntegration } from '../modules/voiceIntegration';
 import { guardrails } from './guardrails';
 import { answerChecker } from './answerChecker';
+import { lessonsService } from './lessons';
+import { masteryService } from './mastery';
+import { storage } from '../storage';
 import { getTutorMindPrompt } from '../prompts/tutorMind';
 import { processTutorResponse, tutorCore } from './responsePipeline';
+import { contextRetrievalService } from './contextRetrieval';
+import { parseTutorTurn, isQuestionSpoken } from './tutorTurn';
+import { TutorSpeechStream } from './tutorSpeechStream';
+import { generateForSubject, difficultyFromLevel, normalizeGradeBand, seedFrom, skillsForSubject, type Difficulty, type GradeBand, type PracticeItem } from './practiceGenerators';
 
 // Validate and log API key status on startup
 const keyStatus = validateAndLogOpenAIKey();
@@ -32,6 +40,27 @@ interface TutorContext {
   sessionId?: string;
   energyLevel?: string;
   lessonContext?: LessonContext;
+  documentIds?: string[]; // documents to draw on; defaults to the student's pinned ones, then "keep for future sessions" ones
+  studentId?: string; // the active student profile, if the request names one
+  gradeBand?: string; // the student's grade, any stored form; scopes cached answers
+  language?: string; // the account's preferred language; scopes cached answers
+}
+
+/**
+ * The grade band a tutoring request is answered for: the active student
+ * profile's when the request names one the account owns, otherwise the
+ * account's own grade level. A parent's account has no useful grade of its
+ * own, so this is what cached answers should be scoped by.
+ */
+export async function requestGradeBand(
+  user: { id: string; gradeLevel?: string | null } | undefined,
+  studentId?: unknown
+): Promise<string | undefined> {
+  if (user && typeof studentId === 'string' && studentId) {
+    const student = await storage.getStudent(studentId, user.id);
+    if (student) return student.gradeBand;
+  }
+  return user?.gradeLevel || undefined;
 }
 
 interface EnhancedTutorResponse {
@@ -47,31 +76,73 @@ interface EnhancedTutorResponse {
   queueDepth?: number;
   usedCache?: boolean;
   breakerOpen?: boolean;
+  provider?: string; // the LLM provider that answered, when one did
+  streamed?: boolean; // content was already delivered through TutorStreamOptions.onSpeech
+  interrupted?: boolean; // barge-in aborted the turn; nothing more should be said
 }
 
+// Set by callers that speak the response while the model is still generating it
+interface TutorStreamOptions {
+  signal?: AbortSignal; // barge-in: aborts the upstream model request too
+  onFirstToken?: () => void;
+  onSpeech: (text: string) => void; // each sentence or clause, already through the guardrails
+}
+
+// Spoken before a generated practice question on the fallback path
+const PRACTICE_LEADS = [
+  "Let's practice while I reconnect.",
+  "Here's one to try.",
+  "Let's keep going with some practice.",
+  "Try this one."
+];
+
 class OpenAIService {
   private recentResponses: Map<string, string[]> = new Map(); // sessionId -> last 2 responses
   private sessionCounters: Record<string, number> = {};
   private recentFallbacks = new Map<string, string[]>();
 
+  /**
+   * Hybrid keyword + semantic retrieval over the student's documents, formatted
+   * for the system prompt. Empty when there are no documents or nothing matched.
+   */
+  private async retrieveDocumentContext(context: TutorContext, message: string): Promise<string> {
+    try {
+      const retrieved = await contextRetrievalService.retrieve(context.userId, message, {
+        documentIds: context.documentIds,
+        studentId: context.studentId
+      });
+      if (retrieved.chunks.length > 0) {
+        console.log(`[OpenAI] Retrieved ${retrieved.chunks.length} document passage(s), ${retrieved.tokens} tokens`);
+      }
+      return contextRetrievalService.formatForPrompt(retrieved);
+    } catch (error) {
+      console.warn('[OpenAI] Document retrieval failed, answering without documents:', error);
+      return '';
+    }
+  }
+
   async generateTutorResponse(message: string, context: TutorContext): Promise<string> {
     return this.generateEnhancedTutorResponse(message, context).then(r => r.content);
   }
 
   // Enhanced conversation response with scalable architecture
+  // With `stream`, the model's reply is spoken through stream.onSpeech as it arrives (streamed: true);
+  // replies that don't come from the model (answer gate, cache, fallbacks) are returned whole as before.
   async generateEnhancedTutorResponse(message: string, context: TutorContext, speechData?: { 
     duration?: number; 
     confidence?: number; 
-  }): Promise<EnhancedTutorResponse> {
+  }, stream?: TutorStreamOptions): Promise<EnhancedTutorResponse> {
     const startTime = Date.now();
     const model = LLM_CONFIG.model;
     const sessionId = context.sessionId || `${context.userId}-default`;
     const lessonId = context.lessonId || 'general';
+    const gradeBand = normalizeGradeBand(context.gradeBand);
     
     // Get user queue for this session (ensures concurrency = 1 per user)
     const userQueue = userQueueManager.getQueue(sessionId);
     
     return userQueue.enqueue(async () => {
+      let speech: TutorSpeechStream | undefined;
       try {
         // Step 1: Input Gating & Validation
         const gatingResult = inputGatingService.validate({
@@ -92,7 +163,7 @@ class OpenAIService {
             retryCount: 0,
             tokensUsed: 0,
             model,
-            breakerOpen: openaiCircuitBreaker.isOpen()
+            breakerOpen: !llmRouter.isAvailable()
           };
         }
 
@@ -100,17 +171,18 @@ class OpenAIService {
         let subject = context.lessonContext?.subject || lessonId.split('-')[0] || 'general';
 
         // Step 1.5: Early Answer-Checking Gate (Strategic Fix)
-        const questionState = conversationManager.getQuestionState(sessionId);
+        const questionState = await conversationManager.getQuestionState(sessionId);
         if (questionState?.expectedAnswer && questionState.currentQuestion) {
           console.log(`[AnswerGate] Checking answer for session ${sessionId}: "${normalizedMessage}"`);
           
-          const checkResult = answerChecker.checkAnswer(
-            questionState.expectedAnswer,
-            normalizedMessage,
-            (questionState.questionType === 'open' ? 'short' : questionState.questionType) || 'auto'
-          );
+          // Any accepted answer counts; feedback for a wrong one quotes the canonical answer
+          const answerType = (questionState.questionType === 'open' ? 'short' : questionState.questionType) || 'auto';
+          const checkResult = [questionState.expectedAnswer, ...(questionState.acceptedAnswers || [])]
+            .map(expected => answerChecker.checkAnswer(expected, normalizedMessage, answerType, subject, questionState.options))
+            .reduce((best, result) => best.ok ? best : result.ok ? result : best);
           
           let acknowledgmentContent: string;
+          const hint = checkResult.ok ? undefined : await conversationManager.takeNextHint(sessionId);
           
           if (checkResult.ok) {
             // CORRECT ANSWER: Acknowledge + ask next question
@@ -121,28 +193,33 @@ class OpenAIService {
               "Well done! Exactly right.",
               "Fantastic! You nailed it."
             ];
-            const nextQuestions = this.getNextQuestion(subject, questionState.currentQuestion);
+            const nextItem = this.getNextQuestion(subject, sessionId, gradeBand, difficultyFromLevel(context.lessonContext?.difficulty));
             
-            acknowledgmentContent = `${correctPhrases[Math.floor(Math.random() * correctPhrases.length)]} ${nextQuestions.question}`;
+            acknowledgmentContent = `${correctPhrases[Math.floor(Math.random() * correctPhrases.length)]} ${nextItem.question}`;
             
             // Clear current question and set next question state
-            conversationManager.clearQuestionState(sessionId);
-            conversationManager.setQuestionState(sessionId, nextQuestions.question, nextQuestions.expectedAnswer, nextQuestions.questionType, nextQuestions.options);
+            await conversationManager.clearQuestionState(sessionId);
+            await conversationManager.setTurnQuestion(sessionId, this.practiceTurn(nextItem));
+            
+          } else if (hint) {
+            // INCORRECT ANSWER with hints left: next rung of the hint ladder, same question stays open
+            acknowledgmentContent = `Not quite — ${hint} ${questionState.currentQuestion}`;
             
           } else {
             // INCORRECT ANSWER: Provide correction + ask follow-up
-            const followUpQuestion = this.getFollowUpQuestion(subject, questionState.currentQuestion);
-            acknowledgmentContent = checkResult.msg;
+            // Keep the sentence that gives the answer so the follow-up survives the two-sentence limit
+            const followUpItem = this.getFollowUpQuestion(subject, sessionId, gradeBand);
+            const sentences = checkResult.msg.match(/[^.!?]+[.!?]+/g) || [checkResult.msg];
+            const correction = sentences.find(sentence => sentence.includes(questionState.expectedAnswer!)) || sentences[0];
+            acknowledgmentContent = `${correction.trim()} ${followUpItem.question}`;
             
             // CRITICAL: Set follow-up question state before returning (fix for multi-turn remediation)
-            conversationManager.clearQuestionState(sessionId);
-            const followUpData = this.parseQuestionForStorage(followUpQuestion, subject);
-            if (followUpData.expectedAnswer !== 'unknown') {
-              conversationManager.setQuestionState(sessionId, followUpQuestion, followUpData.expectedAnswer, followUpData.questionType, followUpData.options);
-            }
+            await conversationManager.clearQuestionState(sessionId);
+            await conversationManager.setTurnQuestion(sessionId, this.practiceTurn(followUpItem));
           }
           
           console.log(`[AnswerGate] ${checkResult.ok ? 'CORRECT' : 'INCORRECT'} answer processed`);
+          this.recordLiveAnswer(context.userId, lessonId, checkResult.ok);
           
           // Apply guardrails to acknowledgment content with subject context
           acknowledgmentContent = guardrails.sanitizeTutorQuestion(acknowledgmentContent);
@@ -153,7 +230,7 @@ class OpenAIService {
             content: acknowledgmentContent,
             plan: {
               goal: checkResult.ok ? 'Acknowledge correct answer and continue' : 'Correct wrong answer and reteach',
-              plan: [checkResult.ok ? 'Acknowledge success' : 'Provide correction', 'Ask next question'],
+              plan: [checkResult.ok ? 'Acknowledge success' : hint ? 'Give a hint' : 'Provide correction', hint ? 'Ask the question again' : 'Ask next question'],
               next_prompt: acknowledgmentContent
             },
             topic: subject,
@@ -169,10 +246,14 @@ class OpenAIService {
           };
         }
 
-        // Step 2: Semantic Cache Check
-        const cacheResult = semanticCache.get(lessonId, normalizedMessage);
+        // Step 2: Passages of the student's documents relevant to this message
+        const documentContext = await this.retrieveDocumentContext(context, normalizedMessage);
+
+        // Step 2.5: Semantic Cache Check (answers grounded in the student's documents aren't shared)
+        const scope = cacheScope(lessonId, context.gradeBand, context.language);
+        const cacheResult = documentContext ? null : await semanticCache.get(scope, normalizedMessage);
         if (cacheResult) {
-          console.log(`[OpenAI] Cache hit for lesson: ${lessonId}`);
+          console.log(`[OpenAI] Cache hit for lesson: ${lessonId} (${scope.gradeBand}, ${scope.language})`);
           
           return {
             content: cacheResult.content,
@@ -181,15 +262,15 @@ class OpenAIService {
             retryCount: 0,
             tokensUsed: 0,
             model,
-            breakerOpen: openaiCircuitBreaker.isOpen()
+            breakerOpen: !llmRouter.isAvailable()
           };
         }
 
-        // Step 3: Circuit Breaker Check
-        if (openaiCircuitBreaker.isOpen()) {
-          console.log(`[OpenAI] Circuit breaker open - using fallback`);
+        // Step 3: Circuit Breaker Check (every provider's circuit open)
+        if (!llmRouter.isAvailable()) {
+          console.log(`[OpenAI] All LLM provider circuits open - using fallback`);
           
-          const fallbackResult = this.getLessonSpecificFallback(subject, normalizedMessage, sessionId);
+          const fallbackResult = await this.getLessonSpecificFallback(subject, normalizedMessage, sessionId, gradeBand);
           
           return {
             content: fallbackResult.content,
@@ -242,7 +323,9 @@ class OpenAIService {
         }
 
         // Build complete system prompt using TutorCore
-        const systemPrompt = tutorCore.getSystemPrompt(lessonPlan);
+        const systemPrompt = documentContext
+          ? `${tutorCore.getSystemPrompt(lessonPlan)}\n\n${documentContext}`
+          : tutorCore.getSystemPrompt(lessonPlan);
 
         const debugMode = process.env.DEBUG_TUTOR === '1';
         if (debugMode) {
@@ -251,93 +334,111 @@ class OpenAIService {
           console.log(`[OpenAI DEBUG] Topic: ${topicClassification.topic}, Confidence: ${topicClassification.confidence}`);
         }
 
-        // Step 5: Circuit-breaker protected OpenAI call
-        const retryResult = await openaiCircuitBreaker.execute(async () => {
-          return await retryOpenAICall(async () => {
-            // Apply guardrails to prevent user fabrication
-            const rawMessages = [
-              { role: "system", content: systemPrompt },
-              { role: "user", content: normalizedMessage }
-            ];
-            const filteredMessages = guardrails.preventUserFabrication(rawMessages) as any[];
-            
-            return await openai.chat.completions.create({
-              model,
-              messages: filteredMessages,
-              temperature: LLM_CONFIG.temperature,
-              max_tokens: LLM_CONFIG.maxTokens,
-              top_p: LLM_CONFIG.topP,
-              presence_penalty: LLM_CONFIG.presencePenalty,
-              tools: [TUTOR_PLAN_SCHEMA],
-              tool_choice: { type: "function", function: { name: "tutor_plan" } }
-            });
-          }, VOICE_RETRY_CONFIG, (retryContext) => {
-            console.log(`[OpenAI] Retry ${retryContext.attempt}/${retryContext.totalAttempts} after:`, retryContext.lastError?.message);
-          }, 3000); // 3 second timeout for voice interactions
-        });
-        
-        // Handle retry result
-        if (retryResult.usedFallback || !retryResult.result) {
-          const fallbackResult = this.getLessonSpecificFallback(subject, normalizedMessage, sessionId);
+        // Step 5: Model call through the LLM router (a circuit breaker per provider, ordered failover)
+        // When streaming, only opening the stream can fail over; once speech has started it can't be redone
+        // Apply guardrails to prevent user fabrication
+        const rawMessages = [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: normalizedMessage }
+        ];
+        const request: ChatRequest = {
+          messages: guardrails.preventUserFabrication(rawMessages) as ChatRequest['messages'],
+          temperature: LLM_CONFIG.temperature,
+          maxTokens: LLM_CONFIG.maxTokens,
+          topP: LLM_CONFIG.topP,
+          presencePenalty: LLM_CONFIG.presencePenalty,
+          tool: TUTOR_TURN_SCHEMA,
+          signal: stream?.signal
+        };
+
+        let routed: RoutedReply | RoutedStream;
+        try {
+          routed = stream ? await llmRouter.stream(request) : await llmRouter.complete(request);
+        } catch (error) {
+          if (!(error instanceof AllProvidersFailedError)) throw error;
+          console.warn(`[OpenAI] ${error.message} - using fallback`);
+
+          const fallbackResult = await this.getLessonSpecificFallback(subject, normalizedMessage, sessionId, gradeBand);
           
           return {
             content: fallbackResult.content,
             topic: topicClassification.topic,
             repairMove: false,
             usedFallback: true,
-            retryCount: retryResult.retryCount,
+            retryCount: 0,
             tokensUsed: 0,
             model,
             banner: fallbackResult.banner || "Using local responses during high traffic",
             queueDepth: userQueue.getQueueDepth(),
-            breakerOpen: openaiCircuitBreaker.isOpen()
+            breakerOpen: !llmRouter.isAvailable()
           };
         }
+        
+        if (stream?.signal?.aborted) {
+          return this.interruptedResponse(model, userQueue.getQueueDepth());
+        }
 
-        const completion = retryResult.result;
-        const tokensUsed = completion.usage?.total_tokens || 0;
+        let reply: ChatReply;
+        if ('chunks' in routed) {
+          speech = new TutorSpeechStream(sessionId, subject, stream!.onSpeech);
+          reply = await this.readTutorStream(routed, speech, stream!.onFirstToken);
+        } else {
+          reply = routed;
+        }
+        const tokensUsed = reply.tokensUsed;
         
         // Extract content and plan from the response
-        let rawContent = completion.choices[0].message.content || '';
+        let rawContent = reply.content;
         let plan: TutorPlan | undefined;
-
-        // Check if the model used the tutor_plan tool
-        const toolCalls = completion.choices[0].message.tool_calls;
-        if (toolCalls && toolCalls.length > 0) {
-          const tutorPlanCall = toolCalls.find((tc: any) => tc.function?.name === 'tutor_plan');
-          if (tutorPlanCall) {
-            try {
-              const planData = JSON.parse(tutorPlanCall.function.arguments);
+        let turn: TutorTurn | null = null;
+
+        // Check if the model used the tutor_turn tool
+        if (reply.toolArguments) {
+          try {
+            const turnData = JSON.parse(reply.toolArguments);
+            turn = parseTutorTurn(turnData);
+            if (!turn) {
+              console.warn('[OpenAI] tutor_turn tool call failed validation');
+            } else {
               plan = {
-                goal: planData.goal,
-                plan: planData.plan,
-                next_prompt: planData.next_prompt,
-                followup_options: planData.followup_options
+                goal: turnData.goal,
+                plan: Array.isArray(turnData.plan) ? turnData.plan : [],
+                next_prompt: turn.spokenText
               };
               
-              // Use only the next_prompt as the spoken content
-              rawContent = this.enforceConcisenessAndQuestion(plan.next_prompt);
+              // Use only the spoken text as the content
+              rawContent = this.enforceConcisenessAndQuestion(turn.spokenText);
               
               // Store plan in conversation manager
               if (context.sessionId) {
-                conversationManager.addPlan(context.sessionId, plan);
+                await conversationManager.addPlan(context.sessionId, plan);
               }
-            } catch (error) {
-              console.warn('[OpenAI] Failed to parse tutor_plan tool call:', error);
             }
+          } catch (error) {
+            console.warn('[OpenAI] Failed to parse tutor_turn tool call:', error);
           }
         }
 
-        // Step 6: Anti-repeat & coherence check
-        const deduplicatedContent = this.checkAndHandleRepeat(rawContent, context.sessionId, subject, lessonId);
+        // A streamed reply whose arguments never yielded spoken_text still has to say something
+        if (speech && !speech.hasSpoken) {
+          speech.pushText(rawContent);
+        }
+
+        // Step 6: Anti-repeat & coherence check (a streamed reply was checked sentence by sentence as it was spoken)
+        const deduplicatedContent = speech
+          ? { content: speech.finish(), wasRepeated: false }
+          : this.checkAndHandleRepeat(rawContent, context.sessionId, subject, lessonId);
         let content = deduplicatedContent.content;
         const wasRepeated = deduplicatedContent.wasRepeated;
 
         // Answer checking handled by early gate - this is legacy
 
         // Step 7: Cache the successful response (only if not repeated)
-        if (!wasRepeated) {
-          semanticCache.set(lessonId, normalizedMessage, content, subject);
+        if (!wasRepeated && !documentContext) {
+          // Not awaited: embedding the question shouldn't hold up the reply
+          semanticCache.set(scope, normalizedMessage, content, subject).catch(error => {
+            console.warn('[OpenAI] Failed to cache response:', error);
+          });
         }
 
         const finalResponse: EnhancedTutorResponse = {
@@ -349,29 +450,37 @@ class OpenAIService {
           usedCache: false,
           breakerOpen: false,
           queueDepth: userQueue.getQueueDepth(),
-          retryCount: 0,
+          retryCount: routed.retryCount,
           tokensUsed,
-          model,
-          banner: wasRepeated ? "Generating fresh response" : undefined
+          model: routed.model,
+          provider: routed.provider,
+          banner: wasRepeated ? "Generating fresh response" : undefined,
+          streamed: !!speech
         };
 
         // --- TutorMind post-processing (inclusive + corrections + format) ---
-        let finalResponseContent = guardrails.sanitizeTutorQuestion(content);        // inclusive rephrase
-        finalResponseContent = guardrails.avoidRepeat(sessionId, finalResponseContent, subject);      // anti-repeat with subject context
-        // Answer correction checking - using context if available
-        if (context?.lessonContext && normalizedMessage) {
-          // For now, skip answer checking as lessonContext properties need to be properly defined
-          // This will be handled by the early answer gate system
+        // Already applied to a streamed reply; its content is exactly what was said
+        if (!speech) {
+          let finalResponseContent = guardrails.sanitizeTutorQuestion(content);        // inclusive rephrase
+          finalResponseContent = guardrails.avoidRepeat(sessionId, finalResponseContent, subject);      // anti-repeat with subject context
+          // Answer correction checking - using context if available
+          if (context?.lessonContext && normalizedMessage) {
+            // For now, skip answer checking as lessonContext properties need to be properly defined
+            // This will be handled by the early answer gate system
+          }
+          content = guardrails.enforceFormat(finalResponseContent);               // ≤2 sentences, ends with '?'
+          
+          // Update final response with guardrail-processed content
+          finalResponse.content = content;
         }
-        content = guardrails.enforceFormat(finalResponseContent);               // ≤2 sentences, ends with '?'
-        
-        // Update final response with guardrail-processed content
-        finalResponse.content = content;
 
-        // Store question state if response contains a question (CRITICAL for answer acknowledgment)  
+        // Store question state if response contains a question (CRITICAL for answer acknowledgment).
+        // The turn's own answer key is used when its question survived the guardrails intact.
         const responseSubject = subject;
-        if (context.sessionId && content.includes('?')) {
-          this.storeQuestionInConversation(content, responseSubject, context.sessionId);
+        if (context.sessionId && turn?.question && isQuestionSpoken(turn.question, content)) {
+          await conversationManager.setTurnQuestion(context.sessionId, turn);
+        } else if (context.sessionId && content.includes('?')) {
+          await this.storeQuestionInConversation(content, responseSubject, context.sessionId);
         }
 
         // Debug logging with scalability metrics
@@ -387,11 +496,28 @@ class OpenAIService {
         return finalResponse;
 
       } catch (error: any) {
+        if (stream?.signal?.aborted) {
+          return this.interruptedResponse(model, userQueue.getQueueDepth());
+        }
         console.error("[OpenAI] generateEnhancedTutorResponse error:", error);
+
+        // The stream broke after the student started hearing it: close out that turn rather than start a new one
+        if (speech?.hasSpoken) {
+          return {
+            content: speech.finish(),
+            streamed: true,
+            usedFallback: false,
+            queueDepth: userQueue.getQueueDepth(),
+            retryCount: 0,
+            tokensUsed: 0,
+            model,
+            breakerOpen: !llmRouter.isAvailable()
+          };
+        }
         
         // Use fallback for errors
         const errorSubjectFallback = context.lessonContext?.subject || lessonId.split('-')[0] || 'general';
-        const fallbackResult = this.getLessonSpecificFallback(errorSubjectFallback, message, sessionId);
+        const fallbackResult = await this.getLessonSpecificFallback(errorSubjectFallback, message, sessionId, gradeBand);
         
         const errorResponse: EnhancedTutorResponse = {
           content: fallbackResult.content,
@@ -403,7 +529,7 @@ class OpenAIService {
           retryCount: 0,
           tokensUsed: 0,
           model,
-          breakerOpen: openaiCircuitBreaker.isOpen()
+          breakerOpen: !llmRouter.isAvailable()
         };
 
         // Apply guardrails to error response content with subject context
@@ -414,8 +540,8 @@ class OpenAIService {
 
         // Store question state if fallback response contains a question
         const errorSubject = context.lessonContext?.subject || lessonId.split('-')[0] || 'general';
-        if (context.sessionId && errorResponse.content.includes('?')) {
-          this.storeQuestionInConversation(errorResponse.content, errorSubject, context.sessionId);
+        if (context.sessionId && !fallbackResult.item && errorResponse.content.includes('?')) {
+          await this.storeQuestionInConversation(errorResponse.content, errorSubject, context.sessionId);
         }
 
         // Log error details
@@ -623,6 +749,53 @@ class OpenAIService {
     return this.sessionCounters[key]++;
   }
 
+  /**
+   * Reads a streamed tutor_turn call to the end, speaking spoken_text as it
+   * arrives. Returns the same reply the provider would have given unstreamed.
+   * Barge-in aborts the request, which ends the loop with an error.
+   */
+  private async readTutorStream(stream: RoutedStream, speech: TutorSpeechStream, onFirstToken?: () => void): Promise<ChatReply> {
+    let content = '';
+    let toolArguments = '';
+    let tokensUsed = 0;
+    let sawToken = false;
+
+    for await (const chunk of stream.chunks) {
+      tokensUsed = chunk.tokensUsed || tokensUsed;
+      if (!chunk.contentDelta && !chunk.argumentsDelta) continue;
+
+      if (!sawToken) {
+        sawToken = true;
+        onFirstToken?.();
+      }
+      content += chunk.contentDelta || '';
+      toolArguments += chunk.argumentsDelta || '';
+      // A provider without tool calling answers in plain text, which is spoken as it comes
+      if (stream.usedTool) {
+        speech.pushArguments(chunk.argumentsDelta || '');
+      } else {
+        speech.pushText(chunk.contentDelta || '');
+      }
+    }
+
+    return { content, toolArguments: toolArguments || undefined, tokensUsed };
+  }
+
+  // A turn cut short by barge-in; the caller has already stopped speaking
+  private interruptedResponse(model: string, queueDepth: number): EnhancedTutorResponse {
+    console.log('[OpenAI] Turn interrupted by barge-in, upstream request aborted');
+    return {
+      content: '',
+      interrupted: true,
+      streamed: true,
+      usedFallback: false,
+      queueDepth,
+      retryCount: 0,
+      tokensUsed: 0,
+      model
+    };
+  }
+
   private enforceConcisenessAndQuestion(text: string): string {
     const sentences = splitIntoSentences(text);
     let result = sentences.slice(0, 2).join(' ');
@@ -663,7 +836,6 @@ class OpenAIService {
       const orgId = getRedactedOrgId();
       const queueMetrics = userQueueManager.getGlobalMetrics();
       const cacheMetrics = semanticCache.getMetrics();
-      const circuitMetrics = openaiCircuitBreaker.getMetrics();
       
       console.log(`[OpenAI DEBUG] ${JSON.stringify({
         lessonId: context.lessonId || 'general',
@@ -677,9 +849,10 @@ class OpenAIService {
         latencyMs: Date.now() - startTime,
         orgId,
         model: response.model,
+        provider: response.provider,
         globalQueues: queueMetrics.activeSessions,
         cacheHitRate: cacheMetrics.hitRate.toFixed(1),
-        circuitState: circuitMetrics.state
+        circuitStates: llmRouter.getMetrics().map(p => `${p.name}:${p.circuitState}`).join(',')
       })}`);
     }
   }
@@ -797,7 +970,7 @@ Remember: You're not just teaching facts, you're building confidence and curiosi
   }
   
   // Enhanced fallback with conversation context and answer checking
-  private getLessonSpecificFallback(subject: string, userInput?: string, sessionId?: string): { content: string; banner?: string } {
+  private async getLessonSpecificFallback(subject: string, userInput?: string, sessionId?: string, gradeBand: GradeBand = 'k-2'): Promise<{ content: string; banner?: string; item?: PracticeItem }> {
     // Check for recent fallbacks to avoid repetition
     const recentKey = `recent_fallbacks_${sessionId || 'default'}`;
     const recentFallbacks = this.recentFallbacks.get(recentKey) || [];
@@ -826,6 +999,17 @@ Remember: You're not just teaching facts, you're building confidence and curiosi
       }
     }
     
+    // Generated practice for subjects that have it, graded by the answer gate on the next turn
+    if (sessionId && skillsForSubject(subject, gradeBand).length > 0) {
+      const item = this.practiceItem(subject, sessionId, gradeBand, 'easy');
+      await conversationManager.setTurnQuestion(sessionId, this.practiceTurn(item));
+      return {
+        content: `${getRandomPhrase(PRACTICE_LEADS)} ${item.question}`,
+        banner: "I'm experiencing connection issues but can still help you learn!",
+        item
+      };
+    }
+    
     // Store any questions we're about to ask
     const selectedResponse = this.getSelectedFallback(subject, recentFallbacks, sessionId);
     this.storeQuestionFromResponse(selectedResponse, subject, sessionId);
@@ -839,40 +1023,6 @@ Remember: You're not just teaching facts, you're building confidence and curiosi
   private getSelectedFallback(subject: string, recentFallbacks: string[], sessionId?: string): string {
     // Enhanced educational fallbacks that actually teach lesson content
     const fallbacks: Record<string, string[]> = {
-      math: [
-        "Let's work through this step by step. What number comes after 2?",
-        "Let's learn addition! When we add 2 + 3, we count: 2, then 3 more makes 5. What's 4 + 2?",
-        "Here's how subtraction works: If you have 8 cookies and eat 3, you have 5 left. What's 7 - 2?",
-        "Multiplication is repeated addition! 3 × 2 means 3 + 3, which equals 6. Can you try 2 × 4?",
-        "Let's count by tens: 10, 20, 30, 40... What number comes next?",
-        "Division means sharing equally. If 10 apples are shared by 2 people, each gets 5. How about 12 ÷ 3?",
-        "Even numbers can be divided by 2: like 2, 4, 6, 8. Is 9 an even number?",
-        "Place value helps us understand numbers! In 47, the 4 means 40 and 7 means 7. What's in the tens place of 83?",
-        "Fractions show parts of a whole. Half of a pizza is written as 1/2. What's half of 8?",
-        "Let's practice skip counting by 5s: 5, 10, 15, 20... Can you continue the pattern?"
-      ],
-      english: [
-        "Nouns name people, places, or things. 'Dog', 'school', and 'happiness' are nouns. Can you give me another noun?",
-        "Verbs show action! Words like 'run', 'think', and 'smile' are verbs. What verb describes what birds do?",
-        "Adjectives describe nouns. 'Blue sky' uses 'blue' as an adjective. How would you describe a tree?",
-        "Every sentence needs a subject and verb. 'The cat sleeps' has both. Can you make a sentence about a dog?",
-        "Rhyming words sound alike at the end: cat, bat, hat. What rhymes with 'sun'?",
-        "Plural means more than one. We add 's' to most words: one cat, two cats. What's the plural of 'book'?",
-        "Capital letters start sentences and names. 'Sarah went to Paris.' Where else do we use capitals?",
-        "Synonyms are words with similar meanings. 'Big' and 'large' are synonyms. What's another word for 'happy'?",
-        "A paragraph groups related sentences together. Each one has a main idea. What makes a good topic sentence?"
-      ],
-      spanish: [
-        "Basic greetings: 'Hola' means hello, 'Adiós' means goodbye. How do you say 'please' in Spanish? (It's 'por favor')",
-        "Spanish colors: rojo (red), azul (blue), verde (green), amarillo (yellow). What color is 'blanco'?",
-        "Count in Spanish: uno, dos, tres, cuatro, cinco. What number comes after 'cinco'?",
-        "Family words: madre (mother), padre (father), hermano (brother). How do you say 'sister'? (hermana)",
-        "Days of the week: lunes (Monday), martes (Tuesday), miércoles (Wednesday). What day is 'viernes'?",
-        "Common phrases: '¿Cómo te llamas?' means 'What's your name?' How do you answer 'Me llamo...'?",
-        "Food vocabulary: pan (bread), agua (water), leche (milk). What do you think 'manzana' means? (apple)",
-        "Spanish articles: 'el' and 'la' mean 'the'. 'El niño' (the boy), 'la niña' (the girl). Which one goes with 'libro'?",
-        "Present tense: 'Yo hablo' means 'I speak', 'Tú hablas' means 'You speak'. How would you say 'He speaks'? (Él habla)"
-      ],
       general: [
         "Let's focus on your current lesson topic. What specific concept would you like me to explain?",
         "Breaking down complex ideas: Start with the basics, then build up. What's the first thing you need to understand?",
@@ -914,7 +1064,7 @@ Remember: You're not just teaching facts, you're building confidence and curiosi
                       /^[a-d]$/i.test(lastQuestion.expectedAnswer.trim()) ? 'mcq' : 'text';
     
     // Use answerChecker instead
-    const checkResult = answerChecker.checkAnswer(lastQuestion.expectedAnswer, userInput, answerType as any);
+    const checkResult = answerChecker.checkAnswer(lastQuestion.expectedAnswer, userInput, answerType, subject);
     
     // Log telemetry when DEBUG_TUTOR=1
     if (process.env.DEBUG_TUTOR === '1') {
@@ -1203,60 +1353,44 @@ Remember: You're not just teaching facts, you're building confidence and curiosi
   }
 
   // Helper methods for answer acknowledgment system
-  private getNextQuestion(subject: string, currentQuestion: string): { 
-    question: string; 
-    expectedAnswer: string; 
-    questionType: 'short' | 'mcq' | 'math' | 'open'; 
-    options?: string[] 
-  } {
-    const questionSequences = {
-      math: [
-        { question: "What comes after 3?", expectedAnswer: "4", questionType: 'short' as const },
-        { question: "What's 2 + 2?", expectedAnswer: "4", questionType: 'math' as const },
-        { question: "What comes after 5?", expectedAnswer: "6", questionType: 'short' as const },
-        { question: "What's 3 + 1?", expectedAnswer: "4", questionType: 'math' as const },
-        { question: "What comes after 7?", expectedAnswer: "8", questionType: 'short' as const }
-      ],
-      english: [
-        { question: "What letter comes after B?", expectedAnswer: "C", questionType: 'short' as const },
-        { question: "Can you name a word that starts with 'C'?", expectedAnswer: "cat", questionType: 'open' as const },
-        { question: "What's the opposite of 'hot'?", expectedAnswer: "cold", questionType: 'short' as const }
-      ],
-      spanish: [
-        { question: "How do you say 'hello' in Spanish?", expectedAnswer: "hola", questionType: 'short' as const },
-        { question: "What does 'gracias' mean in English?", expectedAnswer: "thank you", questionType: 'short' as const }
-      ]
-    };
-
-    const questions = questionSequences[subject as keyof typeof questionSequences] || questionSequences.math;
-    return questions[Math.floor(Math.random() * questions.length)];
+  // A generated practice item for the session; subjects without generators practice math
+  private practiceItem(subject: string, sessionId: string, gradeBand: GradeBand, difficulty: Difficulty): PracticeItem {
+    const seed = seedFrom(`${sessionId}:${this.getSessionCounter(`practice:${sessionId}`)}`);
+    const options = { difficulty, gradeBand, seed };
+    return generateForSubject(subject, options) || generateForSubject('math', options)!;
   }
 
-  private getFollowUpQuestion(subject: string, currentQuestion: string): string {
-    const followUps = {
-      math: [
-        "Let's try a simpler one: What comes after 1?",
-        "Let's count together: 1, 2... what comes next?",
-        "Think step by step: If we have 1 apple and add 1 more, how many do we have?"
-      ],
-      english: [
-        "Let's try this: What letter comes after A?",
-        "Think about the alphabet: A, B... what's next?",
-        "Can you name any word that starts with the letter A?"
-      ],
-      spanish: [
-        "Let's start simple: Can you say 'hello' in Spanish?",
-        "Think of greeting someone: How do you say 'hi'?",
-        "Let's practice: Repeat after me - 'Hola'!"
-      ]
+  // Question state for a practice item, with its hint as the one rung of the hint ladder
+  private practiceTurn(item: PracticeItem): TutorTurn {
+    return {
+      spokenText: item.question,
+      question: item.question,
+      expectedAnswers: [item.answer, ...item.acceptedAnswers],
+      answerKind: item.questionType,
+      hints: [item.hint],
     };
+  }
 
-    const questions = followUps[subject as keyof typeof followUps] || followUps.math;
-    return questions[Math.floor(Math.random() * questions.length)];
+  private getNextQuestion(subject: string, sessionId: string, gradeBand: GradeBand, difficulty: Difficulty): PracticeItem {
+    return this.practiceItem(subject, sessionId, gradeBand, difficulty);
+  }
+
+  // After a wrong answer, step down to an easy item
+  private getFollowUpQuestion(subject: string, sessionId: string, gradeBand: GradeBand): PracticeItem {
+    return this.practiceItem(subject, sessionId, gradeBand, 'easy');
   }
 
   // Method to store question state when tutor asks a question (deterministic and subject-aware)
-  private storeQuestionInConversation(response: string, subject: string, sessionId: string): void {
+  // Feed answers graded live by AnswerChecker into the concept mastery model (best effort)
+  private recordLiveAnswer(userId: string, lessonId: string, correct: boolean): void {
+    if (lessonId === 'general') return;
+
+    lessonsService.getLessonContent(lessonId)
+      .then(content => masteryService.recordObservations(userId, lessonId, content.concepts, [{ correct }]))
+      .catch(error => console.error(`[Mastery] Failed to record live answer for ${lessonId}:`, error));
+  }
+
+  private async storeQuestionInConversation(response: string, subject: string, sessionId: string): Promise<void> {
     // Extract question from response (simple pattern matching)
     const questionMatch = response.match(/(.+\?)/);
     if (!questionMatch) return;
@@ -1265,7 +1399,7 @@ Remember: You're not just teaching facts, you're building confidence and curiosi
     const questionData = this.parseQuestionForStorage(question, subject);
     
     if (questionData.expectedAnswer !== 'unknown') {
-      conversationManager.setQuestionState(sessionId, question, questionData.expectedAnswer, questionData.questionType, questionData.options);
+      await conversationManager.setQuestionState(sessionId, question, questionData.expectedAnswer, questionData.questionType, questionData.options);
       console.log(`[StoreQuestion] Stored question for session ${sessionId}: "${question}" expects "${questionData.expectedAnswer}"`);
     }
   }
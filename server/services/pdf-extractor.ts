@@ -28,52 +28,105 @@ export class PdfJsTextExtractor {
    * Extract text from PDF file
    */
   async extractText(filePath: string): Promise<string> {
+    const fullText = (await this.extractPages(filePath)).join('\n\n');
+    
+    if (!fullText.trim()) {
+      throw new Error('Failed to extract text from PDF: No readable text content found in PDF');
+    }
+
+    return fullText;
+  }
+
+  /**
+   * Extract text page by page, keeping the line breaks PDF.js reports
+   */
+  async extractPages(filePath: string): Promise<string[]> {
     try {
-      const pdfjs = await this.loadPdfJs();
-      
-      // Read PDF file
-      const dataBuffer = fs.readFileSync(filePath);
-      const typedArray = new Uint8Array(dataBuffer);
-
-      // Load PDF document without worker (Node.js compatibility)
-      const loadingTask = pdfjs.getDocument({
-        data: typedArray,
-        verbosity: 0, // Suppress console logs
-        useSystemFonts: true,
-        disableWorker: true, // Disable worker for Node.js compatibility
-      });
-      
-      const pdf = await loadingTask.promise;
-      const textParts: string[] = [];
+      const pdf = await this.loadDocument(filePath);
+      const pages: string[] = [];
 
       // Extract text from each page
       for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
         const page = await pdf.getPage(pageNum);
         const textContent = await page.getTextContent();
         
-        // Combine text items from the page
+        // Combine text items from the page, breaking lines where PDF.js marks an end of line
         const pageText = textContent.items
-          .map((item: any) => item.str)
-          .join(' ');
+          .map((item: any) => item.str + (item.hasEOL ? '\n' : ' '))
+          .join('');
         
-        textParts.push(pageText);
+        pages.push(pageText);
       }
 
       // Cleanup
       await pdf.cleanup();
       await pdf.destroy();
 
-      const fullText = textParts.join('\n\n');
-      
-      if (!fullText.trim()) {
-        throw new Error('No readable text content found in PDF');
-      }
-
-      return fullText;
+      return pages;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('PDF extraction error:', errorMessage);
       throw new Error(`Failed to extract text from PDF: ${errorMessage}`);
     }
   }
+
+  /**
+   * Render pages to PNG for OCR. Scanned worksheets are images with no text
+   * layer, so this is the only way to read them.
+   */
+  async renderPages(filePath: string, pageNumbers: number[], scale = 2): Promise<Map<number, Buffer>> {
+    try {
+      const { createCanvas } = await import('@napi-rs/canvas');
+      const pdf = await this.loadDocument(filePath);
+      const images = new Map<number, Buffer>();
+
+      for (const pageNum of pageNumbers) {
+        const page = await pdf.getPage(pageNum);
+        const viewport = page.getViewport({ scale });
+        const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+        await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+        images.set(pageNum, canvas.toBuffer('image/png'));
+        page.cleanup();
+      }
+
+      await pdf.cleanup();
+      await pdf.destroy();
+
+      return images;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('PDF render error:', errorMessage);
+      throw new Error(`Failed to render PDF pages: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Page count of a PDF held in memory, for upload limits
+   */
+  async countPages(data: Buffer): Promise<number> {
+    const pdf = await this.loadData(new Uint8Array(data));
+    const pages = pdf.numPages;
+    await pdf.destroy();
+    return pages;
+  }
+
+  private async loadDocument(filePath: string): Promise<any> {
+    // Read PDF file
+    const dataBuffer = fs.readFileSync(filePath);
+    return this.loadData(new Uint8Array(dataBuffer));
+  }
+
+  private async loadData(typedArray: Uint8Array): Promise<any> {
+    const pdfjs = await this.loadPdfJs();
+
+    // Load PDF document without worker (Node.js compatibility)
+    const loadingTask = pdfjs.getDocument({
+      data: typedArray,
+      verbosity: 0, // Suppress console logs
+      useSystemFonts: true,
+      disableWorker: true, // Disable worker for Node.js compatibility
+    });
+    
+    return loadingTask.promise;
+  }
 }
@@ -0,0 +1,582 @@
+// Parametric practice items. Each skill has a generator that builds a fresh
+// question with its answer, plausible wrong answers and a hint, sized to the
+// student's grade band and difficulty. Items are seeded: the same skill,
+// options and seed always give the same item, so a session can be replayed
+// and a generated quiz regraded.
+
+import type { LessonContent } from '@shared/schema';
+import type { QuestionType } from '../types/conversationState';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+export type GradeBand = 'k-2' | '3-5' | '6-8' | '9-12' | 'college';
+
+export type PracticeSkill =
+  | 'addition'
+  | 'subtraction'
+  | 'multiplication'
+  | 'division'
+  | 'sequences'
+  | 'place-value'
+  | 'fractions'
+  | 'parts-of-speech'
+  | 'spanish-vocab';
+
+export interface PracticeOptions {
+  difficulty: Difficulty;
+  gradeBand: GradeBand;
+  seed: number;
+}
+
+export interface PracticeItem {
+  skill: PracticeSkill;
+  seed: number;
+  question: string;
+  answer: string;
+  acceptedAnswers: string[]; // other forms graded as correct ("seven", "el perro")
+  questionType: QuestionType;
+  distractors: string[]; // plausible wrong answers, for multiple choice
+  hint: string;
+  explanation: string;
+}
+
+type GeneratedItem = Omit<PracticeItem, 'skill' | 'seed'>;
+type PracticeGenerator = (rng: Rng, level: number) => GeneratedItem;
+export type PracticeQuizQuestion = LessonContent['quiz'][number];
+
+const DISTRACTOR_COUNT = 3;
+
+// ---------------------------------------------------------------------------
+// Seeded randomness
+
+export interface Rng {
+  next(): number; // [0, 1)
+  int(min: number, max: number): number; // inclusive
+  pick<T>(items: T[]): T;
+  shuffle<T>(items: T[]): T[];
+}
+
+// mulberry32: small, fast and plenty for picking practice numbers
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  return {
+    next,
+    int,
+    pick: items => items[int(0, items.length - 1)],
+    shuffle: items => {
+      const copy = items.slice();
+      for (let i = copy.length - 1; i > 0; i--) {
+        const j = int(0, i);
+        const swap = copy[i];
+        copy[i] = copy[j];
+        copy[j] = swap;
+      }
+      return copy;
+    },
+  };
+}
+
+// FNV-1a, for turning a session ID and turn count into a seed
+export function seedFrom(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// ---------------------------------------------------------------------------
+// Levels
+
+const BAND_BASE: Record<GradeBand, number> = { 'k-2': 0, '3-5': 2, '6-8': 3, '9-12': 4, 'college': 4 };
+const DIFFICULTY_STEP: Record<Difficulty, number> = { easy: 0, medium: 1, hard: 2 };
+const MAX_LEVEL = 6;
+
+// 0 (kindergarten, easy) to 6 (high school, hard)
+export function practiceLevel(gradeBand: GradeBand, difficulty: Difficulty): number {
+  return Math.min(BAND_BASE[gradeBand] + DIFFICULTY_STEP[difficulty], MAX_LEVEL);
+}
+
+// Student profiles store bands as 'k-2', 'K-2', 'College/Adult', ...; accounts as 'grades-3-5', 'kindergarten-2', ...
+export function normalizeGradeBand(value: string | null | undefined): GradeBand {
+  const text = (value || '').toLowerCase().replace(/^grades-/, '');
+  if (text.startsWith('college') || text.includes('adult')) return 'college';
+  if (text === '3-5' || text === '6-8' || text === '9-12') return text;
+  return 'k-2';
+}
+
+export function difficultyFromLevel(label: string | null | undefined): Difficulty {
+  if (label === 'advanced' || label === 'hard') return 'hard';
+  if (label === 'intermediate' || label === 'medium') return 'medium';
+  return 'easy';
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+
+function formatNumber(value: number): string {
+  const digits = String(Math.abs(value));
+  const grouped = digits.length > 4 ? digits.replace(/\B(?=(\d{3})+(?!\d))/g, ',') : digits;
+  return value < 0 ? `-${grouped}` : grouped;
+}
+
+/**
+ * Up to `count` distinct wrong answers from `candidates`, topped up from
+ * `fallback` when the candidates run out or collide with the answer.
+ */
+function distractorsFor(answer: string, candidates: string[], fallback: () => string, rng: Rng, count: number = DISTRACTOR_COUNT): string[] {
+  const seen = new Set<string>([answer.toLowerCase()]);
+  const chosen: string[] = [];
+  const add = (candidate: string) => {
+    const key = candidate.toLowerCase();
+    if (candidate && !seen.has(key) && chosen.length < count) {
+      seen.add(key);
+      chosen.push(candidate);
+    }
+  };
+  rng.shuffle(candidates).forEach(add);
+  for (let attempts = 0; chosen.length < count && attempts < 50; attempts++) {
+    add(fallback());
+  }
+  return chosen;
+}
+
+function numericDistractors(answer: number, spread: number, rng: Rng, near: number[] = []): string[] {
+  const candidates = near.concat([answer + 1, answer - 1, answer + spread, answer - spread])
+    .filter(value => value >= 0 && value % 1 === 0 && value !== answer)
+    .map(formatNumber);
+  return distractorsFor(formatNumber(answer), candidates, () => formatNumber(Math.max(0, answer + rng.int(-spread - 2, spread + 2))), rng);
+}
+
+// ---------------------------------------------------------------------------
+// Arithmetic facts
+
+const SUM_LIMITS = [5, 10, 20, 50, 100, 500, 1000];
+const FACTOR_LIMITS = [2, 5, 10, 10, 12, 15, 20];
+
+function tensSpread(value: number): number {
+  return value >= 20 ? 10 : 2;
+}
+
+const addition: PracticeGenerator = (rng, level) => {
+  const limit = SUM_LIMITS[level];
+  const a = rng.int(level === 0 ? 0 : 1, limit - 1);
+  const b = rng.int(1, limit - a);
+  const sum = a + b;
+  return {
+    question: `What is ${formatNumber(a)} plus ${formatNumber(b)}?`,
+    answer: formatNumber(sum),
+    acceptedAnswers: [],
+    questionType: 'math',
+    distractors: numericDistractors(sum, tensSpread(sum), rng, [Math.abs(a - b)]),
+    hint: sum <= 20 ? `Start at ${a} and count on ${b} more.` : 'Add the ones first, then the tens.',
+    explanation: `${formatNumber(a)} plus ${formatNumber(b)} is ${formatNumber(sum)}.`,
+  };
+};
+
+const subtraction: PracticeGenerator = (rng, level) => {
+  const limit = SUM_LIMITS[level];
+  const a = rng.int(1, limit);
+  const b = rng.int(1, a);
+  const difference = a - b;
+  return {
+    question: `What is ${formatNumber(a)} minus ${formatNumber(b)}?`,
+    answer: formatNumber(difference),
+    acceptedAnswers: [],
+    questionType: 'math',
+    distractors: numericDistractors(difference, tensSpread(a), rng, [a + b]),
+    hint: a <= 20 ? `Start at ${a} and count back ${b}.` : `Think: what plus ${formatNumber(b)} makes ${formatNumber(a)}?`,
+    explanation: `${formatNumber(a)} minus ${formatNumber(b)} is ${formatNumber(difference)}.`,
+  };
+};
+
+const multiplication: PracticeGenerator = (rng, level) => {
+  const limit = FACTOR_LIMITS[level];
+  const a = rng.int(level === 0 ? 0 : 1, limit);
+  const b = rng.int(1, limit);
+  const product = a * b;
+  return {
+    question: `What is ${a} times ${b}?`,
+    answer: formatNumber(product),
+    acceptedAnswers: [],
+    questionType: 'math',
+    distractors: numericDistractors(product, Math.max(a, 1), rng, [a + b, product + b, Math.abs(product - b)]),
+    hint: `${a} times ${b} means ${b} group${b === 1 ? '' : 's'} of ${a}. Try skip counting by ${a}.`,
+    explanation: `${a} times ${b} is ${formatNumber(product)}.`,
+  };
+};
+
+const division: PracticeGenerator = (rng, level) => {
+  const limit = FACTOR_LIMITS[level];
+  const divisor = rng.int(level === 0 ? 1 : 2, Math.max(2, limit));
+  const quotient = rng.int(1, limit);
+  const dividend = divisor * quotient;
+  return {
+    question: `What is ${formatNumber(dividend)} divided by ${divisor}?`,
+    answer: formatNumber(quotient),
+    acceptedAnswers: [],
+    questionType: 'math',
+    distractors: numericDistractors(quotient, 2, rng, [dividend - divisor, quotient * 2]),
+    hint: `How many groups of ${divisor} make ${formatNumber(dividend)}?`,
+    explanation: `${divisor} times ${quotient} is ${formatNumber(dividend)}, so ${formatNumber(dividend)} divided by ${divisor} is ${quotient}.`,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Number sequences
+
+const SEQUENCE_STEPS = [[1], [1, 2], [2, 5, 10], [2, 3, 5, 10], [3, 4, 6, 25], [-2, -5, 7, 9, 25], [-3, -7, 11, 12, 15, 50]];
+
+const sequences: PracticeGenerator = (rng, level) => {
+  const step = rng.pick(SEQUENCE_STEPS[level]);
+  const length = level < 2 ? 3 : 4;
+  // Counting down has to stay at or above zero
+  const minStart = step < 0 ? -step * length : 0;
+  let start = rng.int(minStart, minStart + (level < 2 ? 10 : 50));
+  if (step > 1 && level < 3) start -= start % step; // early skip counting starts on a multiple: 10, 20, 30
+  const terms = Array.from({ length }, (_, i) => start + i * step);
+  const next = start + length * step;
+  const shown = terms.map(formatNumber).join(', ');
+  const counting = step === 1 ? 'counting up by ones' : step > 0 ? `adding ${step} each time` : `taking away ${-step} each time`;
+  return {
+    question: `What number comes next: ${shown}?`,
+    answer: formatNumber(next),
+    acceptedAnswers: [],
+    questionType: 'math',
+    distractors: numericDistractors(next, Math.abs(step), rng, [next + 1, terms[length - 1] + 1, next + step]),
+    hint: `Look at how much each number changes from the one before.`,
+    explanation: `The pattern is ${counting}, so after ${formatNumber(terms[length - 1])} comes ${formatNumber(next)}.`,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Place value
+
+const PLACE_NAMES = ['ones', 'tens', 'hundreds', 'thousands', 'ten thousands', 'hundred thousands'];
+const PLACE_DIGITS = [2, 2, 3, 3, 4, 5, 6];
+
+const placeValue: PracticeGenerator = (rng, level) => {
+  const digitCount = PLACE_DIGITS[level];
+  const digits = Array.from({ length: digitCount }, (_, i) => rng.int(i === 0 ? 1 : 0, 9));
+  const number = parseInt(digits.join(''), 10);
+  const place = rng.int(0, digitCount - 1); // counted from the right
+  const digit = digits[digitCount - 1 - place];
+  const otherDigits = digits.filter((_, i) => i !== digitCount - 1 - place).map(String);
+  return {
+    question: `In the number ${formatNumber(number)}, which digit is in the ${PLACE_NAMES[place]} place?`,
+    answer: String(digit),
+    acceptedAnswers: [],
+    questionType: 'math',
+    distractors: distractorsFor(String(digit), otherDigits, () => String(rng.int(0, 9)), rng),
+    hint: place === 0
+      ? 'The ones place is the last digit on the right.'
+      : `The ones place is the last digit on the right. Count ${place} place${place === 1 ? '' : 's'} to the left from there.`,
+    explanation: `In ${formatNumber(number)}, the ${PLACE_NAMES[place]} digit is ${digit}, worth ${formatNumber(digit * Math.pow(10, place))}.`,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Fractions
+
+const FRACTION_DENOMINATORS = [[2], [2, 4], [2, 3, 4], [3, 4, 5, 6], [4, 5, 6, 8], [5, 6, 8, 10], [6, 8, 10, 12]];
+
+const fractions: PracticeGenerator = (rng, level) => {
+  const denominator = rng.pick(FRACTION_DENOMINATORS[level]);
+
+  if (level < 4) {
+    // A fraction of a whole number: "What is 3/4 of 20?"
+    const numerator = level < 2 ? 1 : rng.int(1, denominator - 1);
+    const part = rng.int(1, level < 2 ? 5 : 10);
+    const whole = denominator * part;
+    const answer = numerator * part;
+    const name = `${numerator}/${denominator}`;
+    return {
+      question: `What is ${name} of ${whole}?`,
+      answer: String(answer),
+      acceptedAnswers: [],
+      questionType: 'math',
+      distractors: numericDistractors(answer, part, rng, [part, whole - answer, whole / numerator]),
+      hint: `First split ${whole} into ${denominator} equal parts. How big is each part?`,
+      explanation: `${whole} split into ${denominator} equal parts is ${part} each, and ${numerator} of those parts is ${answer}.`,
+    };
+  }
+
+  // Adding fractions with the same denominator: "What is 1/5 plus 2/5?"
+  const a = rng.int(1, denominator - 2);
+  const b = rng.int(1, denominator - 1 - a);
+  const sum = `${a + b}/${denominator}`;
+  return {
+    question: `What is ${a}/${denominator} plus ${b}/${denominator}?`,
+    answer: sum,
+    acceptedAnswers: [],
+    questionType: 'math',
+    distractors: distractorsFor(sum, [`${a + b}/${denominator * 2}`, `${a * b}/${denominator}`, `${Math.abs(a - b)}/${denominator}`],
+      () => `${rng.int(1, denominator)}/${denominator}`, rng),
+    hint: 'When the bottom numbers match, keep the bottom number and add the top numbers.',
+    explanation: `${a} ${denominator}ths plus ${b} ${denominator}ths is ${a + b} ${denominator}ths, or ${sum}.`,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Parts of speech
+
+type PartOfSpeech = 'noun' | 'verb' | 'adjective' | 'adverb';
+
+// Basic words for early readers, then harder ones from grade 6 up. Words that
+// are commonly more than one part of speech ("run", "play", "cold") are left out.
+const WORD_LIST: Record<PartOfSpeech, [string[], string[]]> = {
+  noun: [
+    ['cat', 'school', 'apple', 'tree', 'house', 'teacher', 'river', 'pencil', 'garden', 'kitchen'],
+    ['freedom', 'courage', 'knowledge', 'village', 'invention', 'happiness', 'library', 'mountain'],
+  ],
+  verb: [
+    ['eat', 'sing', 'write', 'go', 'sit', 'bring', 'give', 'take', 'think', 'see'],
+    ['discover', 'imagine', 'explain', 'celebrate', 'protect', 'arrive', 'borrow', 'choose'],
+  ],
+  adjective: [
+    ['happy', 'big', 'soft', 'tall', 'funny', 'small', 'loud', 'hungry', 'sleepy', 'busy'],
+    ['curious', 'ancient', 'fragile', 'enormous', 'generous', 'brilliant', 'anxious', 'gentle'],
+  ],
+  adverb: [
+    ['quickly', 'slowly', 'loudly', 'happily', 'quietly', 'softly', 'gently', 'badly'],
+    ['eagerly', 'carefully', 'suddenly', 'rarely', 'gracefully', 'reluctantly', 'boldly', 'silently'],
+  ],
+};
+
+const PART_HINTS: Record<PartOfSpeech, string> = {
+  noun: 'A noun names a person, place or thing.',
+  verb: 'A verb is an action word, something you can do.',
+  adjective: 'An adjective describes a noun, like its size or color.',
+  adverb: 'An adverb tells how something is done, and often ends in -ly.',
+};
+
+// Hints for classifying a word: try it in a sentence, without naming the answer
+const PART_TESTS: Record<PartOfSpeech, (word: string) => string> = {
+  noun: word => `Try saying "the ${word}". Does that sound right?`,
+  verb: word => `Try saying "I can ${word}" or "they ${word}". Does that sound right?`,
+  adjective: word => `Try saying "a very ${word} dog". Does that sound right?`,
+  adverb: word => `Try saying "she sang ${word}". Does it tell how she sang?`,
+};
+
+function partsForLevel(level: number): PartOfSpeech[] {
+  if (level < 2) return ['noun', 'verb'];
+  if (level < 4) return ['noun', 'verb', 'adjective'];
+  return ['noun', 'verb', 'adjective', 'adverb'];
+}
+
+function wordsFor(part: PartOfSpeech, level: number): string[] {
+  const [basic, advanced] = WORD_LIST[part];
+  return level >= 4 ? advanced.concat(basic) : basic;
+}
+
+const partsOfSpeech: PracticeGenerator = (rng, level) => {
+  const parts = partsForLevel(level);
+  const part = rng.pick(parts);
+  const others = parts.filter(other => other !== part);
+
+  if (rng.next() < 0.5) {
+    // Classify one word
+    const word = rng.pick(wordsFor(part, level));
+    const choices = rng.shuffle(parts);
+    const spoken = choices.map(choice => `${/^[aeiou]/.test(choice) ? 'an' : 'a'} ${choice}`);
+    return {
+      question: `Is the word "${word}" ${spoken.slice(0, -1).join(', ')} or ${spoken[spoken.length - 1]}?`,
+      answer: part,
+      acceptedAnswers: [],
+      questionType: 'short',
+      distractors: others,
+      hint: PART_TESTS[part](word),
+      explanation: `"${word}" is ${/^[aeiou]/.test(part) ? 'an' : 'a'} ${part}. ${PART_HINTS[part]}`,
+    };
+  }
+
+  // Find the word that is a given part of speech
+  const word = rng.pick(wordsFor(part, level));
+  const wrongWords = others.map(other => rng.pick(wordsFor(other, level)));
+  const choices = rng.shuffle([word].concat(wrongWords.slice(0, 2)));
+  return {
+    question: `Which word is ${/^[aeiou]/.test(part) ? 'an' : 'a'} ${part}: ${choices.slice(0, -1).join(', ')} or ${choices[choices.length - 1]}?`,
+    answer: word,
+    acceptedAnswers: [],
+    questionType: 'short',
+    distractors: distractorsFor(word, wrongWords, () => rng.pick(wordsFor(rng.pick(others), level)), rng),
+    hint: PART_HINTS[part],
+    explanation: `"${word}" is ${/^[aeiou]/.test(part) ? 'an' : 'a'} ${part}. ${PART_HINTS[part]}`,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Spanish vocabulary
+
+interface LexiconEntry {
+  es: string; // with its article for nouns
+  en: string;
+  topic: string;
+  tier: number; // 0 first words, 1 everyday, 2 wider vocabulary
+}
+
+const SPANISH_LEXICON: LexiconEntry[] = [
+  { es: 'hola', en: 'hello', topic: 'greeting', tier: 0 },
+  { es: 'adiós', en: 'goodbye', topic: 'greeting', tier: 0 },
+  { es: 'gracias', en: 'thank you', topic: 'greeting', tier: 0 },
+  { es: 'por favor', en: 'please', topic: 'greeting', tier: 0 },
+  { es: 'buenos días', en: 'good morning', topic: 'greeting', tier: 1 },
+  { es: 'buenas noches', en: 'good night', topic: 'greeting', tier: 1 },
+  { es: 'uno', en: 'one', topic: 'number', tier: 0 },
+  { es: 'dos', en: 'two', topic: 'number', tier: 0 },
+  { es: 'tres', en: 'three', topic: 'number', tier: 0 },
+  { es: 'cinco', en: 'five', topic: 'number', tier: 0 },
+  { es: 'diez', en: 'ten', topic: 'number', tier: 1 },
+  { es: 'veinte', en: 'twenty', topic: 'number', tier: 2 },
+  { es: 'rojo', en: 'red', topic: 'color', tier: 0 },
+  { es: 'azul', en: 'blue', topic: 'color', tier: 0 },
+  { es: 'verde', en: 'green', topic: 'color', tier: 0 },
+  { es: 'amarillo', en: 'yellow', topic: 'color', tier: 0 },
+  { es: 'blanco', en: 'white', topic: 'color', tier: 1 },
+  { es: 'negro', en: 'black', topic: 'color', tier: 1 },
+  { es: 'el perro', en: 'the dog', topic: 'animal', tier: 0 },
+  { es: 'el gato', en: 'the cat', topic: 'animal', tier: 0 },
+  { es: 'el pájaro', en: 'the bird', topic: 'animal', tier: 1 },
+  { es: 'el caballo', en: 'the horse', topic: 'animal', tier: 1 },
+  { es: 'la vaca', en: 'the cow', topic: 'animal', tier: 1 },
+  { es: 'la madre', en: 'the mother', topic: 'family', tier: 0 },
+  { es: 'el padre', en: 'the father', topic: 'family', tier: 0 },
+  { es: 'el hermano', en: 'the brother', topic: 'family', tier: 1 },
+  { es: 'la hermana', en: 'the sister', topic: 'family', tier: 1 },
+  { es: 'los abuelos', en: 'the grandparents', topic: 'family', tier: 2 },
+  { es: 'el agua', en: 'the water', topic: 'food', tier: 0 },
+  { es: 'el pan', en: 'the bread', topic: 'food', tier: 1 },
+  { es: 'la leche', en: 'the milk', topic: 'food', tier: 1 },
+  { es: 'la manzana', en: 'the apple', topic: 'food', tier: 1 },
+  { es: 'el queso', en: 'the cheese', topic: 'food', tier: 2 },
+  { es: 'lunes', en: 'Monday', topic: 'day', tier: 1 },
+  { es: 'martes', en: 'Tuesday', topic: 'day', tier: 1 },
+  { es: 'miércoles', en: 'Wednesday', topic: 'day', tier: 2 },
+  { es: 'viernes', en: 'Friday', topic: 'day', tier: 2 },
+  { es: 'la escuela', en: 'the school', topic: 'place', tier: 1 },
+  { es: 'la biblioteca', en: 'the library', topic: 'place', tier: 2 },
+  { es: 'el mercado', en: 'the market', topic: 'place', tier: 2 },
+  { es: 'hablar', en: 'to speak', topic: 'verb', tier: 1 },
+  { es: 'comer', en: 'to eat', topic: 'verb', tier: 1 },
+  { es: 'vivir', en: 'to live', topic: 'verb', tier: 2 },
+  { es: 'aprender', en: 'to learn', topic: 'verb', tier: 2 },
+];
+
+// "el perro" -> "perro", "the dog" -> "dog", "to speak" -> "speak"
+function bareWord(text: string): string {
+  return text.replace(/^(el|la|los|las|the|to) /i, '');
+}
+
+const spanishVocab: PracticeGenerator = (rng, level) => {
+  const maxTier = level < 2 ? 0 : level < 4 ? 1 : 2;
+  const pool = SPANISH_LEXICON.filter(entry => entry.tier <= maxTier);
+  const entry = rng.pick(pool);
+  const sameTopic = pool.filter(other => other.topic === entry.topic && other !== entry);
+  const anyOther = () => rng.pick(pool.filter(other => other !== entry));
+
+  if (rng.next() < 0.5) {
+    return {
+      question: `How do you say "${bareWord(entry.en)}" in Spanish?`,
+      answer: entry.es,
+      acceptedAnswers: bareWord(entry.es) !== entry.es ? [bareWord(entry.es)] : [],
+      questionType: 'short',
+      distractors: distractorsFor(entry.es, sameTopic.map(other => other.es), () => anyOther().es, rng),
+      hint: `It's one of the ${entry.topic} words, and it starts with "${bareWord(entry.es).charAt(0)}".`,
+      explanation: `"${bareWord(entry.en)}" in Spanish is "${entry.es}".`,
+    };
+  }
+
+  return {
+    question: `What does "${entry.es}" mean in English?`,
+    answer: entry.en,
+    acceptedAnswers: bareWord(entry.en) !== entry.en ? [bareWord(entry.en)] : [],
+    questionType: 'short',
+    distractors: distractorsFor(entry.en, sameTopic.map(other => other.en), () => anyOther().en, rng),
+    hint: `It's one of the ${entry.topic} words.`,
+    explanation: `"${entry.es}" means "${entry.en}".`,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+
+export const PRACTICE_GENERATORS: Record<PracticeSkill, PracticeGenerator> = {
+  'addition': addition,
+  'subtraction': subtraction,
+  'multiplication': multiplication,
+  'division': division,
+  'sequences': sequences,
+  'place-value': placeValue,
+  'fractions': fractions,
+  'parts-of-speech': partsOfSpeech,
+  'spanish-vocab': spanishVocab,
+};
+
+export const PRACTICE_SKILLS = Object.keys(PRACTICE_GENERATORS) as PracticeSkill[];
+
+// Skills to draw fallback questions from for a lesson subject
+export function skillsForSubject(subject: string, gradeBand: GradeBand): PracticeSkill[] {
+  switch (subject) {
+    case 'math':
+      return gradeBand === 'k-2'
+        ? ['addition', 'subtraction', 'sequences', 'place-value']
+        : ['addition', 'subtraction', 'multiplication', 'division', 'sequences', 'place-value', 'fractions'];
+    case 'english':
+    case 'grammar':
+      return ['parts-of-speech'];
+    case 'spanish':
+      return ['spanish-vocab'];
+    default:
+      return [];
+  }
+}
+
+export function generatePracticeItem(skill: PracticeSkill, options: PracticeOptions): PracticeItem {
+  const rng = createRng(options.seed);
+  const item = PRACTICE_GENERATORS[skill](rng, practiceLevel(options.gradeBand, options.difficulty));
+  return { skill, seed: options.seed, ...item };
+}
+
+// One item from any of the subject's skills, or null for subjects without generators
+export function generateForSubject(subject: string, options: PracticeOptions): PracticeItem | null {
+  const skills = skillsForSubject(subject, options.gradeBand);
+  if (skills.length === 0) return null;
+  const skill = skills[createRng(options.seed ^ 0x9e3779b9).int(0, skills.length - 1)];
+  return generatePracticeItem(skill, options);
+}
+
+// Multiple choice in the lesson quiz format; the option order is seeded too
+export function toQuizQuestion(item: PracticeItem): PracticeQuizQuestion {
+  const options = createRng(item.seed + 1).shuffle([item.answer].concat(item.distractors));
+  return {
+    question: item.question,
+    options,
+    correctAnswer: options.indexOf(item.answer),
+    explanation: item.explanation,
+    concept: item.skill,
+  };
+}
+
+/**
+ * `count` quiz questions for a skill with no repeated question, seeded from
+ * `options.seed` so an author can regenerate the same quiz.
+ */
+export function buildPracticeQuiz(skill: PracticeSkill, count: number, options: PracticeOptions): PracticeQuizQuestion[] {
+  const questions: PracticeQuizQuestion[] = [];
+  const seen = new Set<string>();
+  for (let i = 0; questions.length < count && i < count * 10; i++) {
+    const item = generatePracticeItem(skill, { ...options, seed: seedFrom(`${options.seed}:${i}`) });
+    if (seen.has(item.question) || item.distractors.length === 0) continue;
+    seen.add(item.question);
+    questions.push(toQuizQuestion(item));
+  }
+  return questions;
+}
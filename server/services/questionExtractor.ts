@@ -0,0 +1,189 @@
+// Finds the numbered questions on an uploaded worksheet so a student can be
+// walked through them one at a time. Works on the same blocks the chunker
+// uses, so page numbers and section headings carry over.
+
+import { parseQuestionNumber, type DocumentBlock } from './documentChunker';
+import { evaluateExpression, normalizeExpression, normalizeText, parseRational } from './answerGrader';
+
+// Matches the answer hints the checker understands
+export type WorksheetQuestionType = 'mcq' | 'math' | 'short' | 'open';
+
+export interface ExtractedQuestion {
+  number: string;   // as printed: "3", "4b"
+  page?: number;
+  section?: string; // nearest heading
+  prompt: string;   // question text without its options or answer key
+  type: WorksheetQuestionType;
+  options: string[];
+  blanks: number;
+  answer?: string;  // printed on the sheet ("Answer: B") or computed for plain arithmetic
+}
+
+const BLANK_PATTERN = /_{3,}/g;
+// "A) 12", "b. 15", "(c) 18" after the start of the text or whitespace
+const OPTION_PATTERN = /(^|\s)\(?([A-Ha-h])[).]\s+/g;
+const OPTION_START_PATTERN = /^\(?[Aa][).]\s+/;
+const ANSWER_KEY_PATTERN = /(?:^|\s)(?:answer|ans)\s*[:=]\s*([^_\s][^_]*?)\s*$/i;
+const ANSWER_LINE_PATTERN = /^(?:answer|ans)\s*[:=]/i;
+const INSTRUCTION_PREFIX = /^(?:simplify|calculate|compute|evaluate|work out|find|what is|what's|how much is)\s*:?\s*/i;
+const MATH_VERB = /\b(?:solve|simplify|calculate|compute|evaluate|work out|factor|expand|multiply|divide|subtract|round|estimate)\b/i;
+const QUESTION_VERB = /^(?:what|which|who|whom|whose|when|where|why|how|find|solve|write|explain|describe|name|list|circle|choose|select|fill|complete|simplify|calculate|compute|evaluate|show|draw|identify|compare|define|use|translate|underline|match|estimate|round|convert|label|is|are|does|do|can)\b/i;
+
+/**
+ * Split "Which is even? A) 3 B) 4 C) 5" into its stem and options. Options must
+ * run A, B, C... in one case; a lone "a." is more likely prose than a choice.
+ */
+export function splitOptions(text: string): { stem: string; options: string[] } {
+  const markers: Array<{ letter: string; start: number; end: number }> = [];
+  let match: RegExpExecArray | null;
+  OPTION_PATTERN.lastIndex = 0;
+  while ((match = OPTION_PATTERN.exec(text)) !== null) {
+    markers.push({ letter: match[2], start: match.index + match[1].length, end: match.index + match[0].length });
+  }
+
+  const first = markers.findIndex(marker => marker.letter === 'A' || marker.letter === 'a');
+  if (first < 0) return { stem: text.trim(), options: [] };
+
+  const run = [markers[first]];
+  for (let i = first + 1; i < markers.length; i++) {
+    const previous = run[run.length - 1].letter;
+    if (markers[i].letter === String.fromCharCode(previous.charCodeAt(0) + 1)) run.push(markers[i]);
+  }
+  if (run.length < 2) return { stem: text.trim(), options: [] };
+
+  const options = run.map((marker, i) => text.slice(marker.end, i + 1 < run.length ? run[i + 1].start : undefined).trim());
+  return { stem: text.slice(0, run[0].start).trim(), options };
+}
+
+export function countBlanks(text: string): number {
+  return (text.match(BLANK_PATTERN) || []).length;
+}
+
+function asFraction(value: number): string {
+  for (let den = 1; den <= 1000; den++) {
+    const num = Math.round(value * den);
+    if (Math.abs(num / den - value) < 1e-9) return den === 1 ? String(num) : `${num}/${den}`;
+  }
+  return String(parseFloat(value.toFixed(4)));
+}
+
+/**
+ * Answer key for a plain arithmetic prompt ("7 x 8 = ____", "Simplify 6/8").
+ * Fractions stay fractions so an unsimplified reply can be caught.
+ */
+export function computeAnswer(prompt: string): string | null {
+  const expression = prompt
+    .replace(BLANK_PATTERN, ' ')
+    .trim()
+    .replace(INSTRUCTION_PREFIX, '')
+    .replace(/\s*[=?]+\s*$/, '')
+    .replace(/(\d)\s*[xX]\s*(\d)/g, '$1 * $2')
+    .trim();
+  if (!/\d/.test(expression) || !/[-+*/×÷^]|\b(?:plus|minus|times|divided)\b/.test(expression)) return null;
+
+  const value = evaluateExpression(normalizeExpression(expression));
+  if (value === null || !isFinite(value)) return null;
+  if (Number.isInteger(value)) return String(value);
+  return /[/÷]/.test(expression) ? asFraction(value) : String(parseFloat(value.toFixed(4)));
+}
+
+/**
+ * Whether a fraction reply must be in lowest terms: the prompt asks to
+ * simplify or reduce, or the key is itself a fraction in lowest terms.
+ */
+export function requiresSimplestForm(prompt: string, answer: string | null | undefined): boolean {
+  if (/\b(?:simplify|simplified|reduce|reduced|lowest terms|simplest form)\b/i.test(prompt)) return true;
+  const key = answer && answer.includes('/') ? parseRational(normalizeText(answer)) : null;
+  if (!key || key.den === 1) return false;
+
+  let [a, b] = [Math.abs(key.num), key.den];
+  while (b) [a, b] = [b, a % b];
+  return a === 1;
+}
+
+function classify(prompt: string, options: string[], blanks: number): WorksheetQuestionType {
+  if (options.length >= 2) return 'mcq';
+  if (computeAnswer(prompt) !== null || MATH_VERB.test(prompt) || /\d\s*(?:[-+×÷*/^=]|[xX](?=\s*\d))\s*\d/.test(prompt)) return 'math';
+  if (blanks > 0) return 'short';
+  return 'open';
+}
+
+// Numbered lists in notes aren't questions; worksheet items ask, instruct or leave a blank
+function looksLikeQuestion(prompt: string, options: string[], blanks: number): boolean {
+  return prompt.includes('?') || blanks > 0 || options.length >= 2 || QUESTION_VERB.test(prompt) || classify(prompt, options, blanks) === 'math';
+}
+
+function buildQuestion(draft: { number: string; page?: number; section?: string; text: string }): ExtractedQuestion | null {
+  let text = draft.text.trim();
+  let answer: string | undefined;
+  const key = text.match(ANSWER_KEY_PATTERN);
+  if (key) {
+    answer = key[1].trim().replace(/[.)]+$/, '');
+    text = text.slice(0, key.index).trim();
+  }
+
+  const { stem, options } = splitOptions(text);
+  const blanks = countBlanks(stem);
+  if (!stem || !looksLikeQuestion(stem, options, blanks)) return null;
+
+  const type = classify(stem, options, blanks);
+  if (!answer && type === 'math') answer = computeAnswer(stem) || undefined;
+
+  return {
+    number: draft.number,
+    page: draft.page,
+    section: draft.section,
+    prompt: stem.replace(BLANK_PATTERN, '____'),
+    type,
+    options,
+    blanks,
+    answer,
+  };
+}
+
+/**
+ * Walk the blocks in order. A question runs from its numbered paragraph through
+ * any following option lines, answer lines or bare blanks, and ends at the next
+ * question, heading or ordinary paragraph.
+ */
+export function extractQuestions(blocks: DocumentBlock[]): ExtractedQuestion[] {
+  const questions: ExtractedQuestion[] = [];
+  let section: string | undefined;
+  let draft: { number: string; page?: number; section?: string; text: string } | null = null;
+
+  const close = () => {
+    if (draft) {
+      const question = buildQuestion(draft);
+      if (question) questions.push(question);
+    }
+    draft = null;
+  };
+
+  for (const block of blocks) {
+    const text = block.text.trim();
+    if (!text) continue;
+
+    if (block.headingLevel) {
+      close();
+      section = text;
+      continue;
+    }
+
+    const numbered = parseQuestionNumber(text);
+    if (numbered) {
+      close();
+      draft = { number: numbered.number, page: block.page, section, text: numbered.rest };
+      continue;
+    }
+
+    const continues = OPTION_START_PATTERN.test(text) || ANSWER_LINE_PATTERN.test(text) || !text.replace(BLANK_PATTERN, '').trim();
+    if (draft && (continues || !draft.text)) {
+      draft.text += ` ${text}`;
+    } else {
+      close();
+    }
+  }
+  close();
+
+  return questions;
+}
@@ -0,0 +1,183 @@
+// Self-test quizzes from a student's own documents: pick source chunks spread
+// across the document, prompt the model with them, validate what comes back
+// against the chunks it cites, and score submissions the way lesson quizzes
+// are scored.
+
+import { z } from 'zod';
+import { documentQuizQuestionSchema, type DocumentQuizQuestion } from '@shared/schema';
+import { answerChecker } from './answerChecker';
+import { formatCitation, type ChunkMetadata } from './documentChunker';
+
+export interface QuizSourceChunk {
+  chunkId: string;
+  chunkIndex: number;
+  content: string;
+  metadata: ChunkMetadata | null;
+}
+
+export interface QuizOptions {
+  questionCount: number;
+  shortAnswerCount: number; // the rest are multiple choice
+}
+
+export interface QuizFeedback {
+  questionIndex: number;
+  correct: boolean;
+  explanation: string;
+  correctAnswer: string;
+  citation: string;
+}
+
+export interface QuizScore {
+  score: number;
+  totalQuestions: number;
+  percentage: number;
+  passed: boolean;
+  feedback: QuizFeedback[];
+}
+
+export const DEFAULT_QUIZ_OPTIONS: QuizOptions = { questionCount: 8, shortAnswerCount: 2 };
+export const MAX_QUIZ_QUESTIONS = 20;
+export const PASSING_PERCENTAGE = 70; // same bar as lesson quizzes
+
+const MIN_SOURCE_WORDS = 25; // headings and page furniture don't make questions
+const MAX_SOURCE_CHUNKS = 12;
+const MAX_SOURCE_CHARS = 1500;
+
+/**
+ * Up to `limit` chunks with enough text to ask about, evenly spaced through
+ * the document so the quiz covers all of it rather than the first pages.
+ */
+export function selectQuizSources(chunks: QuizSourceChunk[], limit: number = MAX_SOURCE_CHUNKS): QuizSourceChunk[] {
+  const usable = chunks
+    .filter(chunk => chunk.content.split(/\s+/).filter(Boolean).length >= MIN_SOURCE_WORDS)
+    .sort((a, b) => a.chunkIndex - b.chunkIndex);
+  if (usable.length <= limit) return usable;
+
+  const step = usable.length / limit;
+  return Array.from({ length: limit }, (_, i) => usable[Math.floor(i * step)]);
+}
+
+export function buildQuizPrompt(documentTitle: string, sources: QuizSourceChunk[], options: QuizOptions): { system: string; user: string } {
+  const mcqCount = options.questionCount - options.shortAnswerCount;
+  const excerpts = sources
+    .map((source, i) => `[S${i + 1}] ${formatCitation(documentTitle, source.metadata)}\n${source.content.slice(0, MAX_SOURCE_CHARS)}`)
+    .join('\n\n');
+
+  const system = `You write self-test quizzes from a student's class materials. Every question must be answerable from the excerpts alone; never use outside facts. Use the excerpts' own vocabulary and keep questions at the reading level of the material.
+
+Reply with JSON: {"questions": [...]}, where each question is one of
+{"type": "mcq", "question": string, "options": [4 distinct strings], "correctAnswer": index of the right option, "explanation": string, "source": "S<n>"}
+{"type": "short", "question": string, "answer": a word, number or short phrase, "explanation": string, "source": "S<n>"}
+
+"source" is the excerpt the answer comes from. Explanations say why the answer is right in one or two sentences, quoting the excerpt where it helps. Wrong options should be plausible to a student who skimmed the material.`;
+
+  const user = `Document: ${documentTitle}
+
+Write ${mcqCount} multiple choice and ${options.shortAnswerCount} short answer question${options.shortAnswerCount === 1 ? '' : 's'}, spread across the excerpts.
+
+${excerpts}`;
+
+  return { system, user };
+}
+
+// Numbers are accepted for options and answers ("answer": 1850) and read as text
+const textItem = z.union([z.string(), z.number()]).transform(value => String(value).trim());
+
+// A question as the model writes it, before its source is resolved to a chunk.
+// Fields that don't apply to the question's type are ignored whatever they hold.
+const generatedQuestionSchema = z.object({
+  type: z.enum(['mcq', 'short']),
+  question: z.string().trim(),
+  options: z.array(textItem).optional(),
+  correctAnswer: z.number().optional().catch(undefined),
+  answer: textItem.optional().catch(undefined),
+  explanation: z.string().trim(),
+  source: z.string(),
+});
+
+const generatedQuizSchema = z.object({
+  questions: z.array(z.unknown()),
+});
+
+function normalizeQuestion(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Questions from the model's JSON reply that pass validation, each tied to the
+ * chunk it cites. Questions citing an unknown excerpt, malformed ones and
+ * repeats are dropped rather than failing the whole quiz.
+ */
+export function parseGeneratedQuiz(raw: unknown, sources: QuizSourceChunk[], documentTitle: string): DocumentQuizQuestion[] {
+  const quiz = generatedQuizSchema.safeParse(raw);
+  const items = quiz.success ? quiz.data.questions : [];
+  const seen = new Set<string>();
+  const questions: DocumentQuizQuestion[] = [];
+
+  for (const item of items) {
+    const generated = generatedQuestionSchema.safeParse(item);
+    if (!generated.success) continue;
+    const candidate = generated.data;
+
+    const match = candidate.source.match(/S?(\d+)/i);
+    const source = match ? sources[parseInt(match[1], 10) - 1] : undefined;
+    if (!source) continue;
+
+    const parsed = documentQuizQuestionSchema.safeParse({
+      type: candidate.type,
+      question: candidate.question,
+      options: candidate.options,
+      correctAnswer: candidate.type === 'mcq' ? candidate.correctAnswer : undefined,
+      answer: candidate.type === 'short' ? candidate.answer : undefined,
+      explanation: candidate.explanation,
+      source: {
+        chunkId: source.chunkId,
+        chunkIndex: source.chunkIndex,
+        citation: formatCitation(documentTitle, source.metadata),
+      },
+    });
+    if (!parsed.success) continue;
+
+    const key = normalizeQuestion(parsed.data.question);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    questions.push(parsed.data);
+  }
+
+  return questions;
+}
+
+export function answerKeyText(question: DocumentQuizQuestion): string {
+  return question.type === 'mcq' ? question.options![question.correctAnswer!] : question.answer!;
+}
+
+/**
+ * Score answers keyed by question index ("0", "1", ...): an option index for
+ * multiple choice, text for short answers.
+ */
+export function scoreDocumentQuiz(questions: DocumentQuizQuestion[], answers: Record<string, unknown>): QuizScore {
+  let score = 0;
+  const feedback = questions.map((question, index) => {
+    const given = answers[index.toString()];
+    let correct = false;
+    if (question.type === 'mcq') {
+      correct = given === question.correctAnswer;
+    } else if (typeof given === 'string' && given.trim()) {
+      correct = answerChecker.checkAnswer(question.answer!, given).ok;
+    }
+    if (correct) score++;
+
+    return {
+      questionIndex: index,
+      correct,
+      explanation: question.explanation,
+      correctAnswer: answerKeyText(question),
+      citation: question.source.citation,
+    };
+  });
+
+  const totalQuestions = questions.length;
+  const percentage = totalQuestions > 0 ? Math.round((score / totalQuestions) * 100) : 0;
+  return { score, totalQuestions, percentage, passed: percentage >= PASSING_PERCENTAGE, feedback };
+}
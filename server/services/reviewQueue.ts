@@ -0,0 +1,144 @@
+import { and, asc, eq, isNull, lte, sql } from 'drizzle-orm';
+import { reviewItems, type ReviewItem } from '@shared/schema';
+import { db } from '../db';
+import { lessonsService } from './lessons';
+import { INITIAL_SCHEDULE, interleaveByLesson, qualityFromOutcome, scheduleReview } from './spacedRepetition';
+
+export type QuizItemOutcome = 'correct' | 'incorrect' | 'skipped';
+
+export interface DueReviewItem {
+  reviewItemId: string;
+  lessonId: string;
+  lessonTitle: string;
+  questionIndex: number;
+  question: string;
+  options: string[];
+  visual?: string;
+  dueAt: Date;
+  lapses: number;
+}
+
+export interface ReviewResult {
+  correct: boolean;
+  correctAnswer: number;
+  explanation: string;
+  nextDueAt: Date;
+}
+
+// Scheduling is per learner: the account holder (studentId null) or one of their student profiles
+function learnerFilter(userId: string, studentId: string | null) {
+  return and(
+    eq(reviewItems.userId, userId),
+    studentId ? eq(reviewItems.studentId, studentId) : isNull(reviewItems.studentId)
+  );
+}
+
+class ReviewQueueService {
+  // Fold a graded lesson quiz into the learner's review schedule
+  async recordQuizResults(
+    userId: string,
+    studentId: string | null,
+    lessonId: string,
+    outcomes: Array<{ questionIndex: number; outcome: QuizItemOutcome }>
+  ): Promise<void> {
+    const existing = await db.select().from(reviewItems)
+      .where(and(learnerFilter(userId, studentId), eq(reviewItems.lessonId, lessonId)));
+    const byIndex = new Map(existing.map(item => [item.questionIndex, item]));
+
+    const now = new Date();
+    for (const { questionIndex, outcome } of outcomes) {
+      const current = byIndex.get(questionIndex);
+      const next = scheduleReview(current || INITIAL_SCHEDULE, qualityFromOutcome(outcome), now);
+      const values = {
+        ...next,
+        lastReviewedAt: now,
+        lastCorrect: outcome === 'correct',
+        updatedAt: now,
+      };
+
+      if (current) {
+        await db.update(reviewItems).set(values).where(eq(reviewItems.id, current.id));
+      } else {
+        await db.insert(reviewItems)
+          .values({ userId, studentId, lessonId, questionIndex, ...values })
+          .onConflictDoUpdate({
+            target: [reviewItems.userId, reviewItems.studentId, reviewItems.lessonId, reviewItems.questionIndex],
+            set: values,
+          });
+      }
+    }
+  }
+
+  async countDue(userId: string, studentId: string | null): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(reviewItems)
+      .where(and(learnerFilter(userId, studentId), lte(reviewItems.dueAt, new Date())));
+    return row?.count || 0;
+  }
+
+  // Due items across all lessons, oldest first, interleaved so lessons alternate
+  async getDueItems(userId: string, studentId: string | null, limit: number = 20): Promise<DueReviewItem[]> {
+    const due = await db.select().from(reviewItems)
+      .where(and(learnerFilter(userId, studentId), lte(reviewItems.dueAt, new Date())))
+      .orderBy(asc(reviewItems.dueAt))
+      .limit(limit);
+
+    const items: DueReviewItem[] = [];
+    for (const item of due) {
+      const question = await this.getQuizItem(item);
+      if (!question) continue;
+
+      items.push({
+        reviewItemId: item.id,
+        lessonId: item.lessonId,
+        lessonTitle: question.lessonTitle,
+        questionIndex: item.questionIndex,
+        question: question.question,
+        options: question.options,
+        visual: question.visual,
+        dueAt: item.dueAt,
+        lapses: item.lapses,
+      });
+    }
+
+    return interleaveByLesson(items);
+  }
+
+  // Grade one review answer and reschedule the item; null if the item isn't the user's
+  async submitReview(userId: string, reviewItemId: string, answer: number | null): Promise<ReviewResult | null> {
+    const [item] = await db.select().from(reviewItems)
+      .where(and(eq(reviewItems.id, reviewItemId), eq(reviewItems.userId, userId)));
+    if (!item) return null;
+
+    const question = await this.getQuizItem(item);
+    if (!question) return null;
+
+    const outcome: QuizItemOutcome = answer === null ? 'skipped' : answer === question.correctAnswer ? 'correct' : 'incorrect';
+    const now = new Date();
+    const next = scheduleReview(item, qualityFromOutcome(outcome), now);
+
+    await db.update(reviewItems)
+      .set({ ...next, lastReviewedAt: now, lastCorrect: outcome === 'correct', updatedAt: now })
+      .where(eq(reviewItems.id, item.id));
+
+    return {
+      correct: outcome === 'correct',
+      correctAnswer: question.correctAnswer,
+      explanation: question.explanation,
+      nextDueAt: next.dueAt,
+    };
+  }
+
+  // Lesson content can change under a schedule; items whose question no longer exists are skipped
+  private async getQuizItem(item: ReviewItem) {
+    try {
+      const content = await lessonsService.getLessonContent(item.lessonId);
+      const question = content.quiz[item.questionIndex];
+      return question ? { ...question, lessonTitle: content.title } : null;
+    } catch (error) {
+      console.error(`[ReviewQueue] Failed to load quiz item ${item.lessonId}#${item.questionIndex}:`, error);
+      return null;
+    }
+  }
+}
+
+export const reviewQueueService = new ReviewQueueService();
@@ -1,63 +1,140 @@
 import crypto from 'crypto';
 import { LRUCache } from 'lru-cache';
+import { getEmbeddingProvider, type EmbeddingProvider } from './embeddingProvider';
+import { cosineSimilarity } from './vector-index';
+import { normalizeGradeBand, type GradeBand } from './practiceGenerators';
+import { normalizeExpression } from './answerGrader';
+import type { TranscriptEntry } from './sessionTelemetry';
+
+/**
+ * Who a cached answer is for. Answers are only shared within the same lesson,
+ * grade band and language, so a K-2 explanation never reaches a 12th grader.
+ * Students with no grade on file share an 'unknown' band.
+ */
+export interface CacheScope {
+  lessonId: string;
+  gradeBand: GradeBand | 'unknown';
+  language: string;
+}
 
 interface CacheEntry {
   content: string;
   lessonId: string;
+  gradeBand: CacheScope['gradeBand'];
+  language: string;
   subject: string;
+  question: string; // normalized, kept for inspection
   timestamp: number;
   hits: number;
   embedding?: number[]; // Store for similarity checks
+  embeddingModel?: string; // vectors are only compared with others from the same model
   citations?: string[]; // Citations for cached responses
 }
 
 interface CacheMetrics {
   hits: number;
+  semanticHits: number; // hits found by embedding similarity rather than the exact question
   misses: number;
   hitRate: number;
   totalEntries: number;
   memoryUsage: number;
 }
 
+export interface CacheEntrySummary {
+  key: string;
+  lessonId: string;
+  gradeBand: CacheScope['gradeBand'];
+  language: string;
+  subject: string;
+  question: string;
+  content: string;
+  hits: number;
+  cachedAt: string;
+  hasEmbedding: boolean;
+}
+
+interface SemanticCacheOptions {
+  embedder?: EmbeddingProvider | null; // null turns embedding lookup off; defaults to the configured provider
+  threshold?: number;
+  embedTimeoutMs?: number;
+}
+
+// Questions shorter than this in a transcript are usually answers ("7", "a cat"), not something to cache
+const MIN_WARM_QUESTION_WORDS = 3;
+
+export function cacheScope(lessonId: string | undefined, gradeBand?: string | null, language?: string | null): CacheScope {
+  return {
+    lessonId: lessonId || 'general',
+    gradeBand: gradeBand ? normalizeGradeBand(gradeBand) : 'unknown',
+    language: (language || 'english').trim().toLowerCase() || 'english'
+  };
+}
+
+/**
+ * Student question → tutor reply pairs from a transcript, for warming the
+ * cache. Each student turn is paired with the tutor turn right after it.
+ */
+export function transcriptPairs(entries: TranscriptEntry[]): Array<{ question: string; response: string }> {
+  const pairs: Array<{ question: string; response: string }> = [];
+  for (let i = 0; i < entries.length - 1; i++) {
+    const question = entries[i];
+    const reply = entries[i + 1];
+    if (question.speaker !== 'user' || reply.speaker !== 'tutor' || !reply.content.trim()) continue;
+    if (question.content.trim().split(/\s+/).length < MIN_WARM_QUESTION_WORDS) continue;
+    pairs.push({ question: question.content, response: reply.content });
+  }
+  return pairs;
+}
+
 export class SemanticCache {
   private cache: LRUCache<string, CacheEntry>;
+  private scopeIndex = new Map<string, Set<string>>(); // scope key -> cache keys, for nearest-neighbour search
+  private recentEmbeddings = new LRUCache<string, number[]>({ max: 500, ttl: 5 * 60 * 1000 }); // a miss's vector, reused by set()
+  private embedder: EmbeddingProvider | null | undefined;
+  private readonly threshold: number;
+  private readonly embedTimeoutMs: number;
   private metrics: CacheMetrics = {
     hits: 0,
+    semanticHits: 0,
     misses: 0,
     hitRate: 0,
     totalEntries: 0,
     memoryUsage: 0
   };
 
-  constructor() {
+  constructor(options: SemanticCacheOptions = {}) {
     const maxSize = parseInt(process.env.SEMANTIC_CACHE_SIZE || '10000');
     const ttlMinutes = parseInt(process.env.CACHE_TTL_MIN || '1440'); // 24 hours default
-    
+    this.threshold = options.threshold ?? parseFloat(process.env.SEMANTIC_CACHE_THRESHOLD || '0.92');
+    this.embedTimeoutMs = options.embedTimeoutMs ?? parseInt(process.env.SEMANTIC_CACHE_EMBED_TIMEOUT_MS || '400');
+    this.embedder = process.env.SEMANTIC_CACHE_EMBEDDINGS === '0' ? null : options.embedder;
+
     this.cache = new LRUCache<string, CacheEntry>({
       max: maxSize,
       ttl: ttlMinutes * 60 * 1000, // Convert to milliseconds
       updateAgeOnGet: true,
       allowStale: false,
       dispose: (value: CacheEntry, key: string) => {
+        this.scopeIndex.get(this.scopeKey(value))?.delete(key);
         console.log(`[SemanticCache] Evicted entry for key: ${key.substring(0, 50)}...`);
       }
     });
 
-    console.log(`[SemanticCache] Initialized with max size: ${maxSize}, TTL: ${ttlMinutes}min (${process.env.CACHE_TTL_MIN || '1440'} from env)`);
+    console.log(`[SemanticCache] Initialized with max size: ${maxSize}, TTL: ${ttlMinutes}min (${process.env.CACHE_TTL_MIN || '1440'} from env), similarity threshold: ${this.threshold}`);
   }
 
-  // Generate cache key with exact format: ${lessonId}:${hash(embedding(normalizedQuestion))}
-  private generateCacheKey(lessonId: string, question: string): string {
-    const normalizedQuestion = this.normalizeQuestion(question);
-    
-    // For now, use hash of normalized question as proxy for embedding hash
-    // In production, this would use actual embeddings from OpenAI or similar
+  private scopeKey(scope: Pick<CacheScope, 'lessonId' | 'gradeBand' | 'language'>): string {
+    return `${scope.lessonId}:${scope.gradeBand}:${scope.language}`;
+  }
+
+  // Exact-match key: ${lessonId}:${gradeBand}:${language}:${hash(normalizedQuestion)}
+  private generateCacheKey(scope: CacheScope, question: string): string {
     const questionHash = crypto.createHash('sha256')
-      .update(normalizedQuestion)
+      .update(this.normalizeQuestion(question))
       .digest('hex')
       .substring(0, 16); // Use first 16 chars for brevity
-    
-    return `${lessonId}:${questionHash}`;
+
+    return `${this.scopeKey(scope)}:${questionHash}`;
   }
 
   // Normalize question for better cache hits
@@ -65,116 +142,225 @@ export class SemanticCache {
     return question
       .toLowerCase()
       .trim()
-      // Remove punctuation except question marks
-      .replace(/[^\w\s?]/g, '')
+      // Remove punctuation except question marks, math operators and decimal points
+      .replace(/[^\w\s?+\-×÷*/=^%.]/g, '')
+      .replace(/\.(?!\d)/g, '')
       // Remove extra whitespace
       .replace(/\s+/g, ' ')
       // Remove common filler words that don't affect meaning
       .replace(/\b(um|uh|like|you know|i mean|well|so|okay|alright)\b/gi, '')
+      .replace(/\s+/g, ' ')
       .trim();
   }
 
-  // Check for semantic similarity (simple keyword-based for now)
-  private calculateSimilarity(question1: string, question2: string): number {
-    const words1 = new Set(question1.toLowerCase().split(/\s+/));
-    const words2 = new Set(question2.toLowerCase().split(/\s+/));
-    
-    const intersection = new Set(Array.from(words1).filter(x => words2.has(x)));
-    const union = new Set([...Array.from(words1), ...Array.from(words2)]);
-    
-    return intersection.size / union.size; // Jaccard similarity
-  }
-
-  // Get cached response
-  get(lessonId: string, question: string): CacheEntry | null {
-    const primaryKey = this.generateCacheKey(lessonId, question);
-    let entry = this.cache.get(primaryKey);
-    
-    if (entry) {
-      entry.hits++;
-      this.metrics.hits++;
-      this.updateMetrics();
-      console.log(`[SemanticCache] Cache HIT for lesson: ${lessonId}, question: "${question.substring(0, 50)}...", citations: ${entry.citations?.length || 0}`);
-      return entry;
+  /**
+   * The numbers and operators in a question, in order ("three plus four" and
+   * "3+4" both give "3 + 4"). Questions that differ only in these embed almost
+   * identically but have different answers, so a semantic hit needs them equal.
+   */
+  private mathSignature(question: string): string {
+    return (normalizeExpression(question).match(/\d+(?:\.\d+)?|[-+*/^=%]/g) || []).join(' ');
+  }
+
+  private getEmbedder(): EmbeddingProvider | null {
+    if (this.embedder === undefined) {
+      try {
+        this.embedder = getEmbeddingProvider();
+      } catch (error) {
+        console.warn('[SemanticCache] No embedding provider, using exact matches only:', error);
+        this.embedder = null;
+      }
+    }
+    return this.embedder;
+  }
+
+  /**
+   * Embeddings for the questions, or null when embedding is off, fails or is
+   * too slow for a voice turn. Vectors from a recent lookup are reused.
+   */
+  private async embed(questions: string[], timeoutMs: number = this.embedTimeoutMs): Promise<{ vectors: number[][]; model: string } | null> {
+    const embedder = this.getEmbedder();
+    if (!embedder) return null;
+
+    const texts = questions.map(question => this.normalizeQuestion(question));
+    const vectors = texts.map(text => this.recentEmbeddings.get(`${embedder.model}:${text}`));
+    const missing = texts.filter((_, i) => !vectors[i]);
+
+    if (missing.length > 0) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      try {
+        const timeout = new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Embedding took longer than ${timeoutMs}ms`)), timeoutMs);
+        });
+        const batch = await Promise.race([embedder.embed(missing), timeout]);
+        let next = 0;
+        texts.forEach((text, i) => {
+          if (vectors[i]) return;
+          vectors[i] = batch.vectors[next++];
+          this.recentEmbeddings.set(`${embedder.model}:${text}`, vectors[i]!);
+        });
+      } catch (error: any) {
+        console.warn(`[SemanticCache] Embedding failed, using exact matches only: ${error?.message || error}`);
+        return null;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    return { vectors: vectors as number[][], model: embedder.model };
+  }
+
+  // Get cached response: the exact question first, then its nearest neighbour in the same scope
+  async get(scope: CacheScope, question: string): Promise<CacheEntry | null> {
+    const exact = this.cache.get(this.generateCacheKey(scope, question));
+    if (exact) {
+      return this.recordHit(exact, scope, question);
     }
 
-    // Try semantic similarity search (expensive, only for small caches)
-    if (this.cache.size < 1000) {
-      const normalizedQuestion = this.normalizeQuestion(question);
-      
-      this.cache.forEach((cachedEntry, key) => {
-        if (cachedEntry.lessonId === lessonId) {
-          // Extract original question from cache entry metadata if available
-          const similarity = this.calculateSimilarity(normalizedQuestion, key.split(':')[1] || '');
-          
-          if (similarity > 0.7) { // 70% similarity threshold
-            cachedEntry.hits++;
-            this.metrics.hits++;
-            this.updateMetrics();
-            console.log(`[SemanticCache] Semantic HIT (${(similarity * 100).toFixed(1)}% similar) for lesson: ${lessonId}`);
-            entry = cachedEntry;
-            return;
-          }
+    const candidates = Array.from(this.scopeIndex.get(this.scopeKey(scope)) || []);
+    const embedded = candidates.length > 0 ? await this.embed([question]) : null;
+
+    if (embedded) {
+      const [vector] = embedded.vectors;
+      let best: { key: string; entry: CacheEntry; similarity: number } | null = null;
+
+      const math = this.mathSignature(question);
+      for (const key of candidates) {
+        const entry = this.cache.peek(key);
+        if (!entry?.embedding || entry.embeddingModel !== embedded.model || entry.embedding.length !== vector.length) continue;
+        if (this.mathSignature(entry.question) !== math) continue;
+        const similarity = cosineSimilarity(vector, entry.embedding);
+        if (similarity >= this.threshold && (!best || similarity > best.similarity)) {
+          best = { key, entry, similarity };
         }
-      });
-      
-      if (entry) {
-        return entry;
+      }
+
+      if (best) {
+        this.cache.get(best.key); // refresh its LRU position
+        this.metrics.semanticHits++;
+        console.log(`[SemanticCache] Semantic HIT (${(best.similarity * 100).toFixed(1)}% similar) for ${this.scopeKey(scope)}`);
+        return this.recordHit(best.entry, scope, question);
       }
     }
 
     this.metrics.misses++;
     this.updateMetrics();
-    console.log(`[SemanticCache] Cache MISS for lesson: ${lessonId}, question: "${question.substring(0, 50)}..."`);
+    console.log(`[SemanticCache] Cache MISS for ${this.scopeKey(scope)}, question: "${question.substring(0, 50)}..."`);
     return null;
   }
 
+  private recordHit(entry: CacheEntry, scope: CacheScope, question: string): CacheEntry {
+    entry.hits++;
+    this.metrics.hits++;
+    this.updateMetrics();
+    console.log(`[SemanticCache] Cache HIT for ${this.scopeKey(scope)}, question: "${question.substring(0, 50)}...", citations: ${entry.citations?.length || 0}`);
+    return entry;
+  }
+
   // Store response in cache with citations
-  set(lessonId: string, question: string, content: string, subject: string): void {
-    const key = this.generateCacheKey(lessonId, question);
-    const citations = this.generateCitations(lessonId, subject);
-    
+  async set(scope: CacheScope, question: string, content: string, subject: string): Promise<void> {
+    const embedded = await this.embed([question]);
+    this.store(scope, question, content, subject, embedded ? { vector: embedded.vectors[0], model: embedded.model } : null);
+  }
+
+  private store(scope: CacheScope, question: string, content: string, subject: string, embedding: { vector: number[]; model: string } | null): void {
+    const key = this.generateCacheKey(scope, question);
+    const citations = this.generateCitations(scope.lessonId, subject);
+
     const entry: CacheEntry = {
       content,
-      lessonId,
+      ...scope,
       subject,
+      question: this.normalizeQuestion(question),
       timestamp: Date.now(),
       hits: 0,
+      embedding: embedding?.vector,
+      embeddingModel: embedding?.model,
       citations
     };
 
     this.cache.set(key, entry);
+    const scopeKey = this.scopeKey(scope);
+    if (!this.scopeIndex.has(scopeKey)) {
+      this.scopeIndex.set(scopeKey, new Set());
+    }
+    this.scopeIndex.get(scopeKey)!.add(key);
     this.updateMetrics();
-    
-    console.log(`[SemanticCache] Cached response for lesson: ${lessonId}, question: "${question.substring(0, 50)}...", citations: ${citations.length}`);
+
+    console.log(`[SemanticCache] Cached response for ${scopeKey}, question: "${question.substring(0, 50)}...", citations: ${citations.length}`);
   }
 
   // Generate citations for cached responses
   private generateCitations(lessonId: string, subject?: string): string[] {
     const citations: string[] = [];
-    
+
     // Add lesson-specific citation
     if (lessonId && lessonId !== 'general') {
       citations.push(`Lesson: ${lessonId}`);
     }
-    
+
     // Add subject-area citation
     if (subject && subject !== 'general') {
       citations.push(`Subject: ${subject.charAt(0).toUpperCase() + subject.slice(1)}`);
     }
-    
+
     // Add cache timestamp for reproducibility
     citations.push(`Cached: ${new Date().toISOString()}`);
-    
+
     return citations;
   }
 
+  private matchingKeys(filter: Partial<CacheScope>): string[] {
+    const keys: string[] = [];
+    this.cache.forEach((entry, key) => {
+      if ((!filter.lessonId || entry.lessonId === filter.lessonId) &&
+          (!filter.gradeBand || entry.gradeBand === filter.gradeBand) &&
+          (!filter.language || entry.language === filter.language)) {
+        keys.push(key);
+      }
+    });
+    return keys;
+  }
+
+  // Cached entries, most recently used first, for the admin view
+  inspect(filter: Partial<CacheScope> = {}, limit = 50): CacheEntrySummary[] {
+    return this.matchingKeys(filter).slice(0, limit).map(key => {
+      const entry = this.cache.peek(key)!;
+      return {
+        key,
+        lessonId: entry.lessonId,
+        gradeBand: entry.gradeBand,
+        language: entry.language,
+        subject: entry.subject,
+        question: entry.question,
+        content: entry.content,
+        hits: entry.hits,
+        cachedAt: new Date(entry.timestamp).toISOString(),
+        hasEmbedding: !!entry.embedding
+      };
+    });
+  }
+
+  // Remove the entries matching every given field (all of them for an empty filter); returns how many
+  purge(filter: Partial<CacheScope> = {}): number {
+    const keys = this.matchingKeys(filter);
+    keys.forEach(key => this.cache.delete(key));
+    this.updateMetrics();
+    console.log(`[SemanticCache] Purged ${keys.length} entries matching ${JSON.stringify(filter)}`);
+    return keys.length;
+  }
+
+  // Answers written against the old lesson content must not outlive it
+  invalidateLesson(lessonId: string): number {
+    return this.purge({ lessonId });
+  }
+
   // Update metrics
   private updateMetrics(): void {
     const total = this.metrics.hits + this.metrics.misses;
     this.metrics.hitRate = total > 0 ? (this.metrics.hits / total) * 100 : 0;
     this.metrics.totalEntries = this.cache.size;
-    
+
     // Rough memory usage estimation (in KB)
     this.metrics.memoryUsage = this.cache.size * 0.5; // ~500 bytes per entry average
   }
@@ -188,8 +374,10 @@ export class SemanticCache {
   // Clear cache
   clear(): void {
     this.cache.clear();
+    this.scopeIndex.clear();
     this.metrics = {
       hits: 0,
+      semanticHits: 0,
       misses: 0,
       hitRate: 0,
       totalEntries: 0,
@@ -204,18 +392,26 @@ export class SemanticCache {
       size: this.cache.size,
       maxSize: this.cache.max,
       metrics: this.getMetrics(),
+      threshold: this.threshold,
+      embeddingModel: this.getEmbedder()?.model || null,
       enabled: true
     };
   }
 
-  // Warm up cache with common lesson patterns
-  warmUp(lessonId: string, commonQuestions: Array<{ question: string; response: string; subject: string }>): void {
-    for (const { question, response, subject } of commonQuestions) {
-      this.set(lessonId, question, response, subject);
-    }
-    console.log(`[SemanticCache] Warmed up with ${commonQuestions.length} entries for lesson: ${lessonId}`);
+  // Warm up cache with question/response pairs, e.g. from past transcripts; returns how many were stored
+  async warmUp(scope: CacheScope, commonQuestions: Array<{ question: string; response: string; subject: string }>): Promise<number> {
+    // Not on a voice turn, so embedding can take as long as it needs
+    const embedded = commonQuestions.length > 0
+      ? await this.embed(commonQuestions.map(({ question }) => question), 60000)
+      : null;
+
+    commonQuestions.forEach(({ question, response, subject }, i) => {
+      this.store(scope, question, response, subject, embedded ? { vector: embedded.vectors[i], model: embedded.model } : null);
+    });
+    console.log(`[SemanticCache] Warmed up with ${commonQuestions.length} entries for ${this.scopeKey(scope)}`);
+    return commonQuestions.length;
   }
 }
 
 // Global semantic cache instance
-export const semanticCache = new SemanticCache();
\ No newline at end of file
+export const semanticCache = new SemanticCache();
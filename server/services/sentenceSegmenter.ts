@@ -0,0 +1,84 @@
+// Incremental sentence segmentation for streamed model output. Text arrives a
+// few characters at a time; each sentence is emitted as soon as its end is
+// certain so TTS can start on it while the rest is still being generated. Long
+// sentences are also cut at a clause break (comma, semicolon, colon) so the
+// first audio doesn't wait for a full stop.
+
+const TERMINATORS = '.!?';
+const CLAUSE_BREAKS = ',;:';
+const CLOSERS = '"\')”’';
+
+// "Dr. Lee" and "e.g. apples" don't end a sentence
+const ABBREVIATIONS = ['mr', 'mrs', 'ms', 'dr', 'st', 'vs', 'etc', 'e.g', 'i.e'];
+
+// Shorter clauses wait for the rest of their sentence; tiny TTS requests sound choppy
+const MIN_CLAUSE_CHARS = 40;
+
+function isSpace(char: string): boolean {
+  return /\s/.test(char);
+}
+
+function endsWithAbbreviation(text: string): boolean {
+  const word = text.slice(text.lastIndexOf(' ') + 1).replace(/\.$/, '').toLowerCase();
+  return ABBREVIATIONS.indexOf(word) >= 0;
+}
+
+export class SentenceSegmenter {
+  private buffer = '';
+
+  constructor(private minClauseChars = MIN_CLAUSE_CHARS) {}
+
+  /**
+   * Adds the next piece of streamed text and returns the sentences (or long
+   * clauses) it completed. A terminator only closes a sentence once the
+   * following character is known, so "3." waits to see whether "3.5" follows.
+   */
+  push(text: string): string[] {
+    this.buffer += text;
+    const pieces: string[] = [];
+    let start = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+
+      if (char === '\n') {
+        this.emit(pieces, this.buffer.slice(start, i));
+        start = i + 1;
+        continue;
+      }
+
+      const isTerminator = TERMINATORS.indexOf(char) >= 0;
+      if (!isTerminator && CLAUSE_BREAKS.indexOf(char) < 0) continue;
+
+      // Take the whole run: "?!", "...", and any closing quote or bracket
+      let end = i + 1;
+      while (end < this.buffer.length && (TERMINATORS + CLOSERS).indexOf(this.buffer[end]) >= 0) end++;
+      if (end >= this.buffer.length) break; // wait for the next character
+      i = end - 1;
+
+      if (!isSpace(this.buffer[end])) continue;
+
+      const piece = this.buffer.slice(start, end);
+      if (isTerminator ? endsWithAbbreviation(piece.trim()) : piece.trim().length < this.minClauseChars) continue;
+
+      this.emit(pieces, piece);
+      start = end;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return pieces;
+  }
+
+  /** Whatever is left once the stream has ended. */
+  flush(): string[] {
+    const pieces: string[] = [];
+    this.emit(pieces, this.buffer);
+    this.buffer = '';
+    return pieces;
+  }
+
+  private emit(pieces: string[], text: string): void {
+    const piece = text.replace(/\s+/g, ' ').trim();
+    if (piece) pieces.push(piece);
+  }
+}
@@ -1,5 +1,8 @@
 // Session telemetry and transcript management
 
+import { createHash, randomBytes } from 'crypto';
+import { TranscriptStore, createTranscriptStore } from './transcriptStore';
+
 export interface TranscriptEntry {
   timestamp: number;
   speaker: 'user' | 'tutor';
@@ -17,16 +20,57 @@ export interface SessionTelemetry {
   topics: string[];
   totalInteractions: number;
   lastActivity: number;
-  shareToken?: string;
-  shareExpiry?: number;
+  learningSessionId?: string;
+  tutorSessionId?: string;
+}
+
+export interface ShareLink {
+  shareId: string;
+  token: string;
+  expiresAt: Date;
+}
+
+const DEFAULT_SHARE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Share tokens are only ever stored as a SHA-256 digest
+export function hashShareToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
 }
 
 export class TelemetryManager {
+  // Cache of live sessions; the transcript store is the source of truth
   private sessions: Map<string, SessionTelemetry> = new Map();
   private readonly MAX_SESSIONS = 1000; // Prevent memory growth
 
+  constructor(private store: TranscriptStore = createTranscriptStore()) {}
+
+  // Return the live session, resuming it from the store after a restart or starting a new one.
+  // Null when the session id belongs to another user.
+  async ensureSession(sessionId: string, userId: string): Promise<SessionTelemetry | null> {
+    const cached = this.sessions.get(sessionId);
+    if (cached) return cached.userId === userId ? cached : null;
+
+    try {
+      const resumed = await this.loadSession(sessionId);
+      if (resumed) {
+        if (resumed.userId !== userId) return null;
+        this.sessions.set(sessionId, resumed);
+        console.log(`[Telemetry] Resumed session: ${sessionId} (${resumed.totalInteractions} entries)`);
+        return resumed;
+      }
+    } catch (error) {
+      console.error(`[Telemetry] Failed to resume session ${sessionId}:`, error);
+    }
+
+    return this.startSession(sessionId, userId);
+  }
+
   // Start a new session
-  startSession(sessionId: string, userId: string): SessionTelemetry {
+  async startSession(sessionId: string, userId: string): Promise<SessionTelemetry> {
+    const links = await this.store.resolveLinks(sessionId, userId).catch((error) => {
+      console.error(`[Telemetry] Failed to link session ${sessionId}:`, error);
+      return {};
+    });
     const telemetry: SessionTelemetry = {
       sessionId,
       userId,
@@ -34,7 +78,8 @@ export class TelemetryManager {
       transcript: [],
       topics: [],
       totalInteractions: 0,
-      lastActivity: Date.now()
+      lastActivity: Date.now(),
+      ...links
     };
     
     this.sessions.set(sessionId, telemetry);
@@ -42,8 +87,8 @@ export class TelemetryManager {
     return telemetry;
   }
 
-  // Add transcript entry
-  addTranscriptEntry(sessionId: string, entry: Omit<TranscriptEntry, 'timestamp'>): void {
+  // Add transcript entry (persisted before it is visible in the cache)
+  async addTranscriptEntry(sessionId: string, entry: Omit<TranscriptEntry, 'timestamp'>): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) return;
 
@@ -52,9 +97,24 @@ export class TelemetryManager {
       timestamp: Date.now()
     };
 
+    const sequence = session.totalInteractions++;
+    session.lastActivity = transcriptEntry.timestamp;
+
+    try {
+      await this.store.appendEntry({
+        ...transcriptEntry,
+        sessionId,
+        userId: session.userId,
+        sequence,
+        learningSessionId: session.learningSessionId,
+        tutorSessionId: session.tutorSessionId
+      });
+    } catch (error) {
+      // Never fail a tutoring turn because the transcript couldn't be written
+      console.error(`[Telemetry] Failed to persist ${entry.speaker} entry for session ${sessionId}:`, error);
+    }
+
     session.transcript.push(transcriptEntry);
-    session.totalInteractions++;
-    session.lastActivity = Date.now();
 
     // Track unique topics
     if (entry.topic && !session.topics.includes(entry.topic)) {
@@ -74,28 +134,41 @@ export class TelemetryManager {
   }
 
   // Get session transcript
-  getTranscript(sessionId: string): TranscriptEntry[] {
-    const session = this.sessions.get(sessionId);
+  async getTranscript(sessionId: string): Promise<TranscriptEntry[]> {
+    const session = await this.getSessionSummary(sessionId);
     return session ? session.transcript : [];
   }
 
   // Get session summary
-  getSessionSummary(sessionId: string): SessionTelemetry | null {
-    return this.sessions.get(sessionId) || null;
+  async getSessionSummary(sessionId: string): Promise<SessionTelemetry | null> {
+    return this.sessions.get(sessionId) || await this.loadSession(sessionId);
   }
 
-  // Generate secure share token for a session
-  generateShareToken(sessionId: string): string | null {
-    const session = this.sessions.get(sessionId);
-    if (!session) return null;
+  // Generate a share link for a session owned by userId
+  async generateShareToken(sessionId: string, userId: string, ttlMs: number = DEFAULT_SHARE_TTL_MS): Promise<ShareLink | null> {
+    const session = await this.getSessionSummary(sessionId);
+    if (!session || session.userId !== userId) return null;
 
-    // Generate random share token and set expiry (24 hours)
-    const shareToken = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-    session.shareToken = shareToken;
-    session.shareExpiry = Date.now() + (24 * 60 * 60 * 1000); // 24 hours
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + ttlMs);
+    const share = await this.store.createShare({
+      sessionId,
+      userId,
+      tokenHash: hashShareToken(token),
+      expiresAt
+    });
 
     console.log(`[Telemetry] Generated share token for session: ${sessionId}`);
-    return shareToken;
+    return { shareId: share.id, token, expiresAt };
+  }
+
+  // Revoke a share link; only its creator may do so
+  async revokeShareToken(shareId: string, userId: string): Promise<boolean> {
+    const revoked = await this.store.revokeShare(shareId, userId);
+    if (revoked) {
+      console.log(`[Telemetry] Revoked share token: ${shareId}`);
+    }
+    return revoked;
   }
 
   // Basic PII redaction
@@ -109,23 +182,28 @@ export class TelemetryManager {
   }
 
   // Generate shareable transcript (with PII redaction)
-  generateShareableTranscript(sessionId: string, shareToken?: string): string {
-    const session = this.sessions.get(sessionId);
+  async generateShareableTranscript(sessionId: string, shareToken: string): Promise<string> {
+    const share = await this.store.findShareByHash(hashShareToken(shareToken));
+    if (!share || share.sessionId !== sessionId) return '';
+    if (share.revokedAt || Date.now() > share.expiresAt.getTime()) return '';
+
+    const session = await this.getSessionSummary(sessionId);
     if (!session) return '';
 
-    // Verify share token if provided
-    if (shareToken) {
-      if (!session.shareToken || session.shareToken !== shareToken) {
-        return '';
-      }
-      if (session.shareExpiry && Date.now() > session.shareExpiry) {
-        return '';
-      }
-    }
+    await this.store.recordShareAccess(share.id);
+    return this.formatTranscript(session, true);
+  }
+
+  // Render the full transcript for the session owner (e.g. to store on learning_sessions)
+  async renderTranscript(sessionId: string, userId: string): Promise<string | null> {
+    const session = await this.getSessionSummary(sessionId);
+    return session && session.userId === userId ? this.formatTranscript(session, false) : null;
+  }
 
+  private formatTranscript(session: SessionTelemetry, redact: boolean): string {
     const duration = session.endTime 
       ? Math.round((session.endTime - session.startTime) / 1000)
-      : Math.round((Date.now() - session.startTime) / 1000);
+      : Math.round((session.lastActivity - session.startTime) / 1000);
 
     let transcript = `# AI Tutor Session Transcript\n\n`;
     transcript += `**Duration:** ${Math.floor(duration / 60)}m ${duration % 60}s\n`;
@@ -133,16 +211,40 @@ export class TelemetryManager {
     transcript += `**Interactions:** ${session.totalInteractions}\n\n`;
     transcript += `---\n\n`;
 
-    session.transcript.forEach((entry, index) => {
+    session.transcript.forEach((entry) => {
       const timeFromStart = Math.round((entry.timestamp - session.startTime) / 1000);
       const speaker = entry.speaker === 'user' ? '**Student**' : '**Tutor**';
-      const content = entry.speaker === 'user' ? this.redactPII(entry.content) : entry.content;
+      const content = redact && entry.speaker === 'user' ? this.redactPII(entry.content) : entry.content;
       transcript += `**[${Math.floor(timeFromStart / 60)}:${(timeFromStart % 60).toString().padStart(2, '0')}]** ${speaker}: ${content}\n\n`;
     });
 
     return transcript;
   }
 
+  // Rebuild a session from its persisted transcript
+  private async loadSession(sessionId: string): Promise<SessionTelemetry | null> {
+    const entries = await this.store.getEntries(sessionId);
+    if (entries.length === 0) return null;
+
+    const transcript: TranscriptEntry[] = entries.map(({ timestamp, speaker, content, topic, energyLevel }) => 
+      ({ timestamp, speaker, content, topic, energyLevel }));
+    const topics = Array.from(new Set(entries.map(e => e.topic).filter((t): t is string => !!t)));
+    const first = entries[0];
+    const last = entries[entries.length - 1];
+
+    return {
+      sessionId,
+      userId: first.userId,
+      startTime: first.timestamp,
+      transcript,
+      topics,
+      totalInteractions: last.sequence + 1,
+      lastActivity: last.timestamp,
+      learningSessionId: first.learningSessionId,
+      tutorSessionId: first.tutorSessionId
+    };
+  }
+
   // Cleanup old sessions
   cleanup(): void {
     if (this.sessions.size <= this.MAX_SESSIONS) return;
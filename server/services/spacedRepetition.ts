@@ -0,0 +1,82 @@
+// SM-2 spaced-repetition scheduling for individual review items
+
+export interface ReviewSchedule {
+  repetitions: number;
+  intervalDays: number;
+  easeFactor: number;
+  lapses: number;
+}
+
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const INITIAL_SCHEDULE: ReviewSchedule = {
+  repetitions: 0,
+  intervalDays: 0,
+  easeFactor: 2.5,
+  lapses: 0
+};
+
+/**
+ * Map a quiz outcome onto SM-2's 0-5 recall quality. Multiple-choice items only
+ * tell us right/wrong, so a correct answer is a confident recall (4), a wrong
+ * answer a failed recall (1), and a skipped question a blackout (0).
+ */
+export function qualityFromOutcome(outcome: 'correct' | 'incorrect' | 'skipped'): number {
+  return outcome === 'correct' ? 4 : outcome === 'incorrect' ? 1 : 0;
+}
+
+/**
+ * Apply one SM-2 review. Failed recalls (quality < 3) reset the repetition
+ * count so the item comes back the next day; successful ones grow the interval
+ * 1 day → 6 days → previous interval × ease factor.
+ */
+export function scheduleReview(schedule: ReviewSchedule, quality: number, now: Date = new Date()): ReviewSchedule & { dueAt: Date } {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+
+  let { repetitions, intervalDays, lapses } = schedule;
+  if (q >= 3) {
+    intervalDays = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(intervalDays * schedule.easeFactor);
+    repetitions++;
+  } else {
+    repetitions = 0;
+    intervalDays = 1;
+    lapses++;
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    schedule.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+  );
+
+  return {
+    repetitions,
+    intervalDays,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS)
+  };
+}
+
+/**
+ * Round-robin items across lessons (keeping each lesson's own order) so a review
+ * session mixes subjects instead of replaying one lesson's misses back to back.
+ */
+export function interleaveByLesson<T extends { lessonId: string }>(items: T[]): T[] {
+  const byLesson = new Map<string, T[]>();
+  for (const item of items) {
+    const queue = byLesson.get(item.lessonId) || [];
+    queue.push(item);
+    byLesson.set(item.lessonId, queue);
+  }
+
+  const queues = Array.from(byLesson.values());
+  const mixed: T[] = [];
+  while (mixed.length < items.length) {
+    for (const queue of queues) {
+      const next = queue.shift();
+      if (next) mixed.push(next);
+    }
+  }
+  return mixed;
+}
@@ -0,0 +1,178 @@
+import { and, asc, eq, isNull, sql } from 'drizzle-orm';
+import { learningSessions, transcriptEntries, transcriptShares, tutorSessions, type TranscriptShare } from '@shared/schema';
+import { db } from '../db';
+import { TranscriptEntry } from './sessionTelemetry';
+
+// Learning/tutor session rows a transcript belongs to, when the session key matches one
+export interface TranscriptSessionLinks {
+  learningSessionId?: string;
+  tutorSessionId?: string;
+}
+
+export interface StoredTranscriptEntry extends TranscriptEntry, TranscriptSessionLinks {
+  sessionId: string;
+  userId: string;
+  sequence: number;
+}
+
+// Persistence adapter for session transcripts and their share links
+export interface TranscriptStore {
+  appendEntry(entry: StoredTranscriptEntry): Promise<void>;
+  getEntries(sessionId: string): Promise<StoredTranscriptEntry[]>;
+  resolveLinks(sessionId: string, userId: string): Promise<TranscriptSessionLinks>;
+  createShare(share: { sessionId: string; userId: string; tokenHash: string; expiresAt: Date }): Promise<TranscriptShare>;
+  findShareByHash(tokenHash: string): Promise<TranscriptShare | undefined>;
+  recordShareAccess(shareId: string): Promise<void>;
+  // Returns false when the share doesn't exist, belongs to someone else, or was already revoked
+  revokeShare(shareId: string, userId: string): Promise<boolean>;
+}
+
+// Process-local store for development and tests (lost on restart)
+export class InMemoryTranscriptStore implements TranscriptStore {
+  private entries: Map<string, StoredTranscriptEntry[]> = new Map();
+  private shares: Map<string, TranscriptShare> = new Map();
+
+  async appendEntry(entry: StoredTranscriptEntry): Promise<void> {
+    const entries = this.entries.get(entry.sessionId) || [];
+    entries.push({ ...entry });
+    this.entries.set(entry.sessionId, entries);
+  }
+
+  async getEntries(sessionId: string): Promise<StoredTranscriptEntry[]> {
+    return (this.entries.get(sessionId) || [])
+      .map(entry => ({ ...entry }))
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+
+  async resolveLinks(): Promise<TranscriptSessionLinks> {
+    return {};
+  }
+
+  async createShare(share: { sessionId: string; userId: string; tokenHash: string; expiresAt: Date }): Promise<TranscriptShare> {
+    const created: TranscriptShare = {
+      id: `share-${Date.now()}-${this.shares.size}`,
+      ...share,
+      revokedAt: null,
+      accessCount: 0,
+      lastAccessedAt: null,
+      createdAt: new Date()
+    };
+    this.shares.set(created.id, created);
+    return { ...created };
+  }
+
+  async findShareByHash(tokenHash: string): Promise<TranscriptShare | undefined> {
+    const shares = Array.from(this.shares.values());
+    const share = shares.find(s => s.tokenHash === tokenHash);
+    return share ? { ...share } : undefined;
+  }
+
+  async recordShareAccess(shareId: string): Promise<void> {
+    const share = this.shares.get(shareId);
+    if (!share) return;
+    share.accessCount++;
+    share.lastAccessedAt = new Date();
+  }
+
+  async revokeShare(shareId: string, userId: string): Promise<boolean> {
+    const share = this.shares.get(shareId);
+    if (!share || share.userId !== userId || share.revokedAt) return false;
+    share.revokedAt = new Date();
+    return true;
+  }
+}
+
+// Postgres-backed store so transcripts and share links survive restarts
+export class PostgresTranscriptStore implements TranscriptStore {
+  async appendEntry(entry: StoredTranscriptEntry): Promise<void> {
+    await db.insert(transcriptEntries).values({
+      sessionId: entry.sessionId,
+      userId: entry.userId,
+      learningSessionId: entry.learningSessionId,
+      tutorSessionId: entry.tutorSessionId,
+      sequence: entry.sequence,
+      speaker: entry.speaker,
+      content: entry.content,
+      topic: entry.topic,
+      energyLevel: entry.energyLevel,
+      createdAt: new Date(entry.timestamp),
+    });
+  }
+
+  async getEntries(sessionId: string): Promise<StoredTranscriptEntry[]> {
+    const rows = await db.select().from(transcriptEntries)
+      .where(eq(transcriptEntries.sessionId, sessionId))
+      .orderBy(asc(transcriptEntries.sequence));
+
+    return rows.map(row => ({
+      sessionId: row.sessionId,
+      userId: row.userId,
+      learningSessionId: row.learningSessionId || undefined,
+      tutorSessionId: row.tutorSessionId || undefined,
+      sequence: row.sequence,
+      speaker: row.speaker,
+      content: row.content,
+      topic: row.topic || undefined,
+      energyLevel: row.energyLevel || undefined,
+      timestamp: row.createdAt ? row.createdAt.getTime() : Date.now(),
+    }));
+  }
+
+  async resolveLinks(sessionId: string, userId: string): Promise<TranscriptSessionLinks> {
+    const [learningSession] = await db.select({ id: learningSessions.id }).from(learningSessions)
+      .where(and(eq(learningSessions.id, sessionId), eq(learningSessions.userId, userId)));
+    const [tutorSession] = await db.select({ id: tutorSessions.id }).from(tutorSessions)
+      .where(and(eq(tutorSessions.id, sessionId), eq(tutorSessions.userId, userId)));
+
+    return {
+      learningSessionId: learningSession?.id,
+      tutorSessionId: tutorSession?.id,
+    };
+  }
+
+  async createShare(share: { sessionId: string; userId: string; tokenHash: string; expiresAt: Date }): Promise<TranscriptShare> {
+    const [created] = await db.insert(transcriptShares).values(share).returning();
+    return created;
+  }
+
+  async findShareByHash(tokenHash: string): Promise<TranscriptShare | undefined> {
+    const [share] = await db.select().from(transcriptShares)
+      .where(eq(transcriptShares.tokenHash, tokenHash));
+    return share;
+  }
+
+  async recordShareAccess(shareId: string): Promise<void> {
+    await db.update(transcriptShares)
+      .set({
+        accessCount: sql`${transcriptShares.accessCount} + 1`,
+        lastAccessedAt: new Date(),
+      })
+      .where(eq(transcriptShares.id, shareId));
+  }
+
+  async revokeShare(shareId: string, userId: string): Promise<boolean> {
+    const revoked = await db.update(transcriptShares)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(transcriptShares.id, shareId),
+        eq(transcriptShares.userId, userId),
+        isNull(transcriptShares.revokedAt)
+      ))
+      .returning({ id: transcriptShares.id });
+    return revoked.length > 0;
+  }
+}
+
+// Same selection rule as the conversation store: Postgres only when a real database is configured
+export function createTranscriptStore(): TranscriptStore {
+  const isTestMode = process.env.AUTH_TEST_MODE === 'true' || process.env.NODE_ENV === 'development';
+  const configured = process.env.CONVERSATION_STORE;
+
+  if (configured === 'postgres' || (!configured && !isTestMode && process.env.DATABASE_URL)) {
+    console.log('[TranscriptStore] Using Postgres transcript store');
+    return new PostgresTranscriptStore();
+  }
+
+  console.log('[TranscriptStore] Using in-memory transcript store');
+  return new InMemoryTranscriptStore();
+}
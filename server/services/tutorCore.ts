@@ -1,3 +1,5 @@
+import { answerGrader } from './answerGrader';
+
 // TutorMind Core - Handles all tutoring logic with strict rules
 export class TutorCore {
   private sessionHistory = new Map<string, {
@@ -64,7 +66,7 @@ Current step content: ${JSON.stringify(lessonPlan?.content || {})}`;
       ]);
     } else if (expectedAnswer) {
       // Check if answer is correct
-      const isCorrect = this.checkAnswer(studentAnswer, expectedAnswer);
+      const isCorrect = answerGrader.check(expectedAnswer, studentAnswer, 'auto', { subject: lessonPlan?.subject }).correct;
       
       if (isCorrect) {
         prefix = this.getRandomPhrase([
@@ -164,57 +166,6 @@ Current step content: ${JSON.stringify(lessonPlan?.content || {})}`;
     return response;
   }
 
-  private checkAnswer(student: string, expected: string): boolean {
-    const s1 = this.normalize(student);
-    const s2 = this.normalize(expected);
-    
-    if (s1 === s2) return true;
-    
-    // Check numeric equivalence
-    const num1 = this.parseNumber(s1);
-    const num2 = this.parseNumber(s2);
-    
-    if (num1 !== null && num2 !== null) {
-      return Math.abs(num1 - num2) < 0.01;
-    }
-    
-    // MCQ check
-    if (s2.length === 1 && /^[a-d]$/.test(s2)) {
-      return s1 === s2 || 
-             s1 === `option ${s2}` || 
-             s1 === (s2.charCodeAt(0) - 96).toString();
-    }
-    
-    // For word-based answers, check if the student's answer contains the expected word
-    if (s1.includes(s2) || s2.includes(s1)) {
-      return true;
-    }
-    
-    return false;
-  }
-
-  private normalize(text: string): string {
-    const numberWords: Record<string, string> = {
-      'zero': '0', 'one': '1', 'two': '2', 'three': '3', 'four': '4',
-      'five': '5', 'six': '6', 'seven': '7', 'eight': '8', 'nine': '9',
-      'ten': '10', 'eleven': '11', 'twelve': '12', 'thirteen': '13',
-      'fourteen': '14', 'fifteen': '15', 'twenty': '20'
-    };
-
-    let normalized = text.toLowerCase().trim();
-    
-    Object.entries(numberWords).forEach(([word, digit]) => {
-      normalized = normalized.replace(new RegExp(`\\b${word}\\b`, 'g'), digit);
-    });
-    
-    return normalized.replace(/[^a-z0-9\s]/g, '').trim();
-  }
-
-  private parseNumber(text: string): number | null {
-    const num = parseFloat(text);
-    return isNaN(num) ? null : num;
-  }
-
   private extractQuestion(text: string): string {
     const match = text.match(/([^.!?]*\?)/);
     return match ? match[1].trim() : text;
@@ -0,0 +1,113 @@
+// Parent instructions for a document ("hints only", "focus on problems 5-10",
+// "due Friday"), merged from the document and the student's pin and compiled
+// into lines for the tutor's system prompt.
+
+import type { TutorInstructions } from '@shared/schema';
+
+export type AnswerPolicy = NonNullable<TutorInstructions['answerPolicy']>;
+
+export const ANSWER_POLICY_RULES: Record<AnswerPolicy, string> = {
+  answers: 'You may give answers when the student is stuck, but always explain how to get there.',
+  hints: 'Do NOT give answers, even if asked. Give hints and guiding questions only, and let the student reach each answer.',
+  check: 'Only check answers the student gives you: say whether each is right and point to where a mistake is. Do NOT give answers or solve problems for them.',
+};
+
+const MAX_RANGE_ITEMS = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Later layers override earlier ones field by field; empty strings count as
+ * unset so a cleared form field falls back to the document's value.
+ */
+export function mergeInstructions(...layers: Array<TutorInstructions | null | undefined>): TutorInstructions {
+  const merged: Record<string, unknown> = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined && value !== null && value !== '') merged[key] = value;
+    }
+  }
+  return merged as TutorInstructions;
+}
+
+export function hasInstructions(instructions: TutorInstructions | null | undefined): boolean {
+  return !!instructions && Object.keys(mergeInstructions(instructions)).length > 0;
+}
+
+/**
+ * Numbers in a list of values and ranges: "5-10, 12" -> [5..10, 12]. Labels
+ * that aren't plain numbers ("4b") are ignored.
+ */
+export function parseNumberRanges(text: string): number[] {
+  const numbers = new Set<number>();
+  for (const raw of text.split(/[,;&]|\band\b/i)) {
+    const part = raw.trim();
+    const range = part.match(/^(\d+)\s*(?:-|–|to)\s*(\d+)$/i);
+    if (range) {
+      const start = parseInt(range[1], 10);
+      const end = parseInt(range[2], 10);
+      for (let n = Math.min(start, end); n <= Math.max(start, end) && numbers.size < MAX_RANGE_ITEMS; n++) {
+        numbers.add(n);
+      }
+    } else if (/^\d+$/.test(part)) {
+      numbers.add(parseInt(part, 10));
+    }
+  }
+  return Array.from(numbers).sort((a, b) => a - b);
+}
+
+// "Friday, Oct 24 (in 3 days)", "today", "2 days ago"
+export function describeDueDate(dueDate: string, now: Date = new Date()): string {
+  const [year, month, day] = dueDate.split('-').map(Number);
+  const due = new Date(year, month - 1, day);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const days = Math.round((due.getTime() - today.getTime()) / DAY_MS);
+
+  const label = due.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+  if (days === 0) return `${label} (today)`;
+  if (days === 1) return `${label} (tomorrow)`;
+  if (days > 1) return `${label} (in ${days} days)`;
+  return `${label} (${-days} day${days === -1 ? '' : 's'} ago)`;
+}
+
+// "problem 7", "problems 5-10, 12"
+function describeRange(noun: string, text: string): string {
+  const numbers = parseNumberRanges(text);
+  return `${noun}${numbers.length === 1 ? '' : 's'} ${text}`;
+}
+
+/**
+ * Prompt lines for one document's instructions, empty when there are none.
+ */
+export function compileInstructions(
+  instructions: TutorInstructions | null | undefined,
+  options: { now?: Date } = {}
+): string[] {
+  const merged = mergeInstructions(instructions);
+  const lines: string[] = [];
+
+  if (merged.answerPolicy) {
+    lines.push(ANSWER_POLICY_RULES[merged.answerPolicy]);
+  }
+
+  if (merged.focusProblems) {
+    lines.push(`Work only on ${describeRange('problem', merged.focusProblems)}. If the student asks about other problems, steer back to these.`);
+  }
+
+  if (merged.focusPages) {
+    lines.push(`Stick to ${describeRange('page', merged.focusPages)} of this document.`);
+  }
+
+  if (merged.dueDate) {
+    const due = describeDueDate(merged.dueDate, options.now);
+    lines.push(/ago\)$/.test(due)
+      ? `This was due ${due}; help the student finish it without adding pressure.`
+      : `This is due ${due}; keep the session moving toward finishing it.`);
+  }
+
+  if (merged.notes) {
+    lines.push(`Parent's note: ${merged.notes}`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,50 @@
+// Turns a streamed tutor_turn call into speakable pieces: spoken_text is read
+// out of the partial arguments, cut into sentences and clauses, and passed
+// through the guardrails before each piece is handed to the caller (TTS).
+
+import { guardrails, type SentenceGuard } from './guardrails';
+import { SentenceSegmenter } from './sentenceSegmenter';
+import { SpokenTextReader } from './tutorTurn';
+
+export class TutorSpeechStream {
+  private reader = new SpokenTextReader();
+  private segmenter = new SentenceSegmenter();
+  private guard: SentenceGuard;
+  private spokeAnything = false;
+
+  constructor(sessionId: string, subject: string, private onSpeech: (text: string) => void) {
+    this.guard = guardrails.createSentenceGuard(sessionId, subject);
+  }
+
+  /** The next delta of the tool call's JSON arguments. */
+  pushArguments(delta: string): void {
+    this.speak(this.segmenter.push(this.reader.push(delta)));
+  }
+
+  /** Plain text to say, e.g. when the arguments never produced spoken_text. */
+  pushText(text: string): void {
+    this.speak(this.segmenter.push(text));
+  }
+
+  get hasSpoken(): boolean {
+    return this.spokeAnything;
+  }
+
+  /** Says what's left and returns everything that was said this turn. */
+  finish(): string {
+    this.speak(this.segmenter.flush());
+    this.guard.finish().forEach(text => this.say(text));
+    return this.guard.spokenText;
+  }
+
+  private speak(pieces: string[]): void {
+    for (const piece of pieces) {
+      this.guard.accept(piece).forEach(text => this.say(text));
+    }
+  }
+
+  private say(text: string): void {
+    this.spokeAnything = true;
+    this.onSpeech(text);
+  }
+}
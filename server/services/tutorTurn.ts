@@ -0,0 +1,167 @@
+// Validation for the tutor_turn tool call. The model's arguments are untrusted:
+// anything that would let the answer gate grade against a wrong key (an MCQ
+// answer that isn't one of the options, a question missing from what's spoken,
+// hints that give the answer away) is dropped before the turn is stored in the
+// conversation context.
+
+import { z } from 'zod';
+import type { TutorTurn } from '../types/conversationState';
+import { answerGrader, normalizeText } from './answerGrader';
+
+const MAX_ANSWERS = 5;
+const MAX_HINTS = 3;
+const MAX_OPTIONS = 6;
+
+// Numbers are accepted for answers ("expected_answers": [7]) and read as text
+const textItem = z.union([z.string(), z.number()]).transform(value => String(value).trim());
+
+const tutorTurnArgsSchema = z.object({
+  spoken_text: z.string().trim().min(1),
+  question: z.string().trim().optional().nullable(),
+  expected_answers: z.array(textItem).optional().nullable(),
+  answer_kind: z.enum(['math', 'short', 'mcq', 'open']).optional().nullable(),
+  options: z.array(textItem).optional().nullable(),
+  hints: z.array(textItem).optional().nullable(),
+});
+
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = normalizeText(value);
+    if (!value || !key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Whole-word match so a hint mentioning "7 apples" leaks "7" but "17" doesn't
+function mentions(text: string, answer: string): boolean {
+  const haystack = ` ${normalizeText(text)} `;
+  const needle = normalizeText(answer);
+  return !!needle && haystack.indexOf(` ${needle} `) >= 0;
+}
+
+/**
+ * A validated turn from the tool call's arguments (a JSON string or parsed
+ * object), or null when there's nothing usable to say. A question that can't
+ * be graded is dropped from the turn rather than failing the whole turn.
+ */
+export function parseTutorTurn(raw: unknown): TutorTurn | null {
+  let args: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      args = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+
+  const parsed = tutorTurnArgsSchema.safeParse(args);
+  if (!parsed.success) return null;
+  const data = parsed.data;
+
+  const turn: TutorTurn = {
+    spokenText: data.spoken_text,
+    expectedAnswers: [],
+    answerKind: data.answer_kind || 'open',
+    hints: [],
+  };
+
+  const question = data.question || '';
+  if (!question.endsWith('?') || !isQuestionSpoken(question, data.spoken_text)) {
+    return turn;
+  }
+
+  let answers = unique(data.expected_answers || []).slice(0, MAX_ANSWERS);
+  let options: string[] | undefined;
+
+  if (turn.answerKind === 'mcq') {
+    options = unique(data.options || []);
+    if (options.length < 2 || options.length > MAX_OPTIONS) return turn;
+
+    // Exactly one option is right; store it as the option's own text.
+    // A key that is an option's text is that option, even when it looks like a position ("3").
+    const picked = unique(answers
+      .map(answer => {
+        const exact = options!.findIndex(option => normalizeText(option) === normalizeText(answer));
+        return exact >= 0 ? exact : answerGrader.resolveChoice(answer, options);
+      })
+      .filter((index): index is number => index !== null)
+      .map(index => options![index]));
+    if (picked.length !== 1) return turn;
+    answers = picked;
+  }
+
+  if (answers.length === 0) return turn;
+
+  turn.question = question;
+  turn.expectedAnswers = answers;
+  turn.options = options;
+  turn.hints = unique(data.hints || [])
+    .filter(hint => !answers.some(answer => mentions(hint, answer)))
+    .slice(0, MAX_HINTS);
+  return turn;
+}
+
+/**
+ * Whether the spoken text (after guardrails have trimmed or rephrased it)
+ * still asks the turn's question. Grading a question the student never heard
+ * would mark good answers wrong.
+ */
+export function isQuestionSpoken(question: string, spokenText: string): boolean {
+  const needle = normalizeText(question);
+  return !!needle && normalizeText(spokenText).indexOf(needle) >= 0;
+}
+
+// Where spoken_text's value starts; a key inside another string would have its quote escaped
+const SPOKEN_TEXT_START = /(^|[^\\])"spoken_text"\s*:\s*"/;
+
+const JSON_ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+// Decodes a JSON string body from `start` up to its closing quote or, while
+// the arguments are still arriving, up to the last complete character
+function decodeStringPrefix(json: string, start: number): string {
+  let text = '';
+  for (let i = start; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      text += char;
+      continue;
+    }
+    const escape = json[i + 1];
+    if (escape === undefined) break;
+    if (escape === 'u') {
+      const hex = json.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      text += JSON_ESCAPES[escape] ?? escape;
+      i += 1;
+    }
+  }
+  return text;
+}
+
+/**
+ * Reads spoken_text out of the tool call's arguments while they are still
+ * streaming, so the tutor can start speaking before the JSON is complete.
+ * The finished arguments are still validated with parseTutorTurn.
+ */
+export class SpokenTextReader {
+  private args = '';
+  private emitted = 0;
+
+  /** Takes the next arguments delta and returns the spoken text it added. */
+  push(delta: string): string {
+    this.args += delta;
+    const match = SPOKEN_TEXT_START.exec(this.args);
+    if (!match) return '';
+
+    const spoken = decodeStringPrefix(this.args, match.index + match[0].length);
+    const added = spoken.slice(this.emitted);
+    this.emitted = spoken.length;
+    return added;
+  }
+}
@@ -0,0 +1,237 @@
+import * as net from 'net';
+import { PdfJsTextExtractor } from './pdf-extractor';
+
+const MB = 1024 * 1024;
+
+// Per-type size limits, below multer's overall 10 MB cap where a type never needs it
+export const MAX_UPLOAD_BYTES: Record<string, number> = {
+  pdf: 10 * MB,
+  docx: 5 * MB,
+  txt: 1 * MB,
+  png: 10 * MB,
+  jpg: 10 * MB,
+  jpeg: 10 * MB,
+  heic: 10 * MB,
+  heif: 10 * MB,
+};
+
+export const MAX_PDF_PAGES = 50;
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs', 'mif1', 'msf1'];
+
+export class UploadRejectedError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+/**
+ * The file type its leading bytes identify, using the same names as upload
+ * extensions ("jpeg" for JPEGs, "heic" for any HEIF image). Null when the
+ * content matches no supported type.
+ */
+export function detectFileType(data: Buffer): string | null {
+  if (data.subarray(0, 5).toString('latin1') === '%PDF-') return 'pdf';
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpeg';
+  if (data.subarray(4, 8).toString('latin1') === 'ftyp' && HEIF_BRANDS.includes(data.subarray(8, 12).toString('latin1'))) {
+    return 'heic';
+  }
+  if (data.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+    // A ZIP; DOCX packages always contain word/document.xml, whose name is stored uncompressed
+    return data.includes('word/document.xml') ? 'docx' : null;
+  }
+  if (isPlainText(data)) return 'txt';
+  return null;
+}
+
+function utf16Encoding(data: Buffer): 'utf-16le' | 'utf-16be' | null {
+  if (data[0] === 0xff && data[1] === 0xfe) return 'utf-16le';
+  if (data[0] === 0xfe && data[1] === 0xff) return 'utf-16be';
+  return null;
+}
+
+function decodeUtf8(data: Buffer): string | null {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A text upload's contents: UTF-16 when it starts with a byte order mark,
+ * otherwise UTF-8, or Latin-1 when it isn't valid UTF-8 (older Windows
+ * editors save plain text that way).
+ */
+export function decodeText(data: Buffer): string {
+  const utf16 = utf16Encoding(data);
+  if (utf16) return new TextDecoder(utf16).decode(data);
+  return decodeUtf8(data) ?? data.toString('latin1');
+}
+
+function isPlainText(data: Buffer): boolean {
+  if (utf16Encoding(data)) return !decodeText(data).includes('\0');
+  if (data.includes(0)) return false;
+  if (decodeUtf8(data) !== null) return true;
+  // Any bytes decode as Latin-1, so only control characters give a binary away
+  return !/[\x01-\x08\x0e-\x1f\x7f]/.test(data.toString('latin1'));
+}
+
+function normalizeFileType(fileType: string): string {
+  if (fileType === 'jpg') return 'jpeg';
+  if (fileType === 'heif') return 'heic';
+  return fileType;
+}
+
+/**
+ * Size and magic-byte checks for an upload whose name says it is `fileType`.
+ * Returns the rejection message, or null when the file passes.
+ */
+export function verifyUpload(data: Buffer, fileType: string): string | null {
+  const maxBytes = MAX_UPLOAD_BYTES[fileType];
+  if (maxBytes === undefined) return 'Unsupported file type';
+  if (data.length === 0) return 'The file is empty';
+  if (data.length > maxBytes) {
+    return `${fileType.toUpperCase()} files can be at most ${Math.round(maxBytes / MB)} MB`;
+  }
+
+  const detected = detectFileType(data);
+  if (detected !== normalizeFileType(fileType)) {
+    return `The file's contents don't match its .${fileType} extension`;
+  }
+  return null;
+}
+
+export interface MalwareScanResult {
+  clean: boolean;
+  signature?: string; // what the scanner matched, when not clean
+}
+
+export interface MalwareScanner {
+  readonly name: string;
+  scan(data: Buffer): Promise<MalwareScanResult>;
+}
+
+// Local development stand-in that accepts everything
+export class NoopMalwareScanner implements MalwareScanner {
+  readonly name = 'none';
+
+  async scan(): Promise<MalwareScanResult> {
+    return { clean: true };
+  }
+}
+
+/**
+ * Streams the file to a clamd daemon (or anything speaking its INSTREAM
+ * protocol) over TCP and parses the "stream: OK" / "stream: <name> FOUND" reply.
+ */
+export class ClamAvScanner implements MalwareScanner {
+  readonly name = 'clamav';
+
+  constructor(
+    private readonly host: string,
+    private readonly port: number = 3310,
+    private readonly timeoutMs: number = 15000
+  ) {}
+
+  scan(data: Buffer): Promise<MalwareScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      const reply: Buffer[] = [];
+      socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('ClamAV scan timed out')));
+      socket.on('error', reject);
+      socket.on('data', chunk => reply.push(chunk));
+      socket.on('end', () => {
+        const response = Buffer.concat(reply).toString('utf-8').replace(/\0/g, '').trim();
+        const found = response.match(/^stream: (.+) FOUND$/);
+        if (found) {
+          resolve({ clean: false, signature: found[1] });
+        } else if (response === 'stream: OK') {
+          resolve({ clean: true });
+        } else {
+          reject(new Error(`Unexpected ClamAV response: ${response}`));
+        }
+      });
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        const chunkSize = 64 * 1024;
+        for (let offset = 0; offset < data.length; offset += chunkSize) {
+          const chunk = data.subarray(offset, offset + chunkSize);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length, 0);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        socket.end(Buffer.alloc(4)); // zero-length chunk ends the stream
+      });
+    });
+  }
+}
+
+/**
+ * Pick the scanner from MALWARE_SCANNER: `clamav` (CLAMAV_HOST, CLAMAV_PORT)
+ * or `none` (default).
+ */
+export function createMalwareScanner(): MalwareScanner {
+  if (process.env.MALWARE_SCANNER === 'clamav') {
+    const host = process.env.CLAMAV_HOST || '127.0.0.1';
+    const port = parseInt(process.env.CLAMAV_PORT || '3310', 10);
+    console.log(`[UploadScreening] Scanning uploads with ClamAV at ${host}:${port}`);
+    return new ClamAvScanner(host, port);
+  }
+  return new NoopMalwareScanner();
+}
+
+/**
+ * Checks every upload before it is stored: declared type against content,
+ * size and page limits, then the malware scanner.
+ */
+export class UploadScreeningService {
+  private pdfExtractor = new PdfJsTextExtractor();
+
+  constructor(private readonly scanner: MalwareScanner = createMalwareScanner()) {}
+
+  async screen(data: Buffer, fileType: string): Promise<void> {
+    const rejection = verifyUpload(data, fileType);
+    if (rejection) {
+      throw new UploadRejectedError(rejection, 400);
+    }
+
+    if (fileType === 'pdf') {
+      let pages: number;
+      try {
+        pages = await this.pdfExtractor.countPages(data);
+      } catch {
+        throw new UploadRejectedError('The PDF could not be read', 400);
+      }
+      if (pages > MAX_PDF_PAGES) {
+        throw new UploadRejectedError(`PDFs can have at most ${MAX_PDF_PAGES} pages (this one has ${pages})`, 400);
+      }
+    }
+
+    let result: MalwareScanResult;
+    try {
+      result = await this.scanner.scan(data);
+    } catch (error) {
+      // Fail closed: nothing unscanned reaches storage
+      console.error(`[UploadScreening] ${this.scanner.name} scan failed:`, error);
+      throw new UploadRejectedError('Uploads are temporarily unavailable, please try again shortly', 503);
+    }
+    if (!result.clean) {
+      console.warn(`[UploadScreening] Rejected upload matching ${result.signature}`);
+      throw new UploadRejectedError('The file was flagged by our virus scanner', 422);
+    }
+  }
+}
+
+let screeningService: UploadScreeningService | null = null;
+
+export function getUploadScreeningService(): UploadScreeningService {
+  if (!screeningService) {
+    screeningService = new UploadScreeningService();
+  }
+  return screeningService;
+}
@@ -0,0 +1,173 @@
+import { and, eq, isNull, lt } from 'drizzle-orm';
+import { meteredSessions, type MeteredSession } from '@shared/schema';
+import { db } from '../db';
+import { storage } from '../storage';
+
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000; // clients heartbeat every 30 seconds
+const HEARTBEAT_GRACE_MS = 90 * 1000; // a session is considered gone after this much silence
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export type MeterEndReason = NonNullable<MeteredSession['endReason']>;
+
+export interface MeterStatus {
+  meterId: string;
+  active: boolean;
+  elapsedMinutes: number;
+  remainingMinutes: number;
+}
+
+/**
+ * Billable minutes for a metered session. Usage is only counted up to one grace
+ * period past the last heartbeat, so a session that silently disappears (closed
+ * tab, dropped network) is billed for the time it was provably alive.
+ */
+export function computeBillableMinutes(startedAt: Date, lastHeartbeatAt: Date, endAt: Date): number {
+  const billedUntil = Math.min(endAt.getTime(), lastHeartbeatAt.getTime() + HEARTBEAT_GRACE_MS);
+  const durationMs = billedUntil - startedAt.getTime();
+  return durationMs > 0 ? Math.ceil(durationMs / 60000) : 0;
+}
+
+export class UsageMeter {
+  private intervalId: NodeJS.Timeout | null = null;
+
+  // Open a metered session, closing any the user still has open (one active session per user)
+  async open(userId: string, sessionType: 'voice' | 'text'): Promise<MeteredSession> {
+    const openSessions = await db.select().from(meteredSessions)
+      .where(and(eq(meteredSessions.userId, userId), isNull(meteredSessions.endedAt)));
+    for (const session of openSessions) {
+      await this.close(session, 'replaced');
+    }
+
+    const [created] = await db.insert(meteredSessions)
+      .values({ userId, sessionType })
+      .returning();
+
+    console.log(`[UsageMeter] Opened ${sessionType} session ${created.id} for user ${userId}`);
+    return created;
+  }
+
+  // Record that the client is still connected; closes the session once the user runs out of minutes
+  async heartbeat(meterId: string, userId: string): Promise<MeterStatus | null> {
+    const session = await this.getOwnedSession(meterId, userId);
+    if (!session) return null;
+
+    if (session.endedAt) {
+      return this.status(session, false);
+    }
+
+    const now = new Date();
+    if (now.getTime() - session.lastHeartbeatAt.getTime() > HEARTBEAT_GRACE_MS) {
+      // Heartbeats stopped long enough that the sweeper would have closed it
+      const closed = await this.close(session, 'timeout', now);
+      return this.status(closed || session, false);
+    }
+
+    const [updated] = await db.update(meteredSessions)
+      .set({ lastHeartbeatAt: now })
+      .where(and(eq(meteredSessions.id, meterId), isNull(meteredSessions.endedAt)))
+      .returning();
+    if (!updated) return this.status(session, false);
+
+    const status = await this.status(updated, true);
+    if (status.remainingMinutes <= 0) {
+      const closed = await this.close(updated, 'limit', now);
+      return this.status(closed || updated, false);
+    }
+    return status;
+  }
+
+  // Voice activity the server itself observed (token issued, tutor turn answered) counts as a
+  // heartbeat on the user's open session. Returns null when there is no active session to bill.
+  async recordActivity(userId: string): Promise<MeterStatus | null> {
+    const [session] = await db.select().from(meteredSessions)
+      .where(and(eq(meteredSessions.userId, userId), isNull(meteredSessions.endedAt)));
+    if (!session) return null;
+
+    const status = await this.heartbeat(session.id, userId);
+    return status?.active ? status : null;
+  }
+
+  // Client-initiated end (explicit stop or sendBeacon on unload)
+  async end(meterId: string, userId: string): Promise<MeteredSession | null> {
+    const session = await this.getOwnedSession(meterId, userId);
+    if (!session) return null;
+    if (session.endedAt) return session;
+
+    return (await this.close(session, 'client')) || session;
+  }
+
+  // Close sessions whose heartbeats stopped (closed tabs, crashed clients)
+  async closeStaleSessions(): Promise<number> {
+    const cutoff = new Date(Date.now() - HEARTBEAT_GRACE_MS);
+    const stale = await db.select().from(meteredSessions)
+      .where(and(isNull(meteredSessions.endedAt), lt(meteredSessions.lastHeartbeatAt, cutoff)));
+
+    let closed = 0;
+    for (const session of stale) {
+      if (await this.close(session, 'timeout')) closed++;
+    }
+    if (closed > 0) {
+      console.log(`[UsageMeter] Closed ${closed} stale sessions`);
+    }
+    return closed;
+  }
+
+  start() {
+    if (this.intervalId) return;
+    this.intervalId = setInterval(() => {
+      this.closeStaleSessions().catch(error => console.error('[UsageMeter] Sweep error:', error));
+    }, SWEEP_INTERVAL_MS);
+    console.log('[UsageMeter] Started stale session sweeper');
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  private async getOwnedSession(meterId: string, userId: string): Promise<MeteredSession | undefined> {
+    const [session] = await db.select().from(meteredSessions)
+      .where(and(eq(meteredSessions.id, meterId), eq(meteredSessions.userId, userId)));
+    return session;
+  }
+
+  private async status(session: MeteredSession, active: boolean): Promise<MeterStatus> {
+    const available = await storage.getAvailableMinutes(session.userId);
+    // Minutes of an open session aren't in the user's counter yet, so subtract them here
+    const elapsedMinutes = session.endedAt
+      ? session.billedMinutes || 0
+      : computeBillableMinutes(session.startedAt, session.lastHeartbeatAt, new Date());
+
+    return {
+      meterId: session.id,
+      active,
+      elapsedMinutes,
+      remainingMinutes: Math.max(0, available.remaining - (session.endedAt ? 0 : elapsedMinutes)),
+    };
+  }
+
+  // Close and bill a session exactly once, even if several instances race to close it
+  private async close(session: MeteredSession, reason: MeterEndReason, endAt: Date = new Date()): Promise<MeteredSession | null> {
+    const billedMinutes = computeBillableMinutes(session.startedAt, session.lastHeartbeatAt, endAt);
+
+    const [closed] = await db.update(meteredSessions)
+      .set({ endedAt: endAt, endReason: reason, billedMinutes })
+      .where(and(eq(meteredSessions.id, session.id), isNull(meteredSessions.endedAt)))
+      .returning();
+    if (!closed) return null;
+
+    if (billedMinutes > 0) {
+      await storage.createUsageLog(session.userId, billedMinutes, session.sessionType);
+      if (session.sessionType === 'voice') {
+        await storage.updateUserVoiceUsage(session.userId, billedMinutes);
+      }
+    }
+
+    console.log(`[UsageMeter] Closed session ${session.id} (${reason}), billed ${billedMinutes} min`);
+    return closed;
+  }
+}
+
+export const usageMeter = new UsageMeter();
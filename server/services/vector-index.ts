@@ -0,0 +1,247 @@
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { documentChunks, documentEmbeddings, userDocuments } from '@shared/schema';
+import { db } from '../db';
+
+export interface VectorRecord {
+  chunkId: string;
+  documentId: string;
+  userId: string;
+  embedding: number[];
+  model?: string; // embedding model; a chunk can have one vector per model
+}
+
+export interface VectorQuery {
+  userId: string;
+  embedding: number[];
+  topK: number;
+  threshold: number;
+  documentIds?: string[];
+  model?: string; // only compare against vectors from this model
+}
+
+// Width of the pgvector column; smaller local-model vectors are zero-padded
+export const PGVECTOR_DIMENSIONS = 1536;
+
+export interface VectorMatch {
+  chunkId: string;
+  documentId: string;
+  similarity: number;
+}
+
+/**
+ * Storage-agnostic nearest-neighbour index over document chunk embeddings.
+ * Results are always scoped to a single user and sorted by descending similarity.
+ */
+export interface VectorIndex {
+  readonly backend: 'memory' | 'pgvector';
+  upsert(record: VectorRecord): Promise<void>;
+  removeDocument(documentId: string): Promise<void>;
+  search(query: VectorQuery): Promise<VectorMatch[]>;
+}
+
+/**
+ * Cosine similarity between two equal-length vectors. Returns 0 for zero vectors
+ * instead of NaN so callers can apply thresholds safely.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error('Embedding vectors must have same length');
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Zero-pad a vector to the pgvector column width. Padding leaves dot products
+ * and norms unchanged, so cosine similarity between vectors of the same model
+ * is preserved. Returns null for vectors wider than the column.
+ */
+export function padVector(embedding: number[], dimensions: number = PGVECTOR_DIMENSIONS): number[] | null {
+  if (embedding.length > dimensions) return null;
+  if (embedding.length === dimensions) return embedding;
+  return embedding.concat(new Array(dimensions - embedding.length).fill(0));
+}
+
+function recordKey(record: { chunkId: string; model?: string }): string {
+  return `${record.chunkId}:${record.model || ''}`;
+}
+
+/**
+ * Brute-force in-process index used in tests and development.
+ * An optional loader lazily hydrates a user's vectors (e.g. from the
+ * document_embeddings JSON column) the first time that user is searched.
+ */
+export class InMemoryVectorIndex implements VectorIndex {
+  readonly backend = 'memory' as const;
+  private records: Map<string, VectorRecord> = new Map();
+  private hydratedUsers: Set<string> = new Set();
+
+  constructor(private loader?: (userId: string) => Promise<VectorRecord[]>) {}
+
+  async upsert(record: VectorRecord): Promise<void> {
+    this.records.set(recordKey(record), record);
+  }
+
+  async removeDocument(documentId: string): Promise<void> {
+    const keys = Array.from(this.records.keys());
+    for (const key of keys) {
+      if (this.records.get(key)!.documentId === documentId) {
+        this.records.delete(key);
+      }
+    }
+  }
+
+  async search(query: VectorQuery): Promise<VectorMatch[]> {
+    await this.hydrate(query.userId);
+
+    const allowedDocs = query.documentIds ? new Set(query.documentIds) : null;
+    const matches: VectorMatch[] = [];
+
+    const records = Array.from(this.records.values());
+    for (const record of records) {
+      if (record.userId !== query.userId) continue;
+      if (allowedDocs && !allowedDocs.has(record.documentId)) continue;
+      if (query.model && record.model !== query.model) continue;
+      if (record.embedding.length !== query.embedding.length) continue;
+
+      const similarity = cosineSimilarity(query.embedding, record.embedding);
+      if (similarity >= query.threshold) {
+        matches.push({ chunkId: record.chunkId, documentId: record.documentId, similarity });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, query.topK);
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  private async hydrate(userId: string): Promise<void> {
+    if (!this.loader || this.hydratedUsers.has(userId)) return;
+
+    const records = await this.loader(userId);
+    for (const record of records) {
+      // Never clobber vectors written since startup with stale loader data
+      if (!this.records.has(recordKey(record))) {
+        this.records.set(recordKey(record), record);
+      }
+    }
+    this.hydratedUsers.add(userId);
+  }
+}
+
+/**
+ * Production index backed by the pgvector `embedding_vector` column on
+ * document_embeddings. Requires `CREATE EXTENSION vector` on the database.
+ */
+export class PgVectorIndex implements VectorIndex {
+  readonly backend = 'pgvector' as const;
+
+  async upsert(record: VectorRecord): Promise<void> {
+    const embeddingVector = padVector(record.embedding);
+    if (!embeddingVector) {
+      console.warn(`[VectorIndex] ${record.embedding.length}-dimension vector is too wide for pgvector, chunk ${record.chunkId} is not indexed`);
+      return;
+    }
+
+    const conditions = [eq(documentEmbeddings.chunkId, record.chunkId)];
+    if (record.model) conditions.push(eq(documentEmbeddings.embeddingModel, record.model));
+    await db.update(documentEmbeddings)
+      .set({ embeddingVector })
+      .where(and(...conditions));
+  }
+
+  async removeDocument(_documentId: string): Promise<void> {
+    // Vectors live on document_embeddings rows and cascade with their chunks
+  }
+
+  async search(query: VectorQuery): Promise<VectorMatch[]> {
+    if (query.documentIds && query.documentIds.length === 0) return [];
+
+    const vectorLiteral = `[${(padVector(query.embedding) || query.embedding).join(',')}]`;
+    const similarity = sql<number>`1 - (${documentEmbeddings.embeddingVector} <=> ${vectorLiteral}::vector)`;
+
+    const conditions = [
+      eq(userDocuments.userId, query.userId),
+      sql`${documentEmbeddings.embeddingVector} IS NOT NULL`,
+      sql`${similarity} >= ${query.threshold}`,
+    ];
+    if (query.documentIds) {
+      conditions.push(inArray(documentChunks.documentId, query.documentIds));
+    }
+    if (query.model) {
+      conditions.push(eq(documentEmbeddings.embeddingModel, query.model));
+    }
+
+    const rows = await db
+      .select({
+        chunkId: documentChunks.id,
+        documentId: documentChunks.documentId,
+        similarity,
+      })
+      .from(documentEmbeddings)
+      .innerJoin(documentChunks, eq(documentEmbeddings.chunkId, documentChunks.id))
+      .innerJoin(userDocuments, eq(documentChunks.documentId, userDocuments.id))
+      .where(and(...conditions))
+      .orderBy(sql`${documentEmbeddings.embeddingVector} <=> ${vectorLiteral}::vector`)
+      .limit(query.topK);
+
+    return rows.map(row => ({ ...row, similarity: Number(row.similarity) }));
+  }
+}
+
+/**
+ * Load a user's embeddings from the JSON text column for brute-force search.
+ */
+export async function loadUserVectors(userId: string): Promise<VectorRecord[]> {
+  const rows = await db
+    .select({
+      chunkId: documentChunks.id,
+      documentId: documentChunks.documentId,
+      embedding: documentEmbeddings.embedding,
+      model: documentEmbeddings.embeddingModel,
+    })
+    .from(documentEmbeddings)
+    .innerJoin(documentChunks, eq(documentEmbeddings.chunkId, documentChunks.id))
+    .innerJoin(userDocuments, eq(documentChunks.documentId, userDocuments.id))
+    .where(eq(userDocuments.userId, userId));
+
+  return rows.map(row => ({
+    chunkId: row.chunkId,
+    documentId: row.documentId,
+    userId,
+    embedding: JSON.parse(row.embedding) as number[],
+    model: row.model || undefined,
+  }));
+}
+
+/**
+ * Pick the backend from VECTOR_BACKEND, defaulting to pgvector in production
+ * and the in-process index everywhere else.
+ */
+export function createVectorIndex(): VectorIndex {
+  const configured = process.env.VECTOR_BACKEND
+    || (process.env.NODE_ENV === 'production' ? 'pgvector' : 'memory');
+
+  if (configured === 'pgvector') {
+    console.log('[VectorIndex] Using pgvector backend');
+    return new PgVectorIndex();
+  }
+
+  console.log('[VectorIndex] Using in-memory brute-force backend');
+  return new InMemoryVectorIndex(loadUserVectors);
+}
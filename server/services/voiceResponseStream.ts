@@ -0,0 +1,131 @@
+import type { Request, Response } from 'express';
+import { openaiService, requestGradeBand } from './openai';
+import { getAzureTTSService } from './azureTTS';
+import { lessonService } from './lessonService';
+import { latencyTracker } from './latencyTracker';
+import { SentenceSegmenter } from './sentenceSegmenter';
+import { type EnergyStyle } from '../utils/ssmlGenerator';
+
+/**
+ * Server-sent events for a spoken tutor reply with barge-in support, shared by
+ * the /stream-response routes. Sentences go to TTS as soon as the model
+ * finishes them, one at a time and in order, while it keeps generating. The
+ * client closing the connection (barge-in) stops TTS and aborts the model
+ * request.
+ *
+ * Events: { type: 'text', content, index }, { type: 'audio', content (base64), index },
+ * then { type: 'complete', plan, durationMs } or { type: 'error', message }.
+ */
+export async function streamTutorResponse(req: Request, res: Response): Promise<void> {
+  // Set SSE headers
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'Access-Control-Allow-Origin': '*',
+  });
+
+  const { message, lessonId, sessionId, studentId, documentIds } = req.query as any;
+  const userId = req.user?.id || 'anonymous';
+  const latencySessionId = sessionId || `${userId}-default`;
+  const startTime = Date.now();
+
+  // Abort controller for barge-in
+  const abortController = new AbortController();
+  const { signal } = abortController;
+
+  // Handle client disconnect (barge-in). Listened for on the response: the request's
+  // 'close' fires as soon as a GET's (empty) body has been read.
+  res.on('close', () => {
+    if (res.writableEnded) return;
+    console.log('[Streaming] Client disconnected (barge-in), aborting LLM and TTS');
+    abortController.abort();
+    res.end();
+  });
+
+  const send = (event: Record<string, unknown>) => {
+    if (!signal.aborted) {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+  };
+
+  // The message arrives complete, so speech recognition ends as the turn starts
+  const turnId = latencyTracker.startTurn(latencySessionId);
+  latencyTracker.updateMetric(latencySessionId, turnId, { asr_end: startTime, llm_start: startTime });
+
+  const ttsEnabled = process.env.VOICE_TEST_MODE !== '1' && !!process.env.AZURE_SPEECH_KEY;
+  let sentenceCount = 0;
+  let speaking = Promise.resolve();
+
+  const synthesize = async (sentence: string, index: number) => {
+    if (!ttsEnabled || signal.aborted) return;
+    try {
+      if (index === 0) {
+        latencyTracker.updateMetric(latencySessionId, turnId, { tts_start: Date.now() });
+      }
+      const audioBuffer = await getAzureTTSService().synthesizeSpeech(
+        sentence,
+        (process.env.ENERGY_LEVEL as EnergyStyle) || 'upbeat'
+      );
+      if (signal.aborted) return;
+
+      if (index === 0) {
+        latencyTracker.updateMetric(latencySessionId, turnId, { tts_first_audio: Date.now() });
+      }
+      send({ type: 'audio', content: Buffer.from(audioBuffer).toString('base64'), index });
+    } catch (error) {
+      console.error('[Streaming] TTS error for sentence', index, error);
+    }
+  };
+
+  // Text goes out immediately; audio is chained so sentences play in order
+  const speak = (sentence: string) => {
+    const index = sentenceCount++;
+    send({ type: 'text', content: sentence, index });
+    speaking = speaking.then(() => synthesize(sentence, index));
+  };
+
+  try {
+    const lessonContext = lessonId ? await lessonService.getLessonContext(lessonId as string) : null;
+
+    const response = await openaiService.generateEnhancedTutorResponse(message as string, {
+      userId,
+      lessonId: lessonId as string,
+      sessionId: sessionId as string,
+      lessonContext: lessonContext || undefined,
+      documentIds: typeof documentIds === 'string' && documentIds ? documentIds.split(',') : undefined,
+      studentId: typeof studentId === 'string' ? studentId : undefined,
+      gradeBand: await requestGradeBand(req.user, studentId),
+      language: req.user?.preferredLanguage || undefined,
+    }, undefined, {
+      signal,
+      onFirstToken: () => latencyTracker.updateMetric(latencySessionId, turnId, { llm_first_token: Date.now() }),
+      onSpeech: speak,
+    });
+
+    // Replies that didn't come from the model (answer gate, cache, fallbacks) arrive whole
+    if (!response.streamed) {
+      const segmenter = new SentenceSegmenter();
+      segmenter.push(response.content).concat(segmenter.flush()).forEach(speak);
+    }
+
+    latencyTracker.updateMetric(latencySessionId, turnId, {
+      model_used: response.model,
+      fallback_used: response.usedFallback || false
+    });
+
+    await speaking;
+
+    send({
+      type: 'complete',
+      plan: response.plan,
+      durationMs: Date.now() - startTime
+    });
+  } catch (error) {
+    console.error('[Streaming] Error:', error);
+    latencyTracker.updateMetric(latencySessionId, turnId, { error_code: 'stream_failed' });
+    send({ type: 'error', message: 'Failed to generate response' });
+  } finally {
+    res.end();
+  }
+}
@@ -9,12 +9,14 @@ import {
   userDocuments,
   documentChunks,
   documentEmbeddings,
+  documentQuestions,
   students,
   studentDocPins,
   tutorSessions,
   agentSessions,
   adminLogs,
   marketingCampaigns,
+  conceptMastery,
   type User,
   type InsertUser,
   type Subject,
@@ -34,18 +36,23 @@ import {
   type InsertStudent,
   type StudentDocPin,
   type InsertStudentDocPin,
+  type TutorInstructions,
   type TutorSession,
   type InsertTutorSession,
   type AdminLog,
   type InsertAdminLog,
   type MarketingCampaign,
   type InsertMarketingCampaign,
+  type ConceptMastery,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, asc, count, sum, sql, like, or } from "drizzle-orm";
+import { eq, and, desc, asc, count, sum, sql, like, or, inArray } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import MemoryStore from "memorystore";
+import { createVectorIndex, type VectorIndex } from "./services/vector-index";
+import { getBlobStore } from "./services/blobStorage";
+import { isMastered } from "./services/knowledgeTracing";
 
 const PostgresSessionStore = connectPg(session);
 
@@ -78,6 +85,10 @@ export interface IStorage {
   getUserProgress(userId: string, lessonId: string): Promise<UserProgress | undefined>;
   updateUserProgress(userId: string, lessonId: string, progress: Partial<UserProgress>): Promise<UserProgress>;
 
+  // Concept mastery operations
+  getConceptMastery(userId: string, lessonId?: string): Promise<ConceptMastery[]>;
+  upsertConceptMastery(userId: string, lessonId: string, concept: string, estimate: { pKnown: number; attempts: number; correctCount: number }): Promise<ConceptMastery>;
+
   // Session operations
   createLearningSession(session: InsertLearningSession): Promise<LearningSession>;
   endLearningSession(sessionId: string, userId: string, updates: Partial<LearningSession>): Promise<LearningSession>;
@@ -100,17 +111,29 @@ export interface IStorage {
   uploadDocument(userId: string, document: InsertUserDocument): Promise<UserDocument>;
   getUserDocuments(userId: string): Promise<UserDocument[]>;
   getDocument(documentId: string, userId: string): Promise<UserDocument | undefined>;
+  getDocumentById(documentId: string): Promise<UserDocument | undefined>;
   deleteDocument(documentId: string, userId: string): Promise<void>;
   updateDocument(documentId: string, userId: string, updates: Partial<UserDocument>): Promise<UserDocument>;
   updateDocumentById(documentId: string, updates: Partial<UserDocument>): Promise<UserDocument | null>;
   getAllDocumentsForProcessing(): Promise<UserDocument[]>;
   getAllDocumentsForAdmin(): Promise<any[]>;
+  getDocumentStorageUsage(userId: string): Promise<number>;
+  countDocumentsReferencingBlob(key: string): Promise<number>;
+  getExpiredDocuments(cutoff: Date, limit: number): Promise<UserDocument[]>;
   
   // Document processing operations
   createDocumentChunk(chunk: InsertDocumentChunk): Promise<DocumentChunk>;
   createDocumentEmbedding(embedding: InsertDocumentEmbedding): Promise<DocumentEmbedding>;
   deleteDocumentChunks(documentId: string): Promise<void>;
-  searchSimilarContent(userId: string, queryEmbedding: number[], topK: number, threshold: number): Promise<Array<{chunk: DocumentChunk, document: UserDocument, similarity: number}>>;
+  findDuplicateDocument(userId: string, contentHash: string): Promise<UserDocument | undefined>;
+  copyDocumentContent(sourceId: string, targetId: string): Promise<UserDocument | null>;
+  getReusableEmbeddings(userId: string, contentHashes: string[], model: string): Promise<Map<string, string>>;
+  getChunksMissingEmbedding(model: string, scope: EmbeddingScope, limit: number): Promise<PendingEmbedding[]>;
+  pruneEmbeddings(keepModel: string, scope: EmbeddingScope): Promise<number>;
+  setEmbeddingProvider(scope: EmbeddingScope, provider: 'openai' | 'local' | null): Promise<void>;
+  countEmbeddingsByModel(): Promise<Array<{ model: string | null; count: number }>>;
+  recordEmbeddingUsage(documentId: string, embeddedTokens: number, reusedTokens: number): Promise<void>;
+  searchSimilarContent(userId: string, queryEmbedding: number[], model: string, topK: number, threshold: number, documentIds?: string[]): Promise<Array<{chunk: DocumentChunk, document: UserDocument, similarity: number}>>;
   getDocumentContext(userId: string, documentIds: string[]): Promise<{chunks: DocumentChunk[], documents: UserDocument[]}>;
 
   // Student memory operations
@@ -123,6 +146,7 @@ export interface IStorage {
   // Student document pins
   pinDocument(studentId: string, docId: string, userId: string): Promise<StudentDocPin>;
   unpinDocument(pinId: string, userId: string): Promise<void>;
+  updatePinInstructions(studentId: string, pinId: string, userId: string, instructions: TutorInstructions | null): Promise<StudentDocPin | undefined>;
   getStudentPinnedDocs(studentId: string, userId: string): Promise<Array<{ pin: StudentDocPin, document: UserDocument }>>;
   
   // Tutor sessions
@@ -153,11 +177,40 @@ export interface IStorage {
   sessionStore: session.Store;
 }
 
+// A chunk with no embedding yet from the model being backfilled
+export interface PendingEmbedding {
+  chunkId: string;
+  documentId: string;
+  userId: string;
+  content: string;
+  contentHash: string | null;
+  tokenCount: number | null;
+}
+
+// Accounts a corpus operation applies to: one account, the accounts using a
+// provider (`isDefault` includes accounts that haven't chosen one), or everyone
+export type EmbeddingScope =
+  | { userId: string }
+  | { provider: 'openai' | 'local'; isDefault: boolean }
+  | { all: true };
+
+function embeddingScopeFilter(scope: EmbeddingScope) {
+  if ('userId' in scope) return eq(users.id, scope.userId);
+  if ('provider' in scope) {
+    return scope.isDefault
+      ? or(eq(users.embeddingProvider, scope.provider), sql`${users.embeddingProvider} IS NULL`)!
+      : eq(users.embeddingProvider, scope.provider);
+  }
+  return sql`true`;
+}
+
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
+  vectorIndex: VectorIndex;
   private testSessions: LearningSession[] = [];
   private testQuizAttempts: QuizAttempt[] = [];
   private testUserProgress: Map<string, UserProgress> = new Map();
+  private testConceptMastery: Map<string, ConceptMastery> = new Map();
 
   constructor() {
     // Use MemoryStore for development testing when database is not available
@@ -174,6 +227,8 @@ export class DatabaseStorage implements IStorage {
         createTableIfMissing: false 
       });
     }
+
+    this.vectorIndex = createVectorIndex();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -333,11 +388,9 @@ export class DatabaseStorage implements IStorage {
       return false;
     }
 
-    // Check monthly allowance vs usage
-    const monthlyLimit = user.monthlyVoiceMinutes || 60;
-    const monthlyUsed = user.monthlyVoiceMinutesUsed || 0;
-    
-    return monthlyUsed < monthlyLimit;
+    // Check monthly allowance plus purchased top-ups vs usage
+    const { remaining } = await this.getAvailableMinutes(userId);
+    return remaining > 0;
   }
 
   async getAvailableMinutes(userId: string): Promise<{ total: number; used: number; remaining: number; bonusMinutes: number }> {
@@ -448,6 +501,7 @@ export class DatabaseStorage implements IStorage {
           voiceMinutes: '0 / 90 min',
           percentage: 0,
         },
+        conceptMastery: await this.getConceptMasteryByLesson(userId),
       };
     }
 
@@ -504,9 +558,28 @@ export class DatabaseStorage implements IStorage {
         voiceMinutes: `${user.weeklyVoiceMinutesUsed || 0} / ${weeklyLimit} min`,
         percentage: usagePercentage,
       },
+      conceptMastery: await this.getConceptMasteryByLesson(userId),
     };
   }
 
+  // Per-concept mastery grouped by lesson, as percentages for the dashboard
+  private async getConceptMasteryByLesson(userId: string) {
+    const rows = await this.getConceptMastery(userId);
+    const byLesson = new Map<string, Array<{ concept: string; mastery: number; attempts: number; mastered: boolean; updatedAt: Date | null }>>();
+    for (const row of rows) {
+      const concepts = byLesson.get(row.lessonId) || [];
+      concepts.push({
+        concept: row.concept,
+        mastery: Math.round(row.pKnown * 100),
+        attempts: row.attempts,
+        mastered: isMastered(row),
+        updatedAt: row.updatedAt,
+      });
+      byLesson.set(row.lessonId, concepts);
+    }
+    return Array.from(byLesson.entries()).map(([lessonId, concepts]) => ({ lessonId, concepts }));
+  }
+
   async getResumeSession(userId: string): Promise<any> {
     // Return null for test mode (no resume session)
     const isTestMode = process.env.AUTH_TEST_MODE === 'true' || process.env.NODE_ENV === 'development';
@@ -823,6 +896,56 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getConceptMastery(userId: string, lessonId?: string): Promise<ConceptMastery[]> {
+    // Test mode implementation
+    const isTestMode = process.env.AUTH_TEST_MODE === 'true' || process.env.NODE_ENV === 'development';
+    if (isTestMode) {
+      return Array.from(this.testConceptMastery.values())
+        .filter(m => m.userId === userId && (!lessonId || m.lessonId === lessonId));
+    }
+
+    const conditions = [eq(conceptMastery.userId, userId)];
+    if (lessonId) {
+      conditions.push(eq(conceptMastery.lessonId, lessonId));
+    }
+    return await db.select().from(conceptMastery).where(and(...conditions));
+  }
+
+  async upsertConceptMastery(
+    userId: string,
+    lessonId: string,
+    concept: string,
+    estimate: { pKnown: number; attempts: number; correctCount: number }
+  ): Promise<ConceptMastery> {
+    // Test mode implementation
+    const isTestMode = process.env.AUTH_TEST_MODE === 'true' || process.env.NODE_ENV === 'development';
+    if (isTestMode) {
+      const key = `${userId}-${lessonId}-${concept}`;
+      const existing = this.testConceptMastery.get(key);
+      const mastery: ConceptMastery = {
+        id: existing?.id || `mastery-${Date.now()}-${this.testConceptMastery.size}`,
+        userId,
+        lessonId,
+        concept,
+        ...estimate,
+        createdAt: existing?.createdAt || new Date(),
+        updatedAt: new Date()
+      };
+      this.testConceptMastery.set(key, mastery);
+      return mastery;
+    }
+
+    const [mastery] = await db
+      .insert(conceptMastery)
+      .values({ userId, lessonId, concept, ...estimate })
+      .onConflictDoUpdate({
+        target: [conceptMastery.userId, conceptMastery.lessonId, conceptMastery.concept],
+        set: { ...estimate, updatedAt: new Date() },
+      })
+      .returning();
+    return mastery;
+  }
+
   async createLearningSession(sessionData: InsertLearningSession): Promise<LearningSession> {
     // Test mode implementation
     const isTestMode = process.env.AUTH_TEST_MODE === 'true' || process.env.NODE_ENV === 'development';
@@ -1140,10 +1263,18 @@ export class DatabaseStorage implements IStorage {
   async getAllDocumentsForAdmin(): Promise<any[]> {
     const docs = await db.select({
       id: userDocuments.id,
-      filename: userDocuments.filename,
-      mimeType: userDocuments.mimeType,
+      title: userDocuments.title,
+      originalName: userDocuments.originalName,
+      fileType: userDocuments.fileType,
       fileSize: userDocuments.fileSize,
       userId: userDocuments.userId,
+      processingStatus: userDocuments.processingStatus,
+      quarantineReason: userDocuments.quarantineReason,
+      screeningFlags: userDocuments.screeningFlags,
+      contentHash: userDocuments.contentHash,
+      embeddingTokens: userDocuments.embeddingTokens,
+      reusedEmbeddingTokens: userDocuments.reusedEmbeddingTokens,
+      chunkCount: sql<number>`(select count(*) from ${documentChunks} where ${documentChunks.documentId} = ${userDocuments.id})`.mapWith(Number),
       createdAt: userDocuments.createdAt,
     }).from(userDocuments).orderBy(desc(userDocuments.createdAt));
 
@@ -1161,13 +1292,60 @@ export class DatabaseStorage implements IStorage {
     return docsWithEmails;
   }
 
+  // Bytes of upload storage the account uses; duplicate uploads share a blob and count once
+  async getDocumentStorageUsage(userId: string): Promise<number> {
+    const result = await db.execute(sql`
+      SELECT COALESCE(SUM(file_size), 0)::bigint AS used
+      FROM (
+        SELECT DISTINCT ON (COALESCE(${userDocuments.storageKey}, ${userDocuments.id})) ${userDocuments.fileSize} AS file_size
+        FROM ${userDocuments}
+        WHERE ${userDocuments.userId} = ${userId}
+      ) stored
+    `);
+    return Number((result.rows[0] as { used?: string | number } | undefined)?.used ?? 0);
+  }
+
+  async countDocumentsReferencingBlob(key: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(userDocuments)
+      .where(or(eq(userDocuments.storageKey, key), eq(userDocuments.parsedTextPath, key)));
+    return result?.count ?? 0;
+  }
+
+  // Documents not kept for future sessions that were uploaded before the cutoff
+  async getExpiredDocuments(cutoff: Date, limit: number): Promise<UserDocument[]> {
+    return await db
+      .select()
+      .from(userDocuments)
+      .where(and(
+        sql`${userDocuments.keepForFutureSessions} IS NOT TRUE`,
+        sql`${userDocuments.createdAt} < ${cutoff}`,
+        // A document pinned to a student is in use for their sessions
+        sql`NOT EXISTS (SELECT 1 FROM ${studentDocPins} WHERE ${studentDocPins.docId} = ${userDocuments.id})`
+      ))
+      .orderBy(asc(userDocuments.createdAt))
+      .limit(limit);
+  }
+
   async getDocument(documentId: string, userId: string): Promise<UserDocument | undefined> {
     const [doc] = await db.select().from(userDocuments).where(and(eq(userDocuments.id, documentId), eq(userDocuments.userId, userId)));
     return doc || undefined;
   }
 
+  // Admin lookup regardless of owner
+  async getDocumentById(documentId: string): Promise<UserDocument | undefined> {
+    const [doc] = await db.select().from(userDocuments).where(eq(userDocuments.id, documentId));
+    return doc || undefined;
+  }
+
   async deleteDocument(documentId: string, userId: string): Promise<void> {
-    await db.delete(userDocuments).where(and(eq(userDocuments.id, documentId), eq(userDocuments.userId, userId)));
+    const deleted = await db.delete(userDocuments)
+      .where(and(eq(userDocuments.id, documentId), eq(userDocuments.userId, userId)))
+      .returning({ id: userDocuments.id });
+    if (deleted.length > 0) {
+      await this.vectorIndex.removeDocument(documentId);
+    }
   }
 
   async updateDocument(documentId: string, userId: string, updates: Partial<UserDocument>): Promise<UserDocument> {
@@ -1186,29 +1364,243 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createDocumentEmbedding(embedding: InsertDocumentEmbedding): Promise<DocumentEmbedding> {
-    const [created] = await db.insert(documentEmbeddings).values(embedding).returning();
+    // Re-embedding a chunk with the same model replaces its embedding
+    const [created] = await db.insert(documentEmbeddings).values(embedding)
+      .onConflictDoUpdate({
+        target: [documentEmbeddings.chunkId, documentEmbeddings.embeddingModel],
+        set: { embedding: embedding.embedding, embeddingVector: null, createdAt: new Date() },
+      })
+      .returning();
+
+    // Keep the similarity index in sync with the stored JSON embedding
+    const [owner] = await db
+      .select({ documentId: documentChunks.documentId, userId: userDocuments.userId })
+      .from(documentChunks)
+      .innerJoin(userDocuments, eq(documentChunks.documentId, userDocuments.id))
+      .where(eq(documentChunks.id, created.chunkId));
+    if (owner) {
+      await this.vectorIndex.upsert({
+        chunkId: created.chunkId,
+        documentId: owner.documentId,
+        userId: owner.userId,
+        embedding: JSON.parse(created.embedding),
+        model: created.embeddingModel || undefined,
+      });
+    }
+
     return created;
   }
 
   async deleteDocumentChunks(documentId: string): Promise<void> {
     await db.delete(documentChunks).where(eq(documentChunks.documentId, documentId));
+    await this.vectorIndex.removeDocument(documentId);
   }
 
-  async searchSimilarContent(userId: string, queryEmbedding: number[], topK: number, threshold: number): Promise<Array<{chunk: DocumentChunk, document: UserDocument, similarity: number}>> {
-    // In a real implementation, this would use vector similarity search
-    // For now, return empty array
-    return [];
+  // A processed upload of the same file by the same account
+  async findDuplicateDocument(userId: string, contentHash: string): Promise<UserDocument | undefined> {
+    const [doc] = await db.select().from(userDocuments)
+      .where(and(
+        eq(userDocuments.userId, userId),
+        eq(userDocuments.contentHash, contentHash),
+        eq(userDocuments.processingStatus, 'ready')
+      ))
+      .orderBy(asc(userDocuments.createdAt))
+      .limit(1);
+    return doc || undefined;
+  }
+
+  /**
+   * Give a duplicate upload its own copy of the source's chunks, embeddings and
+   * worksheet questions, and mark it ready without re-parsing or re-embedding.
+   */
+  async copyDocumentContent(sourceId: string, targetId: string): Promise<UserDocument | null> {
+    const copied = await db.transaction(async (tx) => {
+      const [source] = await tx.select().from(userDocuments).where(eq(userDocuments.id, sourceId));
+      if (!source) return null;
+
+      const chunks = await tx.select().from(documentChunks)
+        .where(eq(documentChunks.documentId, sourceId))
+        .orderBy(asc(documentChunks.chunkIndex));
+      const embeddings = chunks.length > 0
+        ? await tx.select().from(documentEmbeddings).where(inArray(documentEmbeddings.chunkId, chunks.map(chunk => chunk.id)))
+        : [];
+      const records: Array<{ chunkId: string; embedding: string; model: string | null }> = [];
+      for (const chunk of chunks) {
+        const [created] = await tx.insert(documentChunks).values({
+          documentId: targetId,
+          chunkIndex: chunk.chunkIndex,
+          content: chunk.content,
+          tokenCount: chunk.tokenCount,
+          metadata: chunk.metadata,
+          contentHash: chunk.contentHash,
+        }).returning();
+
+        for (const embedding of embeddings.filter(row => row.chunkId === chunk.id)) {
+          await tx.insert(documentEmbeddings).values({
+            chunkId: created.id,
+            embedding: embedding.embedding,
+            embeddingVector: embedding.embeddingVector,
+            embeddingModel: embedding.embeddingModel,
+          });
+          records.push({ chunkId: created.id, embedding: embedding.embedding, model: embedding.embeddingModel });
+        }
+      }
+
+      const questions = await tx.select().from(documentQuestions).where(eq(documentQuestions.documentId, sourceId));
+      if (questions.length > 0) {
+        await tx.insert(documentQuestions).values(questions.map(({ id, createdAt, updatedAt, attempts, lastAnswer, lastCorrect, ...question }) => ({
+          ...question,
+          documentId: targetId,
+        })));
+      }
+
+      const [target] = await tx.update(userDocuments).set({
+        processingStatus: 'ready',
+        processingError: null,
+        parsedTextPath: source.parsedTextPath,
+        ocrPages: source.ocrPages,
+        reusedEmbeddingTokens: chunks.reduce((total, chunk) => total + (chunk.tokenCount || 0), 0),
+        updatedAt: new Date(),
+      }).where(eq(userDocuments.id, targetId)).returning();
+
+      return target ? { target, records } : null;
+    });
+    if (!copied) return null;
+
+    for (const record of copied.records) {
+      await this.vectorIndex.upsert({
+        chunkId: record.chunkId,
+        documentId: targetId,
+        userId: copied.target.userId,
+        embedding: JSON.parse(record.embedding),
+        model: record.model || undefined,
+      });
+    }
+    return copied.target;
+  }
+
+  // Stored embeddings for any of the account's chunks with the same text, keyed by content hash
+  async getReusableEmbeddings(userId: string, contentHashes: string[], model: string): Promise<Map<string, string>> {
+    const reusable = new Map<string, string>();
+    if (contentHashes.length === 0) return reusable;
+
+    const rows = await db
+      .select({ contentHash: documentChunks.contentHash, embedding: documentEmbeddings.embedding })
+      .from(documentEmbeddings)
+      .innerJoin(documentChunks, eq(documentEmbeddings.chunkId, documentChunks.id))
+      .innerJoin(userDocuments, eq(documentChunks.documentId, userDocuments.id))
+      .where(and(
+        eq(userDocuments.userId, userId),
+        inArray(documentChunks.contentHash, Array.from(new Set(contentHashes))),
+        eq(documentEmbeddings.embeddingModel, model)
+      ));
+
+    for (const row of rows) {
+      if (row.contentHash && !reusable.has(row.contentHash)) reusable.set(row.contentHash, row.embedding);
+    }
+    return reusable;
+  }
+
+  async getChunksMissingEmbedding(model: string, scope: EmbeddingScope, limit: number): Promise<PendingEmbedding[]> {
+    return await db
+      .select({
+        chunkId: documentChunks.id,
+        documentId: documentChunks.documentId,
+        userId: userDocuments.userId,
+        content: documentChunks.content,
+        contentHash: documentChunks.contentHash,
+        tokenCount: documentChunks.tokenCount,
+      })
+      .from(documentChunks)
+      .innerJoin(userDocuments, eq(documentChunks.documentId, userDocuments.id))
+      .innerJoin(users, eq(userDocuments.userId, users.id))
+      .where(and(
+        eq(userDocuments.processingStatus, 'ready'),
+        embeddingScopeFilter(scope),
+        sql`NOT EXISTS (SELECT 1 FROM ${documentEmbeddings} WHERE ${documentEmbeddings.chunkId} = ${documentChunks.id} AND ${documentEmbeddings.embeddingModel} = ${model})`
+      ))
+      .orderBy(asc(documentChunks.documentId), asc(documentChunks.chunkIndex))
+      .limit(limit);
+  }
+
+  // Drop embeddings from other models once every chunk in scope has one from `keepModel`
+  async pruneEmbeddings(keepModel: string, scope: EmbeddingScope): Promise<number> {
+    const stale = await db
+      .select({ id: documentEmbeddings.id })
+      .from(documentEmbeddings)
+      .innerJoin(documentChunks, eq(documentEmbeddings.chunkId, documentChunks.id))
+      .innerJoin(userDocuments, eq(documentChunks.documentId, userDocuments.id))
+      .innerJoin(users, eq(userDocuments.userId, users.id))
+      .where(and(
+        embeddingScopeFilter(scope),
+        sql`${documentEmbeddings.embeddingModel} IS DISTINCT FROM ${keepModel}`
+      ));
+    if (stale.length === 0) return 0;
+
+    // The in-memory index keeps the old vectors until restart, but searches never match them
+    await db.delete(documentEmbeddings).where(inArray(documentEmbeddings.id, stale.map(row => row.id)));
+    return stale.length;
+  }
+
+  async setEmbeddingProvider(scope: EmbeddingScope, provider: 'openai' | 'local' | null): Promise<void> {
+    await db.update(users).set({ embeddingProvider: provider }).where(embeddingScopeFilter(scope));
+  }
+
+  async countEmbeddingsByModel(): Promise<Array<{ model: string | null; count: number }>> {
+    return await db
+      .select({ model: documentEmbeddings.embeddingModel, count: count() })
+      .from(documentEmbeddings)
+      .groupBy(documentEmbeddings.embeddingModel);
+  }
+
+  async recordEmbeddingUsage(documentId: string, embeddedTokens: number, reusedTokens: number): Promise<void> {
+    await db.update(userDocuments).set({
+      embeddingTokens: sql`${userDocuments.embeddingTokens} + ${embeddedTokens}`,
+      reusedEmbeddingTokens: sql`${userDocuments.reusedEmbeddingTokens} + ${reusedTokens}`,
+    }).where(eq(userDocuments.id, documentId));
+  }
+
+  // `model` is the model that produced queryEmbedding; vectors from other models are never compared
+  async searchSimilarContent(userId: string, queryEmbedding: number[], model: string, topK: number, threshold: number, documentIds?: string[]): Promise<Array<{chunk: DocumentChunk, document: UserDocument, similarity: number}>> {
+    const matches = await this.vectorIndex.search({
+      userId,
+      embedding: queryEmbedding,
+      model,
+      topK,
+      threshold,
+      documentIds,
+    });
+    if (matches.length === 0) return [];
+
+    const rows = await db
+      .select({ chunk: documentChunks, document: userDocuments })
+      .from(documentChunks)
+      .innerJoin(userDocuments, eq(documentChunks.documentId, userDocuments.id))
+      .where(and(
+        eq(userDocuments.userId, userId),
+        inArray(documentChunks.id, matches.map(m => m.chunkId))
+      ));
+    const rowsByChunk = new Map(rows.map(row => [row.chunk.id, row]));
+
+    // Preserve the index's ranking; skip chunks deleted since they were indexed
+    return matches
+      .filter(match => rowsByChunk.has(match.chunkId))
+      .map(match => ({ ...rowsByChunk.get(match.chunkId)!, similarity: match.similarity }));
   }
 
   async getDocumentContext(userId: string, documentIds: string[]): Promise<{chunks: DocumentChunk[], documents: UserDocument[]}> {
+    if (documentIds.length === 0) return { chunks: [], documents: [] };
+
     const documents = await db.select().from(userDocuments)
       .where(and(
         eq(userDocuments.userId, userId),
-        sql`${userDocuments.id} IN (${documentIds.map(id => sql`${id}`).join(sql`, `)})`
+        inArray(userDocuments.id, documentIds)
       ));
-    
+    if (documents.length === 0) return { chunks: [], documents };
+
+    // Only chunks of documents the user owns
     const chunks = await db.select().from(documentChunks)
-      .where(sql`${documentChunks.documentId} IN (${documentIds.map(id => sql`${id}`).join(sql`, `)})`)
+      .where(inArray(documentChunks.documentId, documents.map(doc => doc.id)))
       .orderBy(asc(documentChunks.chunkIndex));
     
     return { chunks, documents };
@@ -1268,6 +1660,18 @@ export class DatabaseStorage implements IStorage {
       ));
   }
 
+  async updatePinInstructions(studentId: string, pinId: string, userId: string, instructions: TutorInstructions | null): Promise<StudentDocPin | undefined> {
+    const [updated] = await db.update(studentDocPins)
+      .set({ tutorInstructions: instructions })
+      .where(and(
+        eq(studentDocPins.id, pinId),
+        eq(studentDocPins.studentId, studentId),
+        sql`${studentDocPins.studentId} IN (SELECT id FROM ${students} WHERE ${students.ownerUserId} = ${userId})`
+      ))
+      .returning();
+    return updated || undefined;
+  }
+
   async getStudentPinnedDocs(studentId: string, userId: string): Promise<Array<{ pin: StudentDocPin, document: UserDocument }>> {
     const student = await this.getStudent(studentId, userId);
     if (!student) return [];
@@ -1398,7 +1802,6 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getDocumentContent(documentId: string): Promise<Buffer | undefined> {
-    console.log(`[Storage] Getting content for document ${documentId}`);
     const [doc] = await db.select().from(userDocuments)
       .where(eq(userDocuments.id, documentId))
       .limit(1);
@@ -1407,22 +1810,20 @@ export class DatabaseStorage implements IStorage {
       console.log(`[Storage] Document ${documentId} not found in database`);
       return undefined;
     }
-    
-    if (!doc.filePath) {
-      console.log(`[Storage] Document ${documentId} has no filePath: ${JSON.stringify(doc)}`);
-      return undefined;
-    }
-    
-    console.log(`[Storage] Reading file from: ${doc.filePath}`);
-    
-    // Read the file from disk
+
+    // Blob storage, or the disk path of uploads stored before it
     try {
-      const fs = await import('fs/promises');
-      const content = await fs.readFile(doc.filePath);
-      console.log(`[Storage] Successfully read ${content.length} bytes from ${doc.filePath}`);
-      return content;
+      if (doc.storageKey) {
+        return await getBlobStore().get(doc.storageKey);
+      }
+      if (doc.filePath) {
+        const fs = await import('fs/promises');
+        return await fs.readFile(doc.filePath);
+      }
+      console.log(`[Storage] Document ${documentId} has no stored file`);
+      return undefined;
     } catch (error) {
-      console.error(`[Storage] Failed to read document ${documentId} from ${doc.filePath}:`, error);
+      console.error(`[Storage] Failed to read document ${documentId}:`, error);
       return undefined;
     }
   }
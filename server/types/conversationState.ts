@@ -9,6 +9,18 @@ export interface TutorPlan {
   followup_options?: string[];
 }
 
+export type QuestionType = 'short' | 'mcq' | 'math' | 'open';
+
+// One tutor turn as the model emits it through TUTOR_TURN_SCHEMA, after validation
+export interface TutorTurn {
+  spokenText: string;
+  question?: string; // the question the student is expected to answer, if any
+  expectedAnswers: string[]; // first is the canonical answer, the rest are also accepted
+  answerKind: QuestionType;
+  options?: string[]; // multiple choice only
+  hints: string[]; // from a gentle nudge to nearly giving it away
+}
+
 export interface ConversationContext {
   state: DialogState;
   topic?: string;
@@ -20,8 +32,15 @@ export interface ConversationContext {
   // Session-scoped question state for answer acknowledgment
   currentQuestion?: string;
   expectedAnswer?: string;
-  questionType?: 'short' | 'mcq' | 'math' | 'open';
+  acceptedAnswers?: string[]; // other answers graded as correct
+  questionType?: QuestionType;
   options?: string[];
+  hints?: string[];
+  hintsGiven?: number;
+  // Fallback questions recently asked in this session (anti-repeat)
+  recentQuestions?: string[];
+  createdAt?: number;
+  updatedAt?: number;
 }
 
 // Dialog state transitions
@@ -69,6 +88,52 @@ export const TUTOR_PLAN_SCHEMA = {
   }
 };
 
+// Tool schema for a full tutor turn: the plan plus what's spoken and how to grade
+// the question it asks (OpenAI format)
+export const TUTOR_TURN_SCHEMA = {
+  type: "function" as const,
+  function: {
+    name: "tutor_turn",
+    description: "Plan the next step and say it, including how to grade any question asked",
+    parameters: {
+      type: "object",
+      properties: {
+        goal: TUTOR_PLAN_SCHEMA.function.parameters.properties.goal,
+        plan: TUTOR_PLAN_SCHEMA.function.parameters.properties.plan,
+        spoken_text: {
+          type: "string",
+          description: "Exactly what to say to the student (8-16 seconds), ending with the question if one is asked"
+        },
+        question: {
+          type: "string",
+          description: "The question in spoken_text the student should answer, copied word for word. Empty if none"
+        },
+        expected_answers: {
+          type: "array",
+          items: { type: "string" },
+          description: "Correct answers to the question, canonical answer first (e.g. [\"7\", \"seven\"]). Empty if none"
+        },
+        answer_kind: {
+          type: "string",
+          enum: ["math", "short", "mcq", "open"],
+          description: "math: a number or expression; short: a word or phrase; mcq: one of the options; open: no single right answer"
+        },
+        options: {
+          type: "array",
+          items: { type: "string" },
+          description: "Answer choices for mcq questions, in the order they're read out"
+        },
+        hints: {
+          type: "array",
+          items: { type: "string" },
+          description: "Up to 3 hints that don't state the answer, from a gentle nudge to a strong one"
+        }
+      },
+      required: ["goal", "plan", "spoken_text", "answer_kind"]
+    }
+  }
+};
+
 // Topic routing tool schema
 export const TOPIC_ROUTER_SCHEMA = {
   name: "route_topic",
@@ -1,7 +1,7 @@
 // OpenAI-specific retry handler with exponential backoff for 429/5xx errors
 import OpenAI from 'openai';
 
-interface RetryConfig {
+export interface RetryConfig {
   delays: number[];
   maxRetries: number;
 }
@@ -96,7 +96,7 @@ export async function retryOpenAICall<T>(
   };
 }
 
-function isRetryableError(error: any): boolean {
+export function isRetryableError(error: any): boolean {
   // Retry on 429 (rate limit) and 5xx server errors
   if (error?.status === 429) return true;
   if (error?.status >= 500 && error?.status < 600) return true;
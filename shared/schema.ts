@@ -8,8 +8,11 @@ import {
   decimal, 
   boolean, 
   jsonb,
+  vector,
   index,
-  uniqueIndex 
+  uniqueIndex,
+  unique,
+  real
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -57,6 +60,7 @@ export const users = pgTable("users", {
   speechSpeed: decimal("speech_speed").default('1.0'),
   volumeLevel: integer("volume_level").default(75),
   isAdmin: boolean("is_admin").default(false),
+  embeddingProvider: text("embedding_provider").$type<'openai' | 'local'>(), // null = EMBED_PROVIDER; 'local' keeps documents off third-party APIs
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -80,10 +84,29 @@ export const lessons = pgTable("lessons", {
   content: jsonb("content").notNull(),
   orderIndex: integer("order_index").notNull(),
   estimatedMinutes: integer("estimated_minutes").default(15),
-  isActive: boolean("is_active").default(true),
+  isActive: boolean("is_active").default(true), // mirrors status === 'published'
+  status: text("status").$type<'draft' | 'published' | 'archived'>().default('published'),
+  version: integer("version").notNull().default(1), // the lesson_versions entry learners see (latest, while a draft)
+  draftVersion: integer("draft_version"), // unpublished edit of a published lesson, in lesson_versions
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Every saved revision of a lesson's authored content
+export const lessonVersions = pgTable("lesson_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  lessonId: varchar("lesson_id").notNull().references(() => lessons.id),
+  version: integer("version").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  content: jsonb("content").notNull(),
+  changeNote: text("change_note"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_lesson_versions_lesson_version").on(table.lessonId, table.version),
+]);
+
 // User progress table
 export const userProgress = pgTable("user_progress", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -138,12 +161,28 @@ export const usageLogs = pgTable("usage_logs", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Server-metered usage sessions; billable minutes are computed from heartbeats, never client-reported
+export const meteredSessions = pgTable("metered_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  sessionType: text("session_type").$type<'voice' | 'text'>().notNull(),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  lastHeartbeatAt: timestamp("last_heartbeat_at").defaultNow().notNull(),
+  endedAt: timestamp("ended_at"),
+  endReason: text("end_reason").$type<'client' | 'timeout' | 'limit' | 'replaced'>(),
+  billedMinutes: integer("billed_minutes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_metered_sessions_user").on(table.userId),
+  index("idx_metered_sessions_open").on(table.endedAt, table.lastHeartbeatAt),
+]);
+
 // Admin audit log table for tracking admin actions
 export const adminLogs = pgTable("admin_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   adminId: varchar("admin_id").notNull().references(() => users.id),
   action: text("action").notNull(),
-  targetType: text("target_type").$type<'user' | 'subscription' | 'document' | 'agent' | 'system'>().notNull(),
+  targetType: text("target_type").$type<'user' | 'subscription' | 'document' | 'agent' | 'lesson' | 'system'>().notNull(),
   targetId: text("target_id"),
   details: jsonb("details"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
@@ -165,6 +204,19 @@ export const marketingCampaigns = pgTable("marketing_campaigns", {
   index("idx_campaigns_exported").on(table.exportedAt),
 ]);
 
+// Conversation state machine snapshots, keyed by tutoring session
+export const conversationStates = pgTable("conversation_states", {
+  sessionId: varchar("session_id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  state: text("state").notNull(), // current DialogState
+  context: jsonb("context").notNull(), // full ConversationContext
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_conversation_states_user").on(table.userId),
+  index("idx_conversation_states_updated").on(table.updatedAt),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   progress: many(userProgress),
@@ -254,6 +306,95 @@ export const insertLessonSchema = createInsertSchema(lessons).omit({
   createdAt: true,
 });
 
+// Authored lesson content (lessons.content and content/lessons/*.json)
+export const lessonContentSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  objective: z.string().min(1),
+  concepts: z.array(z.string().min(1)).min(1),
+  examples: z.array(z.object({
+    problem: z.string().min(1),
+    visual: z.string().optional(),
+    answer: z.string().min(1),
+    explanation: z.string().min(1),
+  })),
+  quiz: z.array(z.object({
+    question: z.string().min(1),
+    options: z.array(z.string().min(1)).min(2),
+    correctAnswer: z.number().int().min(0),
+    explanation: z.string().min(1),
+    visual: z.string().optional(),
+    concept: z.string().optional(), // one of `concepts`; when omitted the item counts toward all of them
+  })).min(1),
+  progression: z.object({
+    next: z.string().optional(),
+    prerequisites: z.array(z.string()).optional(),
+  }),
+}).superRefine((content, ctx) => {
+  if (new Set(content.concepts).size !== content.concepts.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['concepts'], message: 'Concepts must be unique' });
+  }
+  content.quiz.forEach((item, index) => {
+    if (item.correctAnswer >= item.options.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['quiz', index, 'correctAnswer'],
+        message: `correctAnswer ${item.correctAnswer} is out of range for ${item.options.length} options`,
+      });
+    }
+    if (new Set(item.options).size !== item.options.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['quiz', index, 'options'], message: 'Options must be unique' });
+    }
+    if (item.concept && !content.concepts.includes(item.concept)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['quiz', index, 'concept'],
+        message: `Unknown concept "${item.concept}"`,
+      });
+    }
+  });
+});
+
+// What a parent tells the tutor about a document. Unset fields fall back to the
+// document's own instructions, then to the tutor's defaults.
+export const tutorInstructionsSchema = z.object({
+  answerPolicy: z.enum(['answers', 'hints', 'check']).optional(), // give answers / hints only / only check the student's work
+  focusProblems: z.string().trim().max(100).optional(), // problem numbers and ranges, e.g. "5-10, 12"
+  focusPages: z.string().trim().max(100).optional(), // e.g. "2-3"
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional(),
+  notes: z.string().trim().max(500).optional(), // anything else, in the parent's words
+});
+
+// One generated quiz question. Multiple choice is keyed by option index like
+// lesson quizzes; short answers are graded with the tutor's answer checker.
+export const documentQuizQuestionSchema = z.object({
+  type: z.enum(['mcq', 'short']),
+  question: z.string().min(1),
+  options: z.array(z.string().min(1)).optional(),
+  correctAnswer: z.number().int().min(0).optional(), // mcq
+  answer: z.string().min(1).optional(), // short answer key
+  explanation: z.string().min(1),
+  source: z.object({
+    chunkId: z.string(),
+    chunkIndex: z.number().int().min(0),
+    citation: z.string(), // e.g. "Unit 3 Notes p.2 (Part B)"
+  }),
+}).superRefine((item, ctx) => {
+  if (item.type === 'mcq') {
+    const options = item.options || [];
+    if (options.length < 2) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'Multiple choice needs at least 2 options' });
+    } else if (new Set(options).size !== options.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'Options must be unique' });
+    }
+    if (item.correctAnswer === undefined || item.correctAnswer >= options.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['correctAnswer'], message: 'correctAnswer must index an option' });
+    }
+  } else if (!item.answer) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['answer'], message: 'Short answer questions need an answer key' });
+  }
+});
+
 export const insertUserProgressSchema = createInsertSchema(userProgress).omit({
   id: true,
   createdAt: true,
@@ -282,7 +423,8 @@ export const userDocuments = pgTable("user_documents", {
   userId: varchar("user_id").notNull().references(() => users.id),
   originalName: text("original_name").notNull(),
   fileName: text("file_name").notNull(), // stored file name
-  filePath: text("file_path").notNull(), // path on disk
+  filePath: text("file_path"), // path on disk, only for uploads stored before blob storage
+  storageKey: text("storage_key"), // blob storage key; shared by duplicate uploads within an account
   fileType: text("file_type").notNull(), // pdf, docx, etc
   fileSize: integer("file_size").notNull(), // bytes
   subject: text("subject"), // math, english, spanish
@@ -290,16 +432,28 @@ export const userDocuments = pgTable("user_documents", {
   title: text("title"), // user-provided title
   description: text("description"), // user description
   keepForFutureSessions: boolean("keep_for_future_sessions").default(false),
-  processingStatus: text("processing_status").$type<'queued' | 'processing' | 'ready' | 'failed'>().default('queued'),
+  processingStatus: text("processing_status").$type<'queued' | 'processing' | 'ready' | 'failed' | 'quarantined'>().default('queued'),
   processingError: text("processing_error"),
+  tutorInstructions: jsonb("tutor_instructions").$type<TutorInstructions>(), // defaults for every session using this document
+  quarantineReason: text("quarantine_reason"), // why content screening held the document for review
+  screeningFlags: jsonb("screening_flags").$type<string[]>(), // content-safety categories that matched
+  reviewedBy: varchar("reviewed_by").references(() => users.id), // admin who released it from quarantine
+  reviewedAt: timestamp("reviewed_at"), // released documents skip content screening when reprocessed
   retryCount: integer("retry_count").default(0),
   nextRetryAt: timestamp("next_retry_at"),
-  parsedTextPath: text("parsed_text_path"), // path to extracted plain text file
+  parsedTextPath: text("parsed_text_path"), // blob key of the extracted plain text (a disk path for older documents)
+  ocrPages: jsonb("ocr_pages").$type<Array<{ page: number; confidence: number; characters: number }>>(), // per-page OCR confidence for photos and scans
+  contentHash: text("content_hash"), // sha256 of the uploaded file, for dedup within an account
+  embeddingTokens: integer("embedding_tokens").notNull().default(0), // tokens sent to the embedding API, all attempts
+  reusedEmbeddingTokens: integer("reused_embedding_tokens").notNull().default(0), // tokens covered by reused embeddings
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("idx_user_docs_status").on(table.processingStatus),
   index("idx_user_docs_retry").on(table.nextRetryAt),
+  index("idx_user_docs_content_hash").on(table.userId, table.contentHash),
+  index("idx_user_docs_storage_key").on(table.storageKey),
+  index("idx_user_docs_retention").on(table.keepForFutureSessions, table.createdAt),
 ]);
 
 export const documentChunks = pgTable("document_chunks", {
@@ -309,19 +463,47 @@ export const documentChunks = pgTable("document_chunks", {
   content: text("content").notNull(), // actual text content
   tokenCount: integer("token_count"), // estimated tokens
   metadata: jsonb("metadata"), // page number, section, etc
+  contentHash: text("content_hash"), // sha256 of the normalized content; embeddings are reused by hash and model
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   uniqueIndex("idx_chunks_document_index").on(table.documentId, table.chunkIndex),
+  index("idx_chunks_content_hash").on(table.contentHash),
 ]);
 
 export const documentEmbeddings = pgTable("document_embeddings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   chunkId: varchar("chunk_id").notNull().references(() => documentChunks.id, { onDelete: 'cascade' }),
   embedding: text("embedding").notNull(), // JSON array of floats
+  embeddingVector: vector("embedding_vector", { dimensions: 1536 }), // pgvector copy for similarity search
   embeddingModel: text("embedding_model").default('text-embedding-3-small'),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
-  uniqueIndex("idx_embeddings_chunk_unique").on(table.chunkId),
+  // One embedding per chunk and model, so a corpus can be re-embedded before switching providers
+  uniqueIndex("idx_embeddings_chunk_model_unique").on(table.chunkId, table.embeddingModel),
+  index("idx_embeddings_vector_hnsw").using("hnsw", table.embeddingVector.op("vector_cosine_ops")),
+]);
+
+// Questions found on an uploaded worksheet, for walking a student through it
+export const documentQuestions = pgTable("document_questions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => userDocuments.id, { onDelete: 'cascade' }),
+  orderIndex: integer("order_index").notNull(), // position on the worksheet
+  number: text("number").notNull(), // label as printed: "3", "4b"
+  page: integer("page"), // 1-based, PDFs only
+  section: text("section"), // nearest heading ("Part B")
+  prompt: text("prompt").notNull(), // question text without its options
+  questionType: text("question_type").$type<'mcq' | 'math' | 'short' | 'open'>().notNull(),
+  options: jsonb("options").$type<string[]>(), // multiple-choice options, in order
+  blanks: integer("blanks").notNull().default(0), // answer blanks ("____") in the prompt
+  answer: text("answer"), // answer key: printed on the sheet, computed, or set by a parent
+  answerEdited: boolean("answer_edited").notNull().default(false), // set by a parent; kept when the document is re-processed
+  attempts: integer("attempts").notNull().default(0),
+  lastAnswer: text("last_answer"),
+  lastCorrect: boolean("last_correct"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_document_questions_order").on(table.documentId, table.orderIndex),
 ]);
 
 // Update learning sessions to include document context
@@ -399,12 +581,31 @@ export const studentDocPins = pgTable("student_doc_pins", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   studentId: varchar("student_id").notNull().references(() => students.id, { onDelete: 'cascade' }),
   docId: varchar("doc_id").notNull().references(() => userDocuments.id, { onDelete: 'cascade' }),
+  tutorInstructions: jsonb("tutor_instructions").$type<TutorInstructions>(), // this student's overrides of the document's instructions
   pinnedAt: timestamp("pinned_at").defaultNow(),
 }, (table) => [
   uniqueIndex("idx_student_doc_unique").on(table.studentId, table.docId),
   index("idx_student_pins").on(table.studentId),
 ]);
 
+// Self-test quizzes generated from an uploaded document, kept per student
+export const documentQuizzes = pgTable("document_quizzes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  studentId: varchar("student_id").references(() => students.id, { onDelete: 'cascade' }), // null for the account holder
+  documentId: varchar("document_id").notNull().references(() => userDocuments.id, { onDelete: 'cascade' }),
+  title: text("title").notNull(),
+  questions: jsonb("questions").$type<DocumentQuizQuestion[]>().notNull(), // includes answer keys; never sent to the player
+  model: text("model"), // LLM that wrote the questions
+  bestScore: integer("best_score"), // best percentage so far
+  attempts: integer("attempts").notNull().default(0),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_document_quizzes_owner").on(table.userId, table.studentId),
+  index("idx_document_quizzes_document").on(table.documentId),
+]);
+
 export const tutorSessions = pgTable("tutor_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   studentId: varchar("student_id").notNull().references(() => students.id, { onDelete: 'cascade' }),
@@ -424,6 +625,76 @@ export const tutorSessions = pgTable("tutor_sessions", {
   index("idx_tutor_sessions_latest").on(table.studentId, table.startedAt),
 ]);
 
+// Transcript turns, written as they happen and tied to the session they belong to
+export const transcriptEntries = pgTable("transcript_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull(), // conversation session key used by the voice routes
+  userId: varchar("user_id").notNull().references(() => users.id),
+  learningSessionId: varchar("learning_session_id").references(() => learningSessions.id, { onDelete: 'set null' }),
+  tutorSessionId: varchar("tutor_session_id").references(() => tutorSessions.id, { onDelete: 'set null' }),
+  sequence: integer("sequence").notNull(), // turn order within the session
+  speaker: text("speaker").$type<'user' | 'tutor'>().notNull(),
+  content: text("content").notNull(),
+  topic: text("topic"),
+  energyLevel: text("energy_level"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_transcript_entries_session_seq").on(table.sessionId, table.sequence),
+  index("idx_transcript_entries_user").on(table.userId),
+]);
+
+// Share links for transcripts (only a SHA-256 hash of the token is stored)
+export const transcriptShares = pgTable("transcript_shares", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull(),
+  userId: varchar("user_id").notNull().references(() => users.id), // who created the link
+  tokenHash: varchar("token_hash", { length: 64 }).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  accessCount: integer("access_count").notNull().default(0),
+  lastAccessedAt: timestamp("last_accessed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_transcript_shares_token").on(table.tokenHash),
+  index("idx_transcript_shares_session").on(table.sessionId),
+]);
+
+// Bayesian knowledge tracing estimate per lesson concept (LessonContent.concepts)
+export const conceptMastery = pgTable("concept_mastery", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  lessonId: varchar("lesson_id").notNull(),
+  concept: text("concept").notNull(),
+  pKnown: real("p_known").notNull(), // probability the concept is known
+  attempts: integer("attempts").notNull().default(0),
+  correctCount: integer("correct_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_concept_mastery_unique").on(table.userId, table.lessonId, table.concept),
+]);
+
+// Spaced-repetition schedule (SM-2) for individual lesson quiz items
+export const reviewItems = pgTable("review_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  studentId: varchar("student_id").references(() => students.id, { onDelete: 'cascade' }), // null = the account holder
+  lessonId: varchar("lesson_id").notNull(),
+  questionIndex: integer("question_index").notNull(), // index into LessonContent.quiz
+  repetitions: integer("repetitions").notNull().default(0), // consecutive successful reviews
+  intervalDays: integer("interval_days").notNull().default(0),
+  easeFactor: real("ease_factor").notNull().default(2.5),
+  lapses: integer("lapses").notNull().default(0),
+  dueAt: timestamp("due_at").notNull(),
+  lastReviewedAt: timestamp("last_reviewed_at"),
+  lastCorrect: boolean("last_correct"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("uq_review_items_item").on(table.userId, table.studentId, table.lessonId, table.questionIndex).nullsNotDistinct(),
+  index("idx_review_items_due").on(table.userId, table.dueAt),
+]);
+
 // Dynamic agent sessions (for ElevenLabs agent creation)
 export const agentSessions = pgTable("agent_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -508,6 +779,8 @@ export type Subject = typeof subjects.$inferSelect;
 export type InsertSubject = z.infer<typeof insertSubjectSchema>;
 export type Lesson = typeof lessons.$inferSelect;
 export type InsertLesson = z.infer<typeof insertLessonSchema>;
+export type LessonVersion = typeof lessonVersions.$inferSelect;
+export type LessonContent = z.infer<typeof lessonContentSchema>;
 export type UserProgress = typeof userProgress.$inferSelect;
 export type InsertUserProgress = z.infer<typeof insertUserProgressSchema>;
 export type LearningSession = typeof learningSessions.$inferSelect;
@@ -522,6 +795,10 @@ export type DocumentChunk = typeof documentChunks.$inferSelect;
 export type InsertDocumentChunk = z.infer<typeof insertDocumentChunkSchema>;
 export type DocumentEmbedding = typeof documentEmbeddings.$inferSelect;
 export type InsertDocumentEmbedding = z.infer<typeof insertDocumentEmbeddingSchema>;
+export type DocumentQuestion = typeof documentQuestions.$inferSelect;
+export type DocumentQuizQuestion = z.infer<typeof documentQuizQuestionSchema>;
+export type TutorInstructions = z.infer<typeof tutorInstructionsSchema>;
+export type DocumentQuiz = typeof documentQuizzes.$inferSelect;
 
 // Student memory types
 export type Student = typeof students.$inferSelect;
@@ -540,6 +817,22 @@ export const insertAdminLogSchema = createInsertSchema(adminLogs).omit({
 export type AdminLog = typeof adminLogs.$inferSelect;
 export type InsertAdminLog = z.infer<typeof insertAdminLogSchema>;
 
+// Concept mastery types
+export type ConceptMastery = typeof conceptMastery.$inferSelect;
+
+// Review queue types
+export type ReviewItem = typeof reviewItems.$inferSelect;
+
+// Metered session types
+export type MeteredSession = typeof meteredSessions.$inferSelect;
+
+// Conversation state types
+export type ConversationStateRow = typeof conversationStates.$inferSelect;
+
+// Transcript types
+export type TranscriptEntryRow = typeof transcriptEntries.$inferSelect;
+export type TranscriptShare = typeof transcriptShares.$inferSelect;
+
 // Marketing campaign types
 export const insertMarketingCampaignSchema = createInsertSchema(marketingCampaigns).omit({
   id: true,
@@ -25,6 +25,11 @@ describe('AnswerChecker', () => {
       expect(result.msg).toContain('Not quite');
     });
 
+    it('should reject a reply that negates the expected number', () => {
+      expect(answerChecker.checkAnswer('4', 'not 4', 'math').ok).toBe(false);
+      expect(answerChecker.checkAnswer('4', "I don't think it's 4", 'math').ok).toBe(false);
+    });
+
     it('should handle word numbers', () => {
       const testCases = [
         { expected: '3', user: 'three' },
@@ -0,0 +1,29 @@
+import { describe, it, expect } from '@jest/globals';
+import { answerFeedbackService } from '../server/services/answerFeedback';
+import { conversationManager } from '../server/services/conversationManager';
+
+const QUESTION = { lastQuestion: 'What is 2 + 3?', expectedAnswer: '5', questionType: 'math' as const, subject: 'math' as const };
+
+describe('AnswerFeedbackService', () => {
+  it('should not store a conversation for a request without a session', async () => {
+    const feedback = await answerFeedbackService.classifyAnswer('5', { ...QUESTION, currentStep: 0 });
+
+    expect(feedback.isCorrect).toBe(true);
+    expect(feedback.nextQuestion).toBeTruthy();
+    expect(await conversationManager.getContext('math-0')).toBeUndefined();
+  });
+
+  it('should not create a conversation for an unknown session id', async () => {
+    await answerFeedbackService.classifyAnswer('5', { ...QUESTION, sessionId: 'feedback-unknown' });
+
+    expect(await conversationManager.getContext('feedback-unknown')).toBeUndefined();
+  });
+
+  it('should remember asked questions on an existing session', async () => {
+    await conversationManager.initializeContext('feedback-s1', 'u1');
+
+    const feedback = await answerFeedbackService.classifyAnswer('5', { ...QUESTION, sessionId: 'feedback-s1' });
+
+    expect((await conversationManager.getContext('feedback-s1'))?.recentQuestions).toEqual([feedback.nextQuestion]);
+  });
+});
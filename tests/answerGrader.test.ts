@@ -0,0 +1,113 @@
+import { describe, it, expect } from '@jest/globals';
+import { answerGrader, wordsToDigits } from '../server/services/answerGrader';
+
+describe('AnswerGrader', () => {
+  describe('numeric answers', () => {
+    it('should accept equivalent forms of the same value', () => {
+      expect(answerGrader.grade({ kind: 'numeric', expected: 4 }, '4')).toMatchObject({ correct: true, reason: 'exact' });
+      expect(answerGrader.grade({ kind: 'numeric', expected: 4 }, 'two plus two')).toMatchObject({ correct: true, reason: 'equivalent' });
+    });
+
+    it('should respect the tolerance', () => {
+      expect(answerGrader.grade({ kind: 'numeric', expected: 3.14, tolerance: 0.01 }, '3.141').correct).toBe(true);
+      expect(answerGrader.grade({ kind: 'numeric', expected: 3.14, tolerance: 0.01 }, '3.2').correct).toBe(false);
+    });
+
+    it('should read compound number words', () => {
+      expect(wordsToDigits('two hundred forty five')).toBe('245');
+    });
+
+    it('should accept the bare number for a count of things', () => {
+      expect(answerGrader.check('5 apples', '5', 'math').correct).toBe(true);
+      expect(answerGrader.check('5 apples', 'five', 'math').correct).toBe(true);
+      expect(answerGrader.check('5 apples', '5 apples', 'math')).toMatchObject({ correct: true, reason: 'exact' });
+      expect(answerGrader.check('5 apples', '6', 'math').correct).toBe(false);
+    });
+
+    it('should read x between numbers as times', () => {
+      expect(answerGrader.check('12', '3 x 4', 'math').correct).toBe(true);
+      expect(answerGrader.check('3 x 4', '12', 'math').correct).toBe(true);
+      expect(answerGrader.check('12', '3 x 5', 'math').correct).toBe(false);
+    });
+
+    it('should treat percent as a scale factor', () => {
+      expect(answerGrader.check('25%', '0.25', 'math').correct).toBe(true);
+      expect(answerGrader.check('25%', '25 percent', 'math').correct).toBe(true);
+      expect(answerGrader.check('0.25', '25%', 'math').correct).toBe(true);
+      expect(answerGrader.check('25%', '0.5', 'math').correct).toBe(false);
+    });
+
+    it('should read negative as a minus sign', () => {
+      expect(answerGrader.check('-3', 'negative 3', 'math').correct).toBe(true);
+      expect(answerGrader.check('-3', 'negative three', 'math').correct).toBe(true);
+      expect(answerGrader.check('3', 'negative 3', 'math').correct).toBe(false);
+    });
+
+    it('should not accept a negated or hedged reply for its lone number', () => {
+      expect(answerGrader.check('4', "it's 4", 'math').correct).toBe(true);
+      expect(answerGrader.check('4', 'not 4', 'math').correct).toBe(false);
+      expect(answerGrader.check('4', "I don't think it's 4", 'math').correct).toBe(false);
+      expect(answerGrader.check('4', 'definitely could be 4 or so', 'math').correct).toBe(false);
+    });
+  });
+
+  describe('fraction answers', () => {
+    it('should accept equivalent fractions unless simplest form is required', () => {
+      expect(answerGrader.grade({ kind: 'fraction', expected: '1/2' }, '2/4').correct).toBe(true);
+      expect(answerGrader.grade({ kind: 'fraction', expected: '1/2' }, '0.5').correct).toBe(true);
+      expect(answerGrader.grade({ kind: 'fraction', expected: '1/2', requireSimplest: true }, '2/4'))
+        .toMatchObject({ correct: false, reason: 'unsimplified' });
+    });
+
+    it('should accept a percent for a fraction', () => {
+      expect(answerGrader.grade({ kind: 'fraction', expected: '3/4' }, '75%').correct).toBe(true);
+      expect(answerGrader.grade({ kind: 'fraction', expected: '3/4' }, '75 percent').correct).toBe(true);
+      expect(answerGrader.grade({ kind: 'fraction', expected: '1/8' }, '12.5%').correct).toBe(true);
+      expect(answerGrader.grade({ kind: 'fraction', expected: '3/4' }, '75').correct).toBe(false);
+    });
+
+    it('should not accept a negated fraction reply', () => {
+      expect(answerGrader.grade({ kind: 'fraction', expected: '3/4' }, 'not 3/4').correct).toBe(false);
+      expect(answerGrader.grade({ kind: 'fraction', expected: '-3/4' }, 'negative 3/4').correct).toBe(true);
+    });
+  });
+
+  describe('multiple choice answers', () => {
+    const options = ['Paris', 'London', 'Berlin'];
+
+    it('should read letters from spoken replies', () => {
+      expect(answerGrader.grade({ kind: 'mcq', expected: 'A', options }, "I think it's a").correct).toBe(true);
+      expect(answerGrader.grade({ kind: 'mcq', expected: 'A', options }, 'b').correct).toBe(false);
+    });
+
+    it('should match the option text', () => {
+      expect(answerGrader.grade({ kind: 'mcq', expected: 0, options }, 'paris').correct).toBe(true);
+    });
+
+    it('should read a number as the option text when the options are numbers', () => {
+      const numbers = ['4', '5', '6', '7'];
+      expect(answerGrader.grade({ kind: 'mcq', expected: 'A', options: numbers }, '4').correct).toBe(true);
+      expect(answerGrader.grade({ kind: 'mcq', expected: 'A', options: numbers }, '1').correct).toBe(false);
+      expect(answerGrader.grade({ kind: 'mcq', expected: '6', options: numbers }, 'c').correct).toBe(true);
+      expect(answerGrader.grade({ kind: 'mcq', expected: '6', options: numbers }, '3').correct).toBe(false);
+    });
+  });
+
+  describe('text answers', () => {
+    it('should give partial credit for lists', () => {
+      const verdict = answerGrader.grade({ kind: 'set', expected: ['red', 'green', 'blue'] }, 'red and blue');
+      expect(verdict.reason).toBe('partial');
+      expect(verdict.credit).toBeCloseTo(2 / 3);
+    });
+
+    it('should forgive missing accents in Spanish', () => {
+      expect(answerGrader.grade({ kind: 'spanish', expected: 'canción' }, 'cancion'))
+        .toMatchObject({ correct: true, reason: 'accent_insensitive' });
+    });
+
+    it('should report empty answers', () => {
+      expect(answerGrader.grade({ kind: 'short_text', expected: 'photosynthesis' }, '   '))
+        .toMatchObject({ correct: false, credit: 0, reason: 'empty' });
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { BlobNotFoundError, LocalBlobStore, S3BlobStore, type BlobStore } from '../server/services/blobStorage';
+
+/**
+ * Minimal S3-compatible stand-in (path-style PUT/GET/HEAD/DELETE), playing the
+ * part MinIO would in a deployment.
+ */
+function startFakeS3(): Promise<{ server: http.Server; endpoint: string; objects: Map<string, Buffer> }> {
+  const objects = new Map<string, Buffer>();
+  const server = http.createServer((req, res) => {
+    const key = decodeURIComponent((req.url || '').split('?')[0]);
+    const body: Buffer[] = [];
+    req.on('data', chunk => body.push(chunk));
+    req.on('end', () => {
+      if (req.method === 'PUT') {
+        objects.set(key, Buffer.concat(body));
+        res.writeHead(200, { ETag: '"etag"' }).end();
+      } else if (req.method === 'GET' || req.method === 'HEAD') {
+        const object = objects.get(key);
+        if (!object) {
+          res.writeHead(404, { 'Content-Type': 'application/xml' });
+          res.end(req.method === 'GET' ? '<?xml version="1.0"?><Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>' : undefined);
+          return;
+        }
+        res.writeHead(200, { 'Content-Length': object.length, 'Content-Type': 'application/octet-stream' });
+        res.end(req.method === 'GET' ? object : undefined);
+      } else if (req.method === 'DELETE') {
+        objects.delete(key);
+        res.writeHead(204).end();
+      } else {
+        res.writeHead(405).end();
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, endpoint: `http://127.0.0.1:${port}`, objects });
+    });
+  });
+}
+
+async function expectRoundTrip(store: BlobStore) {
+  const key = 'documents/u1/abc123.pdf';
+  expect(await store.exists(key)).toBe(false);
+
+  await store.put(key, Buffer.from('%PDF worksheet'), 'application/pdf');
+  expect(await store.exists(key)).toBe(true);
+  expect((await store.get(key)).toString()).toBe('%PDF worksheet');
+
+  await store.delete(key);
+  expect(await store.exists(key)).toBe(false);
+  await expect(store.get(key)).rejects.toBeInstanceOf(BlobNotFoundError);
+  await store.delete(key); // deleting a missing blob is a no-op
+}
+
+describe('LocalBlobStore', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'blobs-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should store, read and delete blobs', async () => {
+    await expectRoundTrip(new LocalBlobStore(root));
+  });
+
+  it('should reject keys outside its directory', async () => {
+    const store = new LocalBlobStore(root);
+    await expect(store.put('../escape.txt', Buffer.from('x'))).rejects.toThrow('Invalid blob key');
+  });
+});
+
+describe('S3BlobStore', () => {
+  let fake: Awaited<ReturnType<typeof startFakeS3>>;
+
+  beforeAll(async () => {
+    fake = await startFakeS3();
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => fake.server.close(resolve));
+  });
+
+  it('should store, read and delete blobs on an S3-compatible endpoint', async () => {
+    const store = new S3BlobStore({
+      bucket: 'tutor-uploads',
+      endpoint: fake.endpoint,
+      accessKeyId: 'test',
+      secretAccessKey: 'test',
+      prefix: 'test/',
+    });
+
+    await store.put('documents/u1/keep.txt', Buffer.from('notes'));
+    expect(Array.from(fake.objects.keys())).toEqual(['/tutor-uploads/test/documents/u1/keep.txt']);
+
+    await expectRoundTrip(store);
+  });
+});
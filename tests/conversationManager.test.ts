@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import { ConversationManager } from '../server/services/conversationManager';
+import { InMemoryConversationStore } from '../server/services/conversationStore';
+
+describe('ConversationManager', () => {
+  it('should resume a session from the store in a fresh manager', async () => {
+    const store = new InMemoryConversationStore();
+    const first = new ConversationManager(store);
+
+    await first.initializeContext('s1', 'u1');
+    await first.setTopic('s1', 'math-1');
+    await first.setQuestionState('s1', 'What is 2 + 3?', '5', 'math');
+
+    // Simulates a restart or a second instance sharing the same store
+    const second = new ConversationManager(store);
+    const questionState = await second.getQuestionState('s1');
+
+    expect((await second.getContext('s1'))?.topic).toBe('math-1');
+    expect(questionState?.currentQuestion).toBe('What is 2 + 3?');
+    expect(questionState?.expectedAnswer).toBe('5');
+  });
+
+  it('should persist valid transitions and reject invalid ones', async () => {
+    const manager = new ConversationManager(new InMemoryConversationStore());
+    await manager.initializeContext('s1', 'u1');
+
+    expect(await manager.updateState('s1', 'understand')).toBe(true);
+    expect((await manager.getContext('s1'))?.state).toBe('understand');
+    expect(await manager.updateState('s1', 'close')).toBe(false);
+  });
+
+  it('should not leak unsaved mutations back into the store', async () => {
+    const manager = new ConversationManager(new InMemoryConversationStore());
+    await manager.initializeContext('s1', 'u1');
+
+    const context = await manager.getContext('s1');
+    context!.topic = 'mutated';
+
+    expect((await manager.getContext('s1'))?.topic).toBeUndefined();
+  });
+
+  it('should keep only the most recent questions', async () => {
+    const manager = new ConversationManager(new InMemoryConversationStore());
+    await manager.initializeContext('s1', 'u1');
+
+    for (const question of ['q1', 'q2', 'q3']) {
+      await manager.recordRecentQuestion('s1', question, 2);
+    }
+
+    expect((await manager.getContext('s1'))?.recentQuestions).toEqual(['q2', 'q3']);
+  });
+
+  it('should store a tutor turn question and hand out its hints in order', async () => {
+    const manager = new ConversationManager(new InMemoryConversationStore());
+    await manager.initializeContext('s1', 'u1');
+
+    await manager.setTurnQuestion('s1', {
+      spokenText: 'What is 3 + 4?',
+      question: 'What is 3 + 4?',
+      expectedAnswers: ['7', '7.0'],
+      answerKind: 'math',
+      hints: ['Start at 3.', 'Count up four.'],
+    });
+
+    expect(await manager.getQuestionState('s1')).toMatchObject({ expectedAnswer: '7', acceptedAnswers: ['7.0'], questionType: 'math' });
+    expect(await manager.takeNextHint('s1')).toBe('Start at 3.');
+    expect(await manager.takeNextHint('s1')).toBe('Count up four.');
+    expect(await manager.takeNextHint('s1')).toBeUndefined();
+
+    await manager.clearQuestionState('s1');
+    expect((await manager.getQuestionState('s1'))?.hints).toBeUndefined();
+  });
+
+  it('should remove idle sessions on cleanup', async () => {
+    const manager = new ConversationManager(new InMemoryConversationStore());
+    await manager.initializeContext('s1', 'u1');
+
+    await manager.cleanup(-1);
+
+    expect(await manager.getContext('s1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  blocksFromHtml,
+  blocksFromPlainText,
+  chunkBlocks,
+  cleanText,
+  formatCitation
+} from '../server/services/documentChunker';
+
+const options = { maxTokens: 1000, overlapTokens: 200 };
+
+describe('documentChunker', () => {
+  it('should keep paragraph breaks when cleaning text', () => {
+    expect(cleanText('Line  one\r\nline two\n\n\n\nNext   paragraph')).toBe('Line one\nline two\n\nNext paragraph');
+  });
+
+  it('should split numbered questions into their own paragraphs', () => {
+    const blocks = blocksFromPlainText('Answer each question.\n1. What is 2 + 2?\n2. What is 3 x 3?', 2);
+
+    expect(blocks.map(block => block.text)).toEqual(['Answer each question.', '1. What is 2 + 2?', '2. What is 3 x 3?']);
+    expect(blocks.every(block => block.page === 2)).toBe(true);
+  });
+
+  it('should read heading levels from DOCX HTML', () => {
+    const blocks = blocksFromHtml('<h1>Cells</h1><p>Cells are small &amp; alive.</p><h2>Parts</h2><ul><li>Nucleus</li></ul>');
+
+    expect(blocks).toEqual([
+      { text: 'Cells', headingLevel: 1 },
+      { text: 'Cells are small & alive.' },
+      { text: 'Parts', headingLevel: 2 },
+      { text: 'Nucleus' },
+    ]);
+  });
+
+  it('should not merge chunks across sections', () => {
+    const chunks = chunkBlocks(blocksFromPlainText('# Cells\nCells are alive.\n\n## Parts\nThe nucleus holds DNA.'), options);
+
+    expect(chunks.map(chunk => chunk.content)).toEqual(['Cells\n\nCells are alive.', 'Parts\n\nThe nucleus holds DNA.']);
+    expect(chunks[1].metadata).toEqual({ section: 'Parts', headingPath: ['Cells', 'Parts'] });
+  });
+
+  it('should record pages and questions for PDF chunks', () => {
+    const blocks = [
+      ...blocksFromPlainText('Fractions practice\n3. Simplify 4/8.', 1),
+      ...blocksFromPlainText('4. Add 1/3 and 1/6.', 2),
+    ];
+    const [chunk] = chunkBlocks(blocks, options);
+
+    expect(chunk.metadata).toEqual({ page: 1, pageEnd: 2, questions: ['Question 3', 'Question 4'] });
+  });
+
+  it('should keep the lowest OCR confidence of a chunk', () => {
+    const blocks = [
+      ...blocksFromPlainText('1. Simplify 4/8.', 1).map(block => ({ ...block, ocrConfidence: 91 })),
+      ...blocksFromPlainText('2. Simplify 6/9.', 2).map(block => ({ ...block, ocrConfidence: 64 })),
+    ];
+
+    expect(chunkBlocks(blocks, options)[0].metadata.ocrConfidence).toBe(64);
+  });
+
+  it('should stay under the token budget and overlap within a section', () => {
+    const paragraphs = Array.from({ length: 12 }, (_, i) => `Paragraph ${i} ${'word '.repeat(60)}`.trim());
+    const chunks = chunkBlocks(blocksFromPlainText(paragraphs.join('\n\n')), { maxTokens: 250, overlapTokens: 80 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.tokenCount <= 250)).toBe(true);
+    expect(chunks[1].content.startsWith(paragraphs[2])).toBe(true);
+  });
+
+  it('should format citations', () => {
+    expect(formatCitation('worksheet', { page: 2, questions: ['Question 4'] })).toBe('worksheet p.2, Question 4');
+    expect(formatCitation('notes', { section: 'Photosynthesis' })).toBe('notes, Photosynthesis');
+    expect(formatCitation('worksheet', { page: 1, pageEnd: 2, questions: ['Question 3', 'Question 4'] }))
+      .toBe('worksheet pp.1-2, Questions 3-4');
+    expect(formatCitation('old upload', null)).toBe('old upload');
+  });
+});
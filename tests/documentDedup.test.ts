@@ -0,0 +1,76 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildCostReport,
+  chunkContentHash,
+  estimateEmbeddingCost,
+  fileContentHash,
+  planEmbeddings
+} from '../server/services/documentDedup';
+
+describe('documentDedup', () => {
+  it('should hash identical files the same way', () => {
+    expect(fileContentHash(Buffer.from('worksheet'))).toBe(fileContentHash(Buffer.from('worksheet')));
+    expect(fileContentHash(Buffer.from('worksheet'))).not.toBe(fileContentHash(Buffer.from('worksheet 2')));
+  });
+
+  it('should ignore whitespace differences when hashing chunks', () => {
+    expect(chunkContentHash('1. What is 2 + 2?\n\nShow your work.')).toBe(chunkContentHash('1. What is 2 + 2? Show your work. '));
+    expect(chunkContentHash('What is 2 + 2?')).not.toBe(chunkContentHash('What is 2 + 3?'));
+  });
+
+  it('should only embed chunks without a stored embedding', () => {
+    const chunks = [
+      { contentHash: 'a', tokenCount: 100 },
+      { contentHash: 'b', tokenCount: 50 },
+      { contentHash: 'c', tokenCount: 25 },
+    ];
+
+    const plan = planEmbeddings(chunks, new Map([['a', '[0.1]'], ['c', '[0.3]']]));
+
+    expect(plan).toEqual({ reuse: [0, 2], embed: [1], reusedTokens: 125 });
+  });
+
+  it('should price tokens by model', () => {
+    expect(estimateEmbeddingCost(1000000, 'text-embedding-3-small')).toBe(0.02);
+    expect(estimateEmbeddingCost(1000000, 'text-embedding-3-large')).toBe(0.13);
+    expect(estimateEmbeddingCost(500000, 'unknown-model')).toBe(0.01);
+  });
+
+  it('should report duplicate uploads, spend and stale embeddings', () => {
+    const doc = { userId: 'u1', contentHash: 'h1', fileSize: 1000, chunkCount: 4, embeddingTokens: 2000000, reusedEmbeddingTokens: 0 };
+    const report = buildCostReport(
+      [
+        doc,
+        { ...doc, embeddingTokens: 0, reusedEmbeddingTokens: 2000000 },
+        { ...doc, userId: 'u2', embeddingTokens: 1000000 },
+        { ...doc, contentHash: null, fileSize: 500, embeddingTokens: 0 },
+      ],
+      'text-embedding-3-small',
+      [{ model: 'text-embedding-3-small', count: 12 }, { model: 'text-embedding-ada-002', count: 4 }]
+    );
+
+    expect(report).toMatchObject({
+      documents: 4,
+      duplicateDocuments: 1,
+      storageBytes: 3500,
+      uniqueStorageBytes: 2500,
+      chunks: 16,
+      embeddingTokens: 3000000,
+      reusedEmbeddingTokens: 2000000,
+      embeddingCostUsd: 0.06,
+      savedCostUsd: 0.04,
+      staleEmbeddings: 4,
+    });
+  });
+
+  it('should not count vectors from another configured provider as stale', () => {
+    const report = buildCostReport(
+      [],
+      'text-embedding-3-small',
+      [{ model: 'text-embedding-3-small', count: 12 }, { model: 'Xenova/all-MiniLM-L6-v2', count: 6 }, { model: 'text-embedding-ada-002', count: 4 }],
+      ['text-embedding-3-small', 'Xenova/all-MiniLM-L6-v2']
+    );
+
+    expect(report.staleEmbeddings).toBe(4);
+  });
+});
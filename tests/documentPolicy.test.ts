@@ -0,0 +1,47 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { checkStorageQuota, retentionCutoff, retentionDays, storageQuotaBytes } from '../server/services/documentPolicy';
+
+const MB = 1024 * 1024;
+
+describe('documentPolicy', () => {
+  const originalRetention = process.env.DOCUMENT_RETENTION_DAYS;
+
+  afterEach(() => {
+    if (originalRetention === undefined) delete process.env.DOCUMENT_RETENTION_DAYS;
+    else process.env.DOCUMENT_RETENTION_DAYS = originalRetention;
+  });
+
+  it('should size quotas by plan', () => {
+    expect(storageQuotaBytes('starter')).toBe(100 * MB);
+    expect(storageQuotaBytes('pro')).toBe(2000 * MB);
+    expect(storageQuotaBytes(null)).toBe(50 * MB);
+  });
+
+  it('should reject uploads that would exceed the quota', () => {
+    expect(checkStorageQuota(95 * MB, 4 * MB, 'starter')).toEqual({
+      allowed: true,
+      usedBytes: 95 * MB,
+      quotaBytes: 100 * MB,
+      remainingBytes: 5 * MB,
+    });
+    expect(checkStorageQuota(95 * MB, 6 * MB, 'starter').allowed).toBe(false);
+    expect(checkStorageQuota(100 * MB, 0, 'starter').allowed).toBe(true);
+  });
+
+  it('should compute the retention cutoff from DOCUMENT_RETENTION_DAYS', () => {
+    const now = new Date('2026-03-31T12:00:00Z');
+
+    delete process.env.DOCUMENT_RETENTION_DAYS;
+    expect(retentionDays()).toBe(0);
+    expect(retentionCutoff(now)).toBeNull();
+
+    process.env.DOCUMENT_RETENTION_DAYS = '30';
+    expect(retentionCutoff(now)).toEqual(new Date('2026-03-01T12:00:00Z'));
+
+    process.env.DOCUMENT_RETENTION_DAYS = '7';
+    expect(retentionCutoff(now)).toEqual(new Date('2026-03-24T12:00:00Z'));
+
+    process.env.DOCUMENT_RETENTION_DAYS = '0';
+    expect(retentionCutoff(now)).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import {
+  embedWithRetry,
+  getEmbeddingProvider,
+  resolveEmbeddingProviderName,
+  type EmbeddingProvider
+} from '../server/services/embeddingProvider';
+
+describe('embeddingProvider', () => {
+  const originalProvider = process.env.EMBED_PROVIDER;
+
+  afterEach(() => {
+    if (originalProvider === undefined) delete process.env.EMBED_PROVIDER;
+    else process.env.EMBED_PROVIDER = originalProvider;
+  });
+
+  it('should prefer the account\'s provider over EMBED_PROVIDER', () => {
+    process.env.EMBED_PROVIDER = 'local';
+
+    expect(resolveEmbeddingProviderName('openai')).toBe('openai');
+    expect(resolveEmbeddingProviderName(null)).toBe('local');
+  });
+
+  it('should default to OpenAI', () => {
+    delete process.env.EMBED_PROVIDER;
+
+    expect(resolveEmbeddingProviderName()).toBe('openai');
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => resolveEmbeddingProviderName('cohere')).toThrow('Unknown embedding provider: cohere');
+  });
+
+  it('should reuse one provider instance per name without loading a model', () => {
+    const local = getEmbeddingProvider('local');
+
+    expect(getEmbeddingProvider('local')).toBe(local);
+    expect(local.name).toBe('local');
+    expect(local.model).toBe('Xenova/all-MiniLM-L6-v2');
+    expect(getEmbeddingProvider('openai').model).not.toBe(local.model);
+  });
+
+  it('should retry rate limits and give up on other errors', async () => {
+    let calls = 0;
+    const flaky: EmbeddingProvider = {
+      name: 'openai',
+      model: 'test',
+      embed: async (texts) => {
+        calls++;
+        if (calls === 1) throw Object.assign(new Error('rate limited'), { status: 429 });
+        return { vectors: texts.map(() => [1, 0]), tokens: 3 };
+      },
+    };
+
+    await expect(embedWithRetry(flaky, ['a'])).resolves.toEqual({ vectors: [[1, 0]], tokens: 3 });
+    expect(calls).toBe(2);
+
+    const broken: EmbeddingProvider = { ...flaky, embed: async () => { throw new Error('bad request'); } };
+    await expect(embedWithRetry(broken, ['a'])).rejects.toThrow('bad request');
+  });
+});
@@ -220,4 +220,35 @@ describe('TutorGuardrails', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('createSentenceGuard', () => {
+    it('should soften each piece and stop after two sentences', () => {
+      const guard = guardrails.createSentenceGuard('stream-1', 'math');
+
+      expect(guard.accept('Great work!')).toEqual(['Great work!']);
+      expect(guard.accept('now, if a frog could hop twice and you have two frogs,')).toEqual(['Now, if a frog could hop twice and there are two frogs,']);
+      expect(guard.accept('how many hops is that?')).toEqual(['how many hops is that?']);
+      expect(guard.accept('And one more thing.')).toEqual([]);
+      expect(guard.finish()).toEqual([]);
+    });
+
+    it('should replace a banned piece and say nothing after it', () => {
+      const guard = guardrails.createSentenceGuard('stream-2', 'math');
+
+      expect(guard.accept('Let us begin.')).toEqual(['Let us begin.']);
+      const [replacement] = guard.accept('Hold up three fingers.');
+      expect(replacement).not.toMatch(/fingers/i);
+      expect(guard.accept('What do you see?')).toEqual([]);
+    });
+
+    it('should close with a question when the stream did not', () => {
+      const guard = guardrails.createSentenceGuard('stream-3', 'math');
+      guard.accept('Two plus two is four.');
+
+      const [ending] = guard.finish();
+      expect(ending).toMatch(/\?$/);
+      expect(guard.spokenText).toBe(`Two plus two is four. ${ending}`);
+    });
+  });
+});
+
@@ -0,0 +1,87 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  assembleContext,
+  bm25Scores,
+  dedupOverlapping,
+  parseQueryReferences,
+  rankCandidates,
+  tokenizeForSearch,
+  type RetrievalCandidate
+} from '../server/services/hybridRetrieval';
+
+const chunk = (id: string, content: string, metadata: RetrievalCandidate['metadata'] = null, chunkIndex = 0): RetrievalCandidate => ({
+  chunkId: id,
+  documentId: 'd1',
+  documentTitle: 'Fractions worksheet',
+  chunkIndex,
+  content,
+  tokenCount: Math.ceil(content.length / 4),
+  metadata,
+});
+
+describe('hybridRetrieval', () => {
+  it('should tokenize without stopwords and fold plurals', () => {
+    expect(tokenizeForSearch('What are the Fractions on this page?')).toEqual(['fraction', 'page']);
+    expect(tokenizeForSearch('¿Qué es la fotosíntesis?')).toEqual(['fotosintesi']);
+  });
+
+  it('should score rarer matching terms higher with BM25', () => {
+    const scores = bm25Scores(['denominator'], [
+      ['fraction', 'numerator', 'denominator'],
+      ['fraction', 'numerator'],
+      ['fraction', 'decimal'],
+    ]);
+
+    expect(scores[0]).toBeGreaterThan(0);
+    expect(scores[1]).toBe(0);
+    expect(scores[2]).toBe(0);
+  });
+
+  it('should parse page and problem references', () => {
+    expect(parseQueryReferences('Can you explain page 5?')).toEqual({ pages: [5], questions: [] });
+    expect(parseQueryReferences('pages 2-3 and problem 4b, then #7')).toEqual({ pages: [2, 3], questions: ['Question 4b', 'Question 7'] });
+    expect(parseQueryReferences('I have 5 apples')).toEqual({ pages: [], questions: [] });
+  });
+
+  it('should retrieve the page the student asks about', () => {
+    const candidates = [
+      chunk('c1', 'Adding fractions with like denominators.', { page: 1 }, 0),
+      chunk('c5', 'Word problems about sharing pizza.', { page: 5 }, 4),
+      chunk('c6', 'More practice adding fractions.', { page: 6 }, 5),
+    ];
+
+    const ranked = rankCandidates('help me with page 5', candidates, new Map([['c1', 0.3], ['c6', 0.35]]));
+
+    expect(ranked[0].chunkId).toBe('c5');
+    expect(ranked[0].citation).toBe('Fractions worksheet p.5');
+  });
+
+  it('should fuse keyword and semantic scores', () => {
+    const candidates = [
+      chunk('keyword', 'Photosynthesis converts light into chemical energy.'),
+      chunk('semantic', 'Plants make their own food using sunlight.'),
+      chunk('neither', 'The French Revolution began in 1789.'),
+    ];
+
+    const ranked = rankCandidates('how does photosynthesis work', candidates, new Map([['keyword', 0.5], ['semantic', 0.8], ['neither', 0.05]]));
+
+    expect(ranked.map(result => result.chunkId)).toEqual(['keyword', 'semantic']);
+    expect(rankCandidates('photosynthesis', candidates, new Map()).map(result => result.chunkId)).toEqual(['keyword']);
+  });
+
+  it('should drop chunks that repeat a higher-ranked one and respect the token budget', () => {
+    const candidates = [
+      chunk('a', 'Simplify each fraction to lowest terms before adding them together.'),
+      chunk('b', 'Simplify each fraction to lowest terms before adding them together please.'),
+      chunk('c', 'Convert mixed numbers to improper fractions first.'),
+    ];
+    const ranked = dedupOverlapping(rankCandidates('simplify fractions', candidates, new Map([['a', 0.9], ['b', 0.89], ['c', 0.6]])));
+
+    expect(ranked.map(result => result.chunkId)).toEqual(['a', 'c']);
+
+    const context = assembleContext(ranked, 25);
+    expect(context.chunks.map(result => result.chunkId)).toEqual(['a']);
+    expect(context.text).toBe('[Fractions worksheet]\nSimplify each fraction to lowest terms before adding them together.');
+    expect(context.tokens).toBeLessThanOrEqual(25);
+  });
+});
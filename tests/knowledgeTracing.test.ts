@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_BKT_PARAMS,
+  MIN_MASTERY_ATTEMPTS,
+  initialEstimate,
+  isMastered,
+  updateEstimate,
+  updateEstimateShared
+} from '../server/services/knowledgeTracing';
+
+function answer(sequence: boolean[]) {
+  return sequence.reduce((estimate, correct) => updateEstimate(estimate, correct), initialEstimate());
+}
+
+describe('knowledge tracing', () => {
+  it('should start from the prior with no attempts', () => {
+    expect(initialEstimate()).toEqual({ pKnown: DEFAULT_BKT_PARAMS.pInit, attempts: 0, correctCount: 0 });
+  });
+
+  it('should raise the estimate on correct answers and lower it on wrong ones', () => {
+    const prior = initialEstimate();
+    expect(updateEstimate(prior, true).pKnown).toBeGreaterThan(prior.pKnown);
+
+    const known = answer([true, true]);
+    expect(updateEstimate(known, false).pKnown).toBeLessThan(known.pKnown);
+  });
+
+  it('should count attempts and correct answers', () => {
+    expect(answer([true, false, true])).toMatchObject({ attempts: 3, correctCount: 2 });
+  });
+
+  it('should require a high estimate and enough attempts before mastery', () => {
+    expect(isMastered({ pKnown: 0.99, attempts: MIN_MASTERY_ATTEMPTS - 1, correctCount: 2 })).toBe(false);
+    expect(isMastered(answer([true, true, true]))).toBe(true);
+    expect(isMastered(answer([true, false, true]))).toBe(false);
+  });
+
+  it('should split untagged evidence across concepts without counting it as an attempt', () => {
+    const prior = initialEstimate();
+    const full = updateEstimate(prior, true);
+    const shared = updateEstimateShared(prior, true, 4);
+
+    expect(shared.pKnown).toBeCloseTo(prior.pKnown + (full.pKnown - prior.pKnown) / 4);
+    expect(shared).toMatchObject({ attempts: 0, correctCount: 0 });
+    expect(updateEstimateShared(prior, true, 1)).toEqual(full);
+
+    let estimate = prior;
+    for (let i = 0; i < 20; i++) estimate = updateEstimateShared(estimate, true, 3);
+    expect(isMastered(estimate)).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import { lessonContentSchema } from '../shared/schema';
+
+const contentDir = path.join(__dirname, '..', 'content', 'lessons');
+
+function readLesson(file: string) {
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+function lessonFiles(dir: string) {
+  return fs.readdirSync(dir).filter(name => name.endsWith('.json')).map(name => path.join(dir, name));
+}
+
+describe('lessonContentSchema', () => {
+  it('should accept every authored lesson and test fixture', () => {
+    const files = [...lessonFiles(contentDir), ...lessonFiles(path.join(contentDir, 'test'))];
+    expect(files.length).toBeGreaterThan(0);
+
+    for (const file of files) {
+      const result = lessonContentSchema.safeParse(readLesson(file));
+      expect({ file, issues: result.success ? [] : result.error.issues }).toEqual({ file, issues: [] });
+    }
+  });
+
+  it('should reject a correctAnswer index outside the options', () => {
+    const lesson = readLesson(path.join(contentDir, 'test', 'math-1.json'));
+    lesson.quiz[0].correctAnswer = lesson.quiz[0].options.length;
+
+    const result = lessonContentSchema.safeParse(lesson);
+    expect(result.success).toBe(false);
+    expect(result.success ? [] : result.error.issues.map(issue => issue.path.join('.'))).toEqual(['quiz.0.correctAnswer']);
+  });
+
+  it('should reject quiz items tagged with an unknown concept', () => {
+    const lesson = readLesson(path.join(contentDir, 'test', 'math-1.json'));
+    lesson.quiz[1].concept = 'Fractions';
+
+    const result = lessonContentSchema.safeParse(lesson);
+    expect(result.success ? [] : result.error.issues.map(issue => issue.path.join('.'))).toEqual(['quiz.1.concept']);
+  });
+});
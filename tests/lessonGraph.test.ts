@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import { LessonGraph, LessonNode, validateLessonGraph } from '../server/services/lessonGraph';
+
+const lesson = (id: string, prerequisites: string[] = [], next?: string, orderIndex = 1, subjectId = 'math'): LessonNode =>
+  ({ id, subjectId, orderIndex, prerequisites, next });
+
+const nodes = [
+  lesson('math-1', [], 'math-2', 1),
+  lesson('math-2', ['math-1'], 'math-3', 2),
+  lesson('math-3', ['math-2'], undefined, 3),
+  lesson('english-1', [], 'english-2', 1, 'english'),
+];
+
+describe('LessonGraph', () => {
+  it('should report dangling prerequisite and next IDs', () => {
+    const issues = validateLessonGraph([lesson('a', ['missing'], 'gone')]);
+    expect(issues.danglingPrerequisites).toEqual([{ lessonId: 'a', missing: 'missing' }]);
+    expect(issues.danglingNext).toEqual([{ lessonId: 'a', missing: 'gone' }]);
+    expect(issues.cycles).toEqual([]);
+  });
+
+  it('should report prerequisite cycles with the edge that closes them', () => {
+    const issues = validateLessonGraph([lesson('a', ['c']), lesson('b', ['a']), lesson('c', ['b'])]);
+    expect(issues.cycles).toEqual([['a', 'c', 'b']]);
+    expect(issues.cycleEdges).toEqual([{ lessonId: 'b', prerequisite: 'a' }]);
+  });
+
+  it('should build a graph despite a cycle by ignoring the edge that closes it', () => {
+    const graph = new LessonGraph([lesson('a', ['c']), lesson('b', ['a']), lesson('c', ['b'])]);
+
+    expect(graph.issues.cycleEdges).toEqual([{ lessonId: 'b', prerequisite: 'a' }]);
+    expect(graph.missingPrerequisites('b', new Map())).toEqual([]);
+    expect(graph.missingPrerequisites('a', new Map())).toEqual(['c']);
+    expect(graph.recommend(new Map())?.lessonId).toBe('b');
+  });
+
+  it('should lock lessons until their prerequisites are completed', () => {
+    const graph = new LessonGraph(nodes);
+    const progress = new Map([['math-1', { status: 'in_progress' }]]);
+
+    expect(graph.missingPrerequisites('math-2', progress)).toEqual(['math-1']);
+    expect(graph.isUnlocked('math-2', new Map([['math-1', { status: 'mastered' }]]))).toBe(true);
+    expect(new LessonGraph([lesson('a', ['missing'])]).isUnlocked('a', new Map())).toBe(true);
+  });
+
+  it('should recommend in-progress work, then the next lesson, then the earliest unlocked one', () => {
+    const graph = new LessonGraph(nodes);
+
+    expect(graph.recommend(new Map())).toEqual({ lessonId: 'math-1', reason: 'unlocked' });
+
+    const inProgress = new Map([['english-1', { status: 'in_progress', lastAccessed: new Date() }]]);
+    expect(graph.recommend(inProgress)).toEqual({ lessonId: 'english-1', reason: 'in_progress' });
+
+    const finished = new Map([['math-1', { status: 'completed', lastAccessed: new Date() }]]);
+    expect(graph.recommend(finished)).toEqual({ lessonId: 'math-2', reason: 'next_in_sequence' });
+    expect(graph.recommend(finished, ['english-1'])).toEqual({ lessonId: 'english-1', reason: 'unlocked' });
+  });
+});
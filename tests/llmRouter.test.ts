@@ -0,0 +1,238 @@
+import { describe, it, expect } from '@jest/globals';
+import { LLMRouter, AllProvidersFailedError, type ProviderRoute } from '../server/services/llmRouter';
+import { CircuitBreaker } from '../server/services/circuitBreaker';
+import type { ChatCapabilities, ChatProvider, ChatProviderName, ChatReply, ChatRequest, ChatStreamChunk } from '../server/services/chatProviders';
+import { resolveChatProviderOrder } from '../server/services/chatProviders';
+
+const TOOL = {
+  type: 'function' as const,
+  function: { name: 'tutor_turn', description: 'Say the next thing', parameters: { type: 'object', properties: {} } }
+};
+
+const REQUEST: ChatRequest = {
+  messages: [{ role: 'system', content: 'You are a tutor.' }, { role: 'user', content: 'What is a noun?' }],
+  temperature: 0.7,
+  maxTokens: 150,
+  tool: TOOL
+};
+
+interface FakeOptions {
+  capabilities?: Partial<ChatCapabilities>;
+  errors?: any[];          // thrown by the first calls, one per call
+  delayMs?: number;
+  chunks?: ChatStreamChunk[];
+  failAfterChunks?: number; // the stream breaks after this many chunks
+}
+
+function fakeProvider(name: ChatProviderName, options: FakeOptions = {}): ChatProvider & { requests: ChatRequest[] } {
+  const errors = (options.errors || []).slice();
+  const chunks = options.chunks || [{ argumentsDelta: `{"spoken_text":"${name} here"}`, tokensUsed: 12 }];
+
+  const begin = async (request: ChatRequest) => {
+    provider.requests.push(request);
+    if (options.delayMs) await new Promise(resolve => setTimeout(resolve, options.delayMs));
+    const error = errors.shift();
+    if (error) throw error;
+  };
+
+  const provider = {
+    name,
+    model: `${name}-model`,
+    capabilities: { tools: true, streaming: true, ...options.capabilities },
+    requests: [] as ChatRequest[],
+    async complete(request: ChatRequest): Promise<ChatReply> {
+      await begin(request);
+      return { content: `${name} text`, toolArguments: request.tool ? `{"spoken_text":"${name} here"}` : undefined, tokensUsed: 12 };
+    },
+    async *stream(request: ChatRequest): AsyncIterable<ChatStreamChunk> {
+      await begin(request);
+      for (let i = 0; i < chunks.length; i++) {
+        if (i === options.failAfterChunks) throw new Error('stream broke');
+        yield chunks[i];
+      }
+    }
+  };
+  return provider;
+}
+
+function route(provider: ChatProvider, timeoutMs = 1000): ProviderRoute {
+  return {
+    provider,
+    breaker: new CircuitBreaker({ failureThreshold: 50, timeoutMs: 5000, resetTimeoutMs: 60000, retryDelays: [] }),
+    timeoutMs
+  };
+}
+
+function httpError(status: number) {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+const NO_DELAY = { delays: [0, 0], maxRetries: 2 };
+
+async function collect(chunks: AsyncIterable<ChatStreamChunk>): Promise<ChatStreamChunk[]> {
+  const collected: ChatStreamChunk[] = [];
+  for await (const chunk of chunks) collected.push(chunk);
+  return collected;
+}
+
+describe('LLMRouter', () => {
+  it('should answer from the first provider when it succeeds', async () => {
+    const openai = fakeProvider('openai');
+    const anthropic = fakeProvider('anthropic');
+    const router = new LLMRouter([route(openai), route(anthropic)], NO_DELAY);
+
+    const reply = await router.complete(REQUEST);
+
+    expect(reply.provider).toBe('openai');
+    expect(reply.model).toBe('openai-model');
+    expect(reply.toolArguments).toContain('openai here');
+    expect(anthropic.requests).toHaveLength(0);
+    expect(router.getMetrics()[0]).toMatchObject({ name: 'openai', requests: 1, successes: 1, failures: 0 });
+  });
+
+  it('should fail over in order when a provider errors', async () => {
+    const openai = fakeProvider('openai', { errors: [new Error('invalid request')] });
+    const anthropic = fakeProvider('anthropic');
+    const router = new LLMRouter([route(openai), route(anthropic)], NO_DELAY);
+
+    const reply = await router.complete(REQUEST);
+
+    expect(reply.provider).toBe('anthropic');
+    expect(openai.requests).toHaveLength(1); // not retryable, so no second attempt
+    const [openaiMetrics] = router.getMetrics();
+    expect(openaiMetrics.failures).toBe(1);
+    expect(openaiMetrics.lastError).toBe('invalid request');
+  });
+
+  it('should retry rate limits on the same provider before failing over', async () => {
+    const openai = fakeProvider('openai', { errors: [httpError(429), httpError(503)] });
+    const anthropic = fakeProvider('anthropic');
+    const router = new LLMRouter([route(openai), route(anthropic)], NO_DELAY);
+
+    const reply = await router.complete(REQUEST);
+
+    expect(reply.provider).toBe('openai');
+    expect(reply.retryCount).toBe(2);
+    expect(anthropic.requests).toHaveLength(0);
+  });
+
+  it('should skip a provider whose circuit is open', async () => {
+    const openaiRoute = route(fakeProvider('openai'));
+    for (let i = 0; i < 3; i++) {
+      await openaiRoute.breaker.execute(async () => { throw httpError(500); }).catch(() => undefined);
+    }
+    expect(openaiRoute.breaker.isOpen()).toBe(true);
+
+    const anthropic = fakeProvider('anthropic');
+    const router = new LLMRouter([openaiRoute, route(anthropic)], NO_DELAY);
+
+    expect(router.isAvailable()).toBe(true);
+    const reply = await router.complete(REQUEST);
+
+    expect(reply.provider).toBe('anthropic');
+    expect(router.getMetrics()[0]).toMatchObject({ circuitState: 'OPEN', skipped: 1, requests: 0 });
+  });
+
+  it('should time out a slow provider and move on', async () => {
+    const slow = fakeProvider('openai', { delayMs: 500 });
+    const local = fakeProvider('local');
+    const router = new LLMRouter([route(slow, 20), route(local)], NO_DELAY);
+
+    const reply = await router.complete(REQUEST);
+
+    expect(reply.provider).toBe('local');
+    expect(slow.requests[0].signal?.aborted).toBe(true);
+    expect(router.getMetrics()[0].lastError).toBe('Operation timeout');
+  });
+
+  it('should throw AllProvidersFailedError when nothing answers', async () => {
+    const router = new LLMRouter([
+      route(fakeProvider('openai', { errors: [new Error('down')] })),
+      route(fakeProvider('local', { errors: [new Error('refused')] }))
+    ], NO_DELAY);
+
+    await expect(router.complete(REQUEST)).rejects.toBeInstanceOf(AllProvidersFailedError);
+  });
+
+  it('should not send the tool to a provider without tool calling', async () => {
+    const local = fakeProvider('local', {
+      capabilities: { tools: false },
+      chunks: [{ contentDelta: 'Nouns name things. ' }, { contentDelta: 'Can you name one?' }]
+    });
+    const router = new LLMRouter([route(local)], NO_DELAY);
+
+    const stream = await router.stream(REQUEST);
+    const chunks = await collect(stream.chunks);
+
+    expect(local.requests[0].tool).toBeUndefined();
+    expect(stream.usedTool).toBe(false);
+    expect(chunks.map(chunk => chunk.contentDelta).join('')).toBe('Nouns name things. Can you name one?');
+  });
+
+  it('should emulate a stream with one chunk when the provider cannot stream', async () => {
+    const router = new LLMRouter([route(fakeProvider('anthropic', { capabilities: { streaming: false } }))], NO_DELAY);
+
+    const stream = await router.stream(REQUEST);
+    const chunks = await collect(stream.chunks);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].argumentsDelta).toContain('anthropic here');
+    expect(stream.usedTool).toBe(true);
+  });
+
+  it('should fail a stream over only before its first chunk', async () => {
+    const router = new LLMRouter([
+      route(fakeProvider('openai', { failAfterChunks: 0 })),
+      route(fakeProvider('anthropic', {
+        chunks: [{ argumentsDelta: '{"spoken_text":"Hi' }, { argumentsDelta: ' there"}' }],
+        failAfterChunks: 1
+      })),
+      route(fakeProvider('local'))
+    ], NO_DELAY);
+
+    const stream = await router.stream(REQUEST);
+    expect(stream.provider).toBe('anthropic');
+
+    // Already speaking: the break surfaces to the caller instead of restarting on another provider
+    await expect(collect(stream.chunks)).rejects.toThrow('stream broke');
+    expect(router.getMetrics()[1].failures).toBe(1);
+    expect(router.getMetrics()[2].requests).toBe(0);
+  });
+
+  it('should not fail over after the caller aborts', async () => {
+    const controller = new AbortController();
+    const openai = fakeProvider('openai', { delayMs: 200 });
+    const anthropic = fakeProvider('anthropic');
+    const router = new LLMRouter([route(openai), route(anthropic)], NO_DELAY);
+
+    const pending = router.stream({ ...REQUEST, signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow();
+    expect(anthropic.requests).toHaveLength(0);
+    expect(router.getMetrics()[0].failures).toBe(0);
+  });
+
+  it('should report latency percentiles per provider', async () => {
+    const router = new LLMRouter([route(fakeProvider('openai', { delayMs: 5 }))], NO_DELAY);
+    for (let i = 0; i < 4; i++) await router.complete(REQUEST);
+
+    const [metrics] = router.getMetrics();
+    expect(metrics.latency.samples).toBe(4);
+    expect(metrics.latency.p50Ms).toBeGreaterThan(0);
+    expect(metrics.latency.p95Ms).toBeGreaterThanOrEqual(metrics.latency.p50Ms);
+  });
+});
+
+describe('resolveChatProviderOrder', () => {
+  it('should default to OpenAI followed by the configured providers', () => {
+    expect(resolveChatProviderOrder({})).toEqual(['openai']);
+    expect(resolveChatProviderOrder({ ANTHROPIC_API_KEY: 'key', LOCAL_LLM_BASE_URL: 'http://localhost:11434/v1' }))
+      .toEqual(['openai', 'anthropic', 'local']);
+  });
+
+  it('should follow LLM_PROVIDERS and reject unknown names', () => {
+    expect(resolveChatProviderOrder({ LLM_PROVIDERS: 'local, openai, local' })).toEqual(['local', 'openai']);
+    expect(() => resolveChatProviderOrder({ LLM_PROVIDERS: 'openai,gemini' })).toThrow('Unknown LLM provider: gemini');
+  });
+});
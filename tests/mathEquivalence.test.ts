@@ -0,0 +1,107 @@
+import { describe, it, expect } from '@jest/globals';
+import { answerChecker } from '../server/services/answerChecker';
+import { answerGrader } from '../server/services/answerGrader';
+import { compareMath, parseMath } from '../server/services/mathEquivalence';
+
+function equivalent(expected: string, given: string) {
+  const a = parseMath(expected);
+  const b = parseMath(given);
+  return !!a && !!b && compareMath(a, b) === 'equivalent';
+}
+
+describe('math equivalence', () => {
+  describe('parsing', () => {
+    it('should read mixed numbers, exponents and functions', () => {
+      expect(answerChecker.safeEval('1 1/2')).toBe(1.5);
+      expect(answerChecker.safeEval('2^3 + 1')).toBe(9);
+      expect(answerChecker.safeEval('sqrt(16)')).toBe(4);
+      expect(answerChecker.safeEval('-2^2')).toBe(-4);
+    });
+
+    it('should split units off plain quantities only', () => {
+      expect(parseMath('5 cm')).toMatchObject({ unit: { symbol: 'cm' }, variables: [] });
+      expect(parseMath('12 sq ft')).toMatchObject({ unit: { symbol: 'ft^2' } });
+      expect(parseMath('2m + 1')).toMatchObject({ unit: null, variables: ['m'] });
+    });
+
+    it('should reject words that are not math', () => {
+      expect(parseMath('photosynthesis')).toBeNull();
+      expect(parseMath('x = 1 = 2')).toBeNull();
+    });
+  });
+
+  describe('numeric forms', () => {
+    it('should treat fractions, decimals and mixed numbers as equal values', () => {
+      expect(equivalent('1/2', '0.5')).toBe(true);
+      expect(equivalent('3/2', '1 1/2')).toBe(true);
+      expect(equivalent('0.5', '0.6')).toBe(false);
+    });
+
+    it('should accept a solved equation for a bare value and the reverse', () => {
+      expect(equivalent('3', 'x = 3')).toBe(true);
+      expect(equivalent('x = 3', '3')).toBe(true);
+      expect(equivalent('2x + 1 = 7', 'x = 3')).toBe(true);
+      expect(equivalent('x = 3', 'y = 3')).toBe(false);
+    });
+
+    it('should honour a configured tolerance', () => {
+      const pi = parseMath('3.14159')!;
+      expect(compareMath(pi, parseMath('3.14')!)).toBe('equivalent');
+      expect(compareMath(pi, parseMath('3.14')!, { tolerance: { absolute: 1e-4 } })).toBe('not_equivalent');
+      expect(compareMath(parseMath('1000')!, parseMath('1004')!, { tolerance: { relative: 0.01 } })).toBe('equivalent');
+    });
+  });
+
+  describe('symbolic forms', () => {
+    it('should match reordered and expanded expressions', () => {
+      expect(equivalent('3x+2', '2+3x')).toBe(true);
+      expect(equivalent('2(x + 1)', '2x + 2')).toBe(true);
+      expect(equivalent('(x + 1)^2', 'x^2 + 2x + 1')).toBe(true);
+      expect(equivalent('x*y', 'yx')).toBe(true);
+    });
+
+    it('should reject expressions that differ', () => {
+      expect(equivalent('3x+2', '3x-2')).toBe(false);
+      expect(equivalent('x^2', '2x')).toBe(false);
+      expect(equivalent('3x+2', '5')).toBe(false);
+    });
+
+    it('should match equations that are scaled or rearranged', () => {
+      expect(equivalent('y = 2x + 1', '2x - y + 1 = 0')).toBe(true);
+      expect(equivalent('y = 2x + 1', 'y = 2x - 1')).toBe(false);
+    });
+  });
+
+  describe('units', () => {
+    it('should convert between units of the same kind', () => {
+      expect(equivalent('5 cm', '50 mm')).toBe(true);
+      expect(equivalent('1 l', '1000 ml')).toBe(true);
+      expect(compareMath(parseMath('5 cm')!, parseMath('50 mm')!, { convertUnits: false })).toBe('wrong_unit');
+    });
+
+    it('should flag units of a different kind', () => {
+      expect(compareMath(parseMath('5 cm')!, parseMath('5 kg')!)).toBe('wrong_unit');
+      expect(compareMath(parseMath('5 cm')!, parseMath('5 cm^2')!)).toBe('wrong_unit');
+    });
+
+    it('should apply the unit policy to bare numbers', () => {
+      expect(compareMath(parseMath('5 cm')!, parseMath('5')!)).toBe('equivalent');
+      expect(compareMath(parseMath('5 cm')!, parseMath('5')!, { units: 'required' })).toBe('missing_unit');
+      expect(compareMath(parseMath('0.5')!, parseMath('50%')!)).toBe('equivalent');
+    });
+  });
+
+  describe('through the checker', () => {
+    it('should grade spoken and symbolic answers to math questions', () => {
+      expect(answerChecker.checkAnswer('3x+2', '2 + 3x', 'math').ok).toBe(true);
+      expect(answerChecker.checkAnswer('x = 3', 'x equals three', 'math').ok).toBe(true);
+      expect(answerChecker.checkAnswer('5 cm', '5 centimeters').ok).toBe(true);
+      expect(answerChecker.checkAnswer('9', 'three squared', 'math').ok).toBe(true);
+    });
+
+    it('should give partial credit when a required unit is left off', () => {
+      const verdict = answerGrader.grade({ kind: 'expression', expected: '5 cm', units: 'required' }, '5');
+      expect(verdict).toMatchObject({ correct: false, credit: 0.5, reason: 'missing_unit' });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildPracticeQuiz,
+  generateForSubject,
+  generatePracticeItem,
+  normalizeGradeBand,
+  practiceLevel,
+  PRACTICE_SKILLS,
+  seedFrom,
+  skillsForSubject,
+  toQuizQuestion,
+  type GradeBand,
+  type Difficulty
+} from '../server/services/practiceGenerators';
+import { answerChecker } from '../server/services/answerChecker';
+
+const bands: GradeBand[] = ['k-2', '3-5', '6-8', '9-12', 'college'];
+const difficulties: Difficulty[] = ['easy', 'medium', 'hard'];
+
+describe('Practice Generators', () => {
+  it('should give the same item for the same seed', () => {
+    for (const skill of PRACTICE_SKILLS) {
+      const options = { difficulty: 'medium' as const, gradeBand: '3-5' as const, seed: seedFrom(`session-1:${skill}`) };
+      expect(generatePracticeItem(skill, options)).toEqual(generatePracticeItem(skill, options));
+    }
+  });
+
+  it('should vary items across seeds', () => {
+    const questions = new Set(Array.from({ length: 20 }, (_, i) =>
+      generatePracticeItem('addition', { difficulty: 'easy', gradeBand: 'k-2', seed: i }).question));
+
+    expect(questions.size).toBeGreaterThan(8);
+  });
+
+  it('should grade every generated answer as correct and its distractors as wrong', () => {
+    for (const skill of PRACTICE_SKILLS) {
+      for (const gradeBand of bands) {
+        for (const difficulty of difficulties) {
+          for (let seed = 0; seed < 15; seed++) {
+            const item = generatePracticeItem(skill, { difficulty, gradeBand, seed });
+            const subject = skill === 'spanish-vocab' ? 'spanish' : undefined;
+            const label = `${skill} ${gradeBand} ${difficulty} #${seed}: ${item.question}`;
+
+            expect([label, answerChecker.checkAnswer(item.answer, item.answer, item.questionType, subject).ok]).toEqual([label, true]);
+            expect([label, item.distractors.length > 0]).toEqual([label, true]);
+            expect([label, item.distractors.includes(item.answer)]).toEqual([label, false]);
+          }
+        }
+      }
+    }
+  });
+
+  it('should make harder items for older students and higher difficulty', () => {
+    expect(practiceLevel('k-2', 'easy')).toBe(0);
+    expect(practiceLevel('3-5', 'medium')).toBe(3);
+    expect(practiceLevel('college', 'hard')).toBe(6);
+
+    const largest = (gradeBand: GradeBand, difficulty: Difficulty) => Math.max(...Array.from({ length: 30 }, (_, seed) =>
+      parseInt(generatePracticeItem('addition', { difficulty, gradeBand, seed }).answer, 10)));
+    expect(largest('k-2', 'easy')).toBeLessThanOrEqual(5);
+    expect(largest('9-12', 'hard')).toBeGreaterThan(100);
+  });
+
+  it('should keep multiplication and fractions out of early grades', () => {
+    expect(skillsForSubject('math', 'k-2')).not.toContain('multiplication');
+    expect(skillsForSubject('math', '3-5')).toContain('fractions');
+    expect(skillsForSubject('spanish', 'k-2')).toEqual(['spanish-vocab']);
+    expect(generateForSubject('general', { difficulty: 'easy', gradeBand: 'k-2', seed: 1 })).toBeNull();
+  });
+
+  it('should read grade bands the way student profiles and accounts store them', () => {
+    expect(normalizeGradeBand('K-2')).toBe('k-2');
+    expect(normalizeGradeBand('6-8')).toBe('6-8');
+    expect(normalizeGradeBand('College/Adult')).toBe('college');
+    expect(normalizeGradeBand('grades-9-12')).toBe('9-12');
+    expect(normalizeGradeBand('kindergarten-2')).toBe('k-2');
+    expect(normalizeGradeBand(undefined)).toBe('k-2');
+  });
+
+  it('should not name the answer in a parts of speech hint', () => {
+    for (let seed = 0; seed < 40; seed++) {
+      const item = generatePracticeItem('parts-of-speech', { difficulty: 'hard', gradeBand: '6-8', seed });
+      expect(item.hint.toLowerCase()).not.toContain(item.answer.toLowerCase());
+    }
+  });
+
+  describe('quizzes', () => {
+    it('should put the answer among the options at correctAnswer', () => {
+      const item = generatePracticeItem('spanish-vocab', { difficulty: 'medium', gradeBand: '3-5', seed: 42 });
+      const question = toQuizQuestion(item);
+
+      expect(question.options[question.correctAnswer]).toBe(item.answer);
+      expect(question.options).toHaveLength(item.distractors.length + 1);
+      expect(question.concept).toBe('spanish-vocab');
+    });
+
+    it('should build a reproducible quiz without repeated questions', () => {
+      const options = { difficulty: 'easy' as const, gradeBand: '3-5' as const, seed: 7 };
+      const quiz = buildPracticeQuiz('multiplication', 8, options);
+
+      expect(quiz).toHaveLength(8);
+      expect(new Set(quiz.map(q => q.question)).size).toBe(8);
+      expect(buildPracticeQuiz('multiplication', 8, options)).toEqual(quiz);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from '@jest/globals';
+import { blocksFromPlainText } from '../server/services/documentChunker';
+import { computeAnswer, extractQuestions, requiresSimplestForm, splitOptions } from '../server/services/questionExtractor';
+import { answerChecker } from '../server/services/answerChecker';
+
+describe('questionExtractor', () => {
+  it('should find numbered questions with their page and section', () => {
+    const blocks = [
+      ...blocksFromPlainText('Part A\nAnswer each question.\n1. What is 2 + 2?\n2. 7 x 8 = ____', 1),
+      ...blocksFromPlainText('Part B\n3. Explain why the sky is blue.', 2),
+    ];
+
+    const questions = extractQuestions(blocks);
+
+    expect(questions.map(q => [q.number, q.page, q.section, q.type])).toEqual([
+      ['1', 1, 'Part A', 'math'],
+      ['2', 1, 'Part A', 'math'],
+      ['3', 2, 'Part B', 'open'],
+    ]);
+    expect(questions[0].answer).toBe('4');
+    expect(questions[1]).toMatchObject({ prompt: '7 x 8 = ____', blanks: 1, answer: '56' });
+    expect(questions[2].answer).toBeUndefined();
+  });
+
+  it('should split multiple-choice options from the stem', () => {
+    expect(splitOptions('Which number is even? A) 3 B) 4 C) 5')).toEqual({
+      stem: 'Which number is even?',
+      options: ['3', '4', '5'],
+    });
+    expect(splitOptions('Write a. sentence')).toEqual({ stem: 'Write a. sentence', options: [] });
+  });
+
+  it('should attach option lines and a printed answer key to their question', () => {
+    const blocks = [
+      { text: 'Question 4: Which planet is largest?' },
+      { text: '(a) Mars (b) Jupiter (c) Venus' },
+      { text: 'Answer: B' },
+      { text: 'Great work today!' },
+    ];
+
+    expect(extractQuestions(blocks)).toEqual([{
+      number: '4',
+      page: undefined,
+      section: undefined,
+      prompt: 'Which planet is largest?',
+      type: 'mcq',
+      options: ['Mars', 'Jupiter', 'Venus'],
+      blanks: 0,
+      answer: 'B',
+    }]);
+  });
+
+  it('should classify fill-in-the-blank questions as short answers', () => {
+    const [question] = extractQuestions(blocksFromPlainText('5) The capital of France is ________.'));
+
+    expect(question).toMatchObject({ type: 'short', blanks: 1 });
+  });
+
+  it('should skip numbered lists that are not questions', () => {
+    expect(extractQuestions(blocksFromPlainText('1. Photosynthesis happens in leaves.\n2. Roots take in water.'))).toEqual([]);
+  });
+
+  it('should keep fractions as fractions in computed answers', () => {
+    expect(computeAnswer('Simplify 6/8')).toBe('3/4');
+    expect(computeAnswer('1/2 + 1/4 = ____')).toBe('3/4');
+    expect(computeAnswer('Solve x + 3 = 7')).toBeNull();
+    expect(computeAnswer('Name three mammals')).toBeNull();
+  });
+
+  it('should require lowest terms when the sheet asks to simplify or the key is already simplest', () => {
+    expect(requiresSimplestForm('Simplify 6/8', '3/4')).toBe(true);
+    expect(requiresSimplestForm('1/2 + 1/4 = ____', '3/4')).toBe(true);
+    expect(requiresSimplestForm('Reduce 10/4 to lowest terms', '5/2')).toBe(true);
+    expect(requiresSimplestForm('What is 6 x 7?', '42')).toBe(false);
+    expect(requiresSimplestForm('Write two quarters as a fraction', '2/4')).toBe(false);
+
+    const grade = (reply: string) =>
+      answerChecker.checkAnswer('3/4', reply, 'math', undefined, undefined, requiresSimplestForm('Simplify 6/8', '3/4'));
+    expect(grade('6/8')).toMatchObject({ ok: false, verdict: { reason: 'unsimplified' } });
+    expect(grade('3/4').ok).toBe(true);
+    expect(grade('0.75').ok).toBe(true);
+  });
+});
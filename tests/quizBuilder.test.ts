@@ -0,0 +1,116 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildQuizPrompt,
+  parseGeneratedQuiz,
+  scoreDocumentQuiz,
+  selectQuizSources,
+  type QuizSourceChunk
+} from '../server/services/quizBuilder';
+
+const filler = 'The water cycle moves water between the oceans, the air and the land in a loop that never stops, powered by heat from the sun and by gravity.';
+
+function chunk(index: number, content: string = filler, page?: number): QuizSourceChunk {
+  return { chunkId: `chunk-${index}`, chunkIndex: index, content, metadata: page ? { page } : null };
+}
+
+const sources = [
+  chunk(0, `${filler} Evaporation turns liquid water into vapor when the sun heats it.`, 1),
+  chunk(1, `${filler} Condensation forms clouds as vapor cools high in the sky.`, 2),
+];
+
+describe('Quiz Builder', () => {
+  describe('selectQuizSources', () => {
+    it('should skip chunks too short to ask about', () => {
+      const selected = selectQuizSources([chunk(0, 'Unit 3 Notes'), chunk(1), chunk(2, 'Page 2')]);
+      expect(selected.map(c => c.chunkIndex)).toEqual([1]);
+    });
+
+    it('should spread picks across the whole document', () => {
+      const chunks = Array.from({ length: 30 }, (_, i) => chunk(i));
+      const picked = selectQuizSources(chunks, 5).map(c => c.chunkIndex);
+
+      expect(picked).toEqual([0, 6, 12, 18, 24]);
+    });
+  });
+
+  describe('buildQuizPrompt', () => {
+    it('should label excerpts with citations and ask for the requested mix', () => {
+      const { user } = buildQuizPrompt('Science Notes', sources, { questionCount: 5, shortAnswerCount: 2 });
+
+      expect(user).toContain('[S1] Science Notes p.1');
+      expect(user).toContain('[S2] Science Notes p.2');
+      expect(user).toContain('Write 3 multiple choice and 2 short answer questions');
+    });
+  });
+
+  describe('parseGeneratedQuiz', () => {
+    it('should keep valid questions with their source chunk', () => {
+      const questions = parseGeneratedQuiz({
+        questions: [
+          { type: 'mcq', question: 'What forms clouds?', options: ['Evaporation', 'Condensation', 'Runoff', 'Melting'], correctAnswer: 1, explanation: 'Vapor cools into clouds.', source: 'S2' },
+          { type: 'short', question: 'What heats water so it evaporates?', answer: 'the sun', explanation: 'The sun heats it.', source: 'S1' },
+        ],
+      }, sources, 'Science Notes');
+
+      expect(questions).toHaveLength(2);
+      expect(questions[0].source).toEqual({ chunkId: 'chunk-1', chunkIndex: 1, citation: 'Science Notes p.2' });
+      expect(questions[1]).toMatchObject({ type: 'short', answer: 'the sun', source: { chunkId: 'chunk-0' } });
+    });
+
+    it('should drop malformed, uncited and repeated questions', () => {
+      const valid = { type: 'short', question: 'What heats the water?', answer: 'sun', explanation: 'From the notes.', source: 'S1' };
+      const questions = parseGeneratedQuiz({
+        questions: [
+          valid,
+          { ...valid, question: 'what heats the water' },
+          { ...valid, question: 'Which excerpt?', source: 'S9' },
+          { type: 'mcq', question: 'Pick one', options: ['A', 'A'], correctAnswer: 0, explanation: 'x', source: 'S1' },
+          { type: 'mcq', question: 'Out of range', options: ['A', 'B'], correctAnswer: 2, explanation: 'x', source: 'S1' },
+          { type: 'short', question: 'No key', explanation: 'x', source: 'S1' },
+        ],
+      }, sources, 'Science Notes');
+
+      expect(questions.map(q => q.question)).toEqual(['What heats the water?']);
+      expect(parseGeneratedQuiz(null, sources, 'Science Notes')).toEqual([]);
+    });
+
+    it('should read numeric options and answers as text and skip items of the wrong shape', () => {
+      const questions = parseGeneratedQuiz({
+        questions: [
+          'What year?',
+          { type: 'essay', question: 'Discuss.', explanation: 'x', source: 'S1' },
+          { type: 'short', question: 'How many states of water?', answer: 3, explanation: 'Solid, liquid, gas.', source: 'S1' },
+          { type: 'mcq', question: 'Degrees to boil?', options: [90, 100, 110], correctAnswer: 1, answer: { wrong: true }, explanation: 'At sea level.', source: 'S2' },
+        ],
+      }, sources, 'Science Notes');
+
+      expect(questions.map(q => q.type === 'mcq' ? q.options : q.answer)).toEqual(['3', ['90', '100', '110']]);
+      expect(parseGeneratedQuiz({ questions: 'none' }, sources, 'Science Notes')).toEqual([]);
+    });
+  });
+
+  describe('scoreDocumentQuiz', () => {
+    const questions = parseGeneratedQuiz({
+      questions: [
+        { type: 'mcq', question: 'What forms clouds?', options: ['Evaporation', 'Condensation'], correctAnswer: 1, explanation: 'Vapor cools.', source: 'S2' },
+        { type: 'short', question: 'What heats the water?', answer: 'the sun', explanation: 'The sun heats it.', source: 'S1' },
+        { type: 'short', question: 'How many stages were covered?', answer: '2', explanation: 'Two stages.', source: 'S1' },
+      ],
+    }, sources, 'Science Notes');
+
+    it('should grade option indexes and short answers', () => {
+      const result = scoreDocumentQuiz(questions, { '0': 1, '1': 'The Sun', '2': 'two' });
+
+      expect(result).toMatchObject({ score: 3, totalQuestions: 3, percentage: 100, passed: true });
+    });
+
+    it('should report the answer key and source for missed questions', () => {
+      const result = scoreDocumentQuiz(questions, { '0': 0 });
+
+      expect(result.score).toBe(0);
+      expect(result.passed).toBe(false);
+      expect(result.feedback[0]).toMatchObject({ correct: false, correctAnswer: 'Condensation', citation: 'Science Notes p.2' });
+      expect(result.feedback[1]).toMatchObject({ correct: false, correctAnswer: 'the sun' });
+    });
+  });
+});
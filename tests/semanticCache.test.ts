@@ -0,0 +1,109 @@
+import { describe, it, expect } from '@jest/globals';
+import { SemanticCache, cacheScope, transcriptPairs } from '../server/services/semanticCache';
+import type { EmbeddingProvider } from '../server/services/embeddingProvider';
+
+// Bag-of-words vectors: questions sharing most of their words come out similar
+const VOCABULARY = ['what', 'is', 'a', 'noun', 'verb', 'fraction', 'mean', 'does', 'the', 'word', 'tell', 'me', 'about'];
+
+function fakeEmbedder(): EmbeddingProvider & { calls: number } {
+  return {
+    name: 'local',
+    model: 'fake-bow',
+    calls: 0,
+    async embed(texts: string[]) {
+      this.calls++;
+      const vectors = texts.map(text => {
+        const words = text.toLowerCase().split(/\W+/);
+        return VOCABULARY.map(term => words.filter(word => word === term).length);
+      });
+      return { vectors, tokens: 0 };
+    }
+  };
+}
+
+const k2 = cacheScope('english-1', 'K-2', 'English');
+const grade12 = cacheScope('english-1', 'grades-9-12', 'english');
+
+describe('SemanticCache', () => {
+  it('should serve a differently worded question by embedding similarity', async () => {
+    const cache = new SemanticCache({ embedder: fakeEmbedder(), threshold: 0.8 });
+    await cache.set(k2, 'What is a noun?', 'A noun names a person, place or thing. Can you name one?', 'english');
+
+    expect((await cache.get(k2, 'Um, what is a noun?'))?.content).toContain('A noun names');
+    expect((await cache.get(k2, 'tell me what a noun is'))?.content).toContain('A noun names');
+    expect(await cache.get(k2, 'What is a verb?')).toBeNull();
+    expect(cache.getMetrics().semanticHits).toBe(1);
+  });
+
+  it('should only reuse an answer when the numbers and operators match', async () => {
+    const cache = new SemanticCache({ embedder: fakeEmbedder(), threshold: 0.8 });
+    await cache.set(k2, 'What is 3 + 4?', 'It is 7!', 'math');
+
+    expect(await cache.get(k2, 'What is 3 - 4?')).toBeNull();
+    expect(await cache.get(k2, 'What is 3 × 4?')).toBeNull();
+    expect(await cache.get(k2, 'What is 5 + 4?')).toBeNull();
+    expect((await cache.get(k2, 'what is three plus four'))?.content).toBe('It is 7!');
+  });
+
+  it('should not share answers across grade bands or languages', async () => {
+    const cache = new SemanticCache({ embedder: fakeEmbedder(), threshold: 0.8 });
+    await cache.set(k2, 'What is a noun?', 'A noun is a naming word!', 'english');
+
+    expect(await cache.get(grade12, 'What is a noun?')).toBeNull();
+    expect(await cache.get(cacheScope('english-1', 'k-2', 'spanish'), 'What is a noun?')).toBeNull();
+    expect(await cache.get(cacheScope('english-1', undefined, 'english'), 'What is a noun?')).toBeNull();
+    expect(k2).toEqual({ lessonId: 'english-1', gradeBand: 'k-2', language: 'english' });
+  });
+
+  it('should fall back to exact matches when embedding fails', async () => {
+    const failing: EmbeddingProvider = {
+      name: 'openai',
+      model: 'broken',
+      async embed() { throw new Error('no key'); }
+    };
+    const cache = new SemanticCache({ embedder: failing });
+    await cache.set(k2, 'What is a noun?', 'A naming word.', 'english');
+
+    expect((await cache.get(k2, 'WHAT is a noun?'))?.content).toBe('A naming word.');
+    expect(await cache.get(k2, 'tell me what a noun is')).toBeNull();
+  });
+
+  it('should reuse the lookup embedding when the answer is stored', async () => {
+    const embedder = fakeEmbedder();
+    const cache = new SemanticCache({ embedder });
+    await cache.set(k2, 'What is a noun?', 'A naming word.', 'english');
+    const callsAfterFirstSet = embedder.calls;
+
+    await cache.get(k2, 'What does fraction mean?');
+    await cache.set(k2, 'What does fraction mean?', 'A part of a whole.', 'math');
+
+    expect(embedder.calls).toBe(callsAfterFirstSet + 1);
+  });
+
+  it('should purge by scope and invalidate a lesson', async () => {
+    const cache = new SemanticCache({ embedder: null });
+    await cache.set(k2, 'What is a noun?', 'k2 answer', 'english');
+    await cache.set(grade12, 'What is a noun?', '12 answer', 'english');
+    await cache.set(cacheScope('math-1', 'k-2', 'english'), 'What is a fraction?', 'math answer', 'math');
+
+    expect(cache.inspect({ lessonId: 'english-1' }).map(entry => entry.content).sort()).toEqual(['12 answer', 'k2 answer']);
+    expect(cache.purge({ gradeBand: '9-12' })).toBe(1);
+    expect(cache.invalidateLesson('english-1')).toBe(1);
+    expect(cache.inspect().map(entry => entry.content)).toEqual(['math answer']);
+  });
+
+  it('should warm from transcript question and reply pairs', async () => {
+    const cache = new SemanticCache({ embedder: fakeEmbedder(), threshold: 0.8 });
+    const pairs = transcriptPairs([
+      { timestamp: 1, speaker: 'tutor', content: 'What would you like to learn?' },
+      { timestamp: 2, speaker: 'user', content: 'What does noun mean?' },
+      { timestamp: 3, speaker: 'tutor', content: 'A noun names a thing. Can you name one?' },
+      { timestamp: 4, speaker: 'user', content: 'dog' },
+      { timestamp: 5, speaker: 'tutor', content: 'Great! Dog is a noun.' },
+    ]);
+
+    expect(pairs).toEqual([{ question: 'What does noun mean?', response: 'A noun names a thing. Can you name one?' }]);
+    expect(await cache.warmUp(k2, pairs.map(pair => ({ ...pair, subject: 'english' })))).toBe(1);
+    expect((await cache.get(k2, 'what does the word noun mean'))?.content).toContain('A noun names');
+  });
+});
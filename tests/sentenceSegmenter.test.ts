@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import { SentenceSegmenter } from '../server/services/sentenceSegmenter';
+
+// Feeds the text a few characters at a time, the way model tokens arrive
+function segment(text: string, size = 3, segmenter = new SentenceSegmenter()): string[] {
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    pieces.push(...segmenter.push(text.slice(i, i + size)));
+  }
+  return pieces.concat(segmenter.flush());
+}
+
+describe('SentenceSegmenter', () => {
+  it('should emit each sentence as soon as it closes', () => {
+    const segmenter = new SentenceSegmenter();
+
+    expect(segmenter.push('Great job! What is')).toEqual(['Great job!']);
+    expect(segmenter.push(' 3 + 4?')).toEqual([]);
+    expect(segmenter.push(' ')).toEqual(['What is 3 + 4?']);
+    expect(segmenter.flush()).toEqual([]);
+  });
+
+  it('should not split decimals, abbreviations or ellipses', () => {
+    expect(segment('Dr. Lee measured 3.5 cups... Then what? "Really!" she said.')).toEqual([
+      'Dr. Lee measured 3.5 cups...',
+      'Then what?',
+      '"Really!"',
+      'she said.'
+    ]);
+  });
+
+  it('should cut long sentences at clause breaks but keep short clauses together', () => {
+    expect(segment('So, if you had twelve apples and gave five of them away, how many would be left?')).toEqual([
+      'So, if you had twelve apples and gave five of them away,',
+      'how many would be left?'
+    ]);
+    expect(segment('Yes, 3,000 is right.')).toEqual(['Yes, 3,000 is right.']);
+  });
+
+  it('should give back unfinished text on flush', () => {
+    expect(segment('Count with me\none, two, three')).toEqual(['Count with me', 'one, two, three']);
+  });
+});
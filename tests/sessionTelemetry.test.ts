@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import { TelemetryManager, hashShareToken } from '../server/services/sessionTelemetry';
+import { InMemoryTranscriptStore } from '../server/services/transcriptStore';
+
+describe('TelemetryManager', () => {
+  const seed = async (manager: TelemetryManager) => {
+    await manager.ensureSession('s1', 'u1');
+    await manager.addTranscriptEntry('s1', { speaker: 'user', content: 'My email is kid@example.com', topic: 'math' });
+    await manager.addTranscriptEntry('s1', { speaker: 'tutor', content: 'What is 2 + 3?', topic: 'math' });
+  };
+
+  it('should resume a transcript from the store after a restart', async () => {
+    const store = new InMemoryTranscriptStore();
+    await seed(new TelemetryManager(store));
+
+    const restarted = new TelemetryManager(store);
+    const session = await restarted.ensureSession('s1', 'u1');
+    await restarted.addTranscriptEntry('s1', { speaker: 'user', content: '5' });
+
+    expect(session?.topics).toEqual(['math']);
+    expect((await store.getEntries('s1')).map(e => e.sequence)).toEqual([0, 1, 2]);
+    expect((await restarted.getTranscript('s1')).map(e => e.content)).toEqual([
+      'My email is kid@example.com', 'What is 2 + 3?', '5'
+    ]);
+  });
+
+  it('should not hand a session to another user', async () => {
+    const store = new InMemoryTranscriptStore();
+    const manager = new TelemetryManager(store);
+    await seed(manager);
+
+    expect(await manager.ensureSession('s1', 'u2')).toBeNull();
+    expect(await new TelemetryManager(store).ensureSession('s1', 'u2')).toBeNull();
+    expect((await manager.ensureSession('s1', 'u1'))?.totalInteractions).toBe(2);
+  });
+
+  it('should store only the hash of share tokens', async () => {
+    const store = new InMemoryTranscriptStore();
+    const manager = new TelemetryManager(store);
+    await seed(manager);
+
+    const share = await manager.generateShareToken('s1', 'u1');
+
+    expect(share).not.toBeNull();
+    expect(await store.findShareByHash(share!.token)).toBeUndefined();
+    expect(await store.findShareByHash(hashShareToken(share!.token))).toBeDefined();
+  });
+
+  it('should not let another user share a session', async () => {
+    const manager = new TelemetryManager(new InMemoryTranscriptStore());
+    await seed(manager);
+
+    expect(await manager.generateShareToken('s1', 'u2')).toBeNull();
+  });
+
+  it('should serve a redacted transcript and count accesses', async () => {
+    const store = new InMemoryTranscriptStore();
+    const manager = new TelemetryManager(store);
+    await seed(manager);
+
+    const share = await manager.generateShareToken('s1', 'u1');
+    const transcript = await manager.generateShareableTranscript('s1', share!.token);
+    await manager.generateShareableTranscript('s1', share!.token);
+
+    expect(transcript).toContain('[EMAIL_REDACTED]');
+    expect(transcript).toContain('What is 2 + 3?');
+    expect((await store.findShareByHash(hashShareToken(share!.token)))?.accessCount).toBe(2);
+  });
+
+  it('should reject expired, revoked, and mismatched tokens', async () => {
+    const manager = new TelemetryManager(new InMemoryTranscriptStore());
+    await seed(manager);
+
+    const expired = await manager.generateShareToken('s1', 'u1', -1000);
+    const revoked = await manager.generateShareToken('s1', 'u1');
+    await manager.revokeShareToken(revoked!.shareId, 'u1');
+    const valid = await manager.generateShareToken('s1', 'u1');
+
+    expect(await manager.generateShareableTranscript('s1', expired!.token)).toBe('');
+    expect(await manager.generateShareableTranscript('s1', revoked!.token)).toBe('');
+    expect(await manager.generateShareableTranscript('other', valid!.token)).toBe('');
+    expect(await manager.generateShareableTranscript('s1', 'not-a-token')).toBe('');
+  });
+
+  it('should only let the creator revoke a share', async () => {
+    const manager = new TelemetryManager(new InMemoryTranscriptStore());
+    await seed(manager);
+
+    const share = await manager.generateShareToken('s1', 'u1');
+
+    expect(await manager.revokeShareToken(share!.shareId, 'u2')).toBe(false);
+    expect(await manager.revokeShareToken(share!.shareId, 'u1')).toBe(true);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { INITIAL_SCHEDULE, interleaveByLesson, qualityFromOutcome, scheduleReview } from '../server/services/spacedRepetition';
+
+describe('scheduleReview', () => {
+  const now = new Date('2025-01-01T00:00:00Z');
+  const daysFromNow = (date: Date) => (date.getTime() - now.getTime()) / (24 * 60 * 60 * 1000);
+
+  it('should grow the interval 1 → 6 → interval × ease on successful recalls', () => {
+    const first = scheduleReview(INITIAL_SCHEDULE, 4, now);
+    const second = scheduleReview(first, 4, now);
+    const third = scheduleReview(second, 4, now);
+
+    expect([first.intervalDays, second.intervalDays, third.intervalDays]).toEqual([1, 6, 15]);
+    expect(daysFromNow(third.dueAt)).toBe(15);
+  });
+
+  it('should bring a missed item back the next day and count the lapse', () => {
+    const learned = scheduleReview(scheduleReview(INITIAL_SCHEDULE, 4, now), 4, now);
+    const missed = scheduleReview(learned, qualityFromOutcome('incorrect'), now);
+
+    expect(missed.repetitions).toBe(0);
+    expect(missed.intervalDays).toBe(1);
+    expect(missed.lapses).toBe(1);
+    expect(missed.easeFactor).toBeLessThan(learned.easeFactor);
+  });
+
+  it('should never drop the ease factor below 1.3', () => {
+    let schedule = { ...INITIAL_SCHEDULE };
+    for (let i = 0; i < 20; i++) {
+      schedule = scheduleReview(schedule, 0, now);
+    }
+    expect(schedule.easeFactor).toBe(1.3);
+  });
+});
+
+describe('interleaveByLesson', () => {
+  it('should alternate lessons while keeping each lesson\'s order', () => {
+    const items = [
+      { lessonId: 'math', id: 1 },
+      { lessonId: 'math', id: 2 },
+      { lessonId: 'math', id: 3 },
+      { lessonId: 'spanish', id: 4 },
+    ];
+
+    expect(interleaveByLesson(items).map(i => i.id)).toEqual([1, 4, 2, 3]);
+  });
+});
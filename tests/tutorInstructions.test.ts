@@ -0,0 +1,87 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  compileInstructions,
+  describeDueDate,
+  hasInstructions,
+  mergeInstructions,
+  parseNumberRanges
+} from '../server/services/tutorInstructions';
+
+// Monday, Oct 20 2025, mid-morning local time
+const now = new Date(2025, 9, 20, 10, 30);
+
+describe('Tutor Instructions', () => {
+  describe('mergeInstructions', () => {
+    it('should let the pin override the document field by field', () => {
+      const merged = mergeInstructions(
+        { answerPolicy: 'answers', focusPages: '2-3', notes: 'Show steps' },
+        { answerPolicy: 'hints', focusPages: '', notes: undefined }
+      );
+
+      expect(merged).toEqual({ answerPolicy: 'hints', focusPages: '2-3', notes: 'Show steps' });
+    });
+
+    it('should treat missing and blank layers as no instructions', () => {
+      expect(mergeInstructions(null, undefined)).toEqual({});
+      expect(hasInstructions({ notes: '' })).toBe(false);
+      expect(hasInstructions({ dueDate: '2025-10-24' })).toBe(true);
+    });
+  });
+
+  describe('parseNumberRanges', () => {
+    it('should expand ranges and lists', () => {
+      expect(parseNumberRanges('5-10, 12')).toEqual([5, 6, 7, 8, 9, 10, 12]);
+      expect(parseNumberRanges('3 to 1 and 7; 7')).toEqual([1, 2, 3, 7]);
+    });
+
+    it('should ignore labels that are not plain numbers', () => {
+      expect(parseNumberRanges('4b, odd ones')).toEqual([]);
+    });
+  });
+
+  describe('describeDueDate', () => {
+    it('should say how far away the due date is', () => {
+      expect(describeDueDate('2025-10-20', now)).toBe('Monday, Oct 20 (today)');
+      expect(describeDueDate('2025-10-21', now)).toBe('Tuesday, Oct 21 (tomorrow)');
+      expect(describeDueDate('2025-10-24', now)).toBe('Friday, Oct 24 (in 4 days)');
+      expect(describeDueDate('2025-10-18', now)).toBe('Saturday, Oct 18 (2 days ago)');
+    });
+  });
+
+  describe('compileInstructions', () => {
+    it('should compile every instruction into a prompt line', () => {
+      const lines = compileInstructions({
+        answerPolicy: 'hints',
+        focusProblems: '5-10',
+        focusPages: '2',
+        dueDate: '2025-10-24',
+        notes: 'Rushes through word problems',
+      }, { now });
+
+      expect(lines).toHaveLength(5);
+      expect(lines[0]).toContain('Do NOT give answers');
+      expect(lines[1]).toContain('Work only on problems 5-10');
+      expect(lines[2]).toBe('Stick to page 2 of this document.');
+      expect(lines[3]).toContain('due Friday, Oct 24 (in 4 days)');
+      expect(lines[4]).toBe("Parent's note: Rushes through word problems");
+    });
+
+    it('should tell the tutor to only check work under the check policy', () => {
+      const [rule] = compileInstructions({ answerPolicy: 'check' });
+
+      expect(rule).toContain('Only check answers the student gives you');
+    });
+
+    it('should not pressure the student once the due date has passed', () => {
+      const [line] = compileInstructions({ dueDate: '2025-10-17' }, { now });
+
+      expect(line).toContain('was due');
+      expect(line).toContain('without adding pressure');
+    });
+
+    it('should return no lines without instructions', () => {
+      expect(compileInstructions(null)).toEqual([]);
+      expect(compileInstructions({ notes: '' })).toEqual([]);
+    });
+  });
+});
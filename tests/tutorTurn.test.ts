@@ -0,0 +1,133 @@
+import { describe, it, expect } from '@jest/globals';
+import { isQuestionSpoken, parseTutorTurn, SpokenTextReader } from '../server/services/tutorTurn';
+import { answerChecker } from '../server/services/answerChecker';
+
+describe('Tutor Turn', () => {
+  describe('parseTutorTurn', () => {
+    it('should read a gradeable question from the tool arguments', () => {
+      const turn = parseTutorTurn(JSON.stringify({
+        goal: 'Practice addition',
+        plan: ['Ask a sum'],
+        spoken_text: 'Nice work on the last one. What is 3 + 4?',
+        question: 'What is 3 + 4?',
+        expected_answers: [7, 'seven', '7'],
+        answer_kind: 'math',
+        hints: ['Start at 3 and count up four more.', 'Try counting on your fingers.'],
+      }));
+
+      expect(turn).toEqual({
+        spokenText: 'Nice work on the last one. What is 3 + 4?',
+        question: 'What is 3 + 4?',
+        expectedAnswers: ['7'],
+        answerKind: 'math',
+        options: undefined,
+        hints: ['Start at 3 and count up four more.', 'Try counting on your fingers.'],
+      });
+    });
+
+    it('should store multiple choice answers as the option text', () => {
+      const turn = parseTutorTurn({
+        spoken_text: 'Which is a mammal: a shark, a whale or a trout?',
+        question: 'Which is a mammal: a shark, a whale or a trout?',
+        expected_answers: ['B'],
+        answer_kind: 'mcq',
+        options: ['a shark', 'a whale', 'a trout'],
+      });
+
+      expect(turn?.expectedAnswers).toEqual(['a whale']);
+      expect(turn?.options).toEqual(['a shark', 'a whale', 'a trout']);
+    });
+
+    it('should keep a numeric key on the option with that text', () => {
+      const turn = parseTutorTurn({
+        spoken_text: 'Which is a prime number: 3, 5 or 8?',
+        question: 'Which is a prime number: 3, 5 or 8?',
+        expected_answers: ['3'],
+        answer_kind: 'mcq',
+        options: ['3', '5', '8'],
+      });
+
+      expect(turn?.expectedAnswers).toEqual(['3']);
+      expect(answerChecker.checkAnswer(turn!.expectedAnswers[0], '3', 'mcq', undefined, turn!.options).ok).toBe(true);
+      expect(answerChecker.checkAnswer(turn!.expectedAnswers[0], '8', 'mcq', undefined, turn!.options).ok).toBe(false);
+    });
+
+    it('should drop a question it could not grade but keep the spoken text', () => {
+      const noOptions = parseTutorTurn({
+        spoken_text: 'Which one is a mammal?',
+        question: 'Which one is a mammal?',
+        expected_answers: ['whale'],
+        answer_kind: 'mcq',
+      });
+      const notSpoken = parseTutorTurn({
+        spoken_text: 'Great job today!',
+        question: 'What is 2 + 2?',
+        expected_answers: ['4'],
+        answer_kind: 'math',
+      });
+      const noAnswer = parseTutorTurn({
+        spoken_text: 'What would you like to practice?',
+        question: 'What would you like to practice?',
+        answer_kind: 'open',
+      });
+
+      for (const turn of [noOptions, notSpoken, noAnswer]) {
+        expect(turn).not.toBeNull();
+        expect(turn?.question).toBeUndefined();
+        expect(turn?.expectedAnswers).toEqual([]);
+      }
+      expect(notSpoken?.spokenText).toBe('Great job today!');
+    });
+
+    it('should drop hints that give the answer away', () => {
+      const turn = parseTutorTurn({
+        spoken_text: 'What is the opposite of hot?',
+        question: 'What is the opposite of hot?',
+        expected_answers: ['cold'],
+        answer_kind: 'short',
+        hints: ['Think about winter.', 'It rhymes with bold: cold!', 'Ice feels this way.', 'Snow is this.'],
+      });
+
+      expect(turn?.hints).toEqual(['Think about winter.', 'Ice feels this way.', 'Snow is this.']);
+    });
+
+    it('should reject arguments with nothing to say', () => {
+      expect(parseTutorTurn('not json')).toBeNull();
+      expect(parseTutorTurn({ spoken_text: '   ' })).toBeNull();
+      expect(parseTutorTurn({ question: 'What is 2 + 2?' })).toBeNull();
+    });
+  });
+
+  describe('isQuestionSpoken', () => {
+    it('should ignore case and punctuation changes from the guardrails', () => {
+      expect(isQuestionSpoken('What is 3 + 4?', "Let's try one. what is 3 + 4 ?")).toBe(true);
+      expect(isQuestionSpoken('What is 3 + 4?', 'What do you think?')).toBe(false);
+    });
+  });
+
+  describe('SpokenTextReader', () => {
+    it('should read spoken_text out of arguments that are still streaming', () => {
+      const args = JSON.stringify({
+        goal: 'Say "hi" first',
+        spoken_text: 'She said "¡hola!"\nWhat is 3 + 4?',
+        question: 'What is 3 + 4?',
+      }).replace('¡', '\\u00a1');
+      const reader = new SpokenTextReader();
+
+      let spoken = '';
+      for (let i = 0; i < args.length; i += 4) {
+        spoken += reader.push(args.slice(i, i + 4));
+      }
+
+      expect(spoken).toBe('She said "¡hola!"\nWhat is 3 + 4?');
+    });
+
+    it('should wait for a split escape sequence', () => {
+      const reader = new SpokenTextReader();
+
+      expect(reader.push('{"spoken_text": "Yes\\')).toBe('Yes');
+      expect(reader.push('u00e9')).toBe('é');
+      expect(reader.push('!"}')).toBe('!');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as net from 'net';
+import type { AddressInfo } from 'net';
+import {
+  ClamAvScanner,
+  decodeText,
+  detectFileType,
+  UploadRejectedError,
+  UploadScreeningService,
+  verifyUpload,
+  type MalwareScanner
+} from '../server/services/uploadScreening';
+import { classifyTextLocally } from '../server/services/contentSafety';
+
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(32)]);
+const JPEG = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.alloc(32)]);
+const HEIC = Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from('ftypheic'), Buffer.alloc(16)]);
+const DOCX = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.alloc(26), Buffer.from('word/document.xml')]);
+
+/**
+ * Speaks enough of clamd's INSTREAM protocol to stand in for ClamAV: reads
+ * length-prefixed chunks and reports the EICAR test signature.
+ */
+function startFakeClamd(): Promise<{ server: net.Server; port: number }> {
+  const server = net.createServer(socket => {
+    let received = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      received = Buffer.concat([received, chunk]);
+      const command = 'zINSTREAM\0';
+      let offset = command.length;
+      const payload: Buffer[] = [];
+      while (offset + 4 <= received.length) {
+        const length = received.readUInt32BE(offset);
+        if (length === 0) {
+          const infected = Buffer.concat(payload).toString('latin1').includes('EICAR-STANDARD-ANTIVIRUS-TEST-FILE');
+          socket.end(infected ? 'stream: Eicar-Test-Signature FOUND\0' : 'stream: OK\0');
+          return;
+        }
+        if (offset + 4 + length > received.length) return;
+        payload.push(received.subarray(offset + 4, offset + 4 + length));
+        offset += 4 + length;
+      }
+    });
+  });
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, port: (server.address() as AddressInfo).port }));
+  });
+}
+
+describe('Upload Screening', () => {
+  describe('detectFileType', () => {
+    it('should identify supported formats by their magic bytes', () => {
+      expect(detectFileType(Buffer.from('%PDF-1.7\n'))).toBe('pdf');
+      expect(detectFileType(PNG)).toBe('png');
+      expect(detectFileType(JPEG)).toBe('jpeg');
+      expect(detectFileType(HEIC)).toBe('heic');
+      expect(detectFileType(DOCX)).toBe('docx');
+      expect(detectFileType(Buffer.from('Question 1: What is 2 + 2?'))).toBe('txt');
+    });
+
+    it('should not treat binaries or other ZIPs as supported', () => {
+      expect(detectFileType(Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03]))).toBeNull(); // Windows executable
+      expect(detectFileType(Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from('payload.exe')]))).toBeNull();
+      expect(detectFileType(Buffer.from([0xc3, 0x28, 0x01, 0x02, 0x1b]))).toBeNull(); // invalid UTF-8 with control bytes
+    });
+
+    it('should read UTF-16 and Latin-1 text files as text', () => {
+      const utf16le = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Question 1: ¿Qué hora es?', 'utf16le')]);
+      const utf16be = Buffer.from(utf16le.subarray(2)).swap16();
+      const latin1 = Buffer.from('Café notes: 3 × 4', 'latin1');
+
+      expect(detectFileType(utf16le)).toBe('txt');
+      expect(detectFileType(Buffer.concat([Buffer.from([0xfe, 0xff]), utf16be]))).toBe('txt');
+      expect(detectFileType(latin1)).toBe('txt');
+      expect(decodeText(utf16le)).toBe('Question 1: ¿Qué hora es?');
+      expect(decodeText(Buffer.concat([Buffer.from([0xfe, 0xff]), utf16be]))).toBe('Question 1: ¿Qué hora es?');
+      expect(decodeText(latin1)).toBe('Café notes: 3 × 4');
+      expect(decodeText(Buffer.from('Café', 'utf-8'))).toBe('Café');
+    });
+  });
+
+  describe('verifyUpload', () => {
+    it('should accept files whose contents match the extension', () => {
+      expect(verifyUpload(JPEG, 'jpg')).toBeNull();
+      expect(verifyUpload(HEIC, 'heif')).toBeNull();
+      expect(verifyUpload(DOCX, 'docx')).toBeNull();
+    });
+
+    it('should reject renamed, empty and oversized files', () => {
+      expect(verifyUpload(Buffer.from([0x4d, 0x5a, 0x90, 0x00]), 'pdf')).toContain("don't match");
+      expect(verifyUpload(PNG, 'txt')).toContain("don't match");
+      expect(verifyUpload(Buffer.alloc(0), 'txt')).toBe('The file is empty');
+      expect(verifyUpload(Buffer.alloc(2 * 1024 * 1024, 'a'), 'txt')).toContain('at most 1 MB');
+    });
+  });
+
+  describe('malware scanning', () => {
+    let clamd: { server: net.Server; port: number };
+
+    beforeAll(async () => {
+      clamd = await startFakeClamd();
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => clamd.server.close(resolve));
+    });
+
+    it('should report the signature ClamAV finds', async () => {
+      const scanner = new ClamAvScanner('127.0.0.1', clamd.port);
+
+      expect(await scanner.scan(Buffer.from('Homework: show your work.'))).toEqual({ clean: true });
+      expect(await scanner.scan(Buffer.from(EICAR))).toEqual({ clean: false, signature: 'Eicar-Test-Signature' });
+    });
+
+    it('should reject infected uploads with 422', async () => {
+      const service = new UploadScreeningService(new ClamAvScanner('127.0.0.1', clamd.port));
+
+      await expect(service.screen(Buffer.from('Chapter 3 reading'), 'txt')).resolves.toBeUndefined();
+      const error = await service.screen(Buffer.from(EICAR), 'txt').catch(e => e);
+      expect(error).toBeInstanceOf(UploadRejectedError);
+      expect(error.statusCode).toBe(422);
+    });
+
+    it('should fail closed with 503 when the scanner is unavailable', async () => {
+      const broken: MalwareScanner = {
+        name: 'clamav',
+        scan: async () => { throw new Error('connect ECONNREFUSED'); },
+      };
+      const error = await new UploadScreeningService(broken).screen(Buffer.from('notes'), 'txt').catch(e => e);
+
+      expect(error).toBeInstanceOf(UploadRejectedError);
+      expect(error.statusCode).toBe(503);
+    });
+
+    it('should reject mismatched files before scanning them', async () => {
+      let scanned = false;
+      const scanner: MalwareScanner = { name: 'none', scan: async () => { scanned = true; return { clean: true }; } };
+      const error = await new UploadScreeningService(scanner).screen(PNG, 'pdf').catch(e => e);
+
+      expect(error.statusCode).toBe(400);
+      expect(scanned).toBe(false);
+    });
+  });
+
+  describe('classifyTextLocally', () => {
+    it('should pass ordinary coursework', () => {
+      const history = 'World War II ended in 1945. Students should explain why the bombing of Pearl Harbor drew the US into the war.';
+      expect(classifyTextLocally(history)).toEqual({ flagged: false, categories: [] });
+    });
+
+    it('should flag explicit content with its categories', () => {
+      const result = classifyTextLocally('Step one of how to make a pipe bomb. Also see these nude pics.');
+
+      expect(result.flagged).toBe(true);
+      expect(result.categories).toEqual(['sexual', 'violence']);
+      expect(result.reason).toContain('sexual, violence');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from '@jest/globals';
+import { InMemoryVectorIndex, cosineSimilarity, padVector } from '../server/services/vector-index';
+
+describe('InMemoryVectorIndex', () => {
+  const seed = async (index: InMemoryVectorIndex) => {
+    await index.upsert({ chunkId: 'c1', documentId: 'd1', userId: 'u1', embedding: [1, 0, 0] });
+    await index.upsert({ chunkId: 'c2', documentId: 'd1', userId: 'u1', embedding: [0.8, 0.6, 0] });
+    await index.upsert({ chunkId: 'c3', documentId: 'd2', userId: 'u1', embedding: [0, 1, 0] });
+    await index.upsert({ chunkId: 'c4', documentId: 'd3', userId: 'u2', embedding: [1, 0, 0] });
+  };
+
+  it('should return top-K matches sorted by similarity', async () => {
+    const index = new InMemoryVectorIndex();
+    await seed(index);
+
+    const results = await index.search({ userId: 'u1', embedding: [1, 0, 0], topK: 2, threshold: 0 });
+
+    expect(results.map(r => r.chunkId)).toEqual(['c1', 'c2']);
+    expect(results[0].similarity).toBeCloseTo(1);
+    expect(results[1].similarity).toBeCloseTo(0.8);
+  });
+
+  it('should apply the similarity threshold', async () => {
+    const index = new InMemoryVectorIndex();
+    await seed(index);
+
+    const results = await index.search({ userId: 'u1', embedding: [1, 0, 0], topK: 10, threshold: 0.9 });
+    expect(results.map(r => r.chunkId)).toEqual(['c1']);
+  });
+
+  it('should never return another user\'s chunks', async () => {
+    const index = new InMemoryVectorIndex();
+    await seed(index);
+
+    const results = await index.search({ userId: 'u2', embedding: [1, 0, 0], topK: 10, threshold: 0 });
+    expect(results.map(r => r.chunkId)).toEqual(['c4']);
+  });
+
+  it('should filter by document IDs', async () => {
+    const index = new InMemoryVectorIndex();
+    await seed(index);
+
+    const results = await index.search({ userId: 'u1', embedding: [1, 0, 0], topK: 10, threshold: 0, documentIds: ['d2'] });
+    expect(results.map(r => r.chunkId)).toEqual(['c3']);
+  });
+
+  it('should drop vectors when their document is removed', async () => {
+    const index = new InMemoryVectorIndex();
+    await seed(index);
+
+    await index.removeDocument('d1');
+    const results = await index.search({ userId: 'u1', embedding: [1, 0, 0], topK: 10, threshold: 0 });
+    expect(results.map(r => r.chunkId)).toEqual(['c3']);
+  });
+
+  it('should lazily hydrate a user from the loader once', async () => {
+    let loads = 0;
+    const index = new InMemoryVectorIndex(async (userId) => {
+      loads++;
+      return [{ chunkId: 'c9', documentId: 'd9', userId, embedding: [0, 0, 1] }];
+    });
+
+    await index.search({ userId: 'u1', embedding: [0, 0, 1], topK: 5, threshold: 0.5 });
+    const results = await index.search({ userId: 'u1', embedding: [0, 0, 1], topK: 5, threshold: 0.5 });
+
+    expect(loads).toBe(1);
+    expect(results.map(r => r.chunkId)).toEqual(['c9']);
+  });
+
+  it('should only compare vectors from the query\'s model', async () => {
+    const index = new InMemoryVectorIndex();
+    await index.upsert({ chunkId: 'c1', documentId: 'd1', userId: 'u1', embedding: [1, 0, 0], model: 'text-embedding-3-small' });
+    await index.upsert({ chunkId: 'c1', documentId: 'd1', userId: 'u1', embedding: [1, 0, 0], model: 'all-MiniLM-L6-v2' });
+    await index.upsert({ chunkId: 'c2', documentId: 'd1', userId: 'u1', embedding: [0.8, 0.6, 0], model: 'all-MiniLM-L6-v2' });
+
+    const results = await index.search({ userId: 'u1', embedding: [1, 0, 0], model: 'all-MiniLM-L6-v2', topK: 10, threshold: 0 });
+    expect(results.map(r => r.chunkId)).toEqual(['c1', 'c2']);
+
+    const openai = await index.search({ userId: 'u1', embedding: [1, 0, 0], model: 'text-embedding-3-small', topK: 10, threshold: 0 });
+    expect(openai.map(r => r.chunkId)).toEqual(['c1']);
+  });
+});
+
+describe('padVector', () => {
+  it('should zero-pad narrower vectors without changing similarity', () => {
+    const padded = padVector([0.6, 0.8], 4)!;
+    expect(padded).toEqual([0.6, 0.8, 0, 0]);
+    expect(cosineSimilarity(padded, padVector([1, 0], 4)!)).toBeCloseTo(0.6);
+  });
+
+  it('should reject vectors wider than the column', () => {
+    expect(padVector([1, 0, 0], 2)).toBeNull();
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should return 0 for zero vectors instead of NaN', () => {
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+
+  it('should reject vectors of different lengths', () => {
+    expect(() => cosineSimilarity([1, 0], [1, 0, 0])).toThrow();
+  });
+});